@@ -0,0 +1,101 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const db = require('../database');
+
+// Server-side sessions for the admin panel. POST /api/admin/login checks the credentials of
+// admin_config (or data/config.json) and returns a random token; routes that reach other hosts
+// or rewrite stored data require it as "Authorization: Bearer <token>".
+
+const SESSION_TTL_MS = (parseFloat(process.env.ADMIN_SESSION_HOURS) || 12) * 60 * 60 * 1000;
+const DEFAULT_USERNAME = 'admin';
+const DEFAULT_PASSWORD_HASH = '8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918'; // "admin" - SHA-256 hashed
+
+// token -> expiry timestamp
+const sessions = new Map();
+
+// Same sources as GET /api/admin: database, then the fallback file, then the defaults
+const getAdminCredentials = async () => {
+  const storage = db.getDbConnection();
+  if (storage) {
+    const [rows] = await storage.query('SELECT username, password_hash FROM admin_config WHERE id = 1');
+    if (rows.length > 0) {
+      return { username: rows[0].username, passwordHash: rows[0].password_hash };
+    }
+  } else {
+    const configPath = path.join(__dirname, '../data/config.json');
+    if (fs.existsSync(configPath)) {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      return {
+        username: config.username || DEFAULT_USERNAME,
+        passwordHash: config.passwordHash || DEFAULT_PASSWORD_HASH
+      };
+    }
+  }
+
+  return { username: DEFAULT_USERNAME, passwordHash: DEFAULT_PASSWORD_HASH };
+};
+
+const safeEqual = (a, b) => {
+  const bufferA = Buffer.from(String(a));
+  const bufferB = Buffer.from(String(b));
+  return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+};
+
+const pruneExpiredSessions = () => {
+  const now = Date.now();
+  sessions.forEach((expiresAt, token) => {
+    if (expiresAt <= now) sessions.delete(token);
+  });
+};
+
+// Returns { token, expiresAt } for valid credentials, or null
+const login = async (username, password) => {
+  const credentials = await getAdminCredentials();
+  const passwordHash = crypto.createHash('sha256').update(String(password || '')).digest('hex');
+
+  // Both comparisons run, so the response time does not tell which one failed
+  const validUsername = safeEqual(username, credentials.username);
+  const validPassword = safeEqual(passwordHash, credentials.passwordHash);
+  if (!validUsername || !validPassword) {
+    return null;
+  }
+
+  pruneExpiredSessions();
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  sessions.set(token, expiresAt);
+  return { token, expiresAt: new Date(expiresAt) };
+};
+
+const getBearerToken = (req) => {
+  const match = (req.get('authorization') || '').match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+const isValidSession = (token) => {
+  const expiresAt = token ? sessions.get(token) : undefined;
+  if (!expiresAt) return false;
+  if (expiresAt <= Date.now()) {
+    sessions.delete(token);
+    return false;
+  }
+  return true;
+};
+
+// Whether the request carries a valid admin session, for public routes that hide fields from visitors
+const hasAdminSession = (req) => isValidSession(getBearerToken(req));
+
+// Express middleware: 401 without a valid admin session
+const requireAdmin = (req, res, next) => {
+  if (!isValidSession(getBearerToken(req))) {
+    return res.status(401).json({ error: 'Admin session required', success: false });
+  }
+  next();
+};
+
+module.exports = {
+  login,
+  hasAdminSession,
+  requireAdmin
+};
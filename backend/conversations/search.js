@@ -0,0 +1,178 @@
+// Full-text search over the messages of every conversation. MySQL uses the FULLTEXT index and
+// SQLite the FTS5 table of migration 002; snippets and highlights are computed here, so both
+// databases return the same results.
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_TERMS = 10;
+const SNIPPET_LENGTH = 200;
+// Context kept before the first match in a snippet
+const SNIPPET_LEAD = 60;
+
+const ROLES = ['user', 'assistant', 'system'];
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+// Lowercase without accents, like the index. Each folded character keeps the index of the
+// original one, to map the matches back to the content.
+const fold = (text) => {
+  let folded = '';
+  const positions = [];
+  for (let i = 0; i < text.length; i++) {
+    const chars = text[i].normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+    folded += chars;
+    for (let j = 0; j < chars.length; j++) positions.push(i);
+  }
+  return { folded, positions };
+};
+
+// Words of the query; every one must be in the message, as a word or the start of a word
+const parseTerms = (q) => [...new Set((String(q || '').match(WORD) || []).map(term => fold(term).folded))]
+  .slice(0, MAX_TERMS);
+
+const escapeRegExp = (value) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// [start, end) ranges of the content matched by the terms, sorted and merged
+const findMatches = (content, terms) => {
+  const { folded, positions } = fold(content);
+  const ranges = [];
+
+  terms.forEach(term => {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}[\\p{L}\\p{N}]*`, 'gu');
+    for (const match of folded.matchAll(pattern)) {
+      ranges.push([positions[match.index], positions[match.index + match[0].length - 1] + 1]);
+    }
+  });
+
+  return ranges
+    .sort((a, b) => a[0] - b[0])
+    .reduce((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range[0] <= last[1]) {
+        last[1] = Math.max(last[1], range[1]);
+      } else {
+        merged.push([...range]);
+      }
+      return merged;
+    }, []);
+};
+
+// Part of the content around the first match, cut at word boundaries, with the highlights
+// as [start, end) offsets in the snippet
+const buildSnippet = (content, terms) => {
+  const matches = findMatches(content, terms);
+
+  let start = matches.length > 0 ? Math.max(0, matches[0][0] - SNIPPET_LEAD) : 0;
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  if (start > 0) {
+    const space = content.indexOf(' ', start);
+    if (space !== -1 && space < matches[0][0]) start = space + 1;
+  }
+  if (end < content.length) {
+    const space = content.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < content.length ? '…' : '';
+
+  return {
+    snippet: `${prefix}${content.slice(start, end)}${suffix}`,
+    highlights: matches
+      .filter(([matchStart, matchEnd]) => matchStart < end && matchEnd > start)
+      .map(([matchStart, matchEnd]) => [
+        Math.max(matchStart, start) - start + prefix.length,
+        Math.min(matchEnd, end) - start + prefix.length
+      ])
+  };
+};
+
+const buildRoleFilter = (roles) => roles.length > 0
+  ? { sql: `AND m.role IN (${roles.map(() => '?').join(', ')})`, params: roles }
+  : { sql: '', params: [] };
+
+const SELECT_COLUMNS =
+  'm.id, m.conversation_id, m.role, m.content, m.timestamp, c.created_at AS conversation_created_at';
+
+// InnoDB leaves out of the FULLTEXT index the words shorter than innodb_ft_min_token_size
+// (3 by default) and its default stopwords, so "+de*" or "+com*" would never match the word itself
+const MYSQL_MIN_TOKEN_SIZE = 3;
+const MYSQL_STOPWORDS = new Set([
+  'a', 'about', 'an', 'are', 'as', 'at', 'be', 'by', 'com', 'de', 'en', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'la', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'und', 'was', 'what', 'when', 'where',
+  'who', 'will', 'with', 'www'
+]);
+
+const isIndexedByMySql = (term) => term.length >= MYSQL_MIN_TOKEN_SIZE && !MYSQL_STOPWORDS.has(term);
+
+// Boolean mode: every indexed term required (+), as a prefix (*); the operators were removed by
+// parseTerms. The other terms are required with LIKE, which ignores case and accents with the
+// default collations but also matches inside words.
+const searchMySql = (storage, terms, roleFilter, limit, offset) => {
+  const indexed = terms.filter(isIndexedByMySql);
+  const unindexed = terms.filter(term => !isIndexedByMySql(term));
+  const match = indexed.length > 0
+    ? { sql: 'MATCH (m.content) AGAINST (? IN BOOLEAN MODE)', params: [indexed.map(term => `+${term}*`).join(' ')] }
+    : null;
+
+  const conditions = [...(match ? [match.sql] : []), ...unindexed.map(() => 'm.content LIKE ?')];
+  const params = [...(match ? match.params : []), ...unindexed.map(term => `%${term}%`)];
+
+  return storage.query(
+    `SELECT ${SELECT_COLUMNS}, ${match ? match.sql : '0'} AS score
+     FROM messages m
+     JOIN conversations c ON c.id = m.conversation_id
+     WHERE ${conditions.join(' AND ')} ${roleFilter.sql}
+     ORDER BY score DESC, m.timestamp DESC
+     LIMIT ? OFFSET ?`,
+    [...(match ? match.params : []), ...params, ...roleFilter.params, limit, offset]
+  );
+};
+
+// FTS5 query: every term as a quoted prefix; bm25 is lower for better matches
+const searchSqlite = (storage, terms, roleFilter, limit, offset) => {
+  const match = terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' ');
+  return storage.query(
+    `SELECT ${SELECT_COLUMNS}
+     FROM messages_fts
+     JOIN messages m ON m.rowid = messages_fts.rowid
+     JOIN conversations c ON c.id = m.conversation_id
+     WHERE messages_fts MATCH ? ${roleFilter.sql}
+     ORDER BY bm25(messages_fts), m.timestamp DESC
+     LIMIT ? OFFSET ?`,
+    [match, ...roleFilter.params, limit, offset]
+  );
+};
+
+// Messages matching every word of q, best matches first. nextOffset is null on the last page.
+const searchMessages = async (storage, { q, roles = [], limit, offset }) => {
+  const terms = parseTerms(q);
+  if (terms.length === 0) {
+    return { results: [], nextOffset: null };
+  }
+
+  const pageSize = Math.min(Math.max(parseInt(limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const start = Math.max(parseInt(offset, 10) || 0, 0);
+  const search = storage.client === 'sqlite' ? searchSqlite : searchMySql;
+
+  // One extra row tells whether there is a next page
+  const [rows] = await search(storage, terms, buildRoleFilter(roles), pageSize + 1, start);
+
+  return {
+    results: rows.slice(0, pageSize).map(row => ({
+      messageId: row.id,
+      conversationId: row.conversation_id,
+      role: row.role,
+      timestamp: new Date(row.timestamp),
+      conversationCreatedAt: new Date(row.conversation_created_at),
+      ...buildSnippet(row.content, terms)
+    })),
+    nextOffset: rows.length > pageSize ? start + pageSize : null
+  };
+};
+
+module.exports = {
+  ROLES,
+  parseTerms,
+  searchMessages
+};
@@ -0,0 +1,214 @@
+// Conversation history for the admin inbox: cursor-paginated summaries with filters, and the
+// full transcript of one conversation. Everything is derived from the messages at query time.
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const PREVIEW_LENGTH = 160;
+
+// Tag the model puts at the start of an answer with detectEmotion, e.g. "[Sentimento: Feliz]"
+// (same pattern as stripEmotionTag in the frontend)
+const EMOTION_TAG = /^\s*\[[^[\]\n:：]{1,30}[:：]\s*([^[\]\n]{1,40}?)\s*\]/u;
+
+// Chat turns only: welcome messages are assistant turns too, call events are system messages
+const MESSAGE_COUNT_SQL =
+  "(SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id AND m.role IN ('user', 'assistant'))";
+const LAST_MESSAGE_AT_SQL = '(SELECT MAX(m.timestamp) FROM messages m WHERE m.conversation_id = c.id)';
+// A voice call leaves a callEnded event message in the conversation
+const HAS_VOICE_SQL =
+  "EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = c.id AND m.event LIKE '%\"callEnded\"%')";
+
+const extractSentiment = (content) => {
+  const match = typeof content === 'string' ? content.match(EMOTION_TAG) : null;
+  return match ? match[1] : null;
+};
+
+// LIKE patterns use ! as escape character: a backslash is not escaped the same way in MySQL and SQLite
+const escapeLike = (value) => value.replace(/[!%_]/g, '!$&');
+
+const encodeCursor = (createdAt, id) =>
+  Buffer.from(`${new Date(createdAt).toISOString()}|${id}`).toString('base64url');
+
+// Returns null for a cursor that was not produced by encodeCursor
+const decodeCursor = (cursor) => {
+  const [createdAt, ...idParts] = Buffer.from(String(cursor), 'base64url').toString('utf8').split('|');
+  const date = new Date(createdAt);
+  const id = idParts.join('|');
+  return !isNaN(date.getTime()) && id ? { createdAt: date, id } : null;
+};
+
+const rowToMessage = (row) => ({
+  id: row.id,
+  role: row.role,
+  content: row.content,
+  timestamp: new Date(row.timestamp),
+  ...(row.sources ? { sources: JSON.parse(row.sources) } : {}),
+  ...(row.truncated ? { truncated: true } : {}),
+  ...(row.event ? { event: JSON.parse(row.event) } : {})
+});
+
+// Every conversation with its messages, in two queries
+const getAllConversations = async (storage) => {
+  const [conversationRows] = await storage.query('SELECT * FROM conversations ORDER BY created_at DESC');
+  const [messageRows] = await storage.query('SELECT * FROM messages ORDER BY timestamp ASC');
+
+  const messagesByConversation = new Map();
+  messageRows.forEach(row => {
+    if (!messagesByConversation.has(row.conversation_id)) {
+      messagesByConversation.set(row.conversation_id, []);
+    }
+    messagesByConversation.get(row.conversation_id).push(rowToMessage(row));
+  });
+
+  return conversationRows.map(row => ({
+    id: row.id,
+    messages: messagesByConversation.get(row.id) || [],
+    isActive: Boolean(row.is_active),
+    createdAt: new Date(row.created_at)
+  }));
+};
+
+const buildFilters = ({ from, to, hasVoice, sentiment, minMessages, maxMessages, q, cursor }) => {
+  const conditions = [];
+  const params = [];
+
+  if (from) {
+    conditions.push('c.created_at >= ?');
+    params.push(from);
+  }
+  if (to) {
+    conditions.push('c.created_at <= ?');
+    params.push(to);
+  }
+  if (hasVoice !== undefined) {
+    conditions.push(hasVoice ? HAS_VOICE_SQL : `NOT ${HAS_VOICE_SQL}`);
+  }
+  if (sentiment) {
+    // "[Sentimento: Feliz]", or "[Sentiment : Heureux]" in French
+    const escaped = escapeLike(sentiment);
+    conditions.push(
+      "EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = c.id AND m.role = 'assistant' " +
+      "AND (m.content LIKE ? ESCAPE '!' OR m.content LIKE ? ESCAPE '!'))"
+    );
+    params.push(`[%: ${escaped}]%`, `[%:${escaped}]%`);
+  }
+  if (minMessages !== undefined) {
+    conditions.push(`${MESSAGE_COUNT_SQL} >= ?`);
+    params.push(minMessages);
+  }
+  if (maxMessages !== undefined) {
+    conditions.push(`${MESSAGE_COUNT_SQL} <= ?`);
+    params.push(maxMessages);
+  }
+  if (q) {
+    conditions.push("EXISTS (SELECT 1 FROM messages m WHERE m.conversation_id = c.id AND m.content LIKE ? ESCAPE '!')");
+    params.push(`%${escapeLike(q)}%`);
+  }
+  // Keyset pagination: newest first, the id breaks ties between conversations created together
+  if (cursor) {
+    conditions.push('(c.created_at < ? OR (c.created_at = ? AND c.id < ?))');
+    params.push(cursor.createdAt, cursor.createdAt, cursor.id);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params
+  };
+};
+
+// First user message (the preview) and latest detected sentiment of each conversation of a page
+const loadPreviews = async (storage, conversationIds) => {
+  const previews = new Map();
+  if (conversationIds.length === 0) return previews;
+
+  const [rows] = await storage.query(
+    `SELECT conversation_id, role, content FROM messages
+     WHERE conversation_id IN (${conversationIds.map(() => '?').join(', ')})
+     AND (role = 'user' OR (role = 'assistant' AND content LIKE '%[%'))
+     ORDER BY timestamp ASC`,
+    conversationIds
+  );
+
+  rows.forEach(row => {
+    const preview = previews.get(row.conversation_id) || { preview: null, sentiment: null };
+    if (row.role === 'user' && preview.preview === null) {
+      preview.preview = row.content.slice(0, PREVIEW_LENGTH);
+    }
+    if (row.role === 'assistant') {
+      preview.sentiment = extractSentiment(row.content) || preview.sentiment;
+    }
+    previews.set(row.conversation_id, preview);
+  });
+
+  return previews;
+};
+
+const rowToSummary = (row, preview) => ({
+  id: row.id,
+  isActive: Boolean(row.is_active),
+  createdAt: new Date(row.created_at),
+  lastMessageAt: row.last_message_at ? new Date(row.last_message_at) : null,
+  messageCount: Number(row.message_count),
+  hasVoice: Boolean(row.has_voice),
+  sentiment: preview?.sentiment || null,
+  preview: preview?.preview || null
+});
+
+// One page of conversation summaries, newest first. nextCursor is null on the last page.
+const listConversations = async (storage, filters = {}) => {
+  const limit = Math.min(Math.max(parseInt(filters.limit, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const { where, params } = buildFilters(filters);
+
+  // One extra row tells whether there is a next page
+  const [rows] = await storage.query(
+    `SELECT c.id, c.is_active, c.created_at,
+       ${MESSAGE_COUNT_SQL} AS message_count,
+       ${LAST_MESSAGE_AT_SQL} AS last_message_at,
+       ${HAS_VOICE_SQL} AS has_voice
+     FROM conversations c
+     ${where}
+     ORDER BY c.created_at DESC, c.id DESC
+     LIMIT ?`,
+    [...params, limit + 1]
+  );
+
+  const page = rows.slice(0, limit);
+  const previews = await loadPreviews(storage, page.map(row => row.id));
+  const last = page[page.length - 1];
+
+  return {
+    conversations: page.map(row => rowToSummary(row, previews.get(row.id))),
+    nextCursor: rows.length > limit ? encodeCursor(last.created_at, last.id) : null
+  };
+};
+
+// A conversation summary with its full transcript, or null if it does not exist
+const getConversation = async (storage, id) => {
+  const [rows] = await storage.query(
+    `SELECT c.id, c.is_active, c.created_at,
+       ${MESSAGE_COUNT_SQL} AS message_count,
+       ${LAST_MESSAGE_AT_SQL} AS last_message_at,
+       ${HAS_VOICE_SQL} AS has_voice
+     FROM conversations c
+     WHERE c.id = ?`,
+    [id]
+  );
+  if (rows.length === 0) return null;
+
+  const [messageRows] = await storage.query(
+    'SELECT * FROM messages WHERE conversation_id = ? ORDER BY timestamp ASC',
+    [id]
+  );
+  const previews = await loadPreviews(storage, [id]);
+
+  return {
+    ...rowToSummary(rows[0], previews.get(id)),
+    messages: messageRows.map(rowToMessage)
+  };
+};
+
+module.exports = {
+  getAllConversations,
+  listConversations,
+  getConversation,
+  decodeCursor
+};
@@ -1,10 +1,11 @@
 
-const mysql = require('mysql2/promise');
 const fs = require('fs');
 const path = require('path');
+const { createStorage } = require('./storage');
+const { getMigrationStatus, migrateUp } = require('./migrations');
 
 // Database connection configuration
-let pool = null;
+let storage = null;
 let isDbConnected = false;
 let lastConnectionError = null;
 let connectionInProgress = false;
@@ -19,13 +20,23 @@ const ensureDataDirectory = () => {
   return dataDir;
 };
 
-// Get database configuration based on environment
+// Get database configuration based on environment.
+// DB_CLIENT=sqlite stores everything in a single file (SQLITE_PATH, ":memory:" for a throwaway database).
 const getDbConfig = () => {
   const env = process.env.NODE_ENV || 'development';
   console.log(`Current environment: ${env}`);
 
+  if (process.env.DB_CLIENT === 'sqlite') {
+    const filename = process.env.SQLITE_PATH || path.join('data', 'chat_assistant.sqlite');
+    return {
+      client: 'sqlite',
+      filename: filename === ':memory:' ? filename : path.resolve(__dirname, filename)
+    };
+  }
+
   if (env === 'production') {
     return {
+      client: 'mysql',
       host: process.env.PROD_DB_HOST || 'localhost',
       user: process.env.PROD_DB_USER || 'root',
       password: process.env.PROD_DB_PASSWORD || '',
@@ -33,6 +44,7 @@ const getDbConfig = () => {
     };
   } else {
     return {
+      client: 'mysql',
       host: process.env.DEV_DB_HOST || 'localhost',
       user: process.env.DEV_DB_USER || 'root',
       password: process.env.DEV_DB_PASSWORD || '',
@@ -41,7 +53,7 @@ const getDbConfig = () => {
   }
 };
 
-// Initialize database connection pool
+// Initialize the storage adapter
 const initDatabase = async () => {
   // Prevent multiple simultaneous connection attempts
   if (connectionInProgress) {
@@ -57,32 +69,33 @@ const initDatabase = async () => {
     
     const dbConfig = getDbConfig();
     console.log('Initializing database connection with the following parameters:');
-    console.log('Host:', dbConfig.host);
-    console.log('User:', dbConfig.user);
-    console.log('Database:', dbConfig.database);
+    if (dbConfig.client === 'sqlite') {
+      console.log('SQLite file:', dbConfig.filename);
+    } else {
+      console.log('Host:', dbConfig.host);
+      console.log('User:', dbConfig.user);
+      console.log('Database:', dbConfig.database);
+    }
     
-    // Create database connection pool with timeout
-    pool = mysql.createPool({
-      host: dbConfig.host,
-      user: dbConfig.user,
-      password: dbConfig.password,
-      database: dbConfig.database,
-      waitForConnections: true,
-      connectionLimit: 10,
-      queueLimit: 0,
-      connectTimeout: 10000, // 10 second timeout
-      acquireTimeout: 10000
-    });
+    if (storage) {
+      await storage.close().catch(() => {});
+      storage = null;
+    }
+    const candidate = createStorage(dbConfig);
     
-    console.log('Database pool initialized');
+    console.log(`Database storage initialized (${candidate.client})`);
     
-    // Verify connection with timeout
-    const connection = await pool.getConnection();
+    // Verify connection
+    try {
+      await candidate.ping();
+    } catch (error) {
+      await candidate.close().catch(() => {});
+      throw error;
+    }
     console.log('Database connected successfully');
-    connection.release();
+    storage = candidate;
     
-    // Create required tables
-    await createTables();
+    await runMigrations();
     
     isDbConnected = true;
     lastConnectionError = null;
@@ -103,6 +116,7 @@ const initDatabase = async () => {
     } else if (error.code === 'ECONNREFUSED') {
       console.error('CONNECTION REFUSED: Make sure your MySQL/MariaDB server is running');
       console.error('Check if the server is running and accessible at the configured host and port');
+      console.error('Or set DB_CLIENT=sqlite to store the data in a local SQLite file');
     } else if (error.code === 'ETIMEDOUT' || error.code === 'ESOCKETTIMEDOUT') {
       console.error('CONNECTION TIMEOUT: Database server did not respond in time');
       console.error('Check network connectivity and server load');
@@ -115,138 +129,32 @@ const initDatabase = async () => {
   }
 };
 
-// Create necessary tables if they don't exist
-const createTables = async () => {
-  if (!pool) return;
+// Bring the schema up to date (see migrations/). Set DB_AUTO_MIGRATE=false to apply the
+// migrations only through the CLI (npm run migrate).
+const runMigrations = async () => {
+  if (!storage) return;
   
   try {
-    // Widget config table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS widget_config (
-        id INT PRIMARY KEY,
-        position VARCHAR(20) NOT NULL,
-        title VARCHAR(100) NOT NULL,
-        subtitle VARCHAR(255) NOT NULL,
-        primary_color VARCHAR(20) NOT NULL,
-        icon_type VARCHAR(20) NOT NULL,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Agent config table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS agent_config (
-        id INT PRIMARY KEY,
-        system_prompt TEXT NOT NULL,
-        voice_enabled BOOLEAN DEFAULT true,
-        voice_id VARCHAR(50) NOT NULL,
-        voice_language VARCHAR(10) NOT NULL,
-        voice_latency INT DEFAULT 100,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Agent functions table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS agent_functions (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        description TEXT NOT NULL,
-        parameters JSON NOT NULL,
-        webhook VARCHAR(255) NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Training files table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS training_files (
-        id VARCHAR(36) PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        content TEXT NOT NULL,
-        size INT NOT NULL,
-        type VARCHAR(100) NOT NULL,
-        timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Conversations table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS conversations (
-        id VARCHAR(36) PRIMARY KEY,
-        is_active BOOLEAN DEFAULT true,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Messages table
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS messages (
-        id VARCHAR(36) PRIMARY KEY,
-        conversation_id VARCHAR(36) NOT NULL,
-        role ENUM('user', 'assistant', 'system') NOT NULL,
-        content TEXT NOT NULL,
-        timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
-      )
-    `);
-    
-    // Admin config table - Increased the api_key column size to TEXT
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS admin_config (
-        id INT PRIMARY KEY,
-        username VARCHAR(50) NOT NULL,
-        password_hash VARCHAR(100) NOT NULL,
-        api_key TEXT DEFAULT '',
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Check if api_key column exists, if not add it with TEXT type
-    try {
-      await pool.query(`
-        SELECT COUNT(*) FROM INFORMATION_SCHEMA.COLUMNS 
-        WHERE TABLE_SCHEMA = DATABASE() 
-        AND TABLE_NAME = 'admin_config' 
-        AND COLUMN_NAME = 'api_key'
-      `);
-      
-      // Try to alter the column type to TEXT if it exists
-      try {
-        console.log('Attempting to increase api_key column size to TEXT');
-        await pool.query(`
-          ALTER TABLE admin_config
-          MODIFY COLUMN api_key TEXT
-        `);
-        console.log('Successfully increased api_key column size');
-      } catch (altError) {
-        console.error('Error modifying api_key column:', altError);
-      }
-    } catch (checkError) {
-      console.error('Error checking for api_key column:', checkError);
-      
-      // Try to add the column if it doesn't exist
-      try {
-        await pool.query(`
-          ALTER TABLE admin_config
-          ADD COLUMN api_key TEXT DEFAULT ''
-        `);
-        console.log('Added api_key column successfully');
-      } catch (addError) {
-        console.error('Error adding api_key column:', addError);
+    if (process.env.DB_AUTO_MIGRATE === 'false') {
+      const pending = (await getMigrationStatus(storage)).filter(migration => migration.state === 'pending');
+      if (pending.length > 0) {
+        console.warn(`${pending.length} pending database migrations, run "npm run migrate up" to apply them`);
       }
+      return;
     }
     
-    console.log('Database tables created/verified');
+    const applied = await migrateUp(storage);
+    console.log(applied.length > 0
+      ? `Applied ${applied.length} database migrations`
+      : 'Database schema is up to date');
   } catch (error) {
-    console.error('Error creating tables:', error);
+    console.error('Error running database migrations:', error);
   }
 };
 
-// Get database connection
+// Get the storage adapter (see storage/index.js), or null when there is no database
 const getDbConnection = () => {
-  return pool;
+  return storage;
 };
 
 // Check if database is connected
@@ -266,6 +174,7 @@ const reconnect = async () => {
 };
 
 module.exports = {
+  getDbConfig,
   initDatabase,
   getDbConnection,
   isConnected,
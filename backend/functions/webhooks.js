@@ -0,0 +1,73 @@
+// Agent function calls. The model asks for a function by name and the server POSTs the arguments
+// to the webhook stored in agent_functions, so webhook URLs never reach the browser and the
+// webhooks do not need to allow CORS from the widget's origin.
+
+const WEBHOOK_TIMEOUT_MS = 15000;
+const MAX_ERROR_BODY_LENGTH = 1000;
+
+const parseArguments = (rawArguments) => {
+  if (rawArguments && typeof rawArguments === 'object') {
+    return rawArguments;
+  }
+  if (!rawArguments || !String(rawArguments).trim()) {
+    return {};
+  }
+  return JSON.parse(rawArguments);
+};
+
+// Run a stored function with the model's arguments (a JSON string or an object). Always resolves
+// with the text handed back to the model, errors included, so it can tell the user what happened.
+const executeFunction = async (storage, name, rawArguments) => {
+  const [rows] = await storage.query('SELECT name, webhook FROM agent_functions WHERE name = ?', [name]);
+  if (rows.length === 0) {
+    return JSON.stringify({ error: `Function "${name}" is not available` });
+  }
+
+  const { webhook } = rows[0];
+  if (!webhook) {
+    return JSON.stringify({ error: `Function "${name}" has no webhook configured` });
+  }
+
+  let args;
+  try {
+    args = parseArguments(rawArguments);
+  } catch (error) {
+    console.error(`Invalid arguments for function ${name}:`, rawArguments);
+    return JSON.stringify({ error: 'Invalid JSON arguments', arguments: rawArguments });
+  }
+
+  try {
+    console.log(`Executing function ${name} through its webhook`);
+    const response = await fetch(webhook, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS)
+    });
+
+    const responseText = await response.text();
+    if (!response.ok) {
+      console.error(`Webhook of function ${name} returned status ${response.status}`);
+      return JSON.stringify({
+        error: `Webhook returned status ${response.status}`,
+        body: responseText.substring(0, MAX_ERROR_BODY_LENGTH)
+      });
+    }
+
+    return responseText || JSON.stringify({ success: true });
+  } catch (error) {
+    const message = error.name === 'TimeoutError'
+      ? `Webhook timed out after ${WEBHOOK_TIMEOUT_MS}ms`
+      : error.message;
+
+    console.error(`Error executing function ${name}:`, error);
+    return JSON.stringify({ error: message });
+  }
+};
+
+module.exports = {
+  executeFunction
+};
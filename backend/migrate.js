@@ -0,0 +1,66 @@
+require('dotenv').config();
+const { getDbConfig } = require('./database');
+const { createStorage } = require('./storage');
+const { getMigrationStatus, migrateUp, migrateDown } = require('./migrations');
+
+// Usage:
+//   npm run migrate up [version]   apply the pending migrations (up to `version` when given)
+//   npm run migrate down [steps]   revert the last applied migration (or the last `steps`)
+//   npm run migrate status         list the migrations and whether they were applied
+const USAGE = 'Usage: npm run migrate -- <up [version] | down [steps] | status>';
+
+const parsePositiveInt = (value, label) => {
+  if (value === undefined) return undefined;
+  const number = parseInt(value, 10);
+  if (!Number.isInteger(number) || number <= 0 || String(number) !== value) {
+    throw new Error(`${label} must be a positive integer, got "${value}"`);
+  }
+  return number;
+};
+
+const printStatus = (status) => {
+  if (status.length === 0) {
+    console.log('No migrations found');
+    return;
+  }
+
+  status.forEach(migration => {
+    const appliedAt = migration.appliedAt ? new Date(migration.appliedAt).toISOString() : '';
+    console.log(`${String(migration.version).padStart(3, '0')}_${migration.name}`.padEnd(40), migration.state.padEnd(8), appliedAt);
+  });
+};
+
+const run = async (storage, [command, argument]) => {
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(storage, { to: parsePositiveInt(argument, 'version') });
+      console.log(applied.length > 0 ? `Applied ${applied.length} migrations` : 'Nothing to apply');
+      break;
+    }
+    case 'down': {
+      const reverted = await migrateDown(storage, { steps: parsePositiveInt(argument, 'steps') });
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migrations` : 'Nothing to revert');
+      break;
+    }
+    case 'status':
+      printStatus(await getMigrationStatus(storage));
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+const main = async () => {
+  const storage = createStorage(getDbConfig());
+
+  try {
+    await run(storage, process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    process.exitCode = 1;
+  } finally {
+    await storage.close();
+  }
+};
+
+main();
@@ -0,0 +1,224 @@
+// Schema of the application as of the introduction of migrations. Databases created before that
+// already have some of these tables, possibly from older versions, so every step only creates
+// or adds what is missing.
+
+// agent_config columns added after the table was first created, covering the whole AgentConfig
+// (voice settings, model parameters and the knowledge/provider settings, stored as JSON)
+const AGENT_CONFIG_COLUMNS = [
+  ['silence_timeout', 'FLOAT'],
+  ['max_call_duration', 'INT'],
+  ['pause_duration', 'FLOAT'],
+  ['wait_before_speaking', 'FLOAT'],
+  ['wait_after_punctuation', 'FLOAT'],
+  ['wait_without_punctuation', 'FLOAT'],
+  ['wait_after_number', 'FLOAT'],
+  ['end_call_message', 'TEXT'],
+  ['continuous_mode', 'BOOLEAN DEFAULT TRUE'],
+  ['barge_in_enabled', 'BOOLEAN'],
+  ['barge_in_threshold', 'FLOAT'],
+  ['barge_in_duration', 'FLOAT'],
+  ['pronunciations', 'TEXT'],
+  ['call_recording', 'TEXT'],
+  ['model', 'VARCHAR(100)'],
+  ['temperature', 'FLOAT'],
+  ['max_tokens', 'INT'],
+  ['detect_emotion', 'BOOLEAN NOT NULL DEFAULT FALSE'],
+  ['knowledge_type', "VARCHAR(20) NOT NULL DEFAULT 'rag'"],
+  ['rag_config', 'TEXT'],
+  ['fine_tuning', 'TEXT'],
+  ['assistant', 'TEXT'],
+  ['provider', 'TEXT']
+];
+
+// Child tables first, so foreign keys do not block the drop
+const TABLES = [
+  'call_recordings',
+  'call_recording_consents',
+  'messages',
+  'conversations',
+  'rag_chunks',
+  'rag_documents',
+  'training_files',
+  'agent_functions',
+  'agent_config',
+  'widget_config',
+  'admin_config'
+];
+
+const up = async ({ query, getColumnType, addColumnIfMissing }) => {
+  await query(`
+    CREATE TABLE IF NOT EXISTS widget_config (
+      id INT PRIMARY KEY,
+      position VARCHAR(20) NOT NULL,
+      title VARCHAR(100) NOT NULL,
+      subtitle VARCHAR(255) NOT NULL,
+      primary_color VARCHAR(20) NOT NULL,
+      icon_type VARCHAR(20) NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS agent_config (
+      id INT PRIMARY KEY,
+      system_prompt TEXT NOT NULL,
+      voice_enabled BOOLEAN DEFAULT true,
+      voice_id VARCHAR(50) NOT NULL,
+      voice_language VARCHAR(10) NOT NULL,
+      voice_latency INT DEFAULT 100,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )
+  `);
+  for (const [column, definition] of AGENT_CONFIG_COLUMNS) {
+    await addColumnIfMissing('agent_config', column, definition);
+  }
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS agent_functions (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      description TEXT NOT NULL,
+      parameters JSON NOT NULL,
+      webhook VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )
+  `);
+
+  // content is the extracted text, original_content the uploaded file
+  await query(`
+    CREATE TABLE IF NOT EXISTS training_files (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      content LONGTEXT NOT NULL,
+      original_content LONGBLOB,
+      format VARCHAR(20),
+      extraction_warnings TEXT,
+      size INT NOT NULL,
+      type VARCHAR(100) NOT NULL,
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+  // Extracted PDFs and DOCX files do not fit the original TEXT column
+  if (await getColumnType('training_files', 'content') === 'text') {
+    await query('ALTER TABLE training_files MODIFY COLUMN content LONGTEXT NOT NULL');
+  }
+  await addColumnIfMissing('training_files', 'original_content', 'LONGBLOB AFTER content');
+  await addColumnIfMissing('training_files', 'format', 'VARCHAR(20) AFTER original_content');
+  await addColumnIfMissing('training_files', 'extraction_warnings', 'TEXT AFTER format');
+
+  // One row per indexed training file
+  await query(`
+    CREATE TABLE IF NOT EXISTS rag_documents (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      content_hash CHAR(64) NOT NULL,
+      chunk_count INT NOT NULL DEFAULT 0,
+      embedding_model VARCHAR(255),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Chunks with their embeddings (stored as JSON arrays)
+  await query(`
+    CREATE TABLE IF NOT EXISTS rag_chunks (
+      id VARCHAR(36) PRIMARY KEY,
+      document_id VARCHAR(36) NOT NULL,
+      chunk_index INT NOT NULL,
+      content TEXT NOT NULL,
+      embedding MEDIUMTEXT,
+      embedding_model VARCHAR(255),
+      embedding_dimension INT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_rag_chunks_document (document_id),
+      FOREIGN KEY (document_id) REFERENCES rag_documents(id) ON DELETE CASCADE
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS conversations (
+      id VARCHAR(36) PRIMARY KEY,
+      is_active BOOLEAN DEFAULT true,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // sources: RAG citations (JSON array); truncated: answer interrupted by the caller (barge-in);
+  // event: conversation event such as the end of a voice call (JSON object)
+  await query(`
+    CREATE TABLE IF NOT EXISTS messages (
+      id VARCHAR(36) PRIMARY KEY,
+      conversation_id VARCHAR(36) NOT NULL,
+      role ENUM('user', 'assistant', 'system') NOT NULL,
+      content TEXT NOT NULL,
+      sources TEXT,
+      truncated BOOLEAN NOT NULL DEFAULT FALSE,
+      event TEXT,
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
+    )
+  `);
+  await addColumnIfMissing('messages', 'sources', 'TEXT AFTER content');
+  await addColumnIfMissing('messages', 'truncated', 'BOOLEAN NOT NULL DEFAULT FALSE AFTER sources');
+  await addColumnIfMissing('messages', 'event', 'TEXT AFTER truncated');
+
+  // Recording consent given (or refused) by the caller of a voice session
+  await query(`
+    CREATE TABLE IF NOT EXISTS call_recording_consents (
+      conversation_id VARCHAR(36) PRIMARY KEY,
+      granted BOOLEAN NOT NULL,
+      consent_text TEXT,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )
+  `);
+
+  // One row per turn (user audio or spoken agent answer), purged after expires_at.
+  // Conversations live in the browser storage too, so there is no foreign key to conversations.
+  await query(`
+    CREATE TABLE IF NOT EXISTS call_recordings (
+      id VARCHAR(36) PRIMARY KEY,
+      conversation_id VARCHAR(36) NOT NULL,
+      message_id VARCHAR(36),
+      role ENUM('user', 'assistant') NOT NULL,
+      transcript TEXT,
+      audio LONGBLOB NOT NULL,
+      mime_type VARCHAR(100) NOT NULL,
+      size INT NOT NULL,
+      duration_ms INT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NULL,
+      INDEX idx_call_recordings_conversation (conversation_id),
+      INDEX idx_call_recordings_expires (expires_at)
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS admin_config (
+      id INT PRIMARY KEY,
+      username VARCHAR(50) NOT NULL,
+      password_hash VARCHAR(100) NOT NULL,
+      api_key TEXT DEFAULT '',
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+    )
+  `);
+  // Older tables have no api_key, or a VARCHAR too short for current keys
+  const apiKeyType = await getColumnType('admin_config', 'api_key');
+  if (apiKeyType === null) {
+    await query("ALTER TABLE admin_config ADD COLUMN api_key TEXT DEFAULT '' AFTER password_hash");
+  } else if (apiKeyType !== 'text') {
+    await query('ALTER TABLE admin_config MODIFY COLUMN api_key TEXT');
+  }
+};
+
+// Reverting the baseline removes every table, with all its data
+const down = async ({ query }) => {
+  for (const table of TABLES) {
+    await query(`DROP TABLE IF EXISTS ${table}`);
+  }
+};
+
+module.exports = {
+  up,
+  down
+};
@@ -0,0 +1,30 @@
+// Full-text index on the message contents, used by GET /api/conversation/search.
+// InnoDB only indexes words of at least innodb_ft_min_token_size characters (3 by default).
+const INDEX_NAME = 'ft_messages_content';
+
+const hasIndex = async (query) => {
+  const [rows] = await query(`
+    SELECT 1 FROM INFORMATION_SCHEMA.STATISTICS
+    WHERE TABLE_SCHEMA = DATABASE()
+    AND TABLE_NAME = 'messages'
+    AND INDEX_NAME = ?
+  `, [INDEX_NAME]);
+  return rows.length > 0;
+};
+
+const up = async ({ query }) => {
+  if (!await hasIndex(query)) {
+    await query(`ALTER TABLE messages ADD FULLTEXT INDEX ${INDEX_NAME} (content)`);
+  }
+};
+
+const down = async ({ query }) => {
+  if (await hasIndex(query)) {
+    await query(`ALTER TABLE messages DROP INDEX ${INDEX_NAME}`);
+  }
+};
+
+module.exports = {
+  up,
+  down
+};
@@ -0,0 +1,33 @@
+// URL knowledge sources, crawled and refreshed by the server (see rag/urlSources.js). Each crawled
+// page is a training file linked to its source by source_id, with the page address in source_url.
+
+const up = async ({ query, addColumnIfMissing }) => {
+  await query(`
+    CREATE TABLE IF NOT EXISTS url_sources (
+      id VARCHAR(36) PRIMARY KEY,
+      url TEXT NOT NULL,
+      max_depth INT NOT NULL,
+      max_pages INT NOT NULL,
+      refresh_interval_hours FLOAT NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'idle',
+      last_crawled_at TIMESTAMP NULL,
+      last_error TEXT,
+      last_refresh TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  await addColumnIfMissing('training_files', 'source_id', 'VARCHAR(36) AFTER type');
+  await addColumnIfMissing('training_files', 'source_url', 'TEXT AFTER source_id');
+};
+
+const down = async ({ query, dropColumnIfExists }) => {
+  await dropColumnIfExists('training_files', 'source_url');
+  await dropColumnIfExists('training_files', 'source_id');
+  await query('DROP TABLE IF EXISTS url_sources');
+};
+
+module.exports = {
+  up,
+  down
+};
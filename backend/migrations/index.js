@@ -0,0 +1,179 @@
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+// Migrations are the files named <version>_<name>.js in the directory of the storage adapter
+// (this one for MySQL, sqlite/ for SQLite), applied in version order.
+// Each exports { up(schema), down(schema) }; see createSchemaHelpers for `schema`.
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.js$/;
+
+// Line endings are normalized so a checkout on another platform keeps the same checksum
+const computeChecksum = (source) =>
+  crypto.createHash('sha256').update(source.replace(/\r\n/g, '\n')).digest('hex');
+
+const loadMigrations = (directory) => {
+  const migrations = fs.readdirSync(directory)
+    .map(file => file.match(MIGRATION_FILE_PATTERN))
+    .filter(Boolean)
+    .map(([file, version, name]) => ({
+      version: parseInt(version, 10),
+      name,
+      file: path.join(directory, file),
+      checksum: computeChecksum(fs.readFileSync(path.join(directory, file), 'utf8'))
+    }))
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migrations[index - 1].version === migration.version) {
+      throw new Error(`Duplicate migration version ${migration.version}: ${migrations[index - 1].name} and ${migration.name}`);
+    }
+  });
+
+  return migrations;
+};
+
+const ensureMigrationsTable = async (storage) => {
+  await storage.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      checksum CHAR(64) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+};
+
+const getAppliedMigrations = async (storage) => {
+  await ensureMigrationsTable(storage);
+  const [rows] = await storage.query('SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version ASC');
+  return rows;
+};
+
+// Helpers given to the migrations, so they can be written to run on a database that already
+// has part of the schema (created before migrations existed)
+const createSchemaHelpers = (storage) => {
+  const query = (sql, params) => storage.query(sql, params);
+  const getColumnType = (table, column) => storage.getColumnType(table, column);
+
+  const addColumnIfMissing = async (table, column, definition) => {
+    if (await getColumnType(table, column) === null) {
+      await storage.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      console.log(`Added ${column} column to ${table} table`);
+    }
+  };
+
+  const dropColumnIfExists = async (table, column) => {
+    if (await getColumnType(table, column) !== null) {
+      await storage.query(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+      console.log(`Dropped ${column} column from ${table} table`);
+    }
+  };
+
+  return { query, getColumnType, addColumnIfMissing, dropColumnIfExists };
+};
+
+// State of every known migration:
+// applied, pending, changed (applied, but the file was edited afterwards) or
+// missing (applied, but the file no longer exists)
+const getMigrationStatus = async (storage) => {
+  const migrations = loadMigrations(storage.migrationsDir);
+  const applied = new Map((await getAppliedMigrations(storage)).map(row => [row.version, row]));
+
+  const status = migrations.map(migration => {
+    const row = applied.get(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'changed',
+      appliedAt: row ? row.applied_at : null
+    };
+  });
+
+  applied.forEach((row, version) => {
+    if (!migrations.some(migration => migration.version === version)) {
+      status.push({ version, name: row.name, state: 'missing', appliedAt: row.applied_at });
+    }
+  });
+
+  return status.sort((a, b) => a.version - b.version);
+};
+
+// An applied migration must not change: the database would no longer match its source
+const assertChecksums = (status) => {
+  const changed = status.filter(migration => migration.state === 'changed');
+  if (changed.length > 0) {
+    throw new Error(
+      `Applied migrations were modified: ${changed.map(migration => `${migration.version}_${migration.name}`).join(', ')}. ` +
+      'Add a new migration instead of editing an applied one.'
+    );
+  }
+};
+
+// Apply the pending migrations in version order, up to `to` (inclusive) when given.
+// MySQL commits DDL statements implicitly, so a migration is recorded only once its `up` finished;
+// a migration that fails halfway has to be safe to run again (hence the IF NOT EXISTS helpers).
+const migrateUp = async (storage, { to } = {}) => {
+  const status = await getMigrationStatus(storage);
+  assertChecksums(status);
+
+  const migrations = loadMigrations(storage.migrationsDir);
+  const pending = status
+    .filter(migration => migration.state === 'pending' && (to === undefined || migration.version <= to))
+    .map(entry => migrations.find(migration => migration.version === entry.version));
+
+  const schema = createSchemaHelpers(storage);
+  const appliedNow = [];
+
+  for (const migration of pending) {
+    console.log(`Applying migration ${migration.version}_${migration.name}`);
+    const { up } = require(migration.file);
+    await up(schema);
+    await storage.query(
+      'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES (?, ?, ?, ?)',
+      [migration.version, migration.name, migration.checksum, new Date()]
+    );
+    appliedNow.push(migration);
+  }
+
+  return appliedNow;
+};
+
+// Revert the last `steps` applied migrations, newest first
+const migrateDown = async (storage, { steps = 1 } = {}) => {
+  const status = await getMigrationStatus(storage);
+  assertChecksums(status);
+
+  const migrations = loadMigrations(storage.migrationsDir);
+  const toRevert = status
+    .filter(migration => migration.state !== 'pending')
+    .reverse()
+    .slice(0, steps);
+
+  const schema = createSchemaHelpers(storage);
+  const revertedNow = [];
+
+  for (const entry of toRevert) {
+    const migration = migrations.find(candidate => candidate.version === entry.version);
+    if (!migration) {
+      throw new Error(`Cannot revert migration ${entry.version}_${entry.name}: its file no longer exists`);
+    }
+
+    const { down } = require(migration.file);
+    if (typeof down !== 'function') {
+      throw new Error(`Migration ${migration.version}_${migration.name} cannot be reverted`);
+    }
+
+    console.log(`Reverting migration ${migration.version}_${migration.name}`);
+    await down(schema);
+    await storage.query('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+    revertedNow.push(migration);
+  }
+
+  return revertedNow;
+};
+
+module.exports = {
+  getMigrationStatus,
+  migrateUp,
+  migrateDown
+};
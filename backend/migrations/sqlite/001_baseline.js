@@ -0,0 +1,192 @@
+// SQLite version of the baseline schema (../001_baseline.js). Timestamps are ISO 8601 strings in
+// UTC, the format the SQLite storage adapter writes for Date values.
+const NOW = "(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))";
+
+// Child tables first, so foreign keys do not block the drop
+const TABLES = [
+  'call_recordings',
+  'call_recording_consents',
+  'messages',
+  'conversations',
+  'rag_chunks',
+  'rag_documents',
+  'training_files',
+  'agent_functions',
+  'agent_config',
+  'widget_config',
+  'admin_config'
+];
+
+const up = async ({ query }) => {
+  await query(`
+    CREATE TABLE IF NOT EXISTS widget_config (
+      id INTEGER PRIMARY KEY,
+      position VARCHAR(20) NOT NULL,
+      title VARCHAR(100) NOT NULL,
+      subtitle VARCHAR(255) NOT NULL,
+      primary_color VARCHAR(20) NOT NULL,
+      icon_type VARCHAR(20) NOT NULL,
+      updated_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  // Voice settings, model parameters and the knowledge/provider settings (stored as JSON)
+  await query(`
+    CREATE TABLE IF NOT EXISTS agent_config (
+      id INTEGER PRIMARY KEY,
+      system_prompt TEXT NOT NULL,
+      voice_enabled BOOLEAN DEFAULT 1,
+      voice_id VARCHAR(50) NOT NULL,
+      voice_language VARCHAR(10) NOT NULL,
+      voice_latency INTEGER DEFAULT 100,
+      silence_timeout REAL,
+      max_call_duration INTEGER,
+      pause_duration REAL,
+      wait_before_speaking REAL,
+      wait_after_punctuation REAL,
+      wait_without_punctuation REAL,
+      wait_after_number REAL,
+      end_call_message TEXT,
+      continuous_mode BOOLEAN DEFAULT 1,
+      barge_in_enabled BOOLEAN,
+      barge_in_threshold REAL,
+      barge_in_duration REAL,
+      pronunciations TEXT,
+      call_recording TEXT,
+      model VARCHAR(100),
+      temperature REAL,
+      max_tokens INTEGER,
+      detect_emotion BOOLEAN NOT NULL DEFAULT 0,
+      knowledge_type VARCHAR(20) NOT NULL DEFAULT 'rag',
+      rag_config TEXT,
+      fine_tuning TEXT,
+      assistant TEXT,
+      provider TEXT,
+      updated_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS agent_functions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name VARCHAR(100) NOT NULL,
+      description TEXT NOT NULL,
+      parameters TEXT NOT NULL,
+      webhook VARCHAR(255) NOT NULL,
+      created_at TIMESTAMP DEFAULT ${NOW},
+      updated_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  // content is the extracted text, original_content the uploaded file
+  await query(`
+    CREATE TABLE IF NOT EXISTS training_files (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      content TEXT NOT NULL,
+      original_content BLOB,
+      format VARCHAR(20),
+      extraction_warnings TEXT,
+      size INTEGER NOT NULL,
+      type VARCHAR(100) NOT NULL,
+      timestamp TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS rag_documents (
+      id VARCHAR(36) PRIMARY KEY,
+      name VARCHAR(255) NOT NULL,
+      content_hash CHAR(64) NOT NULL,
+      chunk_count INTEGER NOT NULL DEFAULT 0,
+      embedding_model VARCHAR(255),
+      created_at TIMESTAMP DEFAULT ${NOW},
+      updated_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS rag_chunks (
+      id VARCHAR(36) PRIMARY KEY,
+      document_id VARCHAR(36) NOT NULL REFERENCES rag_documents(id) ON DELETE CASCADE,
+      chunk_index INTEGER NOT NULL,
+      content TEXT NOT NULL,
+      embedding TEXT,
+      embedding_model VARCHAR(255),
+      embedding_dimension INTEGER,
+      created_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+  await query('CREATE INDEX IF NOT EXISTS idx_rag_chunks_document ON rag_chunks (document_id)');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS conversations (
+      id VARCHAR(36) PRIMARY KEY,
+      is_active BOOLEAN DEFAULT 1,
+      created_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS messages (
+      id VARCHAR(36) PRIMARY KEY,
+      conversation_id VARCHAR(36) NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+      role VARCHAR(10) NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+      content TEXT NOT NULL,
+      sources TEXT,
+      truncated BOOLEAN NOT NULL DEFAULT 0,
+      event TEXT,
+      timestamp TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+  await query('CREATE INDEX IF NOT EXISTS idx_messages_conversation ON messages (conversation_id)');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS call_recording_consents (
+      conversation_id VARCHAR(36) PRIMARY KEY,
+      granted BOOLEAN NOT NULL,
+      consent_text TEXT,
+      updated_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS call_recordings (
+      id VARCHAR(36) PRIMARY KEY,
+      conversation_id VARCHAR(36) NOT NULL,
+      message_id VARCHAR(36),
+      role VARCHAR(10) NOT NULL CHECK (role IN ('user', 'assistant')),
+      transcript TEXT,
+      audio BLOB NOT NULL,
+      mime_type VARCHAR(100) NOT NULL,
+      size INTEGER NOT NULL,
+      duration_ms INTEGER,
+      created_at TIMESTAMP DEFAULT ${NOW},
+      expires_at TIMESTAMP
+    )
+  `);
+  await query('CREATE INDEX IF NOT EXISTS idx_call_recordings_conversation ON call_recordings (conversation_id)');
+  await query('CREATE INDEX IF NOT EXISTS idx_call_recordings_expires ON call_recordings (expires_at)');
+
+  await query(`
+    CREATE TABLE IF NOT EXISTS admin_config (
+      id INTEGER PRIMARY KEY,
+      username VARCHAR(50) NOT NULL,
+      password_hash VARCHAR(100) NOT NULL,
+      api_key TEXT DEFAULT '',
+      updated_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+};
+
+// Reverting the baseline removes every table, with all its data
+const down = async ({ query }) => {
+  for (const table of TABLES) {
+    await query(`DROP TABLE IF EXISTS ${table}`);
+  }
+};
+
+module.exports = {
+  up,
+  down
+};
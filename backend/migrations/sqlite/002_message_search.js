@@ -0,0 +1,46 @@
+// SQLite version of ../002_message_search.js: an FTS5 index over messages.content. The index only
+// keeps the words (the text stays in messages) and triggers keep it in sync with the table.
+// remove_diacritics lets "ligacao" also match "ligação", as the MySQL collation does.
+
+const up = async ({ query }) => {
+  await query(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+      content,
+      content='messages',
+      content_rowid='rowid',
+      tokenize='unicode61 remove_diacritics 2'
+    )
+  `);
+
+  await query(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+    END
+  `);
+  await query(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+    END
+  `);
+  await query(`
+    CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+      INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+      INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+    END
+  `);
+
+  // Index the messages stored before this migration
+  await query("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')");
+};
+
+const down = async ({ query }) => {
+  await query('DROP TRIGGER IF EXISTS messages_fts_update');
+  await query('DROP TRIGGER IF EXISTS messages_fts_delete');
+  await query('DROP TRIGGER IF EXISTS messages_fts_insert');
+  await query('DROP TABLE IF EXISTS messages_fts');
+};
+
+module.exports = {
+  up,
+  down
+};
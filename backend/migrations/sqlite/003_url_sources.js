@@ -0,0 +1,34 @@
+// SQLite version of ../003_url_sources.js
+
+const NOW = "(strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))";
+
+const up = async ({ query, addColumnIfMissing }) => {
+  await query(`
+    CREATE TABLE IF NOT EXISTS url_sources (
+      id VARCHAR(36) PRIMARY KEY,
+      url TEXT NOT NULL,
+      max_depth INTEGER NOT NULL,
+      max_pages INTEGER NOT NULL,
+      refresh_interval_hours REAL NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'idle',
+      last_crawled_at TIMESTAMP,
+      last_error TEXT,
+      last_refresh TEXT,
+      created_at TIMESTAMP DEFAULT ${NOW}
+    )
+  `);
+
+  await addColumnIfMissing('training_files', 'source_id', 'VARCHAR(36)');
+  await addColumnIfMissing('training_files', 'source_url', 'TEXT');
+};
+
+const down = async ({ query, dropColumnIfExists }) => {
+  await dropColumnIfExists('training_files', 'source_url');
+  await dropColumnIfExists('training_files', 'source_id');
+  await query('DROP TABLE IF EXISTS url_sources');
+};
+
+module.exports = {
+  up,
+  down
+};
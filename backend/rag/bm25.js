@@ -0,0 +1,62 @@
+const { tokenize } = require('./vectorizer');
+
+// Classic BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Build an inverted index with the statistics BM25 needs
+const buildBm25Index = (entries) => {
+  const lengths = new Map();
+  const postings = new Map(); // term -> (id -> frequency)
+  let totalLength = 0;
+
+  for (const entry of entries) {
+    const tokens = tokenize(entry.text);
+    lengths.set(entry.id, tokens.length);
+    totalLength += tokens.length;
+
+    for (const token of tokens) {
+      let posting = postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        postings.set(token, posting);
+      }
+      posting.set(entry.id, (posting.get(entry.id) || 0) + 1);
+    }
+  }
+
+  return {
+    documentCount: entries.length,
+    averageLength: entries.length > 0 ? totalLength / entries.length : 0,
+    lengths,
+    postings
+  };
+};
+
+// Score indexed entries for a query; only entries sharing at least one term are returned
+const scoreBm25 = (index, query) => {
+  const scores = new Map();
+  const terms = new Set(tokenize(query));
+
+  terms.forEach(term => {
+    const posting = index.postings.get(term);
+    if (!posting) return;
+
+    // Smoothed IDF (always positive), as in Lucene
+    const idf = Math.log(1 + (index.documentCount - posting.size + 0.5) / (posting.size + 0.5));
+
+    posting.forEach((frequency, id) => {
+      const length = index.lengths.get(id) || 0;
+      const normalization = 1 - BM25_B + BM25_B * (length / (index.averageLength || 1));
+      const termScore = idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalization);
+      scores.set(id, (scores.get(id) || 0) + termScore);
+    });
+  });
+
+  return scores;
+};
+
+module.exports = {
+  buildBm25Index,
+  scoreBm25
+};
@@ -0,0 +1,278 @@
+// Structure-aware chunking of training files, with one strategy per file type.
+// The admin panel reads the defaults and the detected strategy through POST /api/rag/chunking.
+
+const DEFAULT_CHUNK_SETTINGS = {
+  strategy: 'auto',
+  chunkSize: 250, // tokens (~1000 characters)
+  chunkOverlap: 50, // tokens
+  rowsPerChunk: 5
+};
+
+// Token estimate without a tokenizer: ~4 characters per token, as with OpenAI models
+const CHARS_PER_TOKEN = 4;
+
+const estimateTokens = (text) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+// Fill missing settings with the defaults
+const resolveChunkSettings = (settings) => {
+  const chunkSize = Math.max(20, settings?.chunkSize || DEFAULT_CHUNK_SETTINGS.chunkSize);
+  return {
+    strategy: settings?.strategy || DEFAULT_CHUNK_SETTINGS.strategy,
+    chunkSize,
+    // Overlap must be smaller than the chunk or splitting never advances
+    chunkOverlap: Math.min(Math.max(0, settings?.chunkOverlap ?? DEFAULT_CHUNK_SETTINGS.chunkOverlap), Math.floor(chunkSize / 2)),
+    rowsPerChunk: Math.max(1, settings?.rowsPerChunk || DEFAULT_CHUNK_SETTINGS.rowsPerChunk)
+  };
+};
+
+// Pick the strategy from the file name or type when it is 'auto'
+const detectChunkingStrategy = (fileName, fileType) => {
+  const name = (fileName || '').toLowerCase();
+  const type = (fileType || '').toLowerCase();
+
+  if (name.endsWith('.md') || name.endsWith('.markdown') || type.includes('markdown')) return 'markdown';
+  // DOCX and HTML are extracted on the server with their headings as Markdown
+  if (/\.(docx|html?)$/.test(name) || type.includes('wordprocessingml') || type.includes('html')) return 'markdown';
+  if (name.endsWith('.csv') || type.includes('csv')) return 'csv';
+  if (name.endsWith('.json') || name.endsWith('.jsonl') || type.includes('json')) return 'json';
+  return 'text';
+};
+
+// Split into sentences ({ text, separator }), keeping final punctuation.
+// Line and paragraph breaks also end a sentence and are kept as its separator.
+const splitIntoSentences = (text) => {
+  const sentences = [];
+
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    paragraph.split(/\r?\n/).forEach((line, lineIndex) => {
+      line
+        .replace(/\s+/g, ' ')
+        .trim()
+        .split(/(?<=[.!?…])\s+(?=[A-ZÀ-Ý0-9"'“(])/)
+        .filter(sentence => sentence.length > 0)
+        .forEach((sentence, sentenceIndex) => {
+          const separator = sentenceIndex > 0 ? ' ' : lineIndex > 0 ? '\n' : '\n\n';
+          sentences.push({ text: sentence, separator });
+        });
+    });
+  });
+
+  return sentences;
+};
+
+const joinSentences = (sentences) => {
+  return sentences.map((sentence, index) => index > 0 ? sentence.separator + sentence.text : sentence.text).join('');
+};
+
+// Break a sentence longer than the chunk into pieces by words
+const splitLongSentence = (sentence, maxTokens) => {
+  const pieces = [];
+  let current = '';
+
+  for (const word of sentence.split(' ')) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) {
+    pieces.push(current);
+  }
+  return pieces;
+};
+
+// Text: pack whole sentences up to the chunk size, repeating the last sentences
+// of the previous chunk as overlap
+const chunkText = (text, settings) => {
+  const sentences = splitIntoSentences(text)
+    .flatMap(sentence => estimateTokens(sentence.text) > settings.chunkSize
+      ? splitLongSentence(sentence.text, settings.chunkSize).map((piece, index) => ({
+        text: piece,
+        separator: index > 0 ? ' ' : sentence.separator
+      }))
+      : [sentence]);
+
+  const chunks = [];
+  let current = [];
+  let currentTokens = 0;
+
+  for (const sentence of sentences) {
+    const sentenceTokens = estimateTokens(sentence.text);
+
+    if (current.length > 0 && currentTokens + sentenceTokens > settings.chunkSize) {
+      chunks.push(joinSentences(current));
+
+      // Overlap: last sentences of the previous chunk, up to the configured limit
+      const overlap = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        const tokens = estimateTokens(current[i].text);
+        if (overlapTokens + tokens > settings.chunkOverlap || overlapTokens + tokens + sentenceTokens > settings.chunkSize) break;
+        overlap.unshift(current[i]);
+        overlapTokens += tokens;
+      }
+
+      current = overlap;
+      currentTokens = overlapTokens;
+    }
+
+    current.push(sentence);
+    currentTokens += sentenceTokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(joinSentences(current));
+  }
+  return chunks;
+};
+
+// Markdown: one section per heading, with the heading path ("Plans > Prices") at the start of each chunk
+const chunkMarkdown = (text, settings) => {
+  const sections = [];
+  const headingStack = [];
+  let current = { path: [], lines: [] };
+  let inCodeBlock = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      sections.push(current);
+
+      const level = heading[1].length;
+      while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+        headingStack.pop();
+      }
+      headingStack.push({ level, title: heading[2] });
+
+      current = { path: headingStack.map(item => item.title), lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  sections.push(current);
+
+  return sections.flatMap(section => {
+    const body = section.lines.join('\n').trim();
+    if (!body) return [];
+
+    const prefix = section.path.length > 0 ? `${section.path.join(' > ')}\n\n` : '';
+    const bodySettings = { ...settings, chunkSize: Math.max(20, settings.chunkSize - estimateTokens(prefix)) };
+    return chunkText(body, bodySettings).map(chunk => prefix + chunk);
+  });
+};
+
+// Split CSV records, honoring quoted fields (which may contain line breaks)
+const splitCsvRecords = (text) => {
+  const records = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    }
+
+    if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      if (current.trim()) records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  if (current.trim()) {
+    records.push(current);
+  }
+  return records;
+};
+
+// CSV: row groups with the header repeated in every chunk
+const chunkCsv = (text, settings) => {
+  const [header, ...rows] = splitCsvRecords(text);
+  if (!header) return [];
+  if (rows.length === 0) return [header];
+
+  const chunks = [];
+  let group = [];
+
+  for (const row of rows) {
+    const grouped = [header, ...group, row].join('\n');
+    if (group.length > 0 && (group.length >= settings.rowsPerChunk || estimateTokens(grouped) > settings.chunkSize)) {
+      chunks.push([header, ...group].join('\n'));
+      group = [];
+    }
+    group.push(row);
+  }
+
+  if (group.length > 0) {
+    chunks.push([header, ...group].join('\n'));
+  }
+  return chunks;
+};
+
+// JSON: one chunk per record (array item or object key). JSON Lines is accepted too.
+// Records larger than the chunk are split as text.
+const chunkJson = (text, settings) => {
+  let records;
+
+  try {
+    const data = JSON.parse(text);
+    if (Array.isArray(data)) {
+      records = data.map(item => JSON.stringify(item, null, 2));
+    } else if (data && typeof data === 'object') {
+      records = Object.entries(data).map(([key, value]) => JSON.stringify({ [key]: value }, null, 2));
+    } else {
+      records = [JSON.stringify(data)];
+    }
+  } catch {
+    try {
+      records = text
+        .split(/\r?\n/)
+        .filter(line => line.trim())
+        .map(line => JSON.stringify(JSON.parse(line), null, 2));
+    } catch {
+      console.warn('Invalid JSON, chunking as plain text');
+      return chunkText(text, settings);
+    }
+  }
+
+  return records.flatMap(record => estimateTokens(record) > settings.chunkSize
+    ? chunkText(record, settings)
+    : [record]);
+};
+
+const chunkers = {
+  markdown: chunkMarkdown,
+  csv: chunkCsv,
+  json: chunkJson,
+  text: chunkText
+};
+
+// Split content with the configured strategy (or the one detected from the file type)
+const chunkDocument = (content, fileName, fileType, chunkSettings) => {
+  const settings = resolveChunkSettings(chunkSettings);
+  const strategy = settings.strategy === 'auto' ? detectChunkingStrategy(fileName, fileType) : settings.strategy;
+  const chunker = chunkers[strategy] || chunkText;
+
+  return chunker(String(content || ''), settings)
+    .map(chunk => chunk.trim())
+    .filter(chunk => chunk.length > 0);
+};
+
+module.exports = {
+  DEFAULT_CHUNK_SETTINGS,
+  estimateTokens,
+  resolveChunkSettings,
+  detectChunkingStrategy,
+  chunkDocument
+};
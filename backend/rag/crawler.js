@@ -0,0 +1,209 @@
+const crypto = require('crypto');
+const { htmlToText } = require('./extract');
+const { fetchPublicUrl } = require('./publicHttp');
+
+const DEFAULT_CRAWL_OPTIONS = {
+  maxDepth: 2,
+  maxPages: 50
+};
+
+// Hard limits for a single crawl, whatever the client asks for
+const MAX_CRAWL_DEPTH = 5;
+const MAX_CRAWL_PAGES = parseInt(process.env.CRAWLER_MAX_PAGES, 10) || 200;
+const PAGE_TIMEOUT_MS = 15000;
+const MAX_SITEMAPS = 10;
+
+// Links to files that are never HTML pages
+const SKIPPED_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|ico|css|js|mjs|json|xml|txt|pdf|docx?|xlsx?|pptx?|zip|gz|tar|rar|mp3|mp4|webm|avi|mov|woff2?|ttf|eot)$/i;
+
+const hashContent = (content) => crypto.createHash('sha256').update(content).digest('hex');
+
+// Normalize a link against its page: drop the fragment, keep only http(s)
+const normalizeUrl = (href, baseUrl) => {
+  try {
+    const url = new URL(href, baseUrl);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.toString();
+  } catch {
+    return null;
+  }
+};
+
+// "www.example.com" and "example.com" count as the same site
+const siteHost = (url) => new URL(url).hostname.replace(/^www\./, '');
+
+// Pages and sitemaps of the crawled site only: redirects to another site are not followed, and
+// no request reaches a non-public address (see publicHttp.js)
+const fetchResource = (url, { host, isAddressAllowed }) => fetchPublicUrl(url, {
+  headers: {
+    'User-Agent': 'ChatAssistantCrawler/1.0 (+knowledge source refresh)',
+    'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.5'
+  },
+  timeoutMs: PAGE_TIMEOUT_MS,
+  allowRedirect: (location) => siteHost(location) === host,
+  isAddressAllowed
+});
+
+const isSitemap = (resource) => /<(urlset|sitemapindex)\b/i.test(resource.body.slice(0, 2000));
+
+const extractSitemapLocations = (xml) => {
+  return Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi), match => match[1].replace(/&amp;/g, '&'));
+};
+
+// Page URLs listed in a sitemap, following the same-site sitemaps of sitemap indexes
+const readSitemap = async (resource, errors, fetchOptions) => {
+  const pageUrls = [];
+  const pending = [resource];
+  let sitemapCount = 0;
+
+  while (pending.length > 0 && sitemapCount < MAX_SITEMAPS) {
+    const sitemap = pending.shift();
+    sitemapCount++;
+
+    const locations = extractSitemapLocations(sitemap.body);
+    if (/<sitemapindex\b/i.test(sitemap.body)) {
+      for (const location of locations) {
+        const sitemapUrl = normalizeUrl(location);
+        if (!sitemapUrl || siteHost(sitemapUrl) !== fetchOptions.host) {
+          errors.push({ url: location, error: 'Sitemap on another site' });
+          continue;
+        }
+        try {
+          pending.push(await fetchResource(sitemapUrl, fetchOptions));
+        } catch (error) {
+          errors.push({ url: location, error: error.message });
+        }
+      }
+    } else {
+      pageUrls.push(...locations);
+    }
+  }
+
+  return pageUrls;
+};
+
+const extractLinks = (html, pageUrl) => {
+  return Array.from(html.matchAll(/<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["']/gi), match => normalizeUrl(match[1], pageUrl))
+    .filter(Boolean);
+};
+
+const extractTitle = (html) => {
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i) || html.match(/<h1\b[^>]*>([\s\S]*?)<\/h1>/i);
+  return title ? htmlToText(title[1]).replace(/\s+/g, ' ').trim() : '';
+};
+
+// Main content of a page: <main>, <article> or role="main" when present, otherwise the body
+// without navigation, header, footer, sidebars and forms
+const extractMainContent = (html) => {
+  const main = html.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)
+    || html.match(/<([a-z]+)\b[^>]*\brole\s*=\s*["']main["'][^>]*>([\s\S]*?)<\/\1>/i)
+    || html.match(/<article\b[^>]*>([\s\S]*?)<\/article>/i);
+
+  let content;
+  if (main) {
+    content = main[main.length - 1];
+  } else {
+    const body = html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i);
+    content = (body ? body[1] : html)
+      .replace(/<(nav|header|footer|aside|form)\b[\s\S]*?<\/\1>/gi, '');
+  }
+
+  return htmlToText(content);
+};
+
+const readRobotsMeta = (html) => {
+  const meta = html.match(/<meta\b[^>]*\bname\s*=\s*["']robots["'][^>]*>/i);
+  const content = meta ? (meta[0].match(/\bcontent\s*=\s*["']([^"']*)["']/i) || [])[1] || '' : '';
+  return {
+    noindex: /noindex/i.test(content),
+    nofollow: /nofollow/i.test(content)
+  };
+};
+
+// Crawl same-site pages breadth-first from a start URL or sitemap, up to maxDepth links away
+// and maxPages pages. Returns { pages: [{ url, title, content, hash }], errors: [{ url, error }] }.
+// isAddressAllowed replaces the public-address check (for tests against a local server).
+const crawlSite = async ({ url, maxDepth, maxPages }, { isAddressAllowed } = {}) => {
+  const startUrl = normalizeUrl(url);
+  if (!startUrl) {
+    const error = new Error('url must be an absolute http(s) URL');
+    error.status = 400;
+    throw error;
+  }
+
+  const depthLimit = Math.min(Math.max(0, maxDepth ?? DEFAULT_CRAWL_OPTIONS.maxDepth), MAX_CRAWL_DEPTH);
+  const pageLimit = Math.min(Math.max(1, maxPages || DEFAULT_CRAWL_OPTIONS.maxPages), MAX_CRAWL_PAGES);
+  const host = siteHost(startUrl);
+  const fetchOptions = { host, isAddressAllowed };
+
+  const pages = [];
+  const errors = [];
+  const visited = new Set();
+  const seenHashes = new Set();
+  let queue = [{ url: startUrl, depth: 0 }];
+
+  while (queue.length > 0 && pages.length < pageLimit) {
+    const { url: pageUrl, depth } = queue.shift();
+    if (visited.has(pageUrl)) continue;
+    visited.add(pageUrl);
+
+    let resource;
+    try {
+      resource = await fetchResource(pageUrl, fetchOptions);
+    } catch (error) {
+      console.warn(`Crawler could not fetch ${pageUrl}: ${error.message}`);
+      errors.push({ url: pageUrl, error: error.message });
+      continue;
+    }
+
+    // A sitemap seeds the queue with its pages instead of being stored
+    if (resource.contentType.includes('xml') && isSitemap(resource)) {
+      const listed = await readSitemap(resource, errors, fetchOptions);
+      const seeds = listed
+        .map(location => normalizeUrl(location))
+        .filter(location => location && siteHost(location) === host && !visited.has(location))
+        .map(location => ({ url: location, depth }));
+      queue = [...seeds, ...queue];
+      console.log(`Sitemap ${pageUrl} lists ${seeds.length} pages`);
+      continue;
+    }
+
+    if (!resource.contentType.includes('html')) continue;
+    visited.add(resource.url);
+
+    const robots = readRobotsMeta(resource.body);
+    const content = robots.noindex ? '' : extractMainContent(resource.body);
+    if (content) {
+      const hash = hashContent(content);
+      // Same content under another URL (e.g. "/" and "/index.html") is stored once
+      if (!seenHashes.has(hash)) {
+        seenHashes.add(hash);
+        pages.push({
+          url: resource.url,
+          title: extractTitle(resource.body) || resource.url,
+          content,
+          hash
+        });
+      }
+    }
+
+    if (depth < depthLimit && !robots.nofollow) {
+      for (const link of extractLinks(resource.body, resource.url)) {
+        if (visited.has(link) || siteHost(link) !== host) continue;
+        if (SKIPPED_EXTENSIONS.test(new URL(link).pathname)) continue;
+        queue.push({ url: link, depth: depth + 1 });
+      }
+    }
+  }
+
+  console.log(`Crawled ${startUrl}: ${pages.length} pages, ${errors.length} errors`);
+  return { pages, errors };
+};
+
+module.exports = {
+  DEFAULT_CRAWL_OPTIONS,
+  hashContent,
+  extractMainContent,
+  crawlSite
+};
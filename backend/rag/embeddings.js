@@ -0,0 +1,107 @@
+const { resolveProvider } = require('../routes/llm');
+const { LOCAL_EMBEDDING_MODEL, vectorizeText } = require('./vectorizer');
+
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+const EMBEDDING_BATCH_SIZE = 64; // Texts per upstream request
+
+// Where embeddings come from: { source: 'provider' | 'local', provider }
+const usesLocalVectorizer = (settings) => {
+  return !settings || settings.source === 'local' || settings.provider?.type === 'mock';
+};
+
+// Identifier of the embedding model; vectors from different models are not comparable.
+const getEmbeddingModelId = (settings) => {
+  if (!settings || settings.source === 'local') {
+    return LOCAL_EMBEDDING_MODEL;
+  }
+
+  const provider = settings.provider || { type: 'openai' };
+  if (provider.type === 'mock') {
+    return `mock:${LOCAL_EMBEDDING_MODEL}`;
+  }
+
+  const model = provider.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  return provider.type === 'openai-compatible'
+    ? `${provider.type}:${provider.baseUrl}:${model}`
+    : `${provider.type}:${model}`;
+};
+
+// Embedding settings of the stored agent config (rag.embeddingSource and provider). They are never
+// taken from a request: every chunk and query is embedded with the model the admin configured.
+const loadEmbeddingSettings = async (storage) => {
+  const [rows] = await storage.query('SELECT rag_config, provider FROM agent_config WHERE id = 1');
+  const parse = (value) => {
+    try {
+      return value ? JSON.parse(value) : null;
+    } catch (error) {
+      console.error('Invalid JSON in agent_config column:', error);
+      return null;
+    }
+  };
+
+  const rag = rows.length > 0 ? parse(rows[0].rag_config) : null;
+  const provider = rows.length > 0 ? parse(rows[0].provider) : null;
+  return {
+    source: rag?.embeddingSource || 'provider',
+    provider: provider || { type: 'openai' }
+  };
+};
+
+// Embed a list of texts, returning vectors in input order
+const embedTexts = async (texts, settings) => {
+  if (texts.length === 0) {
+    return [];
+  }
+
+  if (usesLocalVectorizer(settings)) {
+    return texts.map(text => vectorizeText(text));
+  }
+
+  const target = await resolveProvider(settings.provider);
+  if (target.error) {
+    const error = new Error(target.error);
+    error.status = target.status;
+    throw error;
+  }
+
+  const model = settings.provider?.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+  const vectors = [];
+
+  for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = texts.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const upstream = await fetch(target.buildUrl('/embeddings'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...target.headers
+      },
+      body: JSON.stringify({ model, input: batch })
+    });
+
+    if (!upstream.ok) {
+      const errorText = await upstream.text().catch(() => '');
+      const error = new Error(`Embeddings request failed: ${upstream.status} ${errorText.substring(0, 200)}`);
+      error.status = upstream.status;
+      throw error;
+    }
+
+    const data = await upstream.json();
+    const batchVectors = (data.data || [])
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    if (batchVectors.length !== batch.length) {
+      throw new Error(`Provider returned ${batchVectors.length} embeddings for ${batch.length} texts`);
+    }
+
+    vectors.push(...batchVectors);
+  }
+
+  return vectors;
+};
+
+module.exports = {
+  getEmbeddingModelId,
+  loadEmbeddingSettings,
+  embedTexts
+};
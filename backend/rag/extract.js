@@ -0,0 +1,141 @@
+const mammoth = require('mammoth');
+const { PDFParse } = require('pdf-parse');
+
+// Largest original file accepted for training (the client used to stop at 1 MB)
+const MAX_TRAINING_FILE_BYTES = (parseFloat(process.env.TRAINING_MAX_FILE_SIZE_MB) || 20) * 1024 * 1024;
+
+// Pick the extractor from the file extension, falling back to the MIME type
+const detectFormat = (name, type) => {
+  const fileName = (name || '').toLowerCase();
+  const mimeType = (type || '').toLowerCase();
+
+  if (fileName.endsWith('.docx') || mimeType.includes('wordprocessingml')) return 'docx';
+  if (fileName.endsWith('.pdf') || mimeType === 'application/pdf') return 'pdf';
+  if (fileName.endsWith('.html') || fileName.endsWith('.htm') || mimeType.includes('html')) return 'html';
+  return 'text';
+};
+
+const NAMED_ENTITIES = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', laquo: '«', raquo: '»', copy: '©', reg: '®'
+};
+
+// Accented letters (&ccedil;, &Atilde;...) are built from the base letter and a combining mark
+const ACCENT_MARKS = { acute: '\u0301', grave: '\u0300', circ: '\u0302', tilde: '\u0303', uml: '\u0308', cedil: '\u0327' };
+
+const decodeEntities = (text) => {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+
+    const accented = code.match(/^([a-z])(acute|grave|circ|tilde|uml|cedil)$/i);
+    if (accented) {
+      return (accented[1] + ACCENT_MARKS[accented[2].toLowerCase()]).normalize('NFC');
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+};
+
+// Convert HTML to plain text, keeping structure as Markdown-like headings, list items and
+// table rows so the Markdown chunker can split by section
+const htmlToText = (html) => {
+  const text = String(html || '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (match, level, content) => {
+      const heading = content.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+      return heading ? `\n\n${'#'.repeat(Number(level))} ${heading}\n\n` : '\n\n';
+    })
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, ' | ')
+    .replace(/<\/?(p|div|section|article|main|header|footer|nav|aside|ul|ol|table|thead|tbody|tr|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00A0]+/g, ' ').replace(/\s*\|\s*$/, '').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+const extractDocx = async (buffer) => {
+  const { value, messages } = await mammoth.convertToHtml({ buffer });
+  return {
+    text: htmlToText(value),
+    warnings: messages.map(message => `DOCX: ${message.message}`)
+  };
+};
+
+const extractPdf = async (buffer) => {
+  const parser = new PDFParse({ data: buffer });
+  try {
+    const result = await parser.getText();
+    const warnings = [];
+    const pages = result.pages.map(page => ({ num: page.num, text: (page.text || '').trim() }));
+    const emptyPages = pages.filter(page => !page.text).map(page => page.num);
+
+    if (pages.length > 0 && emptyPages.length === pages.length) {
+      warnings.push('O PDF não contém texto extraível (provavelmente é digitalizado); use OCR antes de enviar.');
+    } else if (emptyPages.length > 0) {
+      warnings.push(`Páginas sem texto extraível: ${emptyPages.join(', ')}`);
+    }
+
+    return {
+      text: pages.filter(page => page.text).map(page => page.text).join('\n\n'),
+      warnings,
+      pageCount: result.total
+    };
+  } finally {
+    await parser.destroy();
+  }
+};
+
+const extractPlainText = (buffer) => {
+  let text = buffer.toString('utf8');
+  const warnings = [];
+
+  // Invalid UTF-8 usually means a Latin-1/Windows-1252 file
+  if (text.includes('\uFFFD')) {
+    text = buffer.toString('latin1');
+    warnings.push('O arquivo não está em UTF-8; o texto foi lido como Latin-1.');
+  }
+
+  return { text: text.replace(/^\uFEFF/, ''), warnings };
+};
+
+// Extract plain text (with structure where the format has it) from an uploaded file.
+// Returns { text, format, warnings, pageCount? }; throws on unreadable files.
+const extractText = async ({ name, type, buffer }) => {
+  const format = detectFormat(name, type);
+  let result;
+
+  if (format === 'docx') {
+    result = await extractDocx(buffer);
+  } else if (format === 'pdf') {
+    result = await extractPdf(buffer);
+  } else if (format === 'html') {
+    const plain = extractPlainText(buffer);
+    result = { text: htmlToText(plain.text), warnings: plain.warnings };
+  } else {
+    result = extractPlainText(buffer);
+  }
+
+  const warnings = [...result.warnings];
+  if (!result.text.trim()) {
+    warnings.push('Nenhum texto foi extraído do arquivo.');
+  }
+
+  console.log(`Extracted ${result.text.length} characters from ${format} file ${name} (${warnings.length} warnings)`);
+  return { ...result, format, warnings };
+};
+
+module.exports = {
+  MAX_TRAINING_FILE_BYTES,
+  detectFormat,
+  htmlToText,
+  extractText
+};
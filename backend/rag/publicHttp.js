@@ -0,0 +1,173 @@
+const http = require('http');
+const https = require('https');
+const dns = require('dns');
+const net = require('net');
+const zlib = require('zlib');
+
+// GET requests to URLs that come from clients (or from the pages they point to), restricted to
+// public addresses: private, loopback, link-local and reserved ranges are refused after DNS
+// resolution and again on every redirect, so a crawl cannot reach the server's own network.
+
+const MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+const BLOCKED_RANGES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4] // reserved and broadcast
+].forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64 of IPv4 addresses
+  ['2001:db8::', 32],
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8] // multicast
+].forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address, prefix, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges
+const isPublicAddress = (address, family = net.isIP(address)) =>
+  !BLOCKED_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+
+const blockedAddressError = (hostname, address) => {
+  const error = new Error(`${hostname} resolves to a non-public address (${address})`);
+  error.code = 'EADDRBLOCKED';
+  return error;
+};
+
+// dns.lookup for http.request that refuses the host when any of its addresses is not allowed
+const createGuardedLookup = (isAddressAllowed) => (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error);
+
+    const blocked = addresses.find(({ address, family }) => !isAddressAllowed(address, family));
+    if (blocked) return callback(blockedAddressError(hostname, blocked.address));
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const decodeBody = (response) => {
+  switch ((response.headers['content-encoding'] || '').trim().toLowerCase()) {
+    case 'gzip':
+    case 'x-gzip':
+      return response.pipe(zlib.createGunzip());
+    case 'deflate':
+      return response.pipe(zlib.createInflate());
+    case 'br':
+      return response.pipe(zlib.createBrotliDecompress());
+    default:
+      return response;
+  }
+};
+
+// One request without following redirects. Resolves with the response and its body (empty for
+// redirects), or rejects on a blocked address, a body over maxBytes or the deadline.
+const requestOnce = (url, { headers, lookup, maxBytes, deadline }) => new Promise((resolve, reject) => {
+  // IP literals are connected to directly, without a lookup
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(hostname)) {
+    lookup(hostname, { all: true }, (error) => error ? reject(error) : send());
+  } else {
+    send();
+  }
+
+  function send() {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, { headers, lookup }, (response) => {
+      if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+        response.resume();
+        return resolve({ response, body: '' });
+      }
+
+      const chunks = [];
+      let size = 0;
+      const body = decodeBody(response);
+      body.on('data', (chunk) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          request.destroy(new Error(`Response larger than ${Math.round(maxBytes / (1024 * 1024))} MB`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      body.on('end', () => resolve({ response, body: Buffer.concat(chunks).toString('utf8') }));
+      body.on('error', reject);
+    });
+
+    const timer = setTimeout(() => request.destroy(new Error('Request timed out')), Math.max(0, deadline - Date.now()));
+    request.on('close', () => clearTimeout(timer));
+    request.on('error', reject);
+  }
+});
+
+// GET a public http(s) URL, following up to MAX_REDIRECTS redirects. Every hop is checked:
+// its protocol, allowRedirect(url) and the addresses of its host (isAddressAllowed, public
+// addresses only by default). Resolves with { url, status, contentType, body } for a 2xx response.
+const fetchPublicUrl = async (url, {
+  headers = {},
+  timeoutMs = DEFAULT_TIMEOUT_MS,
+  maxBytes = DEFAULT_MAX_BYTES,
+  allowRedirect = () => true,
+  isAddressAllowed = isPublicAddress
+} = {}) => {
+  const lookup = createGuardedLookup(isAddressAllowed);
+  const deadline = Date.now() + timeoutMs;
+  let currentUrl = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (currentUrl.protocol !== 'http:' && currentUrl.protocol !== 'https:') {
+      throw new Error(`Unsupported protocol ${currentUrl.protocol}`);
+    }
+
+    const { response, body } = await requestOnce(currentUrl, {
+      headers: { 'Accept-Encoding': 'gzip, deflate, br', ...headers },
+      lookup,
+      maxBytes,
+      deadline
+    });
+
+    if (response.statusCode >= 300 && response.statusCode < 400 && response.headers.location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error('Too many redirects');
+      }
+      const nextUrl = new URL(response.headers.location, currentUrl);
+      if (!allowRedirect(nextUrl.toString())) {
+        throw new Error(`Redirect to ${nextUrl} not allowed`);
+      }
+      currentUrl = nextUrl;
+      continue;
+    }
+
+    if (response.statusCode < 200 || response.statusCode >= 300) {
+      throw new Error(`HTTP ${response.statusCode}`);
+    }
+
+    return {
+      url: currentUrl.toString(),
+      status: response.statusCode,
+      contentType: (response.headers['content-type'] || '').toLowerCase(),
+      body
+    };
+  }
+};
+
+module.exports = {
+  isPublicAddress,
+  fetchPublicUrl
+};
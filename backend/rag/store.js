@@ -0,0 +1,276 @@
+const crypto = require('crypto');
+const { v4: uuidv4 } = require('uuid');
+const { buildBm25Index, scoreBm25 } = require('./bm25');
+const { getEmbeddingModelId, loadEmbeddingSettings, embedTexts } = require('./embeddings');
+const { chunkDocument, resolveChunkSettings } = require('./chunkers');
+
+// Retrieval settings
+const CANDIDATE_POOL_SIZE = 20; // Candidates from each ranking before fusion
+const RRF_K = 60; // Standard Reciprocal Rank Fusion constant
+const DEFAULT_TOP_K = 3;
+const DEFAULT_SIMILARITY_THRESHOLD = 0.25;
+const MAX_RESULTS = 20;
+// Rows per INSERT when storing chunks (keeps the statement under the placeholder limits)
+const CHUNK_INSERT_BATCH_SIZE = 500;
+
+// In-memory copy of the chunks and their BM25 index, rebuilt after any change
+let chunkCache = null;
+
+const invalidateCache = () => {
+  chunkCache = null;
+};
+
+// Hash of the content and the chunk settings: changing either re-chunks the document
+const hashContent = (content, chunkSettings) => {
+  return crypto.createHash('sha256')
+    .update(content)
+    .update(JSON.stringify(resolveChunkSettings(chunkSettings)))
+    .digest('hex');
+};
+
+// Cosine similarity between two vectors of the same length
+const cosineSimilarity = (a, b) => {
+  if (!a || !b || a.length !== b.length) {
+    return 0;
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+// Load every chunk (with its document name) and build the lexical index
+const loadChunks = async (storage) => {
+  if (chunkCache) {
+    return chunkCache;
+  }
+
+  const [rows] = await storage.query(
+    'SELECT c.id, c.document_id, c.chunk_index, c.content, c.embedding, c.embedding_model, c.embedding_dimension, d.name ' +
+    'FROM rag_chunks c JOIN rag_documents d ON d.id = c.document_id ORDER BY c.document_id, c.chunk_index'
+  );
+
+  const chunks = rows.map(row => ({
+    id: row.id,
+    documentId: row.document_id,
+    fileName: row.name,
+    content: row.content,
+    embedding: row.embedding ? JSON.parse(row.embedding) : null,
+    embeddingModel: row.embedding_model,
+    embeddingDimension: row.embedding_dimension
+  }));
+
+  chunkCache = {
+    chunks,
+    lexicalIndex: buildBm25Index(chunks.map(chunk => ({ id: chunk.id, text: chunk.content })))
+  };
+  console.log(`Loaded ${chunks.length} RAG chunks into memory`);
+  return chunkCache;
+};
+
+// Chunk, embed and store a document, replacing any previous version. Embeddings use the
+// settings of the stored agent config. If embedding fails the chunks are stored without
+// vectors: lexical search still works and the next reindex embeds them.
+const ingestDocument = async (storage, { id, name, content, type, chunking }) => {
+  const embeddingSettings = await loadEmbeddingSettings(storage);
+  const model = getEmbeddingModelId(embeddingSettings);
+  const contentHash = hashContent(content || '', chunking);
+
+  const [existing] = await storage.query('SELECT content_hash, embedding_model, chunk_count FROM rag_documents WHERE id = ?', [id]);
+  if (existing.length > 0 && existing[0].content_hash === contentHash && existing[0].embedding_model === model) {
+    console.log(`RAG document ${id} unchanged, skipping ingestion`);
+    return { chunkCount: existing[0].chunk_count, embeddingModel: model, skipped: true };
+  }
+
+  const chunks = chunkDocument(content, name, type, chunking);
+  let vectors = null;
+  let embeddingError = null;
+  try {
+    vectors = await embedTexts(chunks, embeddingSettings);
+  } catch (error) {
+    console.error(`Error embedding RAG document ${id}:`, error.message);
+    embeddingError = error.message;
+  }
+
+  try {
+    await storage.transaction(async (transaction) => {
+      await transaction.query('DELETE FROM rag_chunks WHERE document_id = ?', [id]);
+      await transaction.upsert('rag_documents', {
+        id,
+        name,
+        content_hash: contentHash,
+        chunk_count: chunks.length,
+        embedding_model: vectors ? model : null
+      }, ['id']);
+
+      for (let start = 0; start < chunks.length; start += CHUNK_INSERT_BATCH_SIZE) {
+        const batch = chunks.slice(start, start + CHUNK_INSERT_BATCH_SIZE);
+        const values = batch.flatMap((chunk, offset) => {
+          const index = start + offset;
+          return [
+            uuidv4(),
+            id,
+            index,
+            chunk,
+            vectors ? JSON.stringify(vectors[index]) : null,
+            vectors ? model : null,
+            vectors ? vectors[index].length : null
+          ];
+        });
+        await transaction.query(
+          'INSERT INTO rag_chunks (id, document_id, chunk_index, content, embedding, embedding_model, embedding_dimension) VALUES ' +
+          batch.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', '),
+          values
+        );
+      }
+    });
+  } finally {
+    invalidateCache();
+  }
+
+  console.log(`RAG document ${id} ingested: ${chunks.length} chunks, model ${vectors ? model : 'none'}`);
+  return { chunkCount: chunks.length, embeddingModel: vectors ? model : null, embeddingError };
+};
+
+// Remove a document and (by cascade) its chunks
+const removeDocument = async (storage, id) => {
+  await storage.query('DELETE FROM rag_documents WHERE id = ?', [id]);
+  invalidateCache();
+};
+
+// Embed the chunks that were not embedded with the configured model (or all of them when forced).
+// Only ingestion and the admin reindex write vectors; searches never do.
+const reembedChunks = async (storage, force = false) => {
+  const embeddingSettings = await loadEmbeddingSettings(storage);
+  const model = getEmbeddingModelId(embeddingSettings);
+  const { chunks } = await loadChunks(storage);
+  const stale = force
+    ? chunks
+    : chunks.filter(chunk => chunk.embeddingModel !== model || !chunk.embedding);
+
+  if (stale.length === 0) {
+    return 0;
+  }
+
+  console.log(`Re-embedding ${stale.length} RAG chunks with ${model}`);
+  const vectors = await embedTexts(stale.map(chunk => chunk.content), embeddingSettings);
+
+  const documentIds = [...new Set(stale.map(chunk => chunk.documentId))];
+  try {
+    await storage.transaction(async (transaction) => {
+      for (let i = 0; i < stale.length; i++) {
+        await transaction.query(
+          'UPDATE rag_chunks SET embedding = ?, embedding_model = ?, embedding_dimension = ? WHERE id = ?',
+          [JSON.stringify(vectors[i]), model, vectors[i].length, stale[i].id]
+        );
+      }
+      await transaction.query(
+        `UPDATE rag_documents SET embedding_model = ? WHERE id IN (${documentIds.map(() => '?').join(', ')})`,
+        [model, ...documentIds]
+      );
+    });
+  } finally {
+    invalidateCache();
+  }
+
+  return stale.length;
+};
+
+// Combine rankings with Reciprocal Rank Fusion, normalized to 0..1
+const fuseRankings = (rankings) => {
+  const fused = new Map();
+  for (const ranking of rankings) {
+    Array.from(ranking.keys()).forEach((id, position) => {
+      fused.set(id, (fused.get(id) || 0) + 1 / (RRF_K + position + 1));
+    });
+  }
+
+  const maxScore = rankings.length / (RRF_K + 1);
+  fused.forEach((score, id) => fused.set(id, score / maxScore));
+  return fused;
+};
+
+// Hybrid search: BM25 over chunk text fused with cosine similarity over embeddings.
+// The query is embedded with the configured model and compared only with chunks of that model;
+// when no chunk has it (e.g. before a reindex) or embedding fails, the search uses BM25 only.
+const search = async (storage, query, { topK, similarityThreshold, limit } = {}) => {
+  const threshold = similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+  const maxResults = Math.min(limit || topK || DEFAULT_TOP_K, MAX_RESULTS);
+  const embeddingSettings = await loadEmbeddingSettings(storage);
+  const model = getEmbeddingModelId(embeddingSettings);
+  const { chunks, lexicalIndex } = await loadChunks(storage);
+
+  const vectorScores = new Map();
+  const embeddedChunks = chunks.filter(chunk => chunk.embeddingModel === model && chunk.embedding);
+  if (embeddedChunks.length === 0) {
+    console.log(`No RAG chunks embedded with ${model}, using lexical results only`);
+  } else {
+    try {
+      const [queryVector] = await embedTexts([query], embeddingSettings);
+
+      embeddedChunks
+        .filter(chunk => chunk.embedding.length === queryVector.length)
+        .map(chunk => ({ id: chunk.id, score: cosineSimilarity(queryVector, chunk.embedding) }))
+        .filter(result => result.score >= threshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CANDIDATE_POOL_SIZE)
+        .forEach(result => vectorScores.set(result.id, result.score));
+    } catch (error) {
+      console.error('RAG vector search failed, using lexical results only:', error.message);
+    }
+  }
+
+  const lexicalScores = new Map(
+    Array.from(scoreBm25(lexicalIndex, query).entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, CANDIDATE_POOL_SIZE)
+  );
+
+  const chunksById = new Map(chunks.map(chunk => [chunk.id, chunk]));
+  const results = Array.from(fuseRankings([vectorScores, lexicalScores]).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, maxResults)
+    .map(([id, score]) => {
+      const chunk = chunksById.get(id);
+      return {
+        chunkId: chunk.id,
+        documentId: chunk.documentId,
+        fileName: chunk.fileName,
+        content: chunk.content,
+        score,
+        vectorScore: vectorScores.get(id),
+        lexicalScore: lexicalScores.get(id)
+      };
+    });
+
+  console.log(`RAG search for "${query.substring(0, 50)}": ${vectorScores.size} vector / ${lexicalScores.size} lexical candidates, ${results.length} results`);
+  return { results, embeddingModel: model, chunkCount: chunks.length };
+};
+
+// Counts for the admin panel
+const getStats = async (storage) => {
+  const [[documents]] = await storage.query('SELECT COUNT(*) AS count FROM rag_documents');
+  const [[chunks]] = await storage.query('SELECT COUNT(*) AS count FROM rag_chunks');
+  const [models] = await storage.query('SELECT DISTINCT embedding_model FROM rag_chunks WHERE embedding_model IS NOT NULL');
+
+  return {
+    documentCount: documents.count,
+    chunkCount: chunks.count,
+    embeddingModels: models.map(row => row.embedding_model)
+  };
+};
+
+module.exports = {
+  ingestDocument,
+  removeDocument,
+  reembedChunks,
+  search,
+  getStats
+};
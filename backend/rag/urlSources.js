@@ -0,0 +1,290 @@
+const { v4: uuidv4 } = require('uuid');
+const { crawlSite, hashContent, DEFAULT_CRAWL_OPTIONS } = require('./crawler');
+const ragStore = require('./store');
+
+// URL knowledge sources: sites crawled on the server and kept up to date by scheduleUrlSourceRefresh.
+// Every crawled page is stored as a training file (with source_id and source_url) and indexed for
+// RAG; a refresh compares the content hashes, so only new and changed pages are indexed again.
+
+const DEFAULT_REFRESH_INTERVAL_HOURS = 24;
+const REFRESH_CHECK_INTERVAL_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+// training_files.name is a VARCHAR(255)
+const MAX_PAGE_NAME_LENGTH = 255;
+
+// Sources being crawled by this process. The status is not stored as 'crawling', so a restart
+// in the middle of a crawl does not leave a source stuck in it.
+const crawlingSourceIds = new Set();
+
+const toDate = (value) => (value ? new Date(value) : undefined);
+
+const rowToSource = (row, pages) => ({
+  id: row.id,
+  url: row.url,
+  maxDepth: row.max_depth,
+  maxPages: row.max_pages,
+  refreshIntervalHours: row.refresh_interval_hours,
+  status: crawlingSourceIds.has(row.id) ? 'crawling' : row.status,
+  lastCrawledAt: toDate(row.last_crawled_at),
+  lastError: row.last_error || undefined,
+  lastRefresh: row.last_refresh ? JSON.parse(row.last_refresh) : undefined,
+  pages
+});
+
+// Stored pages of the given sources, grouped by source id
+const loadPages = async (storage, sourceId) => {
+  const [rows] = await storage.query(
+    'SELECT id, name, content, source_id, source_url FROM training_files WHERE ' +
+    (sourceId ? 'source_id = ?' : 'source_id IS NOT NULL') +
+    ' ORDER BY source_url',
+    sourceId ? [sourceId] : []
+  );
+
+  const pagesBySource = new Map();
+  for (const row of rows) {
+    const pages = pagesBySource.get(row.source_id) || [];
+    pages.push({ url: row.source_url, title: row.name, hash: hashContent(row.content), trainingFileId: row.id });
+    pagesBySource.set(row.source_id, pages);
+  }
+  return pagesBySource;
+};
+
+const listUrlSources = async (storage) => {
+  const [rows] = await storage.query('SELECT * FROM url_sources ORDER BY created_at ASC');
+  const pagesBySource = await loadPages(storage);
+  return rows.map(row => rowToSource(row, pagesBySource.get(row.id) || []));
+};
+
+const getUrlSource = async (storage, id) => {
+  const [rows] = await storage.query('SELECT * FROM url_sources WHERE id = ?', [id]);
+  if (rows.length === 0) return null;
+
+  const pagesBySource = await loadPages(storage, id);
+  return rowToSource(rows[0], pagesBySource.get(id) || []);
+};
+
+const toCount = (value, fallback, min) => {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min ? Math.round(number) : fallback;
+};
+
+// Add a source: { url, maxDepth, maxPages, refreshIntervalHours }. It is crawled by the next
+// scheduler check, or right away with refreshUrlSource. Throws a 400 error for an invalid URL.
+const createUrlSource = async (storage, { url, maxDepth, maxPages, refreshIntervalHours }) => {
+  let parsed;
+  try {
+    parsed = new URL(String(url || '').trim());
+  } catch {
+    parsed = null;
+  }
+  if (!parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+    const error = new Error('url must be an absolute http(s) URL');
+    error.status = 400;
+    throw error;
+  }
+
+  const interval = Number(refreshIntervalHours);
+  const id = uuidv4();
+  await storage.query(
+    'INSERT INTO url_sources (id, url, max_depth, max_pages, refresh_interval_hours, status, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+    [
+      id,
+      parsed.toString(),
+      toCount(maxDepth, DEFAULT_CRAWL_OPTIONS.maxDepth, 0),
+      toCount(maxPages, DEFAULT_CRAWL_OPTIONS.maxPages, 1),
+      Number.isFinite(interval) && interval >= 0 ? interval : DEFAULT_REFRESH_INTERVAL_HOURS,
+      'idle',
+      new Date()
+    ]
+  );
+
+  console.log(`URL source ${id} added for ${parsed}`);
+  return getUrlSource(storage, id);
+};
+
+const removePage = async (storage, trainingFileId) => {
+  await storage.query('DELETE FROM training_files WHERE id = ?', [trainingFileId]);
+  await ragStore.removeDocument(storage, trainingFileId);
+};
+
+// Remove a source with the training files (and RAG chunks) of its pages. Returns false if unknown.
+const removeUrlSource = async (storage, id) => {
+  const source = await getUrlSource(storage, id);
+  if (!source) return false;
+
+  for (const page of source.pages) {
+    await removePage(storage, page.trainingFileId);
+  }
+  await storage.query('DELETE FROM url_sources WHERE id = ?', [id]);
+
+  console.log(`URL source ${id} removed with ${source.pages.length} pages`);
+  return true;
+};
+
+// A source is due when it was never crawled or its refresh interval has passed.
+// An interval of 0 turns the automatic refresh off (after the first crawl).
+const isUrlSourceDue = (source, now = Date.now()) => {
+  if (crawlingSourceIds.has(source.id)) return false;
+  if (!source.lastCrawledAt) return true;
+  if (!source.refreshIntervalHours || source.refreshIntervalHours <= 0) return false;
+
+  return now - new Date(source.lastCrawledAt).getTime() >= source.refreshIntervalHours * HOUR_MS;
+};
+
+// Compare the crawled pages with the stored ones by content hash. Only new and changed pages need
+// to be indexed again. Pages that failed in this crawl are kept, so a temporary error does not
+// remove their content.
+const planUrlSourceRefresh = (storedPages, crawl) => {
+  const storedByUrl = new Map(storedPages.map(page => [page.url, page]));
+  const crawledUrls = new Set(crawl.pages.map(page => page.url));
+  const failedUrls = new Set(crawl.errors.map(error => error.url));
+
+  const plan = { added: [], changed: [], unchanged: [], removed: [] };
+
+  for (const page of crawl.pages) {
+    const stored = storedByUrl.get(page.url);
+    if (!stored) {
+      plan.added.push(page);
+    } else if (stored.hash !== page.hash) {
+      plan.changed.push({ page, trainingFileId: stored.trainingFileId });
+    } else {
+      plan.unchanged.push(stored);
+    }
+  }
+
+  for (const stored of storedPages) {
+    if (crawledUrls.has(stored.url)) continue;
+
+    if (failedUrls.has(stored.url)) {
+      plan.unchanged.push(stored);
+    } else {
+      plan.removed.push(stored);
+    }
+  }
+
+  return plan;
+};
+
+// Store the extracted content of a page as a training file and index it
+const savePage = async (storage, source, page, trainingFileId, exists) => {
+  const name = (page.title || page.url).substring(0, MAX_PAGE_NAME_LENGTH);
+  const size = Buffer.byteLength(page.content, 'utf8');
+
+  if (exists) {
+    await storage.query(
+      'UPDATE training_files SET name = ?, content = ?, size = ?, timestamp = ? WHERE id = ?',
+      [name, page.content, size, new Date(), trainingFileId]
+    );
+  } else {
+    // The content is the text extracted from the HTML, with the headings in Markdown
+    await storage.query(
+      'INSERT INTO training_files (id, name, content, format, size, type, source_id, source_url, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [trainingFileId, name, page.content, 'html', size, 'text/html', source.id, page.url, new Date()]
+    );
+  }
+
+  await ragStore.ingestDocument(storage, { id: trainingFileId, name, content: page.content, type: 'text/html' });
+};
+
+// Crawl a source again and store what changed. Resolves with the updated source (status 'error'
+// and lastError when the crawl failed), or null for an unknown source. `isAddressAllowed` is
+// passed to the crawler (for tests against a local server).
+const refreshUrlSource = async (storage, id, { isAddressAllowed } = {}) => {
+  if (crawlingSourceIds.has(id)) {
+    const error = new Error('URL source is already being crawled');
+    error.status = 409;
+    throw error;
+  }
+
+  const source = await getUrlSource(storage, id);
+  if (!source) return null;
+
+  crawlingSourceIds.add(id);
+  try {
+    const crawl = await crawlSite(source, { isAddressAllowed });
+    if (crawl.pages.length === 0 && crawl.errors.length > 0) {
+      throw new Error(crawl.errors[0].error);
+    }
+
+    const plan = planUrlSourceRefresh(source.pages, crawl);
+    for (const page of plan.added) {
+      await savePage(storage, source, page, uuidv4(), false);
+    }
+    for (const { page, trainingFileId } of plan.changed) {
+      await savePage(storage, source, page, trainingFileId, true);
+    }
+    for (const page of plan.removed) {
+      await removePage(storage, page.trainingFileId);
+    }
+
+    const lastRefresh = {
+      added: plan.added.length,
+      changed: plan.changed.length,
+      removed: plan.removed.length,
+      unchanged: plan.unchanged.length
+    };
+    await storage.query(
+      'UPDATE url_sources SET status = ?, last_error = NULL, last_crawled_at = ?, last_refresh = ? WHERE id = ?',
+      ['idle', new Date(), JSON.stringify(lastRefresh), id]
+    );
+    console.log(`URL source ${source.url} refreshed: ${lastRefresh.added} added, ${lastRefresh.changed} changed, ${lastRefresh.removed} removed, ${lastRefresh.unchanged} unchanged`);
+  } catch (error) {
+    console.error(`Error refreshing URL source ${source.url}:`, error.message);
+    // last_crawled_at is set on failure too, so the scheduler retries after the interval instead of every check
+    await storage.query(
+      'UPDATE url_sources SET status = ?, last_error = ?, last_crawled_at = ? WHERE id = ?',
+      ['error', error.message, new Date(), id]
+    );
+  } finally {
+    crawlingSourceIds.delete(id);
+  }
+
+  return getUrlSource(storage, id);
+};
+
+// Crawl, one at a time, the sources whose refresh interval has passed
+const refreshDueUrlSources = async (storage, options) => {
+  const due = (await listUrlSources(storage)).filter(source => isUrlSourceDue(source));
+  for (const source of due) {
+    if (!crawlingSourceIds.has(source.id)) {
+      await refreshUrlSource(storage, source.id, options);
+    }
+  }
+  return due.length;
+};
+
+// Check the sources now and then every minute while the server runs. A check is skipped while
+// the previous one is still crawling.
+const scheduleUrlSourceRefresh = (getStorage) => {
+  let running = false;
+  const check = async () => {
+    const storage = getStorage();
+    if (!storage || running) return;
+
+    running = true;
+    try {
+      await refreshDueUrlSources(storage);
+    } catch (error) {
+      console.error('Error refreshing URL sources:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  check();
+  const timer = setInterval(check, REFRESH_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  listUrlSources,
+  getUrlSource,
+  createUrlSource,
+  removeUrlSource,
+  isUrlSourceDue,
+  planUrlSourceRefresh,
+  refreshUrlSource,
+  refreshDueUrlSources,
+  scheduleUrlSourceRefresh
+};
@@ -0,0 +1,75 @@
+// Local (offline) hashing-trick vectorizer, used when the agent config selects local embeddings
+// and by the mock provider.
+
+const LOCAL_EMBEDDING_MODEL = 'local-hashing-v1';
+const LOCAL_EMBEDDING_DIMENSION = 512;
+
+// Weight of character trigrams relative to whole words
+const CHAR_NGRAM_WEIGHT = 0.5;
+const CHAR_NGRAM_SIZE = 3;
+
+// Very common words that do not help tell chunks apart (Portuguese and English, without accents)
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das', 'em', 'no', 'na',
+  'nos', 'nas', 'por', 'para', 'com', 'sem', 'e', 'ou', 'que', 'se', 'ao', 'aos', 'pelo', 'pela',
+  'ser', 'sao', 'foi', 'como', 'mais', 'mas', 'eu', 'voce', 'ele', 'ela', 'isso', 'este', 'esta',
+  'the', 'an', 'of', 'to', 'in', 'on', 'for', 'and', 'or', 'is', 'are', 'was', 'be', 'it', 'this',
+  'that', 'with', 'as', 'at', 'by', 'from', 'i', 'you'
+]);
+
+// 32-bit FNV-1a hash
+const hashFeature = (feature) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Lowercase, strip accents, split into words (keeping codes like "office.adv" or "cpj-3c") and drop stopwords
+const tokenize = (text) => {
+  const tokens = String(text || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[\p{L}\p{N}]+(?:[.-][\p{L}\p{N}]+)*/gu) || [];
+
+  return tokens.filter(token => !STOPWORDS.has(token));
+};
+
+// L2-normalized vector with sublinear word and character trigram counts
+const vectorizeText = (text, dimension = LOCAL_EMBEDDING_DIMENSION) => {
+  const counts = new Map();
+
+  const addFeature = (feature, weight) => {
+    const hash = hashFeature(feature);
+    const index = hash % dimension;
+    const sign = (hash & 0x80000000) ? -1 : 1;
+    counts.set(index, (counts.get(index) || 0) + sign * weight);
+  };
+
+  for (const token of tokenize(text)) {
+    addFeature(`w:${token}`, 1);
+
+    const padded = `_${token}_`;
+    for (let i = 0; i + CHAR_NGRAM_SIZE <= padded.length; i++) {
+      addFeature(`c:${padded.substring(i, i + CHAR_NGRAM_SIZE)}`, CHAR_NGRAM_WEIGHT);
+    }
+  }
+
+  const vector = new Array(dimension).fill(0);
+  counts.forEach((count, index) => {
+    vector[index] = Math.sign(count) * Math.log1p(Math.abs(count));
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+module.exports = {
+  LOCAL_EMBEDDING_MODEL,
+  LOCAL_EMBEDDING_DIMENSION,
+  tokenize,
+  vectorizeText
+};
@@ -0,0 +1,173 @@
+const { v4: uuidv4 } = require('uuid');
+
+// Retention requested by the client is capped here, so recordings are never kept indefinitely
+const DEFAULT_RETENTION_DAYS = 30;
+const MAX_RETENTION_DAYS = parseInt(process.env.RECORDING_MAX_RETENTION_DAYS, 10) || 365;
+// A turn is a short utterance or one spoken answer; anything larger is not a turn recording
+const MAX_RECORDING_BYTES = (parseInt(process.env.RECORDING_MAX_MB, 10) || 20) * 1024 * 1024;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const resolveRetentionDays = (retentionDays) => {
+  const days = Number(retentionDays);
+  if (!Number.isFinite(days) || days <= 0) {
+    return DEFAULT_RETENTION_DAYS;
+  }
+  return Math.min(Math.round(days), MAX_RETENTION_DAYS);
+};
+
+// Store the caller's answer to the recording consent prompt. Refusing removes whatever was
+// already recorded for the conversation.
+const saveConsent = async (storage, conversationId, granted, consentText) => {
+  await storage.upsert('call_recording_consents', {
+    conversation_id: conversationId,
+    granted: Boolean(granted),
+    consent_text: consentText || null,
+    updated_at: new Date()
+  }, ['conversation_id']);
+
+  if (!granted) {
+    await deleteConversationRecordings(storage, conversationId);
+  }
+};
+
+const hasConsent = async (storage, conversationId) => {
+  const [rows] = await storage.query(
+    'SELECT granted FROM call_recording_consents WHERE conversation_id = ?',
+    [conversationId]
+  );
+  return rows.length > 0 && Boolean(rows[0].granted);
+};
+
+const saveRecording = async (storage, { conversationId, messageId, role, transcript, audio, mimeType, durationMs, retentionDays }) => {
+  const id = uuidv4();
+  const createdAt = new Date();
+  const expiresAt = new Date(createdAt.getTime() + resolveRetentionDays(retentionDays) * DAY_MS);
+
+  await storage.query(
+    'INSERT INTO call_recordings (id, conversation_id, message_id, role, transcript, audio, mime_type, size, duration_ms, created_at, expires_at) ' +
+    'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [
+      id,
+      conversationId,
+      messageId || null,
+      role,
+      transcript || null,
+      audio,
+      mimeType,
+      audio.length,
+      Number.isFinite(durationMs) ? Math.round(durationMs) : null,
+      createdAt,
+      expiresAt
+    ]
+  );
+
+  return { id, expiresAt };
+};
+
+const toRecording = (row) => ({
+  id: row.id,
+  conversationId: row.conversation_id,
+  messageId: row.message_id,
+  role: row.role,
+  transcript: row.transcript || '',
+  mimeType: row.mime_type,
+  size: row.size,
+  durationMs: row.duration_ms,
+  createdAt: new Date(row.created_at),
+  expiresAt: row.expires_at ? new Date(row.expires_at) : null
+});
+
+// Recorded calls, newest first, with their turn count
+const listCalls = async (storage) => {
+  const [rows] = await storage.query(
+    'SELECT conversation_id, COUNT(*) AS turn_count, SUM(size) AS total_size, ' +
+    'MIN(created_at) AS started_at, MAX(created_at) AS ended_at, MIN(expires_at) AS expires_at ' +
+    'FROM call_recordings GROUP BY conversation_id ORDER BY started_at DESC'
+  );
+
+  return rows.map(row => ({
+    conversationId: row.conversation_id,
+    turnCount: Number(row.turn_count),
+    totalSize: Number(row.total_size),
+    startedAt: new Date(row.started_at),
+    endedAt: new Date(row.ended_at),
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null
+  }));
+};
+
+// Turns of one call in the order they were spoken, without the audio
+const getCallTurns = async (storage, conversationId) => {
+  const [rows] = await storage.query(
+    'SELECT id, conversation_id, message_id, role, transcript, mime_type, size, duration_ms, created_at, expires_at ' +
+    'FROM call_recordings WHERE conversation_id = ? ORDER BY created_at ASC',
+    [conversationId]
+  );
+  return rows.map(toRecording);
+};
+
+const getRecordingAudio = async (storage, id) => {
+  const [rows] = await storage.query('SELECT audio, mime_type FROM call_recordings WHERE id = ?', [id]);
+  if (rows.length === 0) {
+    return null;
+  }
+  return { audio: rows[0].audio, mimeType: rows[0].mime_type };
+};
+
+const deleteConversationRecordings = async (storage, conversationId) => {
+  const [result] = await storage.query('DELETE FROM call_recordings WHERE conversation_id = ?', [conversationId]);
+  return result.affectedRows;
+};
+
+// Delete recordings past their expiry date. With `retentionDays`, recordings older than that are
+// deleted too, so shortening the retention period also applies to what was already recorded.
+const purgeExpiredRecordings = async (storage, retentionDays) => {
+  const now = new Date();
+  let sql = 'DELETE FROM call_recordings WHERE expires_at <= ?';
+  const params = [now];
+
+  if (retentionDays !== undefined && retentionDays !== null) {
+    sql += ' OR created_at <= ?';
+    params.push(new Date(now.getTime() - resolveRetentionDays(retentionDays) * DAY_MS));
+  }
+
+  const [result] = await storage.query(sql, params);
+  if (result.affectedRows > 0) {
+    console.log(`Purged ${result.affectedRows} expired call recordings`);
+  }
+  return result.affectedRows;
+};
+
+// Purge expired recordings now and then every hour while the server runs
+const scheduleRecordingPurge = (getStorage) => {
+  const purge = async () => {
+    const storage = getStorage();
+    if (!storage) return;
+
+    try {
+      await purgeExpiredRecordings(storage);
+    } catch (error) {
+      console.error('Error purging expired call recordings:', error);
+    }
+  };
+
+  purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
+
+module.exports = {
+  MAX_RECORDING_BYTES,
+  resolveRetentionDays,
+  saveConsent,
+  hasConsent,
+  saveRecording,
+  listCalls,
+  getCallTurns,
+  getRecordingAudio,
+  deleteConversationRecordings,
+  purgeExpiredRecordings,
+  scheduleRecordingPurge
+};
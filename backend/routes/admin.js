@@ -4,6 +4,9 @@ const router = express.Router();
 const db = require('../database');
 const fs = require('fs');
 const path = require('path');
+const adminSessions = require('../auth/adminSessions');
+
+const DEFAULT_PASSWORD_HASH = "8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918"; // "admin" - SHA-256 hashed
 
 // Ensure data directory exists
 const ensureDataDirectory = () => {
@@ -19,8 +22,8 @@ const ensureDataDirectory = () => {
 router.get('/', async (req, res) => {
   try {
     console.log('Request received for admin config');
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.log('Database not connected, using fallback file storage');
       // If there's no database connection, fetch from local file
       const dataDir = ensureDataDirectory();
@@ -32,8 +35,8 @@ router.get('/', async (req, res) => {
           console.log('Admin config loaded from file');
           return res.json({
             username: configData.username || "admin",
-            passwordHash: configData.passwordHash || "8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918", // "admin" - SHA-256 hashed
-            apiKey: configData.apiKey || ""
+            apiKey: "",
+            apiKeyConfigured: Boolean(configData.apiKey)
           });
         } catch (fileError) {
           console.error('Error reading config file:', fileError);
@@ -43,7 +46,7 @@ router.get('/', async (req, res) => {
       // If file doesn't exist or can't be read, return default config
       const defaultConfig = {
         username: "admin",
-        passwordHash: "8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918", // "admin" - SHA-256 hashed
+        passwordHash: DEFAULT_PASSWORD_HASH,
         apiKey: ""
       };
       
@@ -55,24 +58,24 @@ router.get('/', async (req, res) => {
         console.error('Error creating config file:', writeError);
       }
       
-      return res.json(defaultConfig);
+      return res.json({ username: defaultConfig.username, apiKey: "", apiKeyConfigured: false });
     }
     
     // Database connection exists, fetch from database
     console.log('Fetching admin config from database');
     try {
-      const [rows] = await pool.query('SELECT * FROM admin_config WHERE id = 1');
+      const [rows] = await storage.query('SELECT * FROM admin_config WHERE id = 1');
       
       if (rows.length === 0) {
         // Insert default config if not exists
         console.log('No admin config found in database, creating default');
         const defaultConfig = {
           username: "admin",
-          password_hash: "8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918", // "admin" - SHA-256 hashed
+          password_hash: DEFAULT_PASSWORD_HASH,
           api_key: ""
         };
         
-        await pool.query(
+        await storage.query(
           'INSERT INTO admin_config (id, username, password_hash, api_key) VALUES (1, ?, ?, ?)',
           [defaultConfig.username, defaultConfig.password_hash, defaultConfig.api_key]
         );
@@ -80,17 +83,18 @@ router.get('/', async (req, res) => {
         console.log('Created default admin config in database');
         return res.json({
           username: defaultConfig.username,
-          passwordHash: defaultConfig.password_hash,
-          apiKey: defaultConfig.api_key
+          apiKey: "",
+          apiKeyConfigured: false
         });
       }
       
       console.log('Found existing admin config in database');
       const config = rows[0];
+      // The key and the password hash stay on the server; clients only learn whether a key is set
       return res.json({
         username: config.username,
-        passwordHash: config.password_hash,
-        apiKey: config.api_key || ""
+        apiKey: "",
+        apiKeyConfigured: Boolean(config.api_key)
       });
     } catch (dbError) {
       console.error('Database error:', dbError);
@@ -100,7 +104,6 @@ router.get('/', async (req, res) => {
         details: dbError.message,
         config: {
           username: "admin",
-          passwordHash: "8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918",
           apiKey: ""
         }
       });
@@ -114,31 +117,77 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Update admin configuration
+// Start an admin session: { username, password } -> { token, expiresAt }
+router.post('/login', async (req, res) => {
+  try {
+    const { username, password } = req.body || {};
+    const session = await adminSessions.login(username, password);
+    if (!session) {
+      console.log(`Admin login failed for user ${username}`);
+      return res.status(401).json({ error: 'Invalid username or password', success: false });
+    }
+
+    console.log(`Admin session started for user ${username}`);
+    res.json({ success: true, ...session });
+  } catch (error) {
+    console.error('Error during admin login:', error);
+    res.status(500).json({ error: 'Failed to log in', details: error.message });
+  }
+});
+
+// Stored credentials and API key: database, then the fallback file, then the defaults
+const getStoredConfig = async (storage) => {
+  if (storage) {
+    const [rows] = await storage.query('SELECT username, password_hash, api_key FROM admin_config WHERE id = 1');
+    if (rows.length > 0) {
+      return { username: rows[0].username, passwordHash: rows[0].password_hash, apiKey: rows[0].api_key || "" };
+    }
+  } else {
+    const configPath = path.join(ensureDataDirectory(), 'config.json');
+    if (fs.existsSync(configPath)) {
+      const configData = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      return {
+        username: configData.username || "admin",
+        passwordHash: configData.passwordHash || DEFAULT_PASSWORD_HASH,
+        apiKey: configData.apiKey || ""
+      };
+    }
+  }
+
+  return { username: "admin", passwordHash: DEFAULT_PASSWORD_HASH, apiKey: "" };
+};
+
+// Update admin configuration. Requires an admin session, except for the first-run setup: until an
+// API key is saved, the key (and only the key) may be set without one.
 router.put('/', async (req, res) => {
   try {
     const { username, passwordHash, apiKey } = req.body;
-    console.log('Updating admin config:', { username, passwordHash, apiKey: apiKey ? 'REDACTED' : '' });
-    
-    if (!username || !passwordHash) {
-      return res.status(400).json({ error: 'Username and password hash are required' });
+    const storage = db.getDbConnection();
+    const stored = await getStoredConfig(storage);
+
+    let config;
+    if (adminSessions.hasAdminSession(req)) {
+      if (!username || !passwordHash) {
+        return res.status(400).json({ error: 'Username and password hash are required' });
+      }
+      // An empty apiKey keeps the stored one, since GET never returns it
+      config = { username, passwordHash, apiKey: apiKey || stored.apiKey };
+    } else if (!stored.apiKey && apiKey) {
+      console.log('First-run setup: saving the API key without an admin session');
+      config = { ...stored, apiKey };
+    } else {
+      return res.status(401).json({ error: 'Admin session required', success: false });
     }
+
+    console.log('Updating admin config:', { username: config.username, apiKey: config.apiKey ? 'REDACTED' : '' });
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    if (!storage) {
       console.log('Database not connected, saving to fallback file storage');
       // If there's no database connection, save to local file
-      const dataDir = ensureDataDirectory();
-      const configPath = path.join(dataDir, 'config.json');
+      const configPath = path.join(ensureDataDirectory(), 'config.json');
       
       try {
-        const configData = {
-          username: username || "admin",
-          passwordHash: passwordHash || "8c6976e5b5410415bde908bd4dee15dfb167a9c873fc4bb8a81f6f2ab448a918",
-          apiKey: apiKey || ""
-        };
-        
-        fs.writeFileSync(configPath, JSON.stringify(configData, null, 2));
+        fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
         console.log('Admin config saved to file successfully');
         return res.json({ success: true, message: 'Admin configuration saved to file successfully' });
       } catch (fileError) {
@@ -149,48 +198,19 @@ router.put('/', async (req, res) => {
     
     console.log('Saving admin config to database');
     
-    // Check if the apiKey is too long for VARCHAR(100)
-    if (apiKey && apiKey.length > 100) {
-      console.log('API key length:', apiKey.length, 'characters - Using TEXT column');
-    }
-    
-    // First check if the api_key column is TEXT type
+    // The api_key column is TEXT (see migrations), long keys fit
     try {
-      // Try to update with the new values
-      await pool.query(
-        'UPDATE admin_config SET username = ?, password_hash = ?, api_key = ? WHERE id = 1',
-        [username, passwordHash, apiKey]
-      );
+      await storage.upsert('admin_config', {
+        id: 1,
+        username: config.username,
+        password_hash: config.passwordHash,
+        api_key: config.apiKey
+      }, ['id']);
       
       console.log('Admin config updated in database successfully');
       return res.json({ success: true, message: 'Admin configuration updated successfully' });
     } catch (updateError) {
       console.error('Error updating admin config:', updateError);
-      
-      // If there was an error, it might be due to column size
-      if (updateError.code === 'ER_DATA_TOO_LONG') {
-        try {
-          console.log('Attempting to increase api_key column size...');
-          await pool.query('ALTER TABLE admin_config MODIFY COLUMN api_key TEXT');
-          
-          // Try again after altering the column
-          await pool.query(
-            'UPDATE admin_config SET username = ?, password_hash = ?, api_key = ? WHERE id = 1',
-            [username, passwordHash, apiKey]
-          );
-          
-          console.log('Admin config updated after column modification');
-          return res.json({ success: true, message: 'Admin configuration updated successfully' });
-        } catch (alterError) {
-          console.error('Error modifying column and updating:', alterError);
-          return res.status(500).json({ 
-            error: 'Failed to update admin configuration after column modification',
-            details: alterError.message
-          });
-        }
-      }
-      
-      // If it's not a column size issue or the fix failed
       return res.status(500).json({ 
         error: 'Failed to update admin configuration',
         details: updateError.message
@@ -202,50 +222,4 @@ router.put('/', async (req, res) => {
   }
 });
 
-// Get OpenAI API Key for the widget
-router.get('/api-key', async (req, res) => {
-  try {
-    console.log('Request received for API key');
-    const pool = db.getDbConnection();
-    if (!pool) {
-      // If there's no database connection, fetch from local file
-      console.log('Database not connected, using fallback file storage for API key');
-      const dataDir = ensureDataDirectory();
-      const configPath = path.join(dataDir, 'config.json');
-      
-      try {
-        // Attempt to fetch from a local backup file
-        if (fs.existsSync(configPath)) {
-          const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
-          if (config.apiKey) {
-            console.log('API key found in config file');
-            return res.json({ apiKey: config.apiKey });
-          }
-        }
-        console.log('API key not found in config file');
-        // If local file or API key not found, return 404
-        return res.status(404).json({ error: 'API key not configured' });
-      } catch (fileError) {
-        console.error('Error reading from local file:', fileError);
-        return res.status(404).json({ error: 'API key not configured', details: fileError.message });
-      }
-    }
-    
-    // If database connection exists, fetch from there
-    console.log('Fetching API key from database');
-    const [rows] = await pool.query('SELECT api_key FROM admin_config WHERE id = 1');
-    
-    if (rows.length === 0 || !rows[0].api_key) {
-      console.log('API key not found in database');
-      return res.status(404).json({ error: 'API key not configured' });
-    }
-    
-    console.log('API key found in database');
-    return res.json({ apiKey: rows[0].api_key });
-  } catch (error) {
-    console.error('Error fetching API key:', error);
-    return res.status(500).json({ error: 'Failed to fetch API key', details: error.message });
-  }
-});
-
 module.exports = router;
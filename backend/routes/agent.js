@@ -2,107 +2,158 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../database');
+const { hasAdminSession, requireAdmin } = require('../auth/adminSessions');
+const { executeFunction } = require('../functions/webhooks');
+
+// Defaults for the settings a stored row (or a PUT body) does not have
+const DEFAULT_AGENT_CONFIG = {
+  systemPrompt: "Você é um assistente útil e prestativo. Forneça informações claras e concisas para as perguntas do usuário. Responda sempre em português do Brasil.",
+  voice: {
+    enabled: true,
+    voiceId: "nova",
+    language: "pt-BR",
+    latency: 30,                  // Reduzido para menor latência
+    silenceTimeout: 10,           // Segundos sem fala do usuário até encerrar a chamada
+    maxCallDuration: 1800,
+    pauseDuration: 0.5,
+    waitBeforeSpeaking: 0.05,     // Reduzido para resposta mais imediata
+    waitAfterPunctuation: 0.03,   // Reduzido para fluidez
+    waitWithoutPunctuation: 0.2,  // Reduzido para melhor fluidez
+    waitAfterNumber: 0.1,         // Reduzido para melhor fluidez
+    continuousMode: true          // Enable continuous mode by default
+  },
+  model: "gpt-4o",
+  temperature: 0.7,
+  maxTokens: 1000,
+  detectEmotion: false,
+  knowledgeType: "rag",
+  rag: { enabled: true },
+  fineTuning: { enabled: false, modelId: "", status: "not_started" },
+  assistant: { enabled: false, assistantId: "", name: "" },
+  provider: { type: "openai" }
+};
+
+const parseJsonColumn = (value, fallback) => {
+  if (value === null || value === undefined) return fallback;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    console.error('Invalid JSON in agent_config column:', error);
+    return fallback;
+  }
+};
+
+const toJsonColumn = (value) => value === undefined ? null : JSON.stringify(value);
+
+// Optional settings are left out of the response when they were never saved
+const optional = (key, value) => value === null || value === undefined ? {} : { [key]: value };
+
+// agent_config row -> AgentConfig (without functions and training files)
+const rowToAgentConfig = (row) => {
+  const defaults = DEFAULT_AGENT_CONFIG;
+  return {
+    systemPrompt: row.system_prompt,
+    voice: {
+      enabled: Boolean(row.voice_enabled),
+      voiceId: row.voice_id,
+      language: row.voice_language,
+      latency: row.voice_latency ?? defaults.voice.latency,
+      silenceTimeout: row.silence_timeout ?? defaults.voice.silenceTimeout,
+      maxCallDuration: row.max_call_duration ?? defaults.voice.maxCallDuration,
+      pauseDuration: row.pause_duration ?? defaults.voice.pauseDuration,
+      waitBeforeSpeaking: row.wait_before_speaking ?? defaults.voice.waitBeforeSpeaking,
+      waitAfterPunctuation: row.wait_after_punctuation ?? defaults.voice.waitAfterPunctuation,
+      waitWithoutPunctuation: row.wait_without_punctuation ?? defaults.voice.waitWithoutPunctuation,
+      waitAfterNumber: row.wait_after_number ?? defaults.voice.waitAfterNumber,
+      continuousMode: row.continuous_mode !== null && row.continuous_mode !== undefined ? Boolean(row.continuous_mode) : true,
+      ...optional('endCallMessage', row.end_call_message),
+      ...optional('bargeInEnabled', row.barge_in_enabled === null ? null : Boolean(row.barge_in_enabled)),
+      ...optional('bargeInThreshold', row.barge_in_threshold),
+      ...optional('bargeInDuration', row.barge_in_duration),
+      ...optional('pronunciations', parseJsonColumn(row.pronunciations, null)),
+      ...optional('recording', parseJsonColumn(row.call_recording, null))
+    },
+    model: row.model ?? defaults.model,
+    temperature: row.temperature ?? defaults.temperature,
+    maxTokens: row.max_tokens ?? defaults.maxTokens,
+    detectEmotion: Boolean(row.detect_emotion),
+    knowledgeType: row.knowledge_type || defaults.knowledgeType,
+    rag: parseJsonColumn(row.rag_config, defaults.rag),
+    fineTuning: parseJsonColumn(row.fine_tuning, defaults.fineTuning),
+    assistant: parseJsonColumn(row.assistant, defaults.assistant),
+    provider: parseJsonColumn(row.provider, defaults.provider)
+  };
+};
+
+// AgentConfig -> agent_config columns; missing settings get their defaults
+const agentConfigToRow = (config) => {
+  const defaults = DEFAULT_AGENT_CONFIG;
+  const voice = { ...defaults.voice, ...(config.voice || {}) };
+  return {
+    system_prompt: config.systemPrompt ?? defaults.systemPrompt,
+    voice_enabled: Boolean(voice.enabled),
+    voice_id: voice.voiceId,
+    voice_language: voice.language,
+    voice_latency: voice.latency,
+    silence_timeout: voice.silenceTimeout,
+    max_call_duration: voice.maxCallDuration,
+    pause_duration: voice.pauseDuration,
+    wait_before_speaking: voice.waitBeforeSpeaking,
+    wait_after_punctuation: voice.waitAfterPunctuation,
+    wait_without_punctuation: voice.waitWithoutPunctuation,
+    wait_after_number: voice.waitAfterNumber,
+    end_call_message: voice.endCallMessage ?? null,
+    continuous_mode: voice.continuousMode !== undefined ? Boolean(voice.continuousMode) : true,
+    barge_in_enabled: voice.bargeInEnabled === undefined ? null : Boolean(voice.bargeInEnabled),
+    barge_in_threshold: voice.bargeInThreshold ?? null,
+    barge_in_duration: voice.bargeInDuration ?? null,
+    pronunciations: toJsonColumn(voice.pronunciations),
+    call_recording: toJsonColumn(voice.recording),
+    model: config.model ?? defaults.model,
+    temperature: config.temperature ?? defaults.temperature,
+    max_tokens: config.maxTokens ?? defaults.maxTokens,
+    detect_emotion: Boolean(config.detectEmotion),
+    knowledge_type: config.knowledgeType || defaults.knowledgeType,
+    rag_config: toJsonColumn(config.rag ?? defaults.rag),
+    fine_tuning: toJsonColumn(config.fineTuning ?? defaults.fineTuning),
+    assistant: toJsonColumn(config.assistant ?? defaults.assistant),
+    provider: toJsonColumn(config.provider ?? defaults.provider)
+  };
+};
 
 // Get agent configuration
 router.get('/', async (req, res) => {
   try {
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       return res.status(503).json({ error: 'Database not connected' });
     }
     
     // Get basic agent config
-    const [configRows] = await pool.query('SELECT * FROM agent_config WHERE id = 1');
+    const [configRows] = await storage.query('SELECT * FROM agent_config WHERE id = 1');
     
     let agentConfig;
     if (configRows.length === 0) {
       // Insert default config if not exists
-      const defaultConfig = {
-        system_prompt: "Você é um assistente útil e prestativo. Forneça informações claras e concisas para as perguntas do usuário. Responda sempre em português do Brasil.",
-        voice_enabled: true,
-        voice_id: "nova",
-        voice_language: "pt-BR",
-        voice_latency: 30,          // Reduzido para menor latência
-        silence_timeout: 0.6,        // Ajustado para melhor detecção de silêncio
-        max_call_duration: 1800,
-        wait_before_speaking: 0.05,   // Reduzido para resposta mais imediata
-        wait_after_punctuation: 0.03, // Reduzido para fluidez
-        wait_without_punctuation: 0.2, // Reduzido para melhor fluidez
-        wait_after_number: 0.1,        // Reduzido para melhor fluidez
-        continuous_mode: true          // Enable continuous mode by default
-      };
-      
-      await pool.query(
-        'INSERT INTO agent_config (id, system_prompt, voice_enabled, voice_id, voice_language, voice_latency, ' +
-        'silence_timeout, max_call_duration, wait_before_speaking, wait_after_punctuation, wait_without_punctuation, wait_after_number, continuous_mode) ' +
-        'VALUES (1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
-        [
-          defaultConfig.system_prompt, 
-          defaultConfig.voice_enabled, 
-          defaultConfig.voice_id, 
-          defaultConfig.voice_language, 
-          defaultConfig.voice_latency,
-          defaultConfig.silence_timeout,
-          defaultConfig.max_call_duration,
-          defaultConfig.wait_before_speaking,
-          defaultConfig.wait_after_punctuation,
-          defaultConfig.wait_without_punctuation,
-          defaultConfig.wait_after_number,
-          defaultConfig.continuous_mode
-        ]
-      );
-      
-      agentConfig = {
-        systemPrompt: defaultConfig.system_prompt,
-        voice: {
-          enabled: defaultConfig.voice_enabled,
-          voiceId: defaultConfig.voice_id,
-          language: defaultConfig.voice_language,
-          latency: defaultConfig.voice_latency,
-          silenceTimeout: defaultConfig.silence_timeout,
-          maxCallDuration: defaultConfig.max_call_duration,
-          waitBeforeSpeaking: defaultConfig.wait_before_speaking,
-          waitAfterPunctuation: defaultConfig.wait_after_punctuation,
-          waitWithoutPunctuation: defaultConfig.wait_without_punctuation,
-          waitAfterNumber: defaultConfig.wait_after_number,
-          continuousMode: defaultConfig.continuous_mode
-        },
-        functions: [],
-        trainingFiles: []
-      };
+      await storage.upsert('agent_config', { id: 1, ...agentConfigToRow(DEFAULT_AGENT_CONFIG) }, ['id']);
+      agentConfig = { ...DEFAULT_AGENT_CONFIG, functions: [], trainingFiles: [] };
     } else {
-      const config = configRows[0];
-      agentConfig = {
-        systemPrompt: config.system_prompt,
-        voice: {
-          enabled: Boolean(config.voice_enabled),
-          voiceId: config.voice_id,
-          language: config.voice_language,
-          latency: config.voice_latency || 30,
-          silenceTimeout: config.silence_timeout || 0.6,
-          maxCallDuration: config.max_call_duration || 1800,
-          waitBeforeSpeaking: config.wait_before_speaking || 0.05,
-          waitAfterPunctuation: config.wait_after_punctuation || 0.03,
-          waitWithoutPunctuation: config.wait_without_punctuation || 0.2,
-          waitAfterNumber: config.wait_after_number || 0.1,
-          continuousMode: config.continuous_mode !== undefined ? Boolean(config.continuous_mode) : true
-        },
-        functions: [],
-        trainingFiles: []
-      };
+      agentConfig = { ...rowToAgentConfig(configRows[0]), functions: [], trainingFiles: [] };
     }
     
-    // Get agent functions
-    const [functionRows] = await pool.query('SELECT * FROM agent_functions');
+    // Get agent functions. Webhooks are executed by the server (POST /functions/:name/execute),
+    // so only the admin panel gets their URLs.
+    const isAdmin = hasAdminSession(req);
+    const [functionRows] = await storage.query('SELECT * FROM agent_functions');
     agentConfig.functions = functionRows.map(func => ({
       name: func.name,
       description: func.description,
       parameters: JSON.parse(func.parameters),
-      webhook: func.webhook
+      ...(isAdmin ? { webhook: func.webhook } : {})
     }));
     
     // Get training files
-    const [fileRows] = await pool.query('SELECT * FROM training_files');
+    const [fileRows] = await storage.query('SELECT * FROM training_files');
     agentConfig.trainingFiles = fileRows.map(file => ({
       id: file.id,
       name: file.name,
@@ -136,54 +187,38 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Update agent configuration
-router.put('/', async (req, res) => {
+// Update agent configuration. Admin only: the provider and embedding settings stored here are
+// the ones the server uses for RAG.
+router.put('/', requireAdmin, async (req, res) => {
   try {
-    const { systemPrompt, voice, functions } = req.body;
+    const { functions } = req.body;
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       return res.status(503).json({ error: 'Database not connected' });
     }
     
-    // Update basic config with voice settings
-    await pool.query(
-      'UPDATE agent_config SET ' + 
-      'system_prompt = ?, voice_enabled = ?, voice_id = ?, voice_language = ?, voice_latency = ?, ' +
-      'silence_timeout = ?, max_call_duration = ?, wait_before_speaking = ?, ' +
-      'wait_after_punctuation = ?, wait_without_punctuation = ?, wait_after_number = ?, continuous_mode = ? ' +
-      'WHERE id = 1',
-      [
-        systemPrompt, 
-        voice.enabled, 
-        voice.voiceId, 
-        voice.language, 
-        voice.latency,
-        voice.silenceTimeout || 0.6,
-        voice.maxCallDuration || 1800,
-        voice.waitBeforeSpeaking || 0.05,
-        voice.waitAfterPunctuation || 0.03,
-        voice.waitWithoutPunctuation || 0.2,
-        voice.waitAfterNumber || 0.1,
-        voice.continuousMode !== undefined ? voice.continuousMode : true
-      ]
-    );
+    // Update the whole configuration (creating the row if it does not exist yet)
+    await storage.upsert('agent_config', { id: 1, ...agentConfigToRow(req.body) }, ['id']);
     
-    // Update functions (remove all and insert again)
-    await pool.query('DELETE FROM agent_functions');
+    // Update functions (remove all and insert again). A function sent without its webhook, e.g. by
+    // a panel that loaded the config before logging in, keeps the stored one.
+    const [storedFunctions] = await storage.query('SELECT name, webhook FROM agent_functions');
+    const storedWebhooks = new Map(storedFunctions.map(func => [func.name, func.webhook]));
+    await storage.query('DELETE FROM agent_functions');
     
     if (functions && functions.length > 0) {
       const values = functions.map(func => [
         func.name,
         func.description,
         JSON.stringify(func.parameters),
-        func.webhook
+        func.webhook ?? storedWebhooks.get(func.name) ?? ''
       ]);
       
       const placeholders = functions.map(() => '(?, ?, ?, ?)').join(', ');
       const flatValues = values.flat();
       
-      await pool.query(
+      await storage.query(
         `INSERT INTO agent_functions (name, description, parameters, webhook) VALUES ${placeholders}`,
         flatValues
       );
@@ -196,4 +231,21 @@ router.put('/', async (req, res) => {
   }
 });
 
+// Execute a function the model asked for: { arguments } -> { output }. Public, since the widget
+// runs the function-call loop; only functions stored by an admin can be reached.
+router.post('/functions/:name/execute', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected' });
+    }
+    
+    const output = await executeFunction(storage, req.params.name, req.body?.arguments);
+    res.json({ output });
+  } catch (error) {
+    console.error('Error executing agent function:', error);
+    res.status(500).json({ error: 'Failed to execute function', details: error.message });
+  }
+});
+
 module.exports = router;
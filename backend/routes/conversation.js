@@ -3,91 +3,178 @@ const express = require('express');
 const router = express.Router();
 const db = require('../database');
 const { v4: uuidv4 } = require('uuid');
+const conversationStore = require('../conversations/store');
+const conversationSearch = require('../conversations/search');
+const { requireAdmin } = require('../auth/adminSessions');
 
-// Tracking for request debouncing
-const requestCache = new Map();
-const CACHE_TTL = 2000; // 2 seconds
+// Writes replayed by an offline client carry the time they happened; anything else is stored as now
+const parseClientDate = (value) => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) && date.getTime() <= Date.now() + 60000 ? date : new Date();
+};
 
-// Get all conversations
-router.get('/', async (req, res) => {
-  // Simple request deduplication
-  const cacheKey = 'get-all-conversations';
-  const now = Date.now();
-  const lastRequest = requestCache.get(cacheKey);
-  
-  if (lastRequest && (now - lastRequest.timestamp < CACHE_TTL)) {
-    console.log('Debouncing duplicate request for conversations');
-    return res.json(lastRequest.data || []);
+// Filters of GET /history; throws with a message for the 400 response on an invalid value
+const parseHistoryFilters = (query) => {
+  const parseDate = (name) => {
+    if (!query[name]) return undefined;
+    const date = new Date(query[name]);
+    if (isNaN(date.getTime())) throw new Error(`${name} must be a date`);
+    return date;
+  };
+  const parseCount = (name) => {
+    if (query[name] === undefined || query[name] === '') return undefined;
+    const count = Number(query[name]);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`${name} must be a non-negative integer`);
+    return count;
+  };
+
+  let hasVoice;
+  if (query.hasVoice === 'true' || query.hasVoice === 'false') {
+    hasVoice = query.hasVoice === 'true';
+  } else if (query.hasVoice !== undefined && query.hasVoice !== '') {
+    throw new Error('hasVoice must be true or false');
   }
-  
+
+  let cursor;
+  if (query.cursor) {
+    cursor = conversationStore.decodeCursor(query.cursor);
+    if (!cursor) throw new Error('Invalid cursor');
+  }
+
+  return {
+    limit: query.limit,
+    from: parseDate('from'),
+    to: parseDate('to'),
+    hasVoice,
+    sentiment: typeof query.sentiment === 'string' ? query.sentiment.trim() : undefined,
+    minMessages: parseCount('minMessages'),
+    maxMessages: parseCount('maxMessages'),
+    q: typeof query.q === 'string' ? query.q.trim() : undefined,
+    cursor
+  };
+};
+
+// Get all conversations. Admin only: the widget reads just its own conversation (GET /:id/messages)
+router.get('/', requireAdmin, async (req, res) => {
   try {
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.log('Database not connected, returning empty conversations array');
-      requestCache.set(cacheKey, { 
-        timestamp: now,
-        data: []
-      });
       return res.status(503).json({ error: 'Database not connected' });
     }
     
-    const [rows] = await pool.query('SELECT * FROM conversations ORDER BY created_at DESC');
+    const conversations = await conversationStore.getAllConversations(storage);
     
-    const conversationsWithMessages = await Promise.all(
-      rows.map(async (conv) => {
-        const [messageRows] = await pool.query(
-          'SELECT * FROM messages WHERE conversation_id = ? ORDER BY timestamp ASC',
-          [conv.id]
-        );
-        
-        const messages = messageRows.map(msg => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          timestamp: new Date(msg.timestamp)
-        }));
-        
-        return {
-          id: conv.id,
-          messages,
-          isActive: Boolean(conv.is_active),
-          createdAt: new Date(conv.created_at)
-        };
-      })
-    );
+    console.log(`Retrieved ${conversations.length} conversations from database`);
+    res.json(conversations);
+  } catch (error) {
+    console.error('Error fetching conversations:', error);
+    res.status(500).json({ error: 'Failed to fetch conversations' });
+  }
+});
+
+// List conversation summaries, newest first, one page at a time (pass nextCursor as cursor)
+router.get('/history', requireAdmin, async (req, res) => {
+  let filters;
+  try {
+    filters = parseHistoryFilters(req.query);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected' });
+    }
     
-    console.log(`Retrieved ${conversationsWithMessages.length} conversations from database`);
+    res.json(await conversationStore.listConversations(storage, filters));
+  } catch (error) {
+    console.error('Error listing conversation history:', error);
+    res.status(500).json({ error: 'Failed to list conversations', details: error.message });
+  }
+});
+
+// Full-text search over the messages of all conversations, with highlighted snippets
+// (?q=boleto&role=user,assistant&limit=20&offset=0)
+router.get('/search', requireAdmin, async (req, res) => {
+  const { q, role, limit, offset } = req.query;
+  
+  if (conversationSearch.parseTerms(q).length === 0) {
+    return res.status(400).json({ error: 'q must contain at least one word' });
+  }
+  
+  const roles = role ? String(role).split(',').map(value => value.trim()).filter(Boolean) : [];
+  if (roles.some(value => !conversationSearch.ROLES.includes(value))) {
+    return res.status(400).json({ error: `role must be one of ${conversationSearch.ROLES.join(', ')}` });
+  }
+  
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected' });
+    }
     
-    // Cache the result
-    requestCache.set(cacheKey, {
-      timestamp: now,
-      data: conversationsWithMessages
-    });
+    res.json(await conversationSearch.searchMessages(storage, { q, roles, limit, offset }));
+  } catch (error) {
+    console.error('Error searching messages:', error);
+    res.status(500).json({ error: 'Failed to search messages', details: error.message });
+  }
+});
+
+// Get one conversation with its full transcript
+router.get('/:id', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected' });
+    }
     
-    res.json(conversationsWithMessages);
+    const conversation = await conversationStore.getConversation(storage, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    
+    res.json(conversation);
   } catch (error) {
-    console.error('Error fetching conversations:', error);
+    console.error('Error fetching conversation:', error);
+    res.status(500).json({ error: 'Failed to fetch conversation', details: error.message });
+  }
+});
+
+// Messages of one conversation, for the visitor who started it. Public like the writes below: the
+// conversation id is a random UUID that only the visitor's browser (and the admin) knows.
+router.get('/:id/messages', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected' });
+    }
     
-    // Still cache the error state to prevent further requests
-    requestCache.set(cacheKey, {
-      timestamp: now,
-      data: []
-    });
+    const conversation = await conversationStore.getConversation(storage, req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
     
-    res.status(500).json({ error: 'Failed to fetch conversations' });
+    res.json({
+      id: conversation.id,
+      isActive: conversation.isActive,
+      createdAt: conversation.createdAt,
+      messages: conversation.messages
+    });
+  } catch (error) {
+    console.error('Error fetching conversation messages:', error);
+    res.status(500).json({ error: 'Failed to fetch conversation messages', details: error.message });
   }
 });
 
 // Create a new conversation
 router.post('/', async (req, res) => {
-  const cacheKey = 'get-all-conversations';
-  requestCache.delete(cacheKey); // Invalidate cache on write
-  
   try {
     const id = req.body.id || uuidv4();
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.error('Database not connected, cannot create conversation');
       return res.status(503).json({ error: 'Database not connected' });
     }
@@ -95,7 +182,7 @@ router.post('/', async (req, res) => {
     console.log(`Creating new conversation with ID: ${id}`);
     
     // Check if conversation already exists first
-    const [existingConvs] = await pool.query(
+    const [existingConvs] = await storage.query(
       'SELECT id FROM conversations WHERE id = ?',
       [id]
     );
@@ -109,9 +196,9 @@ router.post('/', async (req, res) => {
       });
     }
     
-    await pool.query(
+    await storage.query(
       'INSERT INTO conversations (id, is_active, created_at) VALUES (?, ?, ?)',
-      [id, true, new Date()]
+      [id, true, parseClientDate(req.body.createdAt)]
     );
     
     // Removed the welcome message creation to prevent duplicate messages
@@ -132,9 +219,6 @@ router.post('/', async (req, res) => {
 
 // Add message to conversation
 router.post('/:id/messages', async (req, res) => {
-  const cacheKey = 'get-all-conversations';
-  requestCache.delete(cacheKey); // Invalidate cache on write
-  
   try {
     const { id } = req.params;
     
@@ -144,7 +228,7 @@ router.post('/:id/messages', async (req, res) => {
       return res.status(400).json({ error: 'Invalid conversation ID' });
     }
     
-    const { role, content } = req.body;
+    const { role, content, sources, truncated, event, timestamp } = req.body;
     
     // Validate required fields
     if (!role || !content) {
@@ -152,10 +236,19 @@ router.post('/:id/messages', async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields' });
     }
     
+    if (sources !== undefined && !Array.isArray(sources)) {
+      return res.status(400).json({ error: 'sources must be an array' });
+    }
+    
+    if (event !== undefined && (typeof event !== 'object' || event === null || !event.type)) {
+      return res.status(400).json({ error: 'event must be an object with a type' });
+    }
+    
+    // Clients send their own message ids, so a retried or replayed write is stored only once
     const messageId = req.body.id || uuidv4();
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.error('Database not connected, cannot add message');
       return res.status(503).json({ error: 'Database not connected' });
     }
@@ -164,7 +257,7 @@ router.post('/:id/messages', async (req, res) => {
     let conversationExists = false;
     
     try {
-      const [conversationRows] = await pool.query(
+      const [conversationRows] = await storage.query(
         'SELECT id FROM conversations WHERE id = ?',
         [id]
       );
@@ -175,9 +268,9 @@ router.post('/:id/messages', async (req, res) => {
       if (!conversationExists) {
         console.log(`Conversation ${id} not found, creating it automatically`);
         
-        await pool.query(
+        await storage.query(
           'INSERT INTO conversations (id, is_active, created_at) VALUES (?, ?, ?)',
-          [id, true, new Date()]
+          [id, true, parseClientDate(timestamp)]
         );
         
         conversationExists = true;
@@ -194,7 +287,7 @@ router.post('/:id/messages', async (req, res) => {
     
     // Check if this message ID already exists to avoid duplicates
     try {
-      const [existingMessageRows] = await pool.query(
+      const [existingMessageRows] = await storage.query(
         'SELECT id FROM messages WHERE id = ?',
         [messageId]
       );
@@ -221,9 +314,18 @@ router.post('/:id/messages', async (req, res) => {
     });
     
     try {
-      await pool.query(
-        'INSERT INTO messages (id, conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?, ?)',
-        [messageId, id, role, content, new Date()]
+      await storage.query(
+        'INSERT INTO messages (id, conversation_id, role, content, sources, truncated, event, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+        [
+          messageId,
+          id,
+          role,
+          content,
+          sources?.length ? JSON.stringify(sources) : null,
+          Boolean(truncated),
+          event ? JSON.stringify(event) : null,
+          parseClientDate(timestamp)
+        ]
       );
       
       console.log('Message added successfully to database');
@@ -243,4 +345,61 @@ router.post('/:id/messages', async (req, res) => {
   }
 });
 
+// Update a message (e.g. the final text of a streamed answer, its RAG sources, or the
+// spoken part of an answer the caller interrupted, with `truncated: true`)
+router.patch('/:id/messages/:messageId', async (req, res) => {
+  try {
+    const { id, messageId } = req.params;
+    const { content, sources, truncated } = req.body;
+    
+    if (content === undefined && sources === undefined && truncated === undefined) {
+      return res.status(400).json({ error: 'Nothing to update' });
+    }
+    
+    if (sources !== undefined && !Array.isArray(sources)) {
+      return res.status(400).json({ error: 'sources must be an array' });
+    }
+    
+    const storage = db.getDbConnection();
+    if (!storage) {
+      console.error('Database not connected, cannot update message');
+      return res.status(503).json({ error: 'Database not connected' });
+    }
+    
+    const fields = [];
+    const values = [];
+    if (content !== undefined) {
+      fields.push('content = ?');
+      values.push(content);
+    }
+    if (sources !== undefined) {
+      fields.push('sources = ?');
+      values.push(sources.length ? JSON.stringify(sources) : null);
+    }
+    if (truncated !== undefined) {
+      fields.push('truncated = ?');
+      values.push(Boolean(truncated));
+    }
+    
+    const [result] = await storage.query(
+      `UPDATE messages SET ${fields.join(', ')} WHERE id = ? AND conversation_id = ?`,
+      [...values, messageId, id]
+    );
+    
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ error: 'Message not found' });
+    }
+    
+    console.log(`Message ${messageId} updated${sources ? ` with ${sources.length} sources` : ''}`);
+    res.json({ 
+      success: true, 
+      message: 'Message updated successfully',
+      id: messageId
+    });
+  } catch (error) {
+    console.error('Error updating message:', error);
+    res.status(500).json({ error: 'Failed to update message', details: error.message });
+  }
+});
+
 module.exports = router;
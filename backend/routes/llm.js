@@ -0,0 +1,358 @@
+const express = require('express');
+const router = express.Router();
+const db = require('../database');
+const fs = require('fs');
+const path = require('path');
+const { LOCAL_EMBEDDING_MODEL, vectorizeText } = require('../rag/vectorizer');
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+// Fields the browser is allowed to forward to the chat completions endpoint
+const ALLOWED_CHAT_FIELDS = [
+  'model', 'messages', 'temperature', 'max_tokens', 'functions', 'function_call',
+  'tools', 'tool_choice', 'stream'
+];
+
+// Resolve the OpenAI API key on the server: database first, then fallback file, then environment
+const getApiKey = async () => {
+  const storage = db.getDbConnection();
+  if (storage) {
+    try {
+      const [rows] = await storage.query('SELECT api_key FROM admin_config WHERE id = 1');
+      if (rows.length > 0 && rows[0].api_key) {
+        return rows[0].api_key;
+      }
+    } catch (error) {
+      console.error('Error reading API key from database:', error);
+    }
+  }
+
+  const configPath = path.join(__dirname, '../data/config.json');
+  if (fs.existsSync(configPath)) {
+    try {
+      const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      if (config.apiKey) {
+        return config.apiKey;
+      }
+    } catch (error) {
+      console.error('Error reading API key from config file:', error);
+    }
+  }
+
+  return process.env.OPENAI_API_KEY || null;
+};
+
+// Normalize a base URL so it can be compared and have paths appended
+const normalizeBaseUrl = (baseUrl) => String(baseUrl || '').trim().replace(/\/+$/, '');
+
+// Base URLs of OpenAI-compatible servers the proxy may reach (comma-separated).
+// The provider comes from the browser, so when unset no compatible server can be used.
+const getAllowedCompatibleBaseUrls = () => (process.env.LLM_COMPATIBLE_BASE_URLS || '')
+  .split(',')
+  .map(normalizeBaseUrl)
+  .filter(Boolean);
+
+// Resolve the upstream for a request based on the provider selected in the agent config.
+// Returns { buildUrl, headers } or { status, error } when the request cannot be served.
+const resolveProvider = async (provider) => {
+  if (!provider || !provider.type || provider.type === 'openai') {
+    const apiKey = await getApiKey();
+    if (!apiKey) {
+      return { status: 503, error: 'API key not configured' };
+    }
+
+    return {
+      buildUrl: (endpoint) => `${OPENAI_BASE_URL}${endpoint}`,
+      headers: { 'Authorization': `Bearer ${apiKey}` }
+    };
+  }
+
+  if (provider.type !== 'openai-compatible') {
+    return { status: 400, error: `Unsupported provider: ${provider.type}` };
+  }
+
+  const baseUrl = normalizeBaseUrl(provider.baseUrl);
+  let parsedUrl;
+  try {
+    parsedUrl = new URL(baseUrl);
+  } catch (error) {
+    return { status: 400, error: 'Invalid provider base URL' };
+  }
+
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    return { status: 400, error: 'Provider base URL must use http or https' };
+  }
+
+  if (!getAllowedCompatibleBaseUrls().includes(baseUrl)) {
+    return { status: 403, error: 'Provider base URL is not allowed' };
+  }
+
+  const headers = {};
+  const apiKey = process.env.LLM_COMPATIBLE_API_KEY;
+  if (apiKey) {
+    if (provider.authHeader === 'api-key') {
+      headers['api-key'] = apiKey;
+    } else {
+      headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+  }
+
+  const query = provider.apiVersion ? `?api-version=${encodeURIComponent(provider.apiVersion)}` : '';
+  return {
+    buildUrl: (endpoint) => `${baseUrl}${endpoint}${query}`,
+    headers
+  };
+};
+
+// Send an error from the upstream provider back to the client as JSON
+const forwardUpstreamError = async (upstream, res, label) => {
+  const errorText = await upstream.text().catch(() => '');
+  console.error(`${label} upstream error: ${upstream.status} ${errorText.substring(0, 200)}`);
+  return res.status(upstream.status).json({
+    error: `${label} request failed`,
+    status: upstream.status,
+    details: errorText.substring(0, 1000)
+  });
+};
+
+// Report whether the LLM proxy is usable, without exposing the key
+router.get('/status', async (req, res) => {
+  try {
+    const apiKey = await getApiKey();
+    res.json({ configured: Boolean(apiKey) });
+  } catch (error) {
+    console.error('Error checking LLM status:', error);
+    res.status(500).json({ error: 'Failed to check LLM status', details: error.message });
+  }
+});
+
+// Chat completions, with optional SSE streaming
+router.post('/chat', async (req, res) => {
+  // The request emits 'close' as soon as its body has been read; only a response closed
+  // before it finished means the client went away
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  try {
+    const target = await resolveProvider(req.body.provider);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    if (!Array.isArray(req.body.messages) || req.body.messages.length === 0) {
+      return res.status(400).json({ error: 'Messages are required' });
+    }
+
+    const body = {};
+    for (const field of ALLOWED_CHAT_FIELDS) {
+      if (req.body[field] !== undefined) {
+        body[field] = req.body[field];
+      }
+    }
+
+    console.log(`Proxying chat completion: model=${body.model}, messages=${body.messages.length}, stream=${Boolean(body.stream)}`);
+
+    const upstream = await fetch(target.buildUrl('/chat/completions'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...target.headers
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    if (!upstream.ok) {
+      return forwardUpstreamError(upstream, res, 'Chat completion');
+    }
+
+    if (!body.stream) {
+      const data = await upstream.json();
+      return res.json(data);
+    }
+
+    // Relay the SSE stream as-is so the client parser keeps working
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    const reader = upstream.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(Buffer.from(value));
+    }
+
+    res.end();
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      console.log('Chat completion aborted by client');
+      return res.end();
+    }
+
+    console.error('Error proxying chat completion:', error);
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.status(500).json({ error: 'Failed to proxy chat completion', details: error.message });
+  }
+});
+
+// Send an audio buffer to the provider's Whisper-compatible transcription endpoint.
+// Also used by the streaming transcription socket; returns the upstream response.
+const requestTranscription = async (target, audioBuffer, { mimeType, language, model } = {}) => {
+  const type = mimeType || 'audio/webm';
+  const extension = type.split('/')[1]?.split(';')[0] || 'webm';
+
+  const formData = new FormData();
+  formData.append('file', new Blob([audioBuffer], { type }), `recording.${extension}`);
+  formData.append('model', model || 'whisper-1');
+  formData.append('response_format', 'json');
+  if (language) {
+    formData.append('language', language);
+  }
+
+  return fetch(target.buildUrl('/audio/transcriptions'), {
+    method: 'POST',
+    headers: target.headers,
+    body: formData
+  });
+};
+
+// Speech-to-text; the audio arrives base64-encoded in the JSON body
+router.post('/transcribe', async (req, res) => {
+  try {
+    const target = await resolveProvider(req.body.provider);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const { audio, mimeType, language, model } = req.body;
+    if (!audio) {
+      return res.status(400).json({ error: 'Audio is required' });
+    }
+
+    const audioBuffer = Buffer.from(audio, 'base64');
+    const type = mimeType || 'audio/webm';
+
+    console.log(`Proxying transcription: ${audioBuffer.length} bytes, type=${type}, language=${language || 'auto'}`);
+
+    const upstream = await requestTranscription(target, audioBuffer, { mimeType: type, language, model });
+    if (!upstream.ok) {
+      return forwardUpstreamError(upstream, res, 'Transcription');
+    }
+
+    const data = await upstream.json();
+    res.json({ text: data.text || '' });
+  } catch (error) {
+    console.error('Error proxying transcription:', error);
+    res.status(500).json({ error: 'Failed to proxy transcription', details: error.message });
+  }
+});
+
+// Text-to-speech; returns the audio bytes
+router.post('/speech', async (req, res) => {
+  try {
+    const target = await resolveProvider(req.body.provider);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    const { input, voice, model, speed } = req.body;
+    if (!input || !input.trim()) {
+      return res.status(400).json({ error: 'Input text is required' });
+    }
+
+    console.log(`Proxying speech generation: ${input.length} characters, voice=${voice || 'alloy'}`);
+
+    const upstream = await fetch(target.buildUrl('/audio/speech'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...target.headers
+      },
+      body: JSON.stringify({
+        model: model || 'tts-1',
+        voice: voice || 'alloy',
+        input,
+        speed: speed || 1.0
+      })
+    });
+
+    if (!upstream.ok) {
+      return forwardUpstreamError(upstream, res, 'Speech');
+    }
+
+    const audioBuffer = Buffer.from(await upstream.arrayBuffer());
+    res.status(200).set({
+      'Content-Type': upstream.headers.get('content-type') || 'audio/mpeg',
+      'Content-Length': audioBuffer.length
+    });
+    res.end(audioBuffer);
+  } catch (error) {
+    console.error('Error proxying speech generation:', error);
+    res.status(500).json({ error: 'Failed to proxy speech generation', details: error.message });
+  }
+});
+
+// Embeddings for one or more texts, returned in input order
+// (the mock provider gets the local vectorizer, without calling any upstream)
+router.post('/embeddings', async (req, res) => {
+  try {
+    const { input, model, provider } = req.body;
+    const texts = Array.isArray(input) ? input : [input];
+    if (texts.length === 0 || texts.some(text => typeof text !== 'string' || !text.trim())) {
+      return res.status(400).json({ error: 'Input texts are required' });
+    }
+
+    if (provider?.type === 'mock') {
+      return res.json({ model: `mock:${LOCAL_EMBEDDING_MODEL}`, embeddings: texts.map(text => vectorizeText(text)) });
+    }
+
+    const target = await resolveProvider(provider);
+    if (target.error) {
+      return res.status(target.status).json({ error: target.error });
+    }
+
+    console.log(`Proxying embeddings: ${texts.length} texts, model=${model || 'text-embedding-3-small'}`);
+
+    const upstream = await fetch(target.buildUrl('/embeddings'), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...target.headers
+      },
+      body: JSON.stringify({
+        model: model || 'text-embedding-3-small',
+        input: texts
+      })
+    });
+
+    if (!upstream.ok) {
+      return forwardUpstreamError(upstream, res, 'Embeddings');
+    }
+
+    const data = await upstream.json();
+    const embeddings = (data.data || [])
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+
+    res.json({ model: data.model || model, embeddings });
+  } catch (error) {
+    console.error('Error proxying embeddings:', error);
+    res.status(500).json({ error: 'Failed to proxy embeddings', details: error.message });
+  }
+});
+
+module.exports = router;
+module.exports.getApiKey = getApiKey;
+module.exports.resolveProvider = resolveProvider;
+module.exports.requestTranscription = requestTranscription;
@@ -0,0 +1,101 @@
+const express = require('express');
+const router = express.Router();
+const db = require('../database');
+const ragStore = require('../rag/store');
+const { resolveChunkSettings, detectChunkingStrategy } = require('../rag/chunkers');
+const { requireAdmin } = require('../auth/adminSessions');
+
+// Search the stored chunks: { query, topK, similarityThreshold, limit }. The embedding model
+// is the one of the stored agent config.
+router.post('/search', async (req, res) => {
+  try {
+    const { query, topK, similarityThreshold, limit } = req.body || {};
+
+    if (!query || typeof query !== 'string') {
+      return res.status(400).json({ error: 'Invalid request', details: 'query must be a non-empty string' });
+    }
+
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', details: 'RAG search requires the database' });
+    }
+
+    const result = await ragStore.search(storage, query, {
+      topK,
+      similarityThreshold,
+      limit
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error searching RAG chunks:', error);
+    res.status(500).json({
+      error: 'Failed to search RAG chunks',
+      details: error.message
+    });
+  }
+});
+
+// Re-embed the stored chunks with the model of the stored agent config: { force }.
+// Without force only the chunks of another model (or without vectors) are embedded. Admin only.
+router.post('/reindex', requireAdmin, async (req, res) => {
+  try {
+    const { force } = req.body || {};
+
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', details: 'RAG reindex requires the database' });
+    }
+
+    const reembedded = await ragStore.reembedChunks(storage, force !== false);
+    console.log(`RAG reindex finished: ${reembedded} chunks re-embedded`);
+
+    res.json({
+      success: true,
+      reembedded
+    });
+  } catch (error) {
+    console.error('Error reindexing RAG chunks:', error);
+    res.status(error.status && error.status < 500 ? error.status : 500).json({
+      error: 'Failed to reindex RAG chunks',
+      details: error.message,
+      success: false
+    });
+  }
+});
+
+// Chunk settings of a training file with the defaults filled in and out-of-range values clamped,
+// and the strategy that 'auto' picks for it: { fileName, fileType, chunking }
+router.post('/chunking', (req, res) => {
+  const { fileName, fileType, chunking } = req.body || {};
+
+  if (!fileName || typeof fileName !== 'string') {
+    return res.status(400).json({ error: 'Invalid request', details: 'fileName must be a non-empty string' });
+  }
+
+  res.json({
+    settings: resolveChunkSettings(chunking),
+    detectedStrategy: detectChunkingStrategy(fileName, fileType)
+  });
+});
+
+// Counts of stored documents and chunks
+router.get('/stats', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.json({ documentCount: 0, chunkCount: 0, embeddingModels: [], connected: false });
+    }
+
+    const stats = await ragStore.getStats(storage);
+    res.json({ ...stats, connected: true });
+  } catch (error) {
+    console.error('Error getting RAG stats:', error);
+    res.status(500).json({
+      error: 'Failed to get RAG stats',
+      details: error.message
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,173 @@
+const express = require('express');
+const router = express.Router();
+const db = require('../database');
+const recordings = require('../recordings/store');
+const { requireAdmin } = require('../auth/adminSessions');
+
+const ROLES = ['user', 'assistant'];
+
+const isValidId = (id) => Boolean(id) && id !== 'null' && id !== 'undefined';
+
+// Record the caller's answer to the consent prompt: { conversationId, granted, consentText }.
+// Recordings are only accepted for conversations with consent given.
+router.post('/consent', async (req, res) => {
+  try {
+    const { conversationId, granted, consentText } = req.body || {};
+
+    if (!isValidId(conversationId) || typeof granted !== 'boolean') {
+      return res.status(400).json({ error: 'Invalid request', details: 'conversationId and a boolean granted are required', success: false });
+    }
+
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    await recordings.saveConsent(storage, conversationId, granted, consentText);
+    console.log(`Recording consent ${granted ? 'granted' : 'refused'} for conversation ${conversationId}`);
+
+    res.json({ success: true, granted });
+  } catch (error) {
+    console.error('Error saving recording consent:', error);
+    res.status(500).json({ error: 'Failed to save recording consent', details: error.message, success: false });
+  }
+});
+
+// Store the audio of one turn: { conversationId, messageId, role, transcript, data (base64),
+// mimeType, durationMs, retentionDays }
+router.post('/', async (req, res) => {
+  try {
+    const { conversationId, messageId, role, transcript, data, mimeType, durationMs, retentionDays } = req.body || {};
+
+    if (!isValidId(conversationId) || !ROLES.includes(role) || !data || typeof data !== 'string') {
+      return res.status(400).json({ error: 'Invalid request', details: 'conversationId, role and data are required', success: false });
+    }
+
+    const audio = Buffer.from(data, 'base64');
+    if (audio.length === 0) {
+      return res.status(400).json({ error: 'Invalid request', details: 'data is empty', success: false });
+    }
+    if (audio.length > recordings.MAX_RECORDING_BYTES) {
+      return res.status(413).json({
+        error: 'Recording too large',
+        details: `Maximum size is ${Math.round(recordings.MAX_RECORDING_BYTES / (1024 * 1024))} MB`,
+        success: false
+      });
+    }
+
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    if (!await recordings.hasConsent(storage, conversationId)) {
+      return res.status(403).json({ error: 'Recording consent not given', details: 'The caller did not consent to recording', success: false });
+    }
+
+    const { id, expiresAt } = await recordings.saveRecording(storage, {
+      conversationId,
+      messageId,
+      role,
+      transcript,
+      audio,
+      mimeType: mimeType || 'application/octet-stream',
+      durationMs: Number(durationMs),
+      retentionDays
+    });
+
+    console.log(`Stored ${role} recording ${id} (${audio.length} bytes) for conversation ${conversationId}`);
+    res.json({ success: true, id, expiresAt });
+  } catch (error) {
+    console.error('Error storing call recording:', error);
+    res.status(500).json({ error: 'Failed to store call recording', details: error.message, success: false });
+  }
+});
+
+// Recorded calls
+router.get('/', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    res.json({ success: true, calls: await recordings.listCalls(storage) });
+  } catch (error) {
+    console.error('Error listing call recordings:', error);
+    res.status(500).json({ error: 'Failed to list call recordings', details: error.message, success: false });
+  }
+});
+
+// Audio of one turn, for the admin player
+router.get('/audio/:id', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    const recording = await recordings.getRecordingAudio(storage, req.params.id);
+    if (!recording) {
+      return res.status(404).json({ error: 'Recording not found', success: false });
+    }
+
+    res.set({
+      'Content-Type': recording.mimeType,
+      'Content-Length': recording.audio.length,
+      'Cache-Control': 'private, max-age=3600'
+    });
+    res.send(recording.audio);
+  } catch (error) {
+    console.error('Error reading call recording audio:', error);
+    res.status(500).json({ error: 'Failed to read call recording', details: error.message, success: false });
+  }
+});
+
+// Delete recordings past the retention period: { retentionDays } (optional, see purgeExpiredRecordings)
+router.post('/purge', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    const deleted = await recordings.purgeExpiredRecordings(storage, req.body?.retentionDays);
+    res.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error purging call recordings:', error);
+    res.status(500).json({ error: 'Failed to purge call recordings', details: error.message, success: false });
+  }
+});
+
+// Turns of one call, with their transcripts
+router.get('/:conversationId', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    res.json({ success: true, turns: await recordings.getCallTurns(storage, req.params.conversationId) });
+  } catch (error) {
+    console.error('Error reading call recordings:', error);
+    res.status(500).json({ error: 'Failed to read call recordings', details: error.message, success: false });
+  }
+});
+
+router.delete('/:conversationId', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    const deleted = await recordings.deleteConversationRecordings(storage, req.params.conversationId);
+    console.log(`Deleted ${deleted} recordings of conversation ${req.params.conversationId}`);
+    res.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error deleting call recordings:', error);
+    res.status(500).json({ error: 'Failed to delete call recordings', details: error.message, success: false });
+  }
+});
+
+module.exports = router;
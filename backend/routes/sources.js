@@ -0,0 +1,87 @@
+const express = require('express');
+const router = express.Router();
+const db = require('../database');
+const urlSources = require('../rag/urlSources');
+const { requireAdmin } = require('../auth/adminSessions');
+
+// URL knowledge sources. The server crawls them (the browser cannot fetch other sites because of
+// CORS), stores their pages as training files and refreshes them on its own schedule.
+// Admin only: the server fetches the URLs and the pages become part of the agent's knowledge.
+router.use(requireAdmin);
+
+// List the sources with their pages
+router.get('/', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    res.json(await urlSources.listUrlSources(storage));
+  } catch (error) {
+    console.error('Error listing URL sources:', error);
+    res.status(500).json({ error: 'Failed to list URL sources', details: error.message, success: false });
+  }
+});
+
+// Add a source: { url, maxDepth, maxPages, refreshIntervalHours }. `url` may be a page or a sitemap.
+router.post('/', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    res.json(await urlSources.createUrlSource(storage, req.body || {}));
+  } catch (error) {
+    console.error('Error adding URL source:', error);
+    res.status(error.status && error.status < 500 ? error.status : 500).json({
+      error: 'Failed to add URL source',
+      details: error.message,
+      success: false
+    });
+  }
+});
+
+// Crawl a source now and answer with it once the crawl is over
+router.post('/:id/refresh', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    const source = await urlSources.refreshUrlSource(storage, req.params.id);
+    if (!source) {
+      return res.status(404).json({ error: 'URL source not found', success: false });
+    }
+    res.json(source);
+  } catch (error) {
+    console.error('Error refreshing URL source:', error);
+    res.status(error.status && error.status < 500 ? error.status : 500).json({
+      error: 'Failed to refresh URL source',
+      details: error.message,
+      success: false
+    });
+  }
+});
+
+// Remove a source with the training files of its pages
+router.delete('/:id', async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected', success: false });
+    }
+
+    if (!await urlSources.removeUrlSource(storage, req.params.id)) {
+      return res.status(404).json({ error: 'URL source not found', success: false });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error removing URL source:', error);
+    res.status(500).json({ error: 'Failed to remove URL source', details: error.message, success: false });
+  }
+});
+
+module.exports = router;
@@ -3,62 +3,113 @@ const express = require('express');
 const router = express.Router();
 const db = require('../database');
 const { v4: uuidv4 } = require('uuid');
+const ragStore = require('../rag/store');
+const { extractText, MAX_TRAINING_FILE_BYTES } = require('../rag/extract');
+const { requireAdmin } = require('../auth/adminSessions');
 
-// Add training file
-router.post('/', async (req, res) => {
+// Add training file. The original file may be sent base64-encoded in `data`; its text is then
+// extracted on the server (DOCX, PDF, HTML or plain text). Otherwise `content` is used as is.
+router.post('/', requireAdmin, async (req, res) => {
   try {
-    const { name, content, size, type } = req.body;
+    const { name, content, size, type, data } = req.body;
     const id = req.body.id || uuidv4();
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    if (!name) {
+      return res.status(400).json({ error: 'Missing required fields', details: 'name is required', success: false });
+    }
+    
+    let fileContent = content || '';
+    const fileType = type || 'text/plain';
+    let originalContent = null;
+    let extraction = null;
+    
+    if (data) {
+      originalContent = Buffer.from(data, 'base64');
+      
+      if (originalContent.length > MAX_TRAINING_FILE_BYTES) {
+        return res.status(413).json({
+          error: 'File too large',
+          details: `Maximum size is ${Math.round(MAX_TRAINING_FILE_BYTES / (1024 * 1024))} MB`,
+          success: false
+        });
+      }
+      
+      try {
+        extraction = await extractText({ name, type: fileType, buffer: originalContent });
+      } catch (extractError) {
+        console.error(`Error extracting text from ${name}:`, extractError);
+        return res.status(422).json({
+          error: 'Could not extract text from file',
+          details: extractError.message,
+          success: false
+        });
+      }
+      fileContent = extraction.text;
+    }
+    
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.log('Database not connected, saving to localStorage fallback');
       return res.json({
         success: true,
         message: 'Training file added successfully (localStorage fallback)',
-        id
+        id,
+        content: fileContent,
+        format: extraction?.format,
+        warnings: extraction?.warnings || []
       });
     }
     
-    // Handle DOCX files specially
-    let fileContent = content || '';
-    let fileType = type || 'text/plain';
-    
-    // Special handling for docx files
-    if (name.endsWith('.docx') || fileType.includes('openxmlformats-officedocument.wordprocessingml.document')) {
-      console.log('Processing DOCX file:', name, 'Size:', size);
-      // Store the placeholder content as is
-      if (!fileContent.includes('[DOCX Document:')) {
-        fileContent = `[DOCX Document: ${name}]`;
-      }
-    }
-    
     // Log file details
     console.log(`Saving file: ${name}, Type: ${fileType}, Content length: ${fileContent.length}`);
     
     // Check if file with this ID already exists
-    const [existingFiles] = await pool.query('SELECT id FROM training_files WHERE id = ?', [id]);
+    const [existingFiles] = await storage.query('SELECT id FROM training_files WHERE id = ?', [id]);
+    const warnings = extraction ? JSON.stringify(extraction.warnings) : null;
     
     if (existingFiles && existingFiles.length > 0) {
-      // Update existing file
-      await pool.query(
-        'UPDATE training_files SET name = ?, content = ?, size = ?, type = ?, timestamp = ? WHERE id = ?',
-        [name, fileContent, size || 0, fileType, new Date(), id]
-      );
+      // Update existing file; the original and extraction details are kept unless a new original was sent
+      if (extraction) {
+        await storage.query(
+          'UPDATE training_files SET name = ?, content = ?, original_content = ?, format = ?, extraction_warnings = ?, size = ?, type = ?, timestamp = ? WHERE id = ?',
+          [name, fileContent, originalContent, extraction.format, warnings, size || originalContent.length, fileType, new Date(), id]
+        );
+      } else {
+        await storage.query(
+          'UPDATE training_files SET name = ?, content = ?, size = ?, type = ?, timestamp = ? WHERE id = ?',
+          [name, fileContent, size || 0, fileType, new Date(), id]
+        );
+      }
       console.log(`Training file ${name} updated successfully with ID: ${id}`);
     } else {
       // Insert new file
-      await pool.query(
-        'INSERT INTO training_files (id, name, content, size, type, timestamp) VALUES (?, ?, ?, ?, ?, ?)',
-        [id, name, fileContent, size || 0, fileType, new Date()]
+      await storage.query(
+        'INSERT INTO training_files (id, name, content, original_content, format, extraction_warnings, size, type, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+        [id, name, fileContent, originalContent, extraction?.format || null, warnings, size || originalContent?.length || 0, fileType, new Date()]
       );
       console.log(`Training file ${name} added successfully with ID: ${id}`);
     }
     
+    // Chunk and embed the file for RAG; a failure here must not lose the upload
+    let indexing;
+    try {
+      indexing = await ragStore.ingestDocument(
+        storage,
+        { id, name, content: fileContent, type: fileType, chunking: req.body.chunking }
+      );
+    } catch (indexError) {
+      console.error(`Error indexing training file ${id} for RAG:`, indexError);
+      indexing = { error: indexError.message };
+    }
+    
     res.json({
       success: true,
       message: 'Training file added successfully',
-      id
+      id,
+      content: fileContent,
+      format: extraction?.format,
+      warnings: extraction?.warnings || [],
+      indexing
     });
   } catch (error) {
     console.error('Error adding training file:', error);
@@ -73,13 +124,16 @@ router.post('/', async (req, res) => {
 // Get all training files
 router.get('/', async (req, res) => {
   try {
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.log('Database not connected, using localStorage fallback for getting training files');
       return res.json([]);
     }
     
-    const [rows] = await pool.query('SELECT * FROM training_files ORDER BY timestamp DESC');
+    // The original files can be large, so they are only returned by GET /:id/original
+    const [rows] = await storage.query(
+      'SELECT id, name, content, format, extraction_warnings, size, type, source_id, source_url, timestamp FROM training_files ORDER BY timestamp DESC'
+    );
     
     // Process the files to clean up any potential circular references
     const cleanedRows = rows.map(file => ({
@@ -88,7 +142,11 @@ router.get('/', async (req, res) => {
       content: file.content,
       size: file.size,
       type: file.type,
-      timestamp: file.timestamp
+      timestamp: file.timestamp,
+      format: file.format || undefined,
+      extractionWarnings: file.extraction_warnings ? JSON.parse(file.extraction_warnings) : undefined,
+      sourceId: file.source_id || undefined,
+      sourceUrl: file.source_url || undefined
     }));
     
     console.log(`Retrieved ${cleanedRows.length} training files from database`);
@@ -102,13 +160,42 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Download the original uploaded file
+router.get('/:id/original', requireAdmin, async (req, res) => {
+  try {
+    const storage = db.getDbConnection();
+    if (!storage) {
+      return res.status(503).json({ error: 'Database not connected' });
+    }
+    
+    const [rows] = await storage.query(
+      'SELECT name, type, original_content FROM training_files WHERE id = ?',
+      [req.params.id]
+    );
+    
+    if (rows.length === 0 || !rows[0].original_content) {
+      return res.status(404).json({ error: 'Original file not found' });
+    }
+    
+    res.setHeader('Content-Type', rows[0].type || 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(rows[0].name)}"`);
+    res.send(rows[0].original_content);
+  } catch (error) {
+    console.error('Error getting original training file:', error);
+    res.status(500).json({ 
+      error: 'Failed to get original training file', 
+      details: error.message
+    });
+  }
+});
+
 // Remove training file
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requireAdmin, async (req, res) => {
   try {
     const { id } = req.params;
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       console.log('Database not connected, using localStorage fallback for delete');
       return res.json({
         success: true,
@@ -116,7 +203,8 @@ router.delete('/:id', async (req, res) => {
       });
     }
     
-    await pool.query('DELETE FROM training_files WHERE id = ?', [id]);
+    await storage.query('DELETE FROM training_files WHERE id = ?', [id]);
+    await ragStore.removeDocument(storage, id);
     
     console.log(`Training file ${id} removed successfully`);
     res.json({
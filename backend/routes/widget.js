@@ -2,16 +2,17 @@
 const express = require('express');
 const router = express.Router();
 const db = require('../database');
+const { requireAdmin } = require('../auth/adminSessions');
 
 // Get widget configuration
 router.get('/', async (req, res) => {
   try {
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       return res.status(503).json({ error: 'Database not connected' });
     }
     
-    const [rows] = await pool.query('SELECT * FROM widget_config WHERE id = 1');
+    const [rows] = await storage.query('SELECT * FROM widget_config WHERE id = 1');
     
     if (rows.length === 0) {
       // Insert default config if not exists
@@ -23,7 +24,7 @@ router.get('/', async (req, res) => {
         icon_type: "chat"
       };
       
-      await pool.query(
+      await storage.query(
         'INSERT INTO widget_config (id, position, title, subtitle, primary_color, icon_type) VALUES (1, ?, ?, ?, ?, ?)',
         [defaultConfig.position, defaultConfig.title, defaultConfig.subtitle, defaultConfig.primary_color, defaultConfig.icon_type]
       );
@@ -51,20 +52,24 @@ router.get('/', async (req, res) => {
   }
 });
 
-// Update widget configuration
-router.put('/', async (req, res) => {
+// Update widget configuration (admin only; GET stays public for the widget)
+router.put('/', requireAdmin, async (req, res) => {
   try {
     const { position, title, subtitle, primaryColor, iconType } = req.body;
     
-    const pool = db.getDbConnection();
-    if (!pool) {
+    const storage = db.getDbConnection();
+    if (!storage) {
       return res.status(503).json({ error: 'Database not connected' });
     }
     
-    await pool.query(
-      'UPDATE widget_config SET position = ?, title = ?, subtitle = ?, primary_color = ?, icon_type = ? WHERE id = 1',
-      [position, title, subtitle, primaryColor, iconType]
-    );
+    await storage.upsert('widget_config', {
+      id: 1,
+      position,
+      title,
+      subtitle,
+      primary_color: primaryColor,
+      icon_type: iconType
+    }, ['id']);
     
     res.json({ success: true, message: 'Widget configuration updated successfully' });
   } catch (error) {
@@ -6,6 +6,10 @@ const https = require('https');
 const http = require('http');
 const fs = require('fs');
 const db = require('./database');
+const { attachTranscriptionSocket } = require('./stt/streaming');
+const { scheduleRecordingPurge, MAX_RECORDING_BYTES } = require('./recordings/store');
+const { MAX_TRAINING_FILE_BYTES } = require('./rag/extract');
+const { scheduleUrlSourceRefresh } = require('./rag/urlSources');
 
 // Import routes
 const widgetRoutes = require('./routes/widget');
@@ -13,6 +17,10 @@ const agentRoutes = require('./routes/agent');
 const adminRoutes = require('./routes/admin');
 const conversationRoutes = require('./routes/conversation');
 const trainingRoutes = require('./routes/training');
+const llmRoutes = require('./routes/llm');
+const ragRoutes = require('./routes/rag');
+const sourceRoutes = require('./routes/sources');
+const recordingRoutes = require('./routes/recordings');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -23,15 +31,19 @@ const isProduction = process.env.NODE_ENV === 'production';
 console.log(`Running in ${isProduction ? 'production' : 'development'} mode`);
 console.log(`Server will listen on port ${isProduction ? PORT : DEV_PORT}`);
 
+// Uploads arrive base64-encoded (4/3 of the file size) in JSON bodies; the headroom covers the
+// other fields, so a file just over its limit still gets the route's own 413 message
+const BODY_LIMIT = Math.ceil(Math.max(MAX_TRAINING_FILE_BYTES, MAX_RECORDING_BYTES) * 4 / 3) + 1024 * 1024;
+
 // Middleware setup before routes
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+app.use(express.json({ limit: BODY_LIMIT }));
+app.use(express.urlencoded({ extended: true, limit: BODY_LIMIT }));
 
 // Enhanced CORS configuration that works in all environments
 app.use(cors({
   // Allow any origin
   origin: '*',
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'Cache-Control', 'Pragma', 'Expires', 'Origin'],
   credentials: true,
   preflightContinue: false,
@@ -46,7 +58,7 @@ app.use((req, res, next) => {
   
   // Add response headers for CORS - very permissive for all origins
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
   res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, Cache-Control, Pragma, Expires, Origin');
   res.header('Access-Control-Allow-Credentials', 'true');
   
@@ -63,7 +75,7 @@ app.options('*', (req, res) => {
   console.log(`Handling OPTIONS request for ${req.path} from origin: ${req.get('origin')}`);
   res.status(204).set({
     'Access-Control-Allow-Origin': '*',
-    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type, Authorization, Accept, Cache-Control, Pragma, Expires, Origin',
     'Access-Control-Allow-Credentials': 'true',
     'Access-Control-Max-Age': '86400',
@@ -100,6 +112,7 @@ app.get('/api/health', (req, res) => {
       dbConnected: dbStatus,
       environment: process.env.NODE_ENV || 'development',
       dbConfig: {
+        client: process.env.DB_CLIENT || 'mysql',
         host: process.env.DB_HOST || process.env.DEV_DB_HOST || '(not set)',
         database: process.env.DB_NAME || process.env.DEV_DB_NAME || '(not set)',
         user: process.env.DB_USER || process.env.DEV_DB_USER || '(not set)'
@@ -138,6 +151,10 @@ app.get('/api/health', (req, res) => {
 console.log('Initializing database connection...');
 db.initDatabase().then(connected => {
   console.log(`Database ${connected ? 'connected successfully' : 'connection failed'}`);
+  if (connected) {
+    scheduleRecordingPurge(db.getDbConnection);
+    scheduleUrlSourceRefresh(db.getDbConnection);
+  }
 }).catch(err => {
   console.error('Database initialization error:', err);
 });
@@ -148,11 +165,16 @@ app.use('/api/agent', agentRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/conversation', conversationRoutes);
 app.use('/api/training', trainingRoutes);
+app.use('/api/llm', llmRoutes);
+app.use('/api/rag', ragRoutes);
+app.use('/api/sources', sourceRoutes);
+app.use('/api/recordings', recordingRoutes);
 
 // Error handling middleware - must be after routes
 app.use((err, req, res, next) => {
   console.error('Server error:', err);
-  res.status(500)
+  // Body parser errors carry their status (413 for bodies over BODY_LIMIT, 400 for invalid JSON)
+  res.status(err.status || 500)
      .set({
        'Content-Type': 'application/json',
        'Access-Control-Allow-Origin': '*',
@@ -214,6 +236,7 @@ if (isProduction && process.env.USE_HTTPS === 'true' &&
     cert: fs.readFileSync(process.env.SSL_CERT_PATH)
   };
   const httpsServer = https.createServer(httpsOptions, app);
+  attachTranscriptionSocket(httpsServer);
   httpsServer.listen(PORT, () => {
     console.log(`HTTPS Server running on port ${PORT}`);
     console.log(`Environment: ${process.env.NODE_ENV}`);
@@ -233,6 +256,7 @@ if (isProduction && process.env.USE_HTTPS === 'true' &&
 } else {
   // Create HTTP server (development or fallback)
   const server = http.createServer(app);
+  attachTranscriptionSocket(server);
   server.listen(isProduction ? PORT : DEV_PORT, () => {
     console.log(`HTTP Server running on port ${isProduction ? PORT : DEV_PORT}`);
     console.log(`Environment: ${process.env.NODE_ENV}`);
@@ -243,6 +267,10 @@ if (isProduction && process.env.USE_HTTPS === 'true' &&
     console.log('- GET /api/admin');
     console.log('- GET /api/conversation');
     console.log('- GET /api/training');
+    console.log('- POST /api/llm/chat');
+    console.log('- POST /api/rag/search');
+    console.log('- GET /api/recordings');
+    console.log('- WS /api/stt/stream');
     
     if (isProduction) {
       console.log('');
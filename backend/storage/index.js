@@ -0,0 +1,23 @@
+// Storage adapters. Routes and stores only use this interface, so the backend runs on MySQL/MariaDB
+// or on a single SQLite file (DB_CLIENT=sqlite):
+//   query(sql, params)             -> [rows] for reads, [{ affectedRows, insertId }] for writes
+//   upsert(table, row, keyColumns) insert the row, or update it when the key already exists
+//   transaction(work)              run work({ query, upsert }) atomically
+//   getColumnType(table, column)   declared type of a column, or null (used by migrations)
+//   ping(), close()
+// SQL passed to query must be portable between both databases (no ON DUPLICATE KEY, SET ?, ...).
+
+const createStorage = (config) => {
+  if (config.client === 'sqlite') {
+    // Loaded on demand: MySQL deployments do not need the native SQLite module
+    const { createSqliteStorage } = require('./sqlite');
+    return createSqliteStorage(config);
+  }
+
+  const { createMySqlStorage } = require('./mysql');
+  return createMySqlStorage(config);
+};
+
+module.exports = {
+  createStorage
+};
@@ -0,0 +1,91 @@
+const path = require('path');
+const mysql = require('mysql2/promise');
+
+const buildUpsertSql = (table, row, keyColumns) => {
+  const columns = Object.keys(row);
+  const updates = columns
+    .filter(column => !keyColumns.includes(column))
+    .map(column => `${column} = VALUES(${column})`);
+  // A row with only key columns has nothing to update when it already exists
+  if (updates.length === 0) {
+    updates.push(`${keyColumns[0]} = ${keyColumns[0]}`);
+  }
+
+  return {
+    sql: `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ` +
+      `ON DUPLICATE KEY UPDATE ${updates.join(', ')}`,
+    params: columns.map(column => row[column])
+  };
+};
+
+// Storage operations on a pool or on a single connection (inside a transaction)
+const createExecutor = (target) => {
+  const query = (sql, params) => target.query(sql, params);
+
+  const upsert = (table, row, keyColumns) => {
+    const { sql, params } = buildUpsertSql(table, row, keyColumns);
+    return target.query(sql, params);
+  };
+
+  return { query, upsert };
+};
+
+const createMySqlStorage = (config) => {
+  const pool = mysql.createPool({
+    host: config.host,
+    user: config.user,
+    password: config.password,
+    database: config.database,
+    waitForConnections: true,
+    connectionLimit: 10,
+    queueLimit: 0,
+    connectTimeout: 10000, // 10 second timeout
+    acquireTimeout: 10000
+  });
+
+  // Verify that the server is reachable
+  const ping = async () => {
+    const connection = await pool.getConnection();
+    connection.release();
+  };
+
+  const transaction = async (work) => {
+    const connection = await pool.getConnection();
+    try {
+      await connection.beginTransaction();
+      const result = await work(createExecutor(connection));
+      await connection.commit();
+      return result;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  };
+
+  // Get the data type of a column, or null if the column does not exist
+  const getColumnType = async (table, column) => {
+    const [rows] = await pool.query(`
+      SELECT DATA_TYPE AS dataType FROM INFORMATION_SCHEMA.COLUMNS
+      WHERE TABLE_SCHEMA = DATABASE()
+      AND TABLE_NAME = ?
+      AND COLUMN_NAME = ?
+    `, [table, column]);
+    return rows.length > 0 ? rows[0].dataType : null;
+  };
+
+  return {
+    client: 'mysql',
+    migrationsDir: path.join(__dirname, '../migrations'),
+    ...createExecutor(pool),
+    transaction,
+    getColumnType,
+    ping,
+    close: () => pool.end()
+  };
+};
+
+module.exports = {
+  createMySqlStorage
+};
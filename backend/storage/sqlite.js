@@ -0,0 +1,85 @@
+const fs = require('fs');
+const path = require('path');
+const Database = require('better-sqlite3');
+
+// SQLite has no boolean or date types: booleans are stored as 0/1 (as MySQL does) and dates as
+// ISO 8601 strings in UTC, which sort chronologically and parse back with new Date()
+const toSqliteValue = (value) => {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  return value;
+};
+
+const createSqliteStorage = (config) => {
+  const filename = config.filename;
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const database = new Database(filename);
+  database.pragma('journal_mode = WAL');
+  database.pragma('foreign_keys = ON');
+
+  // Same result shape as mysql2: [rows] for reads, [{ affectedRows, insertId }] for writes
+  const query = async (sql, params = []) => {
+    const statement = database.prepare(sql);
+    const values = params.map(toSqliteValue);
+
+    if (statement.reader) {
+      return [statement.all(...values)];
+    }
+
+    const info = statement.run(...values);
+    return [{ affectedRows: info.changes, insertId: Number(info.lastInsertRowid) }];
+  };
+
+  const upsert = (table, row, keyColumns) => {
+    const columns = Object.keys(row);
+    const updates = columns
+      .filter(column => !keyColumns.includes(column))
+      .map(column => `${column} = excluded.${column}`);
+
+    // A row with only key columns has nothing to update when it already exists
+    return query(
+      `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ` +
+      `ON CONFLICT (${keyColumns.join(', ')}) ` + (updates.length > 0 ? `DO UPDATE SET ${updates.join(', ')}` : 'DO NOTHING'),
+      columns.map(column => row[column])
+    );
+  };
+
+  // There is a single connection, so the work must only await storage calls: those complete
+  // synchronously, and no other request can run statements inside the open transaction
+  const transaction = async (work) => {
+    database.exec('BEGIN');
+    try {
+      const result = await work({ query, upsert });
+      database.exec('COMMIT');
+      return result;
+    } catch (error) {
+      database.exec('ROLLBACK');
+      throw error;
+    }
+  };
+
+  // Get the declared type of a column, or null if the column does not exist
+  const getColumnType = async (table, column) => {
+    const columnInfo = database.pragma(`table_info(${table})`).find(info => info.name === column);
+    return columnInfo ? columnInfo.type.toLowerCase() : null;
+  };
+
+  return {
+    client: 'sqlite',
+    migrationsDir: path.join(__dirname, '../migrations/sqlite'),
+    query,
+    upsert,
+    transaction,
+    getColumnType,
+    ping: async () => {},
+    close: async () => database.close()
+  };
+};
+
+module.exports = {
+  createSqliteStorage
+};
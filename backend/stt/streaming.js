@@ -0,0 +1,192 @@
+const { WebSocketServer } = require('ws');
+const { resolveProvider, requestTranscription } = require('../routes/llm');
+
+const STREAM_PATH = '/api/stt/stream';
+// How often a new partial hypothesis is requested while audio keeps arriving
+const PARTIAL_INTERVAL_MS = parseInt(process.env.STT_PARTIAL_INTERVAL_MS, 10) || 1200;
+// Whisper rejects files above 25 MB; one utterance never gets close to that
+const MAX_STREAM_BYTES = (parseInt(process.env.STT_STREAM_MAX_MB, 10) || 25) * 1024 * 1024;
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+// Local stand-in for a streaming STT provider: Whisper-compatible APIs only take whole files,
+// so each partial hypothesis re-transcribes the recording received so far. The recording is a
+// single MediaRecorder stream, so the concatenated chunks are always a valid file.
+// A streaming-capable provider can replace it by returning the same { transcribe } shape.
+const createIncrementalTranscriber = async ({ provider, mimeType, language, model }) => {
+  const target = await resolveProvider(provider);
+  if (target.error) {
+    const error = new Error(target.error);
+    error.status = target.status;
+    throw error;
+  }
+
+  return {
+    transcribe: async (audioBuffer) => {
+      const upstream = await requestTranscription(target, audioBuffer, { mimeType, language, model });
+      if (!upstream.ok) {
+        const details = await upstream.text().catch(() => '');
+        throw new Error(`Transcription failed: ${upstream.status} ${details.substring(0, 200)}`);
+      }
+
+      const data = await upstream.json();
+      return data.text || '';
+    }
+  };
+};
+
+// Protocol: the client sends { type: 'start', provider, mimeType, language, model }, then the
+// audio as binary messages, then { type: 'end' }. The server answers with { type: 'partial', text }
+// while audio arrives and a single { type: 'final', text } before closing, or { type: 'error', error }.
+const handleConnection = (socket) => {
+  let session = null;
+
+  const stopPartials = () => {
+    if (session && session.timer) {
+      clearInterval(session.timer);
+      session.timer = null;
+    }
+  };
+
+  const fail = (message, error) => {
+    console.error(`Streaming transcription error: ${message}`, error ? error.message : '');
+    stopPartials();
+    send(socket, { type: 'error', error: message, details: error ? error.message : undefined });
+    socket.close(1011, message.substring(0, 120));
+  };
+
+  const audioBuffer = (current) => Buffer.concat(current.chunks, current.bytes);
+
+  const emitPartial = () => {
+    const current = session;
+    if (!current || current.pending || current.bytes === current.transcribedBytes) return;
+
+    const bytes = current.bytes;
+    current.pending = (async () => {
+      try {
+        const transcriber = await current.transcriber;
+        const text = await transcriber.transcribe(audioBuffer(current));
+        current.transcribedBytes = bytes;
+        if (text !== current.partial) {
+          current.partial = text;
+          send(socket, { type: 'partial', text });
+        }
+      } catch (error) {
+        // A failed partial is not fatal; the final transcription is what counts
+        console.warn('Partial transcription failed:', error.message);
+      } finally {
+        current.pending = null;
+      }
+    })();
+  };
+
+  const finish = async () => {
+    const current = session;
+    stopPartials();
+    if (current.pending) {
+      await current.pending;
+    }
+
+    // No audio since the last partial: it already is the final text
+    let text = current.partial;
+    if (current.bytes !== current.transcribedBytes) {
+      const transcriber = await current.transcriber;
+      text = await transcriber.transcribe(audioBuffer(current));
+    }
+
+    console.log(`Streaming transcription finished: ${current.bytes} bytes, ${text.length} characters`);
+    send(socket, { type: 'final', text });
+    socket.close(1000);
+  };
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      if (!session) {
+        return fail('Audio received before start');
+      }
+
+      session.chunks.push(Buffer.from(data));
+      session.bytes += data.length;
+      if (session.bytes > MAX_STREAM_BYTES) {
+        fail('Audio stream too large');
+      }
+      return;
+    }
+
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (error) {
+      return fail('Invalid message', error);
+    }
+
+    if (message.type === 'start') {
+      if (session) {
+        return fail('Stream already started');
+      }
+
+      // Audio may arrive while the provider is being resolved, so the session exists right away
+      session = {
+        transcriber: createIncrementalTranscriber({
+          provider: message.provider,
+          mimeType: message.mimeType || 'audio/webm',
+          language: message.language,
+          model: message.model
+        }),
+        chunks: [],
+        bytes: 0,
+        transcribedBytes: 0,
+        partial: '',
+        pending: null,
+        timer: null
+      };
+
+      session.transcriber
+        .then(() => {
+          if (session && socket.readyState === socket.OPEN) {
+            session.timer = setInterval(emitPartial, PARTIAL_INTERVAL_MS);
+            send(socket, { type: 'ready' });
+          }
+        })
+        .catch(error => fail(error.message, error));
+      return;
+    }
+
+    if (message.type === 'end') {
+      if (!session) {
+        return fail('Stream not started');
+      }
+
+      finish().catch(error => fail('Failed to transcribe audio', error));
+      return;
+    }
+
+    fail(`Unknown message type: ${message.type}`);
+  });
+
+  socket.on('close', () => {
+    stopPartials();
+    session = null;
+  });
+
+  socket.on('error', (error) => {
+    console.error('Streaming transcription socket error:', error);
+  });
+};
+
+// Serve the streaming transcription WebSocket on the same HTTP(S) server as the API
+const attachTranscriptionSocket = (server) => {
+  const wss = new WebSocketServer({ server, path: STREAM_PATH, maxPayload: MAX_STREAM_BYTES });
+  wss.on('connection', handleConnection);
+  console.log(`Streaming transcription available at ${STREAM_PATH}`);
+  return wss;
+};
+
+module.exports = {
+  STREAM_PATH,
+  attachTranscriptionSocket
+};
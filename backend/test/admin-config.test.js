@@ -0,0 +1,73 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const crypto = require('crypto');
+const { startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+
+const request = async (method, path, body, headers = {}) => {
+  const response = await fetch(`${app.url}/api${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body && JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const sha256 = (text) => crypto.createHash('sha256').update(text).digest('hex');
+
+const login = async (password) => {
+  const result = await request('POST', '/admin/login', { username: 'admin', password });
+  return result.body.token;
+};
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/widget': require('../routes/widget')
+  });
+});
+
+after(async () => {
+  app.close();
+  await storage.close();
+});
+
+test('lets the first-run setup save only the API key without a session', async () => {
+  const setup = await request('PUT', '/admin', { username: 'intruso', passwordHash: sha256('intruso'), apiKey: 'sk-primeira' });
+  assert.strictEqual(setup.status, 200);
+
+  const [[stored]] = await storage.query('SELECT username, password_hash, api_key FROM admin_config WHERE id = 1');
+  assert.deepStrictEqual(stored, { username: 'admin', password_hash: sha256('admin'), api_key: 'sk-primeira' });
+
+  const again = await request('PUT', '/admin', { username: 'admin', passwordHash: sha256('admin'), apiKey: 'sk-outra' });
+  assert.strictEqual(again.status, 401);
+});
+
+test('never returns the password hash', async () => {
+  const config = await request('GET', '/admin');
+
+  assert.strictEqual(config.status, 200);
+  assert.deepStrictEqual(config.body, { username: 'admin', apiKey: '', apiKeyConfigured: true });
+});
+
+test('updates the credentials and keeps the API key with an admin session', async () => {
+  const token = await login('admin');
+  const updated = await request('PUT', '/admin', { username: 'admin', passwordHash: sha256('nova-senha') }, { Authorization: `Bearer ${token}` });
+  assert.strictEqual(updated.status, 200);
+
+  const [[stored]] = await storage.query('SELECT password_hash, api_key FROM admin_config WHERE id = 1');
+  assert.deepStrictEqual(stored, { password_hash: sha256('nova-senha'), api_key: 'sk-primeira' });
+  assert.ok(await login('nova-senha'));
+});
+
+test('the widget config is public to read and only changes with an admin session', async () => {
+  const widget = { position: 'bottom-left', title: 'Suporte', subtitle: 'Fale conosco', primaryColor: '#0055ff', iconType: 'chat' };
+  assert.strictEqual((await request('PUT', '/widget', widget)).status, 401);
+
+  const token = await login('nova-senha');
+  assert.strictEqual((await request('PUT', '/widget', widget, { Authorization: `Bearer ${token}` })).status, 200);
+  assert.deepStrictEqual((await request('GET', '/widget')).body, widget);
+});
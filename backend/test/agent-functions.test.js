@@ -0,0 +1,102 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const { listen, startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let webhook;
+let webhookUrl;
+let adminToken;
+// Bodies received by the fake webhook
+const webhookRequests = [];
+
+const handleWebhook = (req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    webhookRequests.push({ url: req.url, body: JSON.parse(raw) });
+    if (req.url === '/falha') {
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      return res.end('Pedido indisponível');
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ status: 'enviado' }));
+  });
+};
+
+const request = async (method, path, body, headers = {}) => {
+  const response = await fetch(`${app.url}/api${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body && JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const execute = (name, args) => request('POST', `/agent/functions/${name}/execute`, { arguments: args });
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  webhook = http.createServer(handleWebhook);
+  webhookUrl = await listen(webhook);
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/agent': require('../routes/agent')
+  });
+
+  adminToken = (await request('POST', '/admin/login', { username: 'admin', password: 'admin' })).body.token;
+  const saved = await request('PUT', '/agent', {
+    functions: [
+      { name: 'consultar_pedido', description: 'Consulta um pedido', parameters: { type: 'object' }, webhook: `${webhookUrl}/pedidos` },
+      { name: 'cancelar_pedido', description: 'Cancela um pedido', parameters: { type: 'object' }, webhook: `${webhookUrl}/falha` }
+    ]
+  }, { Authorization: `Bearer ${adminToken}` });
+  assert.strictEqual(saved.status, 200);
+});
+
+after(async () => {
+  app.close();
+  webhook.closeAllConnections();
+  webhook.close();
+  await storage.close();
+});
+
+test('posts the arguments to the stored webhook and returns its response', async () => {
+  const result = await execute('consultar_pedido', '{"pedido":"42"}');
+
+  assert.strictEqual(result.status, 200);
+  assert.deepStrictEqual(JSON.parse(result.body.output), { status: 'enviado' });
+  assert.deepStrictEqual(webhookRequests.at(-1), { url: '/pedidos', body: { pedido: '42' } });
+});
+
+test('returns webhook failures, unknown functions and invalid arguments as results for the model', async () => {
+  const failed = JSON.parse((await execute('cancelar_pedido', '{}')).body.output);
+  assert.deepStrictEqual(failed, { error: 'Webhook returned status 500', body: 'Pedido indisponível' });
+
+  const unknown = JSON.parse((await execute('apagar_tudo', '{}')).body.output);
+  assert.match(unknown.error, /not available/);
+
+  const requestCount = webhookRequests.length;
+  const invalid = JSON.parse((await execute('consultar_pedido', '{pedido')).body.output);
+  assert.strictEqual(invalid.error, 'Invalid JSON arguments');
+  assert.strictEqual(webhookRequests.length, requestCount);
+});
+
+test('only sends webhook URLs to the admin panel', async () => {
+  const visitor = await request('GET', '/agent');
+  assert.deepStrictEqual(visitor.body.functions.map(func => func.webhook), [undefined, undefined]);
+
+  const admin = await request('GET', '/agent', undefined, { Authorization: `Bearer ${adminToken}` });
+  assert.deepStrictEqual(admin.body.functions.map(func => func.webhook), [`${webhookUrl}/pedidos`, `${webhookUrl}/falha`]);
+});
+
+test('keeps the stored webhook of a function saved without it', async () => {
+  const saved = await request('PUT', '/agent', {
+    functions: [{ name: 'consultar_pedido', description: 'Consulta um pedido', parameters: { type: 'object' } }]
+  }, { Authorization: `Bearer ${adminToken}` });
+  assert.strictEqual(saved.status, 200);
+
+  const [[stored]] = await storage.query('SELECT webhook FROM agent_functions WHERE name = ?', ['consultar_pedido']);
+  assert.strictEqual(stored.webhook, `${webhookUrl}/pedidos`);
+});
@@ -0,0 +1,127 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let adminToken;
+
+// Three conversations share a timestamp, so page boundaries fall between them
+const SAME_TIME = '2026-03-10T14:00:00.000Z';
+const CONVERSATIONS = [
+  { id: 'conv-a', createdAt: '2026-03-09T10:00:00.000Z' },
+  { id: 'conv-b', createdAt: SAME_TIME },
+  { id: 'conv-c', createdAt: SAME_TIME },
+  { id: 'conv-d', createdAt: SAME_TIME },
+  { id: 'conv-e', createdAt: '2026-03-11T09:00:00.000Z' }
+];
+// Newest first, the id breaking the tie between conversations created together
+const NEWEST_FIRST = ['conv-e', 'conv-d', 'conv-c', 'conv-b', 'conv-a'];
+
+const request = async (path, headers = {}) => {
+  const response = await fetch(`${app.url}/api${path}`, { headers });
+  return { status: response.status, body: await response.json() };
+};
+
+const asAdmin = () => ({ Authorization: `Bearer ${adminToken}` });
+
+const getPage = async (limit, cursor) => {
+  const params = new URLSearchParams({ limit: String(limit) });
+  if (cursor) params.set('cursor', cursor);
+  const page = await request(`/conversation/history?${params}`, asAdmin());
+  assert.strictEqual(page.status, 200);
+  return page.body;
+};
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/conversation': require('../routes/conversation')
+  });
+
+  const login = await fetch(`${app.url}/api/admin/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: 'admin', password: 'admin' })
+  });
+  adminToken = (await login.json()).token;
+
+  for (const conversation of CONVERSATIONS) {
+    const created = await fetch(`${app.url}/api/conversation`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(conversation)
+    });
+    assert.strictEqual(created.status, 200);
+  }
+  await storage.query(
+    'INSERT INTO messages (id, conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?, ?)',
+    ['msg-1', 'conv-c', 'user', 'Quero a segunda via do boleto', SAME_TIME]
+  );
+});
+
+after(async () => {
+  app.close();
+  await storage.close();
+});
+
+test('the list, the history, the search and the transcripts require an admin session', async () => {
+  assert.strictEqual((await request('/conversation')).status, 401);
+  assert.strictEqual((await request('/conversation/history')).status, 401);
+  assert.strictEqual((await request('/conversation/search?q=boleto')).status, 401);
+  assert.strictEqual((await request('/conversation/conv-c')).status, 401);
+  assert.strictEqual((await request('/conversation/conv-c', { Authorization: 'Bearer invalid' })).status, 401);
+
+  assert.strictEqual((await request('/conversation/search?q=boleto', asAdmin())).body.results[0].conversationId, 'conv-c');
+  assert.strictEqual((await request('/conversation/conv-c', asAdmin())).body.messages.length, 1);
+  assert.strictEqual((await request('/conversation', asAdmin())).body.length, CONVERSATIONS.length);
+});
+
+test('the visitor reads the messages of its own conversation by id', async () => {
+  const own = await request('/conversation/conv-c/messages');
+  assert.strictEqual(own.status, 200);
+  assert.strictEqual(own.body.id, 'conv-c');
+  assert.strictEqual(own.body.createdAt, SAME_TIME);
+  assert.deepStrictEqual(own.body.messages.map(m => m.content), ['Quero a segunda via do boleto']);
+  // Only the messages: no summary fields of the admin transcript
+  assert.strictEqual(own.body.preview, undefined);
+
+  assert.strictEqual((await request('/conversation/desconhecida/messages')).status, 404);
+});
+
+test('pages through conversations created at the same time without skipping or repeating any', async () => {
+  const first = await getPage(2);
+  assert.deepStrictEqual(first.conversations.map(c => c.id), ['conv-e', 'conv-d']);
+
+  // The cursor points into the group of equal timestamps
+  const second = await getPage(2, first.nextCursor);
+  assert.deepStrictEqual(second.conversations.map(c => c.id), ['conv-c', 'conv-b']);
+
+  const last = await getPage(2, second.nextCursor);
+  assert.deepStrictEqual(last.conversations.map(c => c.id), ['conv-a']);
+  assert.strictEqual(last.nextCursor, null);
+});
+
+test('every page size walks the whole history in order', async () => {
+  for (let limit = 1; limit <= CONVERSATIONS.length + 1; limit++) {
+    const ids = [];
+    let cursor = null;
+    let pages = 0;
+    do {
+      const page = await getPage(limit, cursor);
+      ids.push(...page.conversations.map(c => c.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    assert.deepStrictEqual(ids, NEWEST_FIRST, `limit ${limit}`);
+    // A last page that is exactly full has no cursor to an empty page
+    assert.strictEqual(pages, Math.ceil(CONVERSATIONS.length / limit), `limit ${limit}`);
+  }
+});
+
+test('rejects a cursor that was not returned by the history', async () => {
+  const page = await request('/conversation/history?cursor=nao-e-um-cursor', asAdmin());
+  assert.strictEqual(page.status, 400);
+});
@@ -0,0 +1,67 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let adminToken;
+
+const request = async (method, path, body) => {
+  const response = await fetch(`${app.url}/api/conversation${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+    body: body && JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/conversation': require('../routes/conversation')
+  });
+
+  // Reading a transcript back requires an admin session
+  const login = await fetch(`${app.url}/api/admin/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username: 'admin', password: 'admin' })
+  });
+  adminToken = (await login.json()).token;
+
+  await request('POST', '/', { id: 'conv-1' });
+  await request('POST', '/conv-1/messages', { id: 'msg-1', role: 'assistant', content: 'Ol' });
+});
+
+after(async () => {
+  app.close();
+  await storage.close();
+});
+
+test('updates the streamed answer with its sources', async () => {
+  const sources = [{ documentId: 'doc-1', fileName: 'faq.md', chunkId: 'doc-1-0', score: 0.9, snippet: 'Olá' }];
+  const update = await request('PATCH', '/conv-1/messages/msg-1', { content: 'Olá!', sources });
+  assert.strictEqual(update.status, 200);
+
+  const conversation = await request('GET', '/conv-1');
+  const [message] = conversation.body.messages;
+  assert.strictEqual(message.content, 'Olá!');
+  assert.deepStrictEqual(message.sources, sources);
+  assert.strictEqual(message.truncated, undefined);
+});
+
+test('marks an interrupted answer as truncated', async () => {
+  const update = await request('PATCH', '/conv-1/messages/msg-1', { truncated: true });
+  assert.strictEqual(update.status, 200);
+
+  const conversation = await request('GET', '/conv-1');
+  assert.strictEqual(conversation.body.messages[0].truncated, true);
+});
+
+test('rejects invalid updates', async () => {
+  assert.strictEqual((await request('PATCH', '/conv-1/messages/msg-1', {})).status, 400);
+  assert.strictEqual((await request('PATCH', '/conv-1/messages/msg-1', { sources: 'faq.md' })).status, 400);
+  assert.strictEqual((await request('PATCH', '/conv-1/messages/unknown', { content: 'x' })).status, 404);
+  assert.strictEqual((await request('PATCH', '/conv-2/messages/msg-1', { content: 'x' })).status, 404);
+});
@@ -0,0 +1,104 @@
+const { describe, test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { createStorage } = require('../storage');
+const { migrateUp } = require('../migrations');
+const { searchMessages } = require('../conversations/search');
+
+// MySQL runs only with a dedicated database, e.g.
+// TEST_MYSQL_DATABASE=chat_assistant_test TEST_MYSQL_USER=root npm test
+const mysqlConfig = process.env.TEST_MYSQL_DATABASE && {
+  client: 'mysql',
+  host: process.env.TEST_MYSQL_HOST || 'localhost',
+  user: process.env.TEST_MYSQL_USER || 'root',
+  password: process.env.TEST_MYSQL_PASSWORD || '',
+  database: process.env.TEST_MYSQL_DATABASE
+};
+
+const CONVERSATIONS = {
+  'search-1': [
+    ['search-1-1', 'user', 'Quero cancelar o boleto de junho'],
+    ['search-1-2', 'assistant', 'O boleto de junho foi cancelado com sucesso.']
+  ],
+  'search-2': [
+    ['search-2-1', 'user', 'Qual o prazo de entrega para o CEP?'],
+    ['search-2-2', 'assistant', 'A entrega leva até 5 dias úteis.']
+  ]
+};
+
+const seed = async (storage) => {
+  await storage.query("DELETE FROM conversations WHERE id LIKE 'search-%'");
+
+  let timestamp = Date.parse('2026-03-01T12:00:00Z');
+  for (const [conversationId, messages] of Object.entries(CONVERSATIONS)) {
+    await storage.query('INSERT INTO conversations (id) VALUES (?)', [conversationId]);
+    for (const [id, role, content] of messages) {
+      timestamp += 60000;
+      await storage.query(
+        'INSERT INTO messages (id, conversation_id, role, content, timestamp) VALUES (?, ?, ?, ?, ?)',
+        [id, conversationId, role, content, new Date(timestamp)]
+      );
+    }
+  }
+};
+
+// Same expectations on both databases; the order of equally ranked results may differ
+const describeSearch = (name, config, options = {}) => describe(name, options, () => {
+  let storage;
+
+  const search = async (q, params = {}) => searchMessages(storage, { q, ...params });
+  const ids = async (q, params) => (await search(q, params)).results.map(result => result.messageId).sort();
+
+  before(async () => {
+    storage = createStorage(config);
+    await migrateUp(storage);
+    await seed(storage);
+  });
+
+  after(async () => {
+    await storage.query("DELETE FROM conversations WHERE id LIKE 'search-%'");
+    await storage.close();
+  });
+
+  test('requires every word, also as the start of a word', async () => {
+    assert.deepStrictEqual(await ids('bolet cancel'), ['search-1-1', 'search-1-2']);
+    assert.deepStrictEqual(await ids('boleto entrega'), []);
+  });
+
+  test('ignores case and accents and highlights the original text', async () => {
+    const { results } = await search('UTEIS');
+    assert.deepStrictEqual(results.map(result => result.messageId), ['search-2-2']);
+    assert.strictEqual(results[0].conversationId, 'search-2');
+
+    const [[start, end]] = results[0].highlights;
+    assert.strictEqual(results[0].snippet.slice(start, end), 'úteis');
+  });
+
+  test('keeps short words and stopwords in the query', async () => {
+    assert.deepStrictEqual(await ids('boleto de'), ['search-1-1', 'search-1-2']);
+    assert.deepStrictEqual(await ids('com sucesso'), ['search-1-2']);
+    assert.deepStrictEqual(await ids('5 dias'), ['search-2-2']);
+    assert.deepStrictEqual(await ids('prazo cep'), ['search-2-1']);
+    assert.deepStrictEqual(await ids('de'), ['search-1-1', 'search-1-2', 'search-2-1']);
+    assert.deepStrictEqual(await ids('de xyz'), []);
+  });
+
+  test('filters by role and pages the results', async () => {
+    assert.deepStrictEqual(await ids('junho', { roles: ['assistant'] }), ['search-1-2']);
+
+    const first = await search('junho', { limit: 1 });
+    assert.strictEqual(first.results.length, 1);
+    assert.strictEqual(first.nextOffset, 1);
+
+    const second = await search('junho', { limit: 1, offset: first.nextOffset });
+    assert.strictEqual(second.nextOffset, null);
+    assert.deepStrictEqual(
+      [...first.results, ...second.results].map(result => result.messageId).sort(),
+      ['search-1-1', 'search-1-2']
+    );
+  });
+});
+
+describeSearch('message search on SQLite', { client: 'sqlite', filename: ':memory:' });
+describeSearch('message search on MySQL', mysqlConfig, {
+  skip: !mysqlConfig && 'set TEST_MYSQL_DATABASE to run against MySQL'
+});
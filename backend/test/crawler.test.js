@@ -0,0 +1,129 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const zlib = require('zlib');
+const { crawlSite } = require('../rag/crawler');
+const { fetchPublicUrl, isPublicAddress } = require('../rag/publicHttp');
+const { listen } = require('./helpers');
+
+let site;
+let siteUrl;
+// Paths requested from the static site, to check what the crawler fetched
+const requestedPaths = [];
+
+// The site listens on 127.0.0.1; 127.0.0.2 stands for another host of the private network
+const onlySiteAddress = (address) => address === '127.0.0.1';
+
+const page = (title, body) =>
+  `<html><head><title>${title}</title></head><body><nav>Menu</nav><main>${body}</main></body></html>`;
+
+const routes = {
+  '/': () => ({
+    type: 'text/html',
+    body: page('Início', '<p>Bem-vindo</p><a href="/produtos">Produtos</a> <a href="/logo.png">Logo</a> <a href="https://example.org/">Fora</a>')
+  }),
+  '/produtos': () => ({
+    type: 'text/html',
+    body: page('Produtos', '<p>Catálogo de produtos</p><a href="/produtos/detalhe">Detalhe</a>')
+  }),
+  '/produtos/detalhe': () => ({ type: 'text/html', body: page('Detalhe', '<p>Produto X-200</p>') }),
+  '/privado': () => ({ type: 'text/html', body: '<meta name="robots" content="noindex"><main>Rascunho</main>' }),
+  '/compactado': () => ({ type: 'text/html', gzip: true, body: page('Compactado', '<p>Conteúdo gzip</p>') }),
+  '/sitemap.xml': () => ({
+    type: 'application/xml',
+    body: `<?xml version="1.0"?><urlset><url><loc>${siteUrl}/produtos/detalhe</loc></url><url><loc>${siteUrl}/privado</loc></url><url><loc>http://127.0.0.2:${new URL(siteUrl).port}/interno</loc></url></urlset>`
+  }),
+  '/sitemap-index.xml': () => ({
+    type: 'application/xml',
+    body: `<?xml version="1.0"?><sitemapindex><sitemap><loc>${siteUrl}/sitemap.xml</loc></sitemap><sitemap><loc>http://169.254.169.254/latest/meta-data</loc></sitemap></sitemapindex>`
+  }),
+  '/mudou': () => ({ redirect: '/produtos' }),
+  '/para-fora': () => ({ redirect: `http://127.0.0.2:${new URL(siteUrl).port}/interno` })
+};
+
+const serveSite = (req, res) => {
+  requestedPaths.push(req.url);
+  const route = routes[req.url];
+  if (!route) {
+    res.writeHead(404);
+    return res.end();
+  }
+
+  const { type, body, redirect, gzip } = route();
+  if (redirect) {
+    res.writeHead(302, { Location: redirect });
+    return res.end();
+  }
+  res.writeHead(200, { 'Content-Type': `${type}; charset=utf-8`, ...(gzip ? { 'Content-Encoding': 'gzip' } : {}) });
+  res.end(gzip ? zlib.gzipSync(body) : body);
+};
+
+before(async () => {
+  site = http.createServer(serveSite);
+  siteUrl = await listen(site);
+});
+
+after(() => {
+  site.closeAllConnections();
+  site.close();
+});
+
+test('crawls same-site pages up to maxDepth', async () => {
+  const { pages, errors } = await crawlSite({ url: `${siteUrl}/`, maxDepth: 1 }, { isAddressAllowed: onlySiteAddress });
+
+  assert.deepStrictEqual(pages.map(p => p.title), ['Início', 'Produtos']);
+  assert.strictEqual(pages[0].content.includes('Menu'), false);
+  assert.match(pages[1].content, /Catálogo de produtos/);
+  assert.match(pages[1].hash, /^[0-9a-f]{64}$/);
+  assert.deepStrictEqual(errors, []);
+  assert.strictEqual(requestedPaths.includes('/logo.png'), false);
+});
+
+test('reads the pages of sitemaps and skips noindex pages and other hosts', async () => {
+  requestedPaths.length = 0;
+  const { pages, errors } = await crawlSite({ url: `${siteUrl}/sitemap-index.xml`, maxDepth: 0 }, { isAddressAllowed: onlySiteAddress });
+
+  assert.deepStrictEqual(pages.map(p => p.url), [`${siteUrl}/produtos/detalhe`]);
+  assert.deepStrictEqual(errors.map(e => e.url), ['http://169.254.169.254/latest/meta-data']);
+  assert.deepStrictEqual(requestedPaths, ['/sitemap-index.xml', '/sitemap.xml', '/produtos/detalhe', '/privado']);
+});
+
+test('follows same-site redirects and decodes compressed pages', async () => {
+  const redirected = await crawlSite({ url: `${siteUrl}/mudou`, maxDepth: 0 }, { isAddressAllowed: onlySiteAddress });
+  assert.deepStrictEqual(redirected.pages.map(p => p.url), [`${siteUrl}/produtos`]);
+
+  const compressed = await crawlSite({ url: `${siteUrl}/compactado`, maxDepth: 0 }, { isAddressAllowed: onlySiteAddress });
+  assert.match(compressed.pages[0].content, /Conteúdo gzip/);
+});
+
+test('does not follow redirects to another host', async () => {
+  const { pages, errors } = await crawlSite({ url: `${siteUrl}/para-fora`, maxDepth: 0 }, { isAddressAllowed: onlySiteAddress });
+
+  assert.deepStrictEqual(pages, []);
+  assert.match(errors[0].error, /not allowed/);
+});
+
+test('refuses non-public addresses by default', async () => {
+  const { pages, errors } = await crawlSite({ url: `${siteUrl}/`, maxDepth: 0 });
+  assert.deepStrictEqual(pages, []);
+  assert.match(errors[0].error, /non-public address/);
+
+  const localhostUrl = siteUrl.replace('127.0.0.1', 'localhost');
+  await assert.rejects(fetchPublicUrl(`${localhostUrl}/`), { code: 'EADDRBLOCKED' });
+});
+
+test('checks the address of every redirect', async () => {
+  // Any redirect is allowed here, only the address check applies
+  await assert.rejects(
+    fetchPublicUrl(`${siteUrl}/para-fora`, { isAddressAllowed: onlySiteAddress }),
+    { code: 'EADDRBLOCKED' }
+  );
+});
+
+test('classifies public and private addresses', () => {
+  ['10.1.2.3', '172.20.0.1', '192.168.0.10', '127.0.0.1', '169.254.169.254', '100.64.1.1', '0.0.0.0',
+    '::1', '::', 'fd12:3456::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe']
+    .forEach(address => assert.strictEqual(isPublicAddress(address), false, address));
+  ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '::ffff:8.8.8.8']
+    .forEach(address => assert.strictEqual(isPublicAddress(address), true, address));
+});
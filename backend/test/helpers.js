@@ -0,0 +1,43 @@
+// Shared setup for the route tests: servers on a random local port and an in-memory database
+const http = require('http');
+const { once } = require('events');
+const express = require('express');
+
+// Start listening on a free port of 127.0.0.1 and return the base URL
+const listen = async (server) => {
+  server.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  return `http://127.0.0.1:${server.address().port}`;
+};
+
+// Serve routers the way server.js mounts them, e.g. { '/api/llm': llmRoutes }
+const startApp = async (routes) => {
+  const app = express();
+  app.use(express.json());
+  Object.entries(routes).forEach(([mountPath, router]) => app.use(mountPath, router));
+
+  const server = http.createServer(app);
+  const url = await listen(server);
+  return {
+    url,
+    close: () => {
+      server.closeAllConnections();
+      server.close();
+    }
+  };
+};
+
+// Connect database.js to a fresh, migrated in-memory SQLite database
+const useMemoryDatabase = async () => {
+  process.env.DB_CLIENT = 'sqlite';
+  process.env.SQLITE_PATH = ':memory:';
+  const db = require('../database');
+  await db.initDatabase();
+  return db.getDbConnection();
+};
+
+module.exports = {
+  listen,
+  startApp,
+  useMemoryDatabase
+};
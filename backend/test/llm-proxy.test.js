@@ -0,0 +1,140 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const llmRoutes = require('../routes/llm');
+const { vectorizeText } = require('../rag/vectorizer');
+const { listen, startApp } = require('./helpers');
+
+const SSE_EVENTS = [
+  'data: {"choices":[{"delta":{"content":"Olá"}}]}\n\n',
+  'data: {"choices":[{"delta":{"content":", tudo bem?"}}]}\n\n',
+  'data: [DONE]\n\n'
+];
+
+let upstream;
+let upstreamUrl;
+let proxy;
+// Requests received by the fake provider, with a promise resolved when their response closes
+const upstreamRequests = [];
+
+// OpenAI-compatible provider: a JSON completion, an SSE stream, or a stream that never ends
+const handleUpstream = (req, res) => {
+  let raw = '';
+  req.on('data', chunk => { raw += chunk; });
+  req.on('end', () => {
+    const body = JSON.parse(raw);
+    const closed = new Promise(resolve => res.on('close', resolve));
+    upstreamRequests.push({ url: req.url, body, closed });
+
+    if (body.model === 'hang') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      res.write(SSE_EVENTS[0]);
+      return;
+    }
+
+    if (!body.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: 'Olá!' } }] }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    let index = 0;
+    const timer = setInterval(() => {
+      res.write(SSE_EVENTS[index++]);
+      if (index === SSE_EVENTS.length) {
+        clearInterval(timer);
+        res.end();
+      }
+    }, 10);
+  });
+};
+
+const chat = (body, options = {}) => fetch(`${proxy.url}/api/llm/chat`, {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify({
+    provider: { type: 'openai-compatible', baseUrl: `${upstreamUrl}/v1` },
+    messages: [{ role: 'user', content: 'Oi' }],
+    ...body
+  }),
+  ...options
+});
+
+before(async () => {
+  upstream = http.createServer(handleUpstream);
+  upstreamUrl = await listen(upstream);
+  process.env.LLM_COMPATIBLE_BASE_URLS = `${upstreamUrl}/v1`;
+  proxy = await startApp({ '/api/llm': llmRoutes });
+});
+
+after(() => {
+  delete process.env.LLM_COMPATIBLE_BASE_URLS;
+  proxy.close();
+  upstream.closeAllConnections();
+  upstream.close();
+});
+
+test('relays a non-streaming completion', async () => {
+  const response = await chat({ model: 'test-model', temperature: 0.2, apiKey: 'ignored' });
+
+  assert.strictEqual(response.status, 200);
+  assert.deepStrictEqual(await response.json(), {
+    choices: [{ message: { role: 'assistant', content: 'Olá!' } }]
+  });
+
+  const request = upstreamRequests[upstreamRequests.length - 1];
+  assert.strictEqual(request.url, '/v1/chat/completions');
+  // Only the allowed fields reach the provider
+  assert.deepStrictEqual(request.body, {
+    model: 'test-model',
+    messages: [{ role: 'user', content: 'Oi' }],
+    temperature: 0.2
+  });
+});
+
+test('relays an SSE stream as-is', async () => {
+  const response = await chat({ model: 'test-model', stream: true });
+
+  assert.strictEqual(response.status, 200);
+  assert.match(response.headers.get('content-type'), /^text\/event-stream/);
+  assert.strictEqual(await response.text(), SSE_EVENTS.join(''));
+});
+
+test('aborts the upstream request when the client disconnects', async () => {
+  const controller = new AbortController();
+  const response = await chat({ model: 'hang', stream: true }, { signal: controller.signal });
+  const reader = response.body.getReader();
+  await reader.read();
+
+  controller.abort();
+
+  const request = upstreamRequests[upstreamRequests.length - 1];
+  await request.closed;
+});
+
+test('refuses compatible providers outside LLM_COMPATIBLE_BASE_URLS', async () => {
+  const requestCount = upstreamRequests.length;
+  const response = await chat({
+    model: 'test-model',
+    provider: { type: 'openai-compatible', baseUrl: 'http://169.254.169.254/latest' }
+  });
+
+  assert.strictEqual(response.status, 403);
+  assert.strictEqual(upstreamRequests.length, requestCount);
+});
+
+test('embeds with the local vectorizer for the mock provider', async () => {
+  const requestCount = upstreamRequests.length;
+  const response = await fetch(`${proxy.url}/api/llm/embeddings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ input: ['prazo de entrega', 'nota fiscal'], provider: { type: 'mock' } })
+  });
+
+  assert.strictEqual(response.status, 200);
+  const body = await response.json();
+  assert.strictEqual(body.model, 'mock:local-hashing-v1');
+  assert.deepStrictEqual(body.embeddings, [vectorizeText('prazo de entrega'), vectorizeText('nota fiscal')]);
+  assert.strictEqual(upstreamRequests.length, requestCount);
+});
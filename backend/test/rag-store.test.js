@@ -0,0 +1,124 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const ragStore = require('../rag/store');
+const { startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let adminToken;
+
+const post = async (path, body, headers = {}) => {
+  const response = await fetch(`${app.url}/api${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const saveAgentConfig = async (config) => {
+  const response = await fetch(`${app.url}/api/agent`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${adminToken}` },
+    body: JSON.stringify(config)
+  });
+  assert.strictEqual(response.status, 200);
+};
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/agent': require('../routes/agent'),
+    '/api/rag': require('../routes/rag')
+  });
+
+  adminToken = (await post('/admin/login', { username: 'admin', password: 'admin' })).body.token;
+  // The local vectorizer needs no API key, so the embeddings are deterministic
+  await saveAgentConfig({ rag: { embeddingSource: 'local' } });
+
+  await ragStore.ingestDocument(storage, {
+    id: 'doc-1',
+    name: 'entrega.md',
+    type: 'text/markdown',
+    content: '# Entrega\n\nO prazo de entrega para capitais é de 3 dias úteis.'
+  });
+  await ragStore.ingestDocument(storage, {
+    id: 'doc-2',
+    name: 'trocas.md',
+    type: 'text/markdown',
+    content: '# Trocas\n\nTrocas são aceitas em até 30 dias com a nota fiscal.'
+  });
+});
+
+after(async () => {
+  app.close();
+  await storage.close();
+});
+
+test('embeds documents with the model of the stored agent config', async () => {
+  const stats = await ragStore.getStats(storage);
+  assert.deepStrictEqual(stats.embeddingModels, ['local-hashing-v1']);
+
+  const search = await post('/rag/search', { query: 'prazo de entrega' });
+  assert.strictEqual(search.status, 200);
+  assert.strictEqual(search.body.embeddingModel, 'local-hashing-v1');
+  assert.strictEqual(search.body.results[0].documentId, 'doc-1');
+  assert.strictEqual(typeof search.body.results[0].vectorScore, 'number');
+});
+
+test('ignores embedding settings sent with a search', async () => {
+  const search = await post('/rag/search', {
+    query: 'prazo de entrega',
+    embedding: { source: 'provider', provider: { type: 'openai-compatible', baseUrl: 'http://169.254.169.254/v1' } }
+  });
+
+  assert.strictEqual(search.status, 200);
+  assert.strictEqual(search.body.embeddingModel, 'local-hashing-v1');
+  assert.deepStrictEqual((await ragStore.getStats(storage)).embeddingModels, ['local-hashing-v1']);
+});
+
+test('falls back to lexical results when the configured model has no chunks', async () => {
+  await saveAgentConfig({ rag: { embeddingSource: 'provider' }, provider: { type: 'openai' } });
+
+  try {
+    const search = await post('/rag/search', { query: 'nota fiscal' });
+    assert.strictEqual(search.status, 200);
+    assert.strictEqual(search.body.results[0].documentId, 'doc-2');
+    assert.strictEqual(search.body.results[0].vectorScore, undefined);
+    assert.strictEqual(typeof search.body.results[0].lexicalScore, 'number');
+
+    // The search did not touch the stored vectors
+    assert.deepStrictEqual((await ragStore.getStats(storage)).embeddingModels, ['local-hashing-v1']);
+  } finally {
+    await saveAgentConfig({ rag: { embeddingSource: 'local' } });
+  }
+});
+
+test('POST /api/rag/reindex requires an admin session', async () => {
+  assert.strictEqual((await post('/rag/reindex', { force: true })).status, 401);
+
+  const auth = { Authorization: `Bearer ${adminToken}` };
+  const stale = await post('/rag/reindex', { force: false }, auth);
+  assert.strictEqual(stale.status, 200);
+  assert.strictEqual(stale.body.reembedded, 0);
+
+  const forced = await post('/rag/reindex', { force: true }, auth);
+  assert.strictEqual(forced.status, 200);
+  assert.strictEqual(forced.body.reembedded, (await ragStore.getStats(storage)).chunkCount);
+});
+
+test('POST /api/rag/chunking resolves chunk settings with the server chunkers', async () => {
+  const csv = await post('/rag/chunking', { fileName: 'produtos.csv', fileType: 'text/csv', chunking: { chunkSize: 100, chunkOverlap: 90 } });
+  assert.strictEqual(csv.status, 200);
+  assert.strictEqual(csv.body.detectedStrategy, 'csv');
+  assert.strictEqual(csv.body.settings.strategy, 'auto');
+  // The overlap is limited to half of the chunk size
+  assert.strictEqual(csv.body.settings.chunkOverlap, 50);
+
+  const markdown = await post('/rag/chunking', { fileName: 'faq.md' });
+  assert.strictEqual(markdown.body.detectedStrategy, 'markdown');
+  assert.strictEqual(typeof markdown.body.settings.rowsPerChunk, 'number');
+
+  assert.strictEqual((await post('/rag/chunking', {})).status, 400);
+});
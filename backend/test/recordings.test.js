@@ -0,0 +1,82 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const { startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let adminToken;
+
+const AUDIO = Buffer.from('gravação de teste');
+
+const request = (method, path, body, headers = {}) => fetch(`${app.url}/api${path}`, {
+  method,
+  headers: { 'Content-Type': 'application/json', ...headers },
+  body: body && JSON.stringify(body)
+});
+
+const asAdmin = () => ({ Authorization: `Bearer ${adminToken}` });
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/recordings': require('../routes/recordings')
+  });
+
+  const login = await request('POST', '/admin/login', { username: 'admin', password: 'admin' });
+  adminToken = (await login.json()).token;
+  await storage.query('INSERT INTO conversations (id) VALUES (?)', ['conv-1']);
+});
+
+after(async () => {
+  app.close();
+  await storage.close();
+});
+
+test('the widget records a turn after consent without an admin session', async () => {
+  const consent = await request('POST', '/recordings/consent', { conversationId: 'conv-1', granted: true });
+  assert.strictEqual(consent.status, 200);
+
+  const upload = await request('POST', '/recordings', {
+    conversationId: 'conv-1',
+    role: 'user',
+    transcript: 'Quero falar com um atendente',
+    data: AUDIO.toString('base64'),
+    mimeType: 'audio/webm'
+  });
+  assert.strictEqual(upload.status, 200);
+});
+
+test('listing, playing, purging and deleting recordings require an admin session', async () => {
+  const [[recording]] = await storage.query('SELECT id FROM call_recordings');
+  const guarded = [
+    ['GET', '/recordings'],
+    ['GET', `/recordings/audio/${recording.id}`],
+    ['POST', '/recordings/purge', {}],
+    ['GET', '/recordings/conv-1'],
+    ['DELETE', '/recordings/conv-1']
+  ];
+
+  for (const [method, path, body] of guarded) {
+    const response = await request(method, path, body);
+    assert.strictEqual(response.status, 401, `${method} ${path}`);
+  }
+
+  const [[{ count }]] = await storage.query('SELECT COUNT(*) AS count FROM call_recordings');
+  assert.strictEqual(count, 1);
+});
+
+test('the admin lists the calls, plays a turn and deletes the recordings', async () => {
+  const calls = await (await request('GET', '/recordings', undefined, asAdmin())).json();
+  assert.deepStrictEqual(calls.calls.map(call => [call.conversationId, call.turnCount]), [['conv-1', 1]]);
+
+  const { turns } = await (await request('GET', '/recordings/conv-1', undefined, asAdmin())).json();
+  assert.strictEqual(turns[0].transcript, 'Quero falar com um atendente');
+
+  const audio = await request('GET', `/recordings/audio/${turns[0].id}`, undefined, asAdmin());
+  assert.strictEqual(audio.headers.get('content-type'), 'audio/webm');
+  assert.deepStrictEqual(Buffer.from(await audio.arrayBuffer()), AUDIO);
+
+  const deleted = await (await request('DELETE', '/recordings/conv-1', undefined, asAdmin())).json();
+  assert.strictEqual(deleted.deleted, 1);
+});
@@ -0,0 +1,136 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createStorage } = require('../storage');
+const { getMigrationStatus, migrateUp, migrateDown } = require('../migrations');
+
+let directory;
+let filename;
+let storage;
+
+const openStorage = () => createStorage({ client: 'sqlite', filename });
+
+before(async () => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-sqlite-'));
+  // The adapter creates the missing parent directory
+  filename = path.join(directory, 'data', 'test.sqlite');
+  storage = openStorage();
+  await migrateUp(storage);
+});
+
+after(async () => {
+  await storage.close();
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+test('applies every migration once', async () => {
+  assert.ok(fs.existsSync(filename));
+
+  const status = await getMigrationStatus(storage);
+  assert.ok(status.length > 0);
+  assert.ok(status.every(migration => migration.state === 'applied'), JSON.stringify(status));
+  assert.deepStrictEqual(await migrateUp(storage), []);
+});
+
+test('returns rows for reads and affectedRows/insertId for writes', async () => {
+  const [insert] = await storage.query(
+    'INSERT INTO agent_functions (name, description, parameters, webhook) VALUES (?, ?, ?, ?)',
+    ['consultar_pedido', 'Consulta um pedido', '{}', 'https://example.com/pedidos']
+  );
+  assert.strictEqual(insert.affectedRows, 1);
+  assert.strictEqual(typeof insert.insertId, 'number');
+
+  const [rows] = await storage.query('SELECT id, name FROM agent_functions WHERE id = ?', [insert.insertId]);
+  assert.deepStrictEqual(rows, [{ id: insert.insertId, name: 'consultar_pedido' }]);
+
+  const [update] = await storage.query('UPDATE agent_functions SET description = ? WHERE id = ?', ['Novo', -1]);
+  assert.strictEqual(update.affectedRows, 0);
+});
+
+test('stores booleans as 0/1, dates as ISO strings and undefined as null', async () => {
+  const createdAt = new Date('2026-01-02T03:04:05.678Z');
+  await storage.query('INSERT INTO conversations (id, is_active, created_at) VALUES (?, ?, ?)', ['conv-types', false, createdAt]);
+  await storage.query(
+    'INSERT INTO messages (id, conversation_id, role, content, sources, truncated) VALUES (?, ?, ?, ?, ?, ?)',
+    ['msg-types', 'conv-types', 'user', 'Olá', undefined, true]
+  );
+
+  const [[conversation]] = await storage.query('SELECT is_active, created_at FROM conversations WHERE id = ?', ['conv-types']);
+  assert.deepStrictEqual(conversation, { is_active: 0, created_at: '2026-01-02T03:04:05.678Z' });
+  assert.strictEqual(new Date(conversation.created_at).getTime(), createdAt.getTime());
+
+  const [[message]] = await storage.query('SELECT sources, truncated FROM messages WHERE id = ?', ['msg-types']);
+  assert.deepStrictEqual(message, { sources: null, truncated: 1 });
+});
+
+test('upserts insert a row and then update it by key', async () => {
+  await storage.upsert('conversations', { id: 'conv-upsert', is_active: true }, ['id']);
+  await storage.upsert('conversations', { id: 'conv-upsert', is_active: false }, ['id']);
+
+  const [rows] = await storage.query('SELECT id, is_active FROM conversations WHERE id = ?', ['conv-upsert']);
+  assert.deepStrictEqual(rows, [{ id: 'conv-upsert', is_active: 0 }]);
+});
+
+test('upserts a row with only key columns once', async () => {
+  await storage.upsert('conversations', { id: 'conv-key-only' }, ['id']);
+  await storage.upsert('conversations', { id: 'conv-key-only' }, ['id']);
+
+  const [rows] = await storage.query('SELECT id, is_active FROM conversations WHERE id = ?', ['conv-key-only']);
+  assert.deepStrictEqual(rows, [{ id: 'conv-key-only', is_active: 1 }]);
+});
+
+test('commits transactions and rolls them back on errors', async () => {
+  const result = await storage.transaction(async ({ query, upsert }) => {
+    await upsert('conversations', { id: 'conv-tx' }, ['id']);
+    await query('INSERT INTO messages (id, conversation_id, role, content) VALUES (?, ?, ?, ?)', ['msg-tx', 'conv-tx', 'user', 'Oi']);
+    return 'done';
+  });
+  assert.strictEqual(result, 'done');
+
+  await assert.rejects(storage.transaction(async ({ query }) => {
+    await query('INSERT INTO conversations (id) VALUES (?)', ['conv-rollback']);
+    // Violates the role CHECK constraint
+    await query('INSERT INTO messages (id, conversation_id, role, content) VALUES (?, ?, ?, ?)', ['msg-rollback', 'conv-rollback', 'robot', 'Oi']);
+  }), /CHECK constraint failed/);
+
+  const [rows] = await storage.query("SELECT id FROM conversations WHERE id IN ('conv-tx', 'conv-rollback')");
+  assert.deepStrictEqual(rows, [{ id: 'conv-tx' }]);
+});
+
+test('enforces foreign keys and cascades deletes', async () => {
+  await assert.rejects(
+    storage.query('INSERT INTO messages (id, conversation_id, role, content) VALUES (?, ?, ?, ?)', ['msg-orphan', 'unknown', 'user', 'Oi']),
+    /FOREIGN KEY constraint failed/
+  );
+
+  await storage.query('DELETE FROM conversations WHERE id = ?', ['conv-tx']);
+  const [rows] = await storage.query('SELECT id FROM messages WHERE id = ?', ['msg-tx']);
+  assert.deepStrictEqual(rows, []);
+});
+
+test('reports the declared type of a column', async () => {
+  assert.strictEqual(await storage.getColumnType('messages', 'content'), 'text');
+  assert.strictEqual(await storage.getColumnType('messages', 'truncated'), 'boolean');
+  assert.strictEqual(await storage.getColumnType('messages', 'missing'), null);
+});
+
+test('reverts and reapplies the latest migration', async () => {
+  const [reverted] = await migrateDown(storage);
+  const status = await getMigrationStatus(storage);
+  assert.strictEqual(status.find(migration => migration.version === reverted.version).state, 'pending');
+
+  const reapplied = await migrateUp(storage);
+  assert.deepStrictEqual(reapplied.map(migration => migration.version), [reverted.version]);
+});
+
+test('keeps the data after reopening the file', async () => {
+  await storage.upsert('conversations', { id: 'conv-persisted' }, ['id']);
+  await storage.close();
+
+  storage = openStorage();
+  const [rows] = await storage.query('SELECT id FROM conversations WHERE id = ?', ['conv-persisted']);
+  assert.deepStrictEqual(rows, [{ id: 'conv-persisted' }]);
+  assert.deepStrictEqual(await migrateUp(storage), []);
+});
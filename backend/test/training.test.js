@@ -0,0 +1,104 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+const { extractText } = require('../rag/extract');
+const { startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let adminToken;
+
+const readFixture = (name) => fs.readFileSync(path.join(__dirname, 'fixtures', name));
+
+const request = async (method, urlPath, body, headers = {}) => {
+  const response = await fetch(`${app.url}/api${urlPath}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body && JSON.stringify(body)
+  });
+  return response;
+};
+
+const asAdmin = () => ({ Authorization: `Bearer ${adminToken}` });
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/agent': require('../routes/agent'),
+    '/api/training': require('../routes/training')
+  });
+
+  const login = await request('POST', '/admin/login', { username: 'admin', password: 'admin' });
+  adminToken = (await login.json()).token;
+  // The local vectorizer needs no API key
+  const saved = await request('PUT', '/agent', { rag: { embeddingSource: 'local' } }, asAdmin());
+  assert.strictEqual(saved.status, 200);
+});
+
+after(async () => {
+  app.close();
+  await storage.close();
+});
+
+test('extracts the text of a PDF', async () => {
+  const result = await extractText({ name: 'politica.pdf', type: 'application/pdf', buffer: readFixture('politica.pdf') });
+
+  assert.strictEqual(result.format, 'pdf');
+  assert.strictEqual(result.text, 'Politica de trocas: 30 dias');
+  assert.strictEqual(result.pageCount, 1);
+  assert.deepStrictEqual(result.warnings, []);
+});
+
+test('extracts the text of a DOCX keeping its headings as Markdown', async () => {
+  const result = await extractText({ name: 'entregas.docx', type: '', buffer: readFixture('entregas.docx') });
+
+  assert.strictEqual(result.format, 'docx');
+  assert.strictEqual(result.text, '# Entregas\n\nO prazo de entrega é de 5 dias úteis.');
+  assert.deepStrictEqual(result.warnings, []);
+});
+
+test('extracts the text of an HTML page without scripts and styles', async () => {
+  const result = await extractText({ name: 'pagamentos.html', type: 'text/html', buffer: readFixture('pagamentos.html') });
+
+  assert.strictEqual(result.format, 'html');
+  assert.strictEqual(result.text, '## Formas de pagamento\n\nAceitamos Pix e cartão de crédito.');
+  assert.deepStrictEqual(result.warnings, []);
+});
+
+test('rejects uploads, downloads and removals without an admin session', async () => {
+  const upload = await request('POST', '/training', { name: 'politica.pdf', data: readFixture('politica.pdf').toString('base64') });
+  assert.strictEqual(upload.status, 401);
+
+  const download = await request('GET', '/training/qualquer/original');
+  assert.strictEqual(download.status, 401);
+
+  const removal = await request('DELETE', '/training/qualquer');
+  assert.strictEqual(removal.status, 401);
+
+  const [rows] = await storage.query('SELECT id FROM training_files');
+  assert.deepStrictEqual(rows, []);
+});
+
+test('stores the extracted text and the original of an admin upload', async () => {
+  const original = readFixture('entregas.docx');
+  const upload = await request('POST', '/training', {
+    id: 'entregas',
+    name: 'entregas.docx',
+    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    size: original.length,
+    data: original.toString('base64')
+  }, asAdmin());
+  assert.strictEqual(upload.status, 200);
+  assert.strictEqual((await upload.json()).content, '# Entregas\n\nO prazo de entrega é de 5 dias úteis.');
+
+  const download = await request('GET', '/training/entregas/original', undefined, asAdmin());
+  assert.strictEqual(download.status, 200);
+  assert.deepStrictEqual(Buffer.from(await download.arrayBuffer()), original);
+
+  const removal = await request('DELETE', '/training/entregas', undefined, asAdmin());
+  assert.strictEqual(removal.status, 200);
+  const [rows] = await storage.query('SELECT id FROM training_files');
+  assert.deepStrictEqual(rows, []);
+});
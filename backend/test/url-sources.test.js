@@ -0,0 +1,160 @@
+const { test, before, after } = require('node:test');
+const assert = require('node:assert');
+const http = require('http');
+const urlSources = require('../rag/urlSources');
+const { listen, startApp, useMemoryDatabase } = require('./helpers');
+
+let storage;
+let app;
+let site;
+let siteUrl;
+let adminToken;
+
+// The site listens on 127.0.0.1, which the crawler refuses unless the test allows it
+const allowSite = { isAddressAllowed: (address) => address === '127.0.0.1' };
+
+const page = (title, body) => `<html><head><title>${title}</title></head><body><main>${body}</main></body></html>`;
+
+// Pages of the site by path; the tests change them between crawls
+const pages = {};
+
+const serveSite = (req, res) => {
+  if (!pages[req.url]) {
+    res.writeHead(404);
+    return res.end();
+  }
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(pages[req.url]);
+};
+
+const request = async (method, path, body, headers = {}) => {
+  const response = await fetch(`${app.url}/api${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body && JSON.stringify(body)
+  });
+  return { status: response.status, body: await response.json() };
+};
+
+const asAdmin = () => ({ Authorization: `Bearer ${adminToken}` });
+
+const storedPages = async (sourceId) => {
+  const [rows] = await storage.query(
+    'SELECT name, content, source_url FROM training_files WHERE source_id = ? ORDER BY source_url',
+    [sourceId]
+  );
+  return rows;
+};
+
+before(async () => {
+  storage = await useMemoryDatabase();
+  site = http.createServer(serveSite);
+  siteUrl = await listen(site);
+  app = await startApp({
+    '/api/admin': require('../routes/admin'),
+    '/api/agent': require('../routes/agent'),
+    '/api/sources': require('../routes/sources')
+  });
+
+  adminToken = (await request('POST', '/admin/login', { username: 'admin', password: 'admin' })).body.token;
+  // The local vectorizer needs no API key
+  const saved = await request('PUT', '/agent', { rag: { embeddingSource: 'local' } }, asAdmin());
+  assert.strictEqual(saved.status, 200);
+});
+
+after(async () => {
+  app.close();
+  site.closeAllConnections();
+  site.close();
+  await storage.close();
+});
+
+test('stores the crawled pages as indexed training files and only updates what changed', async () => {
+  pages['/'] = page('Ajuda', '<p>Central de ajuda</p><a href="/trocas">Trocas</a> <a href="/frete">Frete</a>');
+  pages['/trocas'] = page('Trocas', '<p>Trocas em até 30 dias</p>');
+  pages['/frete'] = page('Frete', '<p>Frete grátis acima de R$ 200</p>');
+
+  const source = await urlSources.createUrlSource(storage, { url: `${siteUrl}/`, maxDepth: 1, refreshIntervalHours: 12 });
+  assert.deepStrictEqual(
+    { maxDepth: source.maxDepth, maxPages: source.maxPages, refreshIntervalHours: source.refreshIntervalHours, pages: source.pages },
+    { maxDepth: 1, maxPages: 50, refreshIntervalHours: 12, pages: [] }
+  );
+
+  const first = await urlSources.refreshUrlSource(storage, source.id, allowSite);
+  assert.strictEqual(first.status, 'idle');
+  assert.deepStrictEqual(first.lastRefresh, { added: 3, changed: 0, removed: 0, unchanged: 0 });
+  assert.deepStrictEqual(first.pages.map(p => p.title), ['Ajuda', 'Frete', 'Trocas']);
+
+  const [documents] = await storage.query('SELECT id FROM rag_documents');
+  assert.deepStrictEqual(documents.map(d => d.id).sort(), first.pages.map(p => p.trainingFileId).sort());
+
+  pages['/'] = page('Ajuda', '<p>Central de ajuda</p><a href="/trocas">Trocas</a>');
+  pages['/trocas'] = page('Trocas', '<p>Trocas em até 7 dias</p>');
+  delete pages['/frete'];
+
+  const second = await urlSources.refreshUrlSource(storage, source.id, allowSite);
+  assert.deepStrictEqual(second.lastRefresh, { added: 0, changed: 2, removed: 1, unchanged: 0 });
+  // A changed page keeps its training file
+  assert.strictEqual(second.pages.find(p => p.title === 'Trocas').trainingFileId, first.pages.find(p => p.title === 'Trocas').trainingFileId);
+
+  const stored = await storedPages(source.id);
+  assert.deepStrictEqual(stored.map(row => row.source_url), [`${siteUrl}/`, `${siteUrl}/trocas`]);
+  assert.match(stored[1].content, /7 dias/);
+
+  const third = await urlSources.refreshUrlSource(storage, source.id, allowSite);
+  assert.deepStrictEqual(third.lastRefresh, { added: 0, changed: 0, removed: 0, unchanged: 2 });
+});
+
+test('refreshes only the sources whose interval has passed', async () => {
+  const now = Date.now();
+  const hoursAgo = (hours) => new Date(now - hours * 60 * 60 * 1000);
+
+  assert.strictEqual(urlSources.isUrlSourceDue({ id: 'a', refreshIntervalHours: 24 }, now), true);
+  assert.strictEqual(urlSources.isUrlSourceDue({ id: 'a', refreshIntervalHours: 24, lastCrawledAt: hoursAgo(25) }, now), true);
+  assert.strictEqual(urlSources.isUrlSourceDue({ id: 'a', refreshIntervalHours: 24, lastCrawledAt: hoursAgo(2) }, now), false);
+  assert.strictEqual(urlSources.isUrlSourceDue({ id: 'a', refreshIntervalHours: 0, lastCrawledAt: hoursAgo(1000) }, now), false);
+
+  pages['/novidades'] = page('Novidades', '<p>Lançamentos da semana</p>');
+  const source = await urlSources.createUrlSource(storage, { url: `${siteUrl}/novidades`, maxDepth: 0 });
+
+  // The source of the previous test was crawled just now, so only the new one is due
+  assert.strictEqual(await urlSources.refreshDueUrlSources(storage, allowSite), 1);
+  assert.deepStrictEqual((await storedPages(source.id)).map(row => row.name), ['Novidades']);
+  assert.strictEqual(await urlSources.refreshDueUrlSources(storage, allowSite), 0);
+});
+
+test('removes a source with the training files and chunks of its pages', async () => {
+  pages['/contato'] = page('Contato', '<p>Fale conosco pelo WhatsApp</p>');
+  const source = await urlSources.createUrlSource(storage, { url: `${siteUrl}/contato`, maxDepth: 0 });
+  const [crawled] = (await urlSources.refreshUrlSource(storage, source.id, allowSite)).pages;
+
+  assert.strictEqual(await urlSources.removeUrlSource(storage, source.id), true);
+  assert.deepStrictEqual(await storedPages(source.id), []);
+  const [documents] = await storage.query('SELECT id FROM rag_documents WHERE id = ?', [crawled.trainingFileId]);
+  assert.deepStrictEqual(documents, []);
+  assert.strictEqual(await urlSources.getUrlSource(storage, source.id), null);
+});
+
+test('the source routes require an admin session and refuse the server network', async () => {
+  assert.strictEqual((await request('GET', '/sources')).status, 401);
+  assert.strictEqual((await request('POST', '/sources', { url: `${siteUrl}/` })).status, 401);
+  assert.strictEqual((await request('POST', '/sources/qualquer/refresh', {}, { Authorization: 'Bearer invalid' })).status, 401);
+  assert.strictEqual((await request('DELETE', '/sources/qualquer')).status, 401);
+
+  assert.strictEqual((await request('POST', '/sources', { url: 'ftp://example.com/' }, asAdmin())).status, 400);
+
+  const created = await request('POST', '/sources', { url: `${siteUrl}/`, maxDepth: 0 }, asAdmin());
+  assert.strictEqual(created.status, 200);
+
+  // Authenticated, but the crawler still refuses the server's own network
+  const refreshed = await request('POST', `/sources/${created.body.id}/refresh`, {}, asAdmin());
+  assert.strictEqual(refreshed.status, 200);
+  assert.strictEqual(refreshed.body.status, 'error');
+  assert.match(refreshed.body.lastError, /non-public address/);
+
+  const listed = await request('GET', '/sources', undefined, asAdmin());
+  assert.ok(listed.body.some(source => source.id === created.body.id));
+
+  assert.strictEqual((await request('DELETE', `/sources/${created.body.id}`, undefined, asAdmin())).status, 200);
+  assert.strictEqual((await request('DELETE', `/sources/${created.body.id}`, undefined, asAdmin())).status, 404);
+});
@@ -1,7 +1,7 @@
 
 import React, { useState, useEffect } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { MessageCircle, Terminal, Settings, Code, FileText, AlertTriangle, Database, Server } from "lucide-react";
+import { MessageCircle, Terminal, Settings, Code, FileText, AlertTriangle, Database, Server, Phone, MessagesSquare } from "lucide-react";
 import { AgentFunction, useChat } from "@/contexts/ChatContext";
 import ApiKeySection from "@/components/admin/ApiKeySection";
 import WidgetConfigTab from "@/components/admin/WidgetConfigTab";
@@ -9,6 +9,10 @@ import AgentConfigTab from "@/components/admin/AgentConfigTab";
 import FunctionsTab from "@/components/admin/FunctionsTab";
 import SettingsTab from "@/components/admin/SettingsTab";
 import TrainingFilesTab from "@/components/admin/TrainingFilesTab";
+import UrlSourcesSection from "@/components/admin/UrlSourcesSection";
+import CallRecordingsTab from "@/components/admin/CallRecordingsTab";
+import ConversationsTab from "@/components/admin/ConversationsTab";
+import { getRecordingRetentionDays } from "@/utils/callRecording";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { 
@@ -40,7 +44,9 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
     updateAdminConfig,
     addTrainingFile,
     removeTrainingFile,
-    isDbConnected
+    updateTrainingFile,
+    isDbConnected,
+    syncState
   } = useChat();
   const [functions, setFunctions] = useState<AgentFunction[]>(agentConfig.functions);
   const [activeTab, setActiveTab] = useState("widget");
@@ -76,6 +82,17 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
           <Badge variant={isDbConnected ? "default" : "destructive"}>
             {isDbConnected ? "MariaDB Connected" : "Using localStorage"}
           </Badge>
+          {syncState.status === "syncing" && (
+            <Badge variant="secondary">Sincronizando...</Badge>
+          )}
+          {syncState.pendingCount > 0 && syncState.status !== "syncing" && (
+            <Badge
+              variant="secondary"
+              title={syncState.lastError ? `Último erro: ${syncState.lastError}` : undefined}
+            >
+              {syncState.pendingCount} {syncState.pendingCount === 1 ? "alteração pendente" : "alterações pendentes"}
+            </Badge>
+          )}
         </div>
       </div>
       
@@ -158,7 +175,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
       <ApiKeySection apiKey={apiKey} setApiKey={setApiKey} />
       
       <Tabs defaultValue="widget" value={activeTab} onValueChange={handleTabChange} className="space-y-4">
-        <TabsList className="grid grid-cols-5">
+        <TabsList className="grid grid-cols-7">
           <TabsTrigger value="widget">
             <MessageCircle className="h-4 w-4 mr-2" />
             Widget
@@ -175,6 +192,14 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
             <FileText className="h-4 w-4 mr-2" />
             Arquivos
           </TabsTrigger>
+          <TabsTrigger value="conversations">
+            <MessagesSquare className="h-4 w-4 mr-2" />
+            Conversas
+          </TabsTrigger>
+          <TabsTrigger value="recordings">
+            <Phone className="h-4 w-4 mr-2" />
+            Gravações
+          </TabsTrigger>
           <TabsTrigger value="settings">
             <Settings className="h-4 w-4 mr-2" />
             Settings
@@ -204,12 +229,22 @@ const AdminPanel: React.FC<AdminPanelProps> = ({
           />
         </TabsContent>
         
-        <TabsContent value="files">
+        <TabsContent value="files" className="space-y-6">
           <TrainingFilesTab 
             trainingFiles={agentConfig.trainingFiles}
             addTrainingFile={addTrainingFile}
             removeTrainingFile={removeTrainingFile}
+            updateTrainingFile={updateTrainingFile}
           />
+          <UrlSourcesSection />
+        </TabsContent>
+        
+        <TabsContent value="conversations">
+          <ConversationsTab />
+        </TabsContent>
+        
+        <TabsContent value="recordings">
+          <CallRecordingsTab retentionDays={getRecordingRetentionDays(agentConfig.voice?.recording)} />
         </TabsContent>
         
         <TabsContent value="settings">
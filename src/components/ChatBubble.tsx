@@ -3,7 +3,7 @@ import React, { useEffect, useState } from "react";
 import { Message } from "@/contexts/ChatContext";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
-import { User, Bot, Loader2 } from "lucide-react";
+import { User, Bot, Loader2, FileText, PhoneOff } from "lucide-react";
 import { ptBR } from "date-fns/locale";
 
 interface ChatBubbleProps {
@@ -14,6 +14,7 @@ interface ChatBubbleProps {
 const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isTyping = false }) => {
   const [currentTime, setCurrentTime] = useState<string>("");
   const [displayContent, setDisplayContent] = useState<string>(message.content);
+  const [openSourceId, setOpenSourceId] = useState<string | null>(null);
 
   useEffect(() => {
     // Atualiza o conteúdo quando a mensagem muda
@@ -36,6 +37,17 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isTyping = false }) =>
     setDisplayContent(message.content);
   }, [message.content]);
 
+  // Eventos da conversa (ex.: fim de chamada) aparecem como uma linha discreta
+  if (message.event) {
+    return (
+      <div className="flex items-center justify-center gap-2 mb-4 text-xs text-muted-foreground">
+        <PhoneOff className="h-3 w-3" />
+        <span>{message.content}</span>
+        {currentTime && <span className="opacity-60">{currentTime}</span>}
+      </div>
+    );
+  }
+
   return (
     <div className={cn(
       "flex items-start gap-2.5 mb-4",
@@ -58,9 +70,12 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isTyping = false }) =>
             <Loader2 className="h-4 w-4 animate-spin" />
             <span className="text-sm">Digitando</span>
           </div>
-        ) : displayContent ? (
+        ) : displayContent || message.truncated ? (
           <div className="text-sm whitespace-pre-wrap">
             {displayContent}
+            {message.truncated && (
+              <span className="block text-[10px] mt-1 italic opacity-60">Resposta interrompida pelo usuário</span>
+            )}
           </div>
         ) : (
           <div className="flex items-center gap-1.5">
@@ -69,6 +84,41 @@ const ChatBubble: React.FC<ChatBubbleProps> = ({ message, isTyping = false }) =>
           </div>
         )}
         
+        {!isTyping && message.sources && message.sources.length > 0 && (
+          <div className="mt-2 pt-2 border-t border-foreground/10">
+            <div className="flex flex-wrap gap-1">
+              {message.sources.map((source, index) => (
+                <button
+                  key={source.chunkId || index}
+                  type="button"
+                  onClick={() => setOpenSourceId(openSourceId === source.chunkId ? null : source.chunkId)}
+                  className={cn(
+                    "flex items-center gap-1 max-w-full px-2 py-0.5 rounded-full border text-[10px] transition-colors",
+                    openSourceId === source.chunkId
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "bg-background/60 hover:bg-background"
+                  )}
+                  title={`Relevância: ${(source.score * 100).toFixed(0)}%`}
+                >
+                  <FileText className="h-3 w-3 shrink-0" />
+                  <span className="truncate">[{index + 1}] {source.fileName}</span>
+                </button>
+              ))}
+            </div>
+            
+            {message.sources
+              .filter(source => source.chunkId === openSourceId)
+              .map(source => (
+                <div key={source.chunkId} className="mt-1.5 p-2 rounded bg-background/60 text-[11px]">
+                  <div className="font-medium mb-1">
+                    {source.fileName} · relevância {(source.score * 100).toFixed(0)}%
+                  </div>
+                  <div className="whitespace-pre-wrap opacity-80">{source.snippet}</div>
+                </div>
+              ))}
+          </div>
+        )}
+        
         {currentTime && (
           <div className="text-[10px] mt-1 opacity-60 text-right">
             {currentTime}
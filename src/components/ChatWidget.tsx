@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useRef } from "react";
-import { useChat } from "@/contexts/ChatContext";
+import { useChat, MessageSource } from "@/contexts/ChatContext";
 import ChatBubble from "@/components/ChatBubble";
 import VoiceChatAgent from "@/components/VoiceChatAgent";
 import { Input } from "@/components/ui/input";
@@ -17,12 +17,13 @@ import {
   Minimize2
 } from "lucide-react";
 import { callOpenAI } from "@/utils/openai";
+import { resolveCallLanguage } from "@/utils/language";
 
 interface ChatWidgetProps {
-  apiKey: string | null;
+  isLlmConfigured: boolean;
 }
 
-const ChatWidget: React.FC<ChatWidgetProps> = ({ apiKey }) => {
+const ChatWidget: React.FC<ChatWidgetProps> = ({ isLlmConfigured }) => {
   const { 
     messages, 
     sendMessage, 
@@ -61,8 +62,8 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ apiKey }) => {
   }, [isWidgetOpen, isVoiceChatActive]);
 
   useEffect(() => {
-    console.log("ChatWidget: API key present:", !!apiKey);
-  }, [apiKey]);
+    console.log("ChatWidget: LLM configured on server:", isLlmConfigured);
+  }, [isLlmConfigured]);
 
   useEffect(() => {
     const createConversationIfNeeded = async () => {
@@ -120,7 +121,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ apiKey }) => {
       return;
     }
     
-    if (!apiKey) {
+    if (!isLlmConfigured) {
       toast.error("Configure sua chave API OpenAI primeiro", {
         description: "Vá para configurações para adicionar sua chave API"
       });
@@ -194,10 +195,10 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ apiKey }) => {
   };
   
   const getAssistantResponse = async (userMessage: string) => {
-    if (!apiKey || !currentConversationId) return;
+    if (!isLlmConfigured || !currentConversationId) return;
     
     try {
-      const conversationMessages = messages.map(msg => ({
+      const conversationMessages = messages.filter(msg => !msg.event).map(msg => ({
         role: msg.role as "user" | "assistant" | "system",
         content: msg.content
       }));
@@ -228,21 +229,28 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ apiKey }) => {
       }
       
       const tempAssistantId = addMessage("...", "assistant");
+      let sources: MessageSource[] = [];
       
       const response = await callOpenAI({
         messages: conversationMessages,
         model: agentConfig?.model || "gpt-4o-mini",
         temperature: agentConfig?.temperature || 0.7,
         trainingFiles: agentConfig?.trainingFiles || [],
-        detectEmotion: agentConfig?.detectEmotion || false
-      }, apiKey);
+        functions: agentConfig?.functions || [],
+        detectEmotion: agentConfig?.detectEmotion || false,
+        provider: agentConfig?.provider,
+        language: resolveCallLanguage(agentConfig?.voice?.language),
+        onSources: (retrieved) => {
+          sources = retrieved;
+        }
+      });
       
       if (response === lastReceivedResponse) {
         console.log("Resposta duplicada detectada, não atualizando UI");
         // Remove a mensagem temporária
         const filteredMessages = messages.filter(msg => msg.id !== tempAssistantId);
       } else {
-        updateMessage(tempAssistantId, response);
+        updateMessage(tempAssistantId, response, sources);
         setLastReceivedResponse(response);
         console.log("Received response from OpenAI:", response.substring(0, 50) + "...");
       }
@@ -398,7 +406,7 @@ const ChatWidget: React.FC<ChatWidgetProps> = ({ apiKey }) => {
             
             {isVoiceChatActive && (
               <div className="px-4 py-3 border-t">
-                <VoiceChatAgent apiKey={apiKey || ""} />
+                <VoiceChatAgent isLlmConfigured={isLlmConfigured} />
               </div>
             )}
             
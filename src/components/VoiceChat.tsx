@@ -4,15 +4,13 @@ import { Mic, MicOff, MessageSquare, Volume2, PauseCircle, Keyboard } from "luci
 import { Button } from "@/components/ui/button";
 import { useChat } from "@/contexts/ChatContext";
 import { transcribeAudio } from "@/utils/openai";
+import { resolveCallLanguage } from "@/utils/language";
+import { openMicrophone } from "@/utils/audioDevices";
 import { toast } from "sonner";
 import { Input } from "@/components/ui/input";
 
-interface VoiceChatProps {
-  apiKey: string;
-}
-
-const VoiceChat: React.FC<VoiceChatProps> = ({ apiKey }) => {
-  const { isVoiceChatActive, setIsVoiceChatActive, addMessage, updateMessage, sendMessage } = useChat();
+const VoiceChat: React.FC = () => {
+  const { isVoiceChatActive, setIsVoiceChatActive, addMessage, updateMessage, sendMessage, agentConfig } = useChat();
   const [isRecording, setIsRecording] = useState(false);
   const [isListening, setIsListening] = useState(true);
   const [recordingTime, setRecordingTime] = useState(0);
@@ -86,12 +84,10 @@ const VoiceChat: React.FC<VoiceChatProps> = ({ apiKey }) => {
   const startRecording = async () => {
     try {
       console.log("Solicitando acesso ao microfone...");
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
+      const stream = await openMicrophone({
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true
       });
       streamRef.current = stream;
       
@@ -142,7 +138,7 @@ const VoiceChat: React.FC<VoiceChatProps> = ({ apiKey }) => {
         try {
           setIsTranscribing(true);
           console.log("Transcrevendo áudio...");
-          const transcript = await transcribeAudio(audioBlob, apiKey);
+          const transcript = await transcribeAudio(audioBlob, agentConfig?.provider, resolveCallLanguage(agentConfig?.voice?.language));
           setIsTranscribing(false);
           
           if (transcript && transcript.trim() !== "") {
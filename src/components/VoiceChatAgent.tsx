@@ -2,17 +2,51 @@
 import React, { useState, useRef, useEffect } from "react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { Mic, StopCircle, RefreshCw, AudioWaveform } from "lucide-react";
-import { useChat } from "@/contexts/ChatContext";
+import { Mic, StopCircle, RefreshCw, AudioWaveform, Circle, PhoneOff } from "lucide-react";
+import { useChat, MessageSource, CallEndReason } from "@/contexts/ChatContext";
 import { 
   transcribeAudio, 
   generateSpeech, 
-  streamOpenAI
+  streamOpenAI,
+  startStreamingTranscription
 } from "@/utils/openai";
+import { StreamingTranscription } from "@/utils/providers";
 import { VoiceControls } from "./voice-chat/VoiceControls";
 import { useSpeechPlayer } from "@/hooks/useSpeechPlayer";
 import { VoiceSettings } from "./voice-chat/VoiceSettings";
 import { silenceDetector } from "@/utils/silenceDetector";
+import { bargeInDetector } from "@/utils/bargeInDetector";
+import { SpeechPipeline, SpeechSegment } from "@/utils/speechPipeline";
+import { normalizeForSpeech } from "@/utils/speechNormalizer";
+import {
+  detectLanguage,
+  getDefaultVoice,
+  isAutoDetectLanguage,
+  resolveCallLanguage,
+  resolveEndCallMessage
+} from "@/utils/language";
+import {
+  CallRecorder,
+  getRecordingConsentMessage,
+  getRecordingRetentionDays,
+  isCallRecordingEnabled
+} from "@/utils/callRecording";
+import {
+  CallEvent,
+  CallLifecycle,
+  CallState,
+  CallWarning,
+  getCallEndDescription,
+  isCallActive
+} from "@/utils/callLifecycle";
+import {
+  AudioDeviceList,
+  getAudioDevicePreferences,
+  getStreamDeviceId,
+  listAudioDevices,
+  onAudioDevicesChange,
+  openMicrophone
+} from "@/utils/audioDevices";
 
 const VOICES = [
   { id: 'alloy', name: 'Alloy (Neutro)' },
@@ -24,17 +58,24 @@ const VOICES = [
 ];
 
 // Valores padrão para detecção de silêncio, otimizados para conversação
-const SILENCE_THRESHOLD = 0.3; // Reduzido para ser mais sensível
-const MIN_VOICE_LEVEL = 0.5; // Reduzido para detectar voz mais facilmente
 const MIN_RECORDING_DURATION = 750;
-const VOICE_DETECTION_TIMEOUT = 8000;
+const DEFAULT_PAUSE_DURATION = 0.5; // Segundos de silêncio que encerram a fala do usuário
 const CONSECUTIVE_SILENCE_THRESHOLD = 3; // Reduzido para responder mais rápido
+const NOISE_CALIBRATION_DURATION = 500; // ms de ruído de fundo medidos no início da chamada
+const DEFAULT_BARGE_IN_THRESHOLD = 0.04; // Nível RMS da voz que interrompe o agente
+const DEFAULT_BARGE_IN_DURATION = 0.3; // Segundos de voz contínua para interromper
+const PLAYBACK_CHECK_INTERVAL = 200;
+const DEFAULT_INACTIVITY_TIMEOUT = 10; // Segundos sem fala do usuário até encerrar a chamada
+const MIN_INACTIVITY_TIMEOUT = 5;
+const MAX_INACTIVITY_WARNING = 5000; // ms de aviso antes do encerramento por inatividade
+const CALL_TICK_INTERVAL = 500;
+const END_CALL_MESSAGE_TIMEOUT = 15000; // Tempo máximo esperando a mensagem de encerramento tocar
 
 interface VoiceChatAgentProps {
-  apiKey: string;
+  isLlmConfigured: boolean;
 }
 
-const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
+const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ isLlmConfigured }) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [audioURL, setAudioURL] = useState<string | null>(null);
@@ -45,20 +86,23 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
   const [audioLevel, setAudioLevel] = useState<number>(0);
   const [isMicrophoneAvailable, setIsMicrophoneAvailable] = useState<boolean | null>(null);
   const [showDebugInfo, setShowDebugInfo] = useState(false);
+  const [partialTranscript, setPartialTranscript] = useState("");
+  const [timeToFirstAudio, setTimeToFirstAudio] = useState<number | null>(null);
+  const [recordingConsent, setRecordingConsent] = useState<boolean | null>(null);
+  const [callState, setCallState] = useState<CallState>("idle");
+  const [callWarning, setCallWarning] = useState<CallWarning | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const streamRef = useRef<MediaStream | null>(null);
   const processingAudioRef = useRef<boolean>(false);
   const lastProcessTimeRef = useRef<number>(0);
-  const currentResponseRef = useRef<string>("");
   const currentStreamingMessageId = useRef<string | null>(null);
   const retryCountRef = useRef<number>(0);
   const recordingStartTimeRef = useRef<number>(0);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
   const recordingTimerRef = useRef<NodeJS.Timeout | null>(null);
-  const voiceDetectionTimerRef = useRef<NodeJS.Timeout | null>(null);
   const recordingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const audioLevelsRef = useRef<number[]>([]);
   const forcedStopRef = useRef<boolean>(false);
@@ -67,6 +111,24 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
   const consecutiveSilenceCountRef = useRef<number>(0);
   const silenceStartLoggedRef = useRef<boolean>(false);
   const voiceDetectedRef = useRef<boolean>(false);
+  const needsCalibrationRef = useRef<boolean>(true);
+  const transcriptionStreamRef = useRef<StreamingTranscription | null>(null);
+  const fullResponseRef = useRef<string>("");
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const bargeInStreamRef = useRef<MediaStream | null>(null);
+  const speakingMessageIdRef = useRef<string | null>(null);
+  const playbackWaitTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const detectedLanguageRef = useRef<string | null>(null);
+  const callRecorderRef = useRef(new CallRecorder());
+  const callTickTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // O ciclo de vida da chamada vive entre renderizações; as transições chamam sempre o handler mais recente
+  const handleCallTransitionRef = useRef<(state: CallState, previous: CallState, event: CallEvent) => void>(() => {});
+  const handleAudioDevicesChangeRef = useRef<(devices: AudioDeviceList) => void>(() => {});
+  const callLifecycleRef = useRef(new CallLifecycle({
+    config: { maxCallDuration: 0, inactivityTimeout: 0, inactivityWarning: 0 },
+    onTransition: (state, previous, event) => handleCallTransitionRef.current(state, previous, event),
+    onWarning: (warning) => setCallWarning(warning)
+  }));
   
   const MAX_RETRIES = 3;
 
@@ -79,18 +141,32 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     updateAgentConfig
   } = useChat();
 
-  const silenceTimeout = agentConfig?.voice?.silenceTimeout || 0.5; // Reduzido de 0.6 para 0.5
+  const pauseDuration = agentConfig?.voice?.pauseDuration || DEFAULT_PAUSE_DURATION;
+  // Valores abaixo do mínimo vêm de configurações antigas, em que silenceTimeout era a pausa que encerra a fala
+  const silenceTimeout = (agentConfig?.voice?.silenceTimeout || 0) >= MIN_INACTIVITY_TIMEOUT
+    ? agentConfig.voice.silenceTimeout
+    : DEFAULT_INACTIVITY_TIMEOUT;
   const maxCallDuration = agentConfig?.voice?.maxCallDuration || 1800;
-  const waitBeforeSpeaking = agentConfig?.voice?.waitBeforeSpeaking || 0.05;
-  const waitAfterPunctuation = agentConfig?.voice?.waitAfterPunctuation || 0.03;
-  const waitWithoutPunctuation = agentConfig?.voice?.waitWithoutPunctuation || 0.2;
-  const waitAfterNumber = agentConfig?.voice?.waitAfterNumber || 0.1;
-  const endCallMessage = agentConfig?.voice?.endCallMessage || "Encerrando chamada por inatividade. Obrigado pela conversa.";
+  const waitBeforeSpeaking = agentConfig?.voice?.waitBeforeSpeaking ?? 0.05;
+  const waitAfterPunctuation = agentConfig?.voice?.waitAfterPunctuation ?? 0.03;
+  const waitWithoutPunctuation = agentConfig?.voice?.waitWithoutPunctuation ?? 0.2;
+  const waitAfterNumber = agentConfig?.voice?.waitAfterNumber ?? 0.1;
+  const configuredLanguage = agentConfig?.voice?.language;
+  // Na detecção automática, o idioma só é conhecido depois da primeira fala do usuário
+  const getCallLanguage = () => resolveCallLanguage(configuredLanguage, detectedLanguageRef.current);
+  const endCallMessage = resolveEndCallMessage(agentConfig?.voice?.endCallMessage, getCallLanguage());
   const continuousModeEnabled = agentConfig?.voice?.continuousMode !== undefined 
     ? agentConfig?.voice?.continuousMode 
     : true;
+  const bargeInEnabled = agentConfig?.voice?.bargeInEnabled !== undefined
+    ? agentConfig?.voice?.bargeInEnabled
+    : true;
+  const bargeInThreshold = agentConfig?.voice?.bargeInThreshold || DEFAULT_BARGE_IN_THRESHOLD;
+  const bargeInDuration = agentConfig?.voice?.bargeInDuration || DEFAULT_BARGE_IN_DURATION;
+  const recordingConfig = agentConfig?.voice?.recording;
+  const callRecordingEnabled = isCallRecordingEnabled(recordingConfig);
 
-  const SILENCE_DURATION = silenceTimeout * 1000;
+  const SILENCE_DURATION = pauseDuration * 1000;
 
   const { 
     audioRef,
@@ -101,11 +177,15 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     selectedVoice, 
     setSelectedVoice,
     playAudio,
-    playStreamingText,
+    queueAudio,
     isPlaying,
     audioData,
-    stopAudio
-  } = useSpeechPlayer(agentConfig?.voice?.voiceId || 'alloy');
+    stopAudio,
+    clearTextHistory,
+    getSpokenText,
+    hasPendingAudio,
+    setOutputDevice
+  } = useSpeechPlayer(agentConfig?.voice?.voiceId || getDefaultVoice(getCallLanguage()));
 
   useEffect(() => {
     const checkMicrophoneSupport = async () => {
@@ -127,11 +207,42 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     checkMicrophoneSupport();
   }, []);
 
+  // Fecha o microfone aberto para detectar interrupções enquanto o agente fala.
+  // Fica fora de cleanupResources, que também roda pelo timeout de segurança da gravação
+  const stopBargeInMonitor = () => {
+    bargeInDetector.cleanup();
+    speakingMessageIdRef.current = null;
+    
+    if (playbackWaitTimerRef.current) {
+      clearInterval(playbackWaitTimerRef.current);
+      playbackWaitTimerRef.current = null;
+    }
+    
+    if (bargeInStreamRef.current) {
+      bargeInStreamRef.current.getTracks().forEach(track => track.stop());
+      bargeInStreamRef.current = null;
+    }
+  };
+
+  const closeTranscriptionStream = () => {
+    if (transcriptionStreamRef.current) {
+      transcriptionStreamRef.current.close();
+      transcriptionStreamRef.current = null;
+    }
+    setPartialTranscript("");
+  };
+
   const cleanupResources = () => {
     console.log("Cleaning up voice chat resources");
     
     silenceDetector.cleanup();
     
+    if (transcriptionStreamRef.current) {
+      transcriptionStreamRef.current.close();
+      transcriptionStreamRef.current = null;
+    }
+    setPartialTranscript("");
+    
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
       animationFrameRef.current = null;
@@ -142,11 +253,6 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
       recordingTimerRef.current = null;
     }
     
-    if (voiceDetectionTimerRef.current) {
-      clearTimeout(voiceDetectionTimerRef.current);
-      voiceDetectionTimerRef.current = null;
-    }
-    
     if (recordingTimeoutRef.current) {
       clearTimeout(recordingTimeoutRef.current);
       recordingTimeoutRef.current = null;
@@ -194,10 +300,72 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
   };
 
   useEffect(() => {
-    console.log("VoiceChatAgent: API key present:", !!apiKey);
+    console.log("VoiceChatAgent: LLM configured on server:", isLlmConfigured);
+    
+    return () => {
+      stopBargeInMonitor();
+      cleanupResources();
+    };
+  }, [isLlmConfigured]);
+
+  // Sair da tela encerra a chamada em andamento
+  useEffect(() => {
+    const lifecycle = callLifecycleRef.current;
+    return () => {
+      if (lifecycle.isActive()) {
+        lifecycle.send({ type: "hangUp", reason: "user" });
+      }
+    };
+  }, []);
+
+  // Dispositivos conectados ou desconectados durante a chamada
+  useEffect(() => onAudioDevicesChange(devices => handleAudioDevicesChangeRef.current(devices)), []);
+
+  // Os limites da chamada acompanham as configurações, inclusive durante a chamada
+  useEffect(() => {
+    const inactivityTimeout = silenceTimeout * 1000;
+    callLifecycleRef.current.setConfig({
+      maxCallDuration: maxCallDuration * 1000,
+      inactivityTimeout,
+      inactivityWarning: Math.min(MAX_INACTIVITY_WARNING, inactivityTimeout / 2)
+    });
+  }, [maxCallDuration, silenceTimeout]);
+
+  // O consentimento de gravação vale por conversa
+  useEffect(() => {
+    setRecordingConsent(callRecorderRef.current.getConsent(currentConversationId));
+  }, [currentConversationId]);
+
+  const answerRecordingConsent = async (granted: boolean) => {
+    if (!currentConversationId) return;
     
-    return cleanupResources;
-  }, [apiKey]);
+    setRecordingConsent(granted);
+    try {
+      await callRecorderRef.current.setConsent(
+        currentConversationId,
+        granted,
+        getRecordingConsentMessage(recordingConfig)
+      );
+    } catch (error) {
+      console.error("Error saving recording consent:", error);
+      if (granted) {
+        toast.error("Não foi possível ativar a gravação da chamada");
+      }
+    }
+  };
+
+  const recordTurn = (audio: Blob, role: "user" | "assistant", transcript: string, messageId: string, durationMs?: number) => {
+    if (!callRecordingEnabled || !currentConversationId) return;
+    
+    callRecorderRef.current.recordTurn({
+      conversationId: currentConversationId,
+      messageId,
+      role,
+      transcript,
+      audio,
+      durationMs
+    }, getRecordingRetentionDays(recordingConfig));
+  };
 
   // Função de atualização dos níveis de áudio para visualização
   const updateAudioLevels = (levels: number[], overallLevel: number) => {
@@ -209,12 +377,21 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     }
   };
 
-  const startRecording = async () => {
-    if (stoppingRecording || isProcessing) {
+  // Na interrupção (barge-in) o microfone já aberto é reaproveitado e a gravação
+  // começa mesmo com a resposta interrompida ainda em processamento
+  const startRecording = async (existingStream?: MediaStream) => {
+    // Encerrada a chamada, nada reabre o microfone (modo contínuo, interrupção)
+    if (!callLifecycleRef.current.isActive()) {
+      existingStream?.getTracks().forEach(track => track.stop());
+      return;
+    }
+    
+    if (!existingStream && (stoppingRecording || isProcessing)) {
       console.log("Cannot start recording while stopping or processing");
       return;
     }
     
+    stopBargeInMonitor();
     cleanupResources();
     
     try {
@@ -226,17 +403,16 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
           description: "Tente usar um navegador mais recente, como Chrome, Firefox, ou Edge."
         });
         setIsMicrophoneAvailable(false);
+        callLifecycleRef.current.send({ type: "hangUp", reason: "error" });
         return;
       }
       
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          channelCount: 1,
-          sampleRate: 16000
-        } 
+      const stream = existingStream || await openMicrophone({
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        channelCount: 1,
+        sampleRate: 16000
       });
       
       streamRef.current = stream;
@@ -254,32 +430,33 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
       }
       
       recordingTimerRef.current = setInterval(() => {
-        const duration = Date.now() - recordingStartTimeRef.current;
-        setRecordingDuration(duration);
-        
-        if (duration >= maxCallDuration * 1000) {
-          console.log("Maximum recording duration reached, stopping recording");
-          stopRecording();
-        }
+        setRecordingDuration(Date.now() - recordingStartTimeRef.current);
       }, 1000);
       
+      const calibrateNoise = needsCalibrationRef.current;
+      needsCalibrationRef.current = false;
+      
       // Inicializar detector de silêncio com as configurações otimizadas
       silenceDetector.initialize(
         stream, 
         () => {
           console.log("Silence detector triggered automatic stop");
-          if (isRecording && !stoppingRecording && !processingAudioRef.current) {
+          // O estado do React capturado aqui é o do início da gravação; o MediaRecorder diz se ainda grava
+          if (mediaRecorderRef.current?.state === "recording" && !processingAudioRef.current) {
             processingAudioRef.current = true;
             stopRecording(false);
           }
         }, 
         {
-          silenceThreshold: SILENCE_THRESHOLD,
-          minVoiceLevel: MIN_VOICE_LEVEL,
           silenceDuration: SILENCE_DURATION,
+          waitAfterPunctuation,
+          waitWithoutPunctuation,
+          waitAfterNumber,
           minRecordingDuration: MIN_RECORDING_DURATION,
           consecutiveSilenceThreshold: CONSECUTIVE_SILENCE_THRESHOLD,
           continuousModeEnabled: continuousModeEnabled,
+          // Só a primeira gravação da chamada calibra; as seguintes reaproveitam o piso de ruído
+          calibrationDuration: calibrateNoise ? NOISE_CALIBRATION_DURATION : 0,
           debugMode: showDebugInfo
         },
         updateAudioLevels // Callback para atualizar os níveis de áudio
@@ -293,9 +470,21 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
       });
       mediaRecorderRef.current = mediaRecorder;
       
+      // Cada trecho gravado também vai para a transcrição em streaming, que mostra a fala ao vivo
+      try {
+        transcriptionStreamRef.current = startStreamingTranscription((text) => {
+          setPartialTranscript(text);
+          silenceDetector.setPartialTranscript(text);
+        }, agentConfig?.provider, 'audio/webm', getCallLanguage());
+      } catch (error) {
+        console.warn("Streaming transcription unavailable, using whole-recording transcription:", error);
+        transcriptionStreamRef.current = null;
+      }
+      
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           audioChunksRef.current.push(event.data);
+          transcriptionStreamRef.current?.sendAudio(event.data);
         }
       };
       
@@ -307,6 +496,7 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         
         if (audioChunksRef.current.length === 0) {
           console.log("No audio data captured");
+          closeTranscriptionStream();
           processingAudioRef.current = false;
           setStoppingRecording(false);
           return;
@@ -324,8 +514,9 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         
         const voiceDetected = silenceDetector.hasVoiceBeenDetected();
         
-        if (audioBlob.size < 1000 || !apiKey) {
-          console.log("Audio too small or API key missing, ignoring");
+        if (audioBlob.size < 1000 || !isLlmConfigured) {
+          console.log("Audio too small or LLM not configured, ignoring");
+          closeTranscriptionStream();
           processingAudioRef.current = false;
           audioChunksRef.current = [];
           setStoppingRecording(false);
@@ -334,6 +525,7 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         
         if (recordingLength < MIN_RECORDING_DURATION) {
           console.log("Recording too short, ignoring");
+          closeTranscriptionStream();
           processingAudioRef.current = false;
           audioChunksRef.current = [];
           setStoppingRecording(false);
@@ -345,6 +537,7 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
           await processAudioBlob(audioBlob);
         } else {
           console.log("No voice detected in recording, ignoring");
+          closeTranscriptionStream();
           toast.info("Não detectamos sua voz. Por favor, tente novamente falando mais alto.");
           processingAudioRef.current = false;
           audioChunksRef.current = [];
@@ -352,23 +545,13 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         }
       };
       
-      if (voiceDetectionTimerRef.current) {
-        clearTimeout(voiceDetectionTimerRef.current);
-      }
-      
-      voiceDetectionTimerRef.current = setTimeout(() => {
-        if (isRecording && !silenceDetector.hasVoiceBeenDetected() && !stoppingRecording) {
-          console.log("No voice detected after timeout, stopping recording");
-          toast.info("Nenhuma voz detectada. Por favor, tente novamente falando mais alto.");
-          if (mediaRecorderRef.current && mediaRecorderRef.current.state === "recording") {
-            stopRecording();
-          }
-        }
-      }, VOICE_DETECTION_TIMEOUT);
-      
       mediaRecorder.start(250);
       console.log("Started recording with enhanced voice detection");
       
+      // A primeira gravação conecta a chamada; as seguintes devolvem a vez ao usuário
+      const lifecycle = callLifecycleRef.current;
+      lifecycle.send({ type: lifecycle.getState() === "connecting" ? "connected" : "listen" });
+      
       try {
         const oscillator = audioContextRef.current?.createOscillator();
         const gainNode = audioContextRef.current?.createGain();
@@ -396,6 +579,7 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         description: "Verifique as permissões do seu navegador."
       });
       setIsRecording(false);
+      callLifecycleRef.current.send({ type: "hangUp", reason: "error" });
     }
   };
 
@@ -429,11 +613,6 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
       recordingTimerRef.current = null;
     }
     
-    if (voiceDetectionTimerRef.current) {
-      clearTimeout(voiceDetectionTimerRef.current);
-      voiceDetectionTimerRef.current = null;
-    }
-    
     if (recordingTimeoutRef.current) {
       clearTimeout(recordingTimeoutRef.current);
     }
@@ -455,9 +634,154 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     }
   };
 
+  // Escuta o microfone enquanto a resposta é gerada e falada, para o usuário poder interromper
+  const startBargeInMonitor = async (messageId: string) => {
+    try {
+      const stream = await openMicrophone({
+        // Sem cancelamento de eco a própria voz do agente dispararia a interrupção
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        channelCount: 1
+      });
+      
+      // A resposta pode ter terminado ou sido descartada enquanto o microfone abria
+      if (speakingMessageIdRef.current !== messageId) {
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      
+      bargeInStreamRef.current = stream;
+      bargeInDetector.initialize(stream, handleBargeIn, {
+        threshold: bargeInThreshold,
+        minDuration: bargeInDuration * 1000,
+        debugMode: showDebugInfo
+      });
+    } catch (error) {
+      console.error("Error opening microphone for barge-in:", error);
+    }
+  };
+
+  const handleBargeIn = () => {
+    console.log("User interrupted the assistant");
+    
+    const spokenText = getSpokenText().trim();
+    stopAudio();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    
+    if (speakingMessageIdRef.current) {
+      updateMessage(speakingMessageIdRef.current, spokenText, undefined, true);
+    }
+    
+    fullResponseRef.current = "";
+    currentStreamingMessageId.current = null;
+    setIsProcessing(false);
+    processingAudioRef.current = false;
+    setStoppingRecording(false);
+    
+    // O microfone já está aberto: a nova fala do usuário é gravada a partir dele
+    const stream = bargeInStreamRef.current;
+    bargeInStreamRef.current = null;
+    stopBargeInMonitor();
+    startRecording(stream || undefined);
+  };
+
+  // Mantém o monitor de interrupção (quando houver) até o agente terminar de falar; no modo
+  // contínuo a gravação seguinte reaproveita o mesmo microfone, senão a vez só volta ao usuário
+  const stopBargeInMonitorAfterPlayback = (restartRecording: boolean) => {
+    if (playbackWaitTimerRef.current) {
+      clearInterval(playbackWaitTimerRef.current);
+    }
+    
+    playbackWaitTimerRef.current = setInterval(() => {
+      if (hasPendingAudio()) return;
+      
+      const stream = bargeInStreamRef.current;
+      if (restartRecording) {
+        bargeInStreamRef.current = null;
+      }
+      stopBargeInMonitor();
+      
+      if (restartRecording) {
+        startRecording(stream || undefined);
+      } else {
+        callLifecycleRef.current.send({ type: "listen" });
+      }
+    }, PLAYBACK_CHECK_INTERVAL);
+  };
+
+  // O texto final vem da transcrição em streaming; se ela falhar, a gravação inteira é transcrita
+  const finishTranscription = async (audioBlob: Blob): Promise<string> => {
+    const transcriptionStream = transcriptionStreamRef.current;
+    transcriptionStreamRef.current = null;
+    
+    if (transcriptionStream) {
+      try {
+        const text = await transcriptionStream.finish();
+        if (text.trim()) {
+          return text;
+        }
+      } catch (error) {
+        console.warn("Streaming transcription failed, transcribing whole recording:", error);
+      } finally {
+        transcriptionStream.close();
+      }
+    }
+    
+    return transcribeAudioWithRetry(audioBlob);
+  };
+
+  // Fala a resposta em trechos: a síntese dos próximos trechos acontece enquanto o anterior toca.
+  // O tempo até o primeiro áudio é medido desde o fim da fala do usuário.
+  const createSpeechPipeline = (turnEndedAt: number, signal: AbortSignal, onSpoken?: (segment: SpeechSegment) => void) => {
+    let firstSegment = true;
+    
+    const speechPipeline = new SpeechPipeline({
+      startedAt: turnEndedAt,
+      prepareText: (text) => normalizeForSpeech(text, {
+        language: getCallLanguage(),
+        pronunciations: agentConfig?.voice?.pronunciations
+      }),
+      synthesize: (text, synthesisSignal) => generateSpeech(
+        text,
+        selectedVoice,
+        agentConfig?.provider,
+        getCallLanguage(),
+        synthesisSignal
+      ),
+      onSegment: async (segment) => {
+        if (firstSegment) {
+          firstSegment = false;
+          await new Promise(resolve => setTimeout(resolve, waitBeforeSpeaking * 1000));
+        }
+        
+        // Resposta interrompida enquanto o áudio era gerado: não fala mais nada
+        if (signal.aborted) return;
+        
+        const speechBlob = new Blob([segment.audio], { type: 'audio/mpeg' });
+        queueAudio(URL.createObjectURL(speechBlob), segment.text);
+        callLifecycleRef.current.send({ type: "responseAudio" });
+        onSpoken?.(segment);
+      },
+      onFirstAudio: (metrics) => {
+        console.log(`[SpeechPipeline] Time to first audio: ${metrics.timeToFirstAudioMs}ms`);
+        setTimeToFirstAudio(metrics.timeToFirstAudioMs);
+      },
+      onError: (error, text) => {
+        console.error(`Error generating speech for segment "${text.substring(0, 30)}":`, error);
+      }
+    });
+    
+    signal.addEventListener("abort", () => speechPipeline.abort());
+    return speechPipeline;
+  };
+
   const processAudioBlob = async (audioBlob: Blob) => {
-    if (!apiKey || !currentConversationId) {
+    const turnEndedAt = Date.now();
+    if (!isLlmConfigured || !currentConversationId || !callLifecycleRef.current.isActive()) {
       console.log("Call is no longer active, ignoring audio");
+      closeTranscriptionStream();
       processingAudioRef.current = false;
       setStoppingRecording(false);
       return;
@@ -465,12 +789,14 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     
     setIsProcessing(true);
     retryCountRef.current = 0;
+    callLifecycleRef.current.send({ type: "userSpoke" });
     
     try {
       const audioURL = URL.createObjectURL(audioBlob);
       setAudioURL(audioURL);
       
-      const transcription = await transcribeAudioWithRetry(audioBlob);
+      const transcription = await finishTranscription(audioBlob);
+      setPartialTranscript("");
       console.log("Transcription received:", transcription);
       
       if (!transcription || transcription.trim() === "") {
@@ -478,23 +804,53 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         setIsProcessing(false);
         processingAudioRef.current = false;
         setStoppingRecording(false);
+        callLifecycleRef.current.send({ type: "turnDiscarded" });
         
         toast.info("Não conseguimos entender o que você disse. Por favor, tente novamente.");
         
         return;
       }
       
+      // A primeira fala reconhecível define o idioma do restante da chamada
+      if (isAutoDetectLanguage(configuredLanguage) && !detectedLanguageRef.current) {
+        const detected = detectLanguage(transcription);
+        if (detected) {
+          console.log("Call language detected:", detected);
+          detectedLanguageRef.current = detected;
+          if (!agentConfig?.voice?.voiceId) {
+            setSelectedVoice(getDefaultVoice(detected));
+          }
+        }
+      }
+      
       const userMessageId = addMessage(transcription, "user");
       console.log("User message added with ID:", userMessageId);
+      recordTurn(audioBlob, "user", transcription, userMessageId, turnEndedAt - recordingStartTimeRef.current);
       
       const assistantMessageId = addMessage("...", "assistant");
       currentStreamingMessageId.current = assistantMessageId;
       
-      currentResponseRef.current = "";
+      fullResponseRef.current = "";
+      clearTextHistory();
+      let sources: MessageSource[] = [];
+      
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      
+      // Trechos da resposta que foram para a reprodução, gravados juntos como o turno do agente
+      const spokenSegments: SpeechSegment[] = [];
+      const speechPipeline = agentConfig?.voice?.enabled !== false
+        ? createSpeechPipeline(turnEndedAt, abortController.signal, (segment) => spokenSegments.push(segment))
+        : null;
+      
+      if (bargeInEnabled) {
+        speakingMessageIdRef.current = assistantMessageId;
+        startBargeInMonitor(assistantMessageId);
+      }
       
       const systemPrompt = agentConfig?.systemPrompt || "You are a helpful assistant.";
       
-      const conversationMessages = messages.map(msg => ({
+      const conversationMessages = messages.filter(msg => !msg.event).map(msg => ({
         role: msg.role as "user" | "assistant" | "system",
         content: msg.content
       }));
@@ -514,83 +870,66 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         model: agentConfig?.model || "gpt-4o-mini",
         temperature: agentConfig?.temperature || 0.7,
         trainingFiles: agentConfig?.trainingFiles || [],
+        functions: agentConfig?.functions || [],
         detectEmotion: agentConfig?.detectEmotion || false,
-        stream: true
-      }, apiKey, {
-        onMessage: async (chunk) => {
-          currentResponseRef.current += chunk;
-          
-          updateMessage(assistantMessageId, currentResponseRef.current);
-          
-          const shouldGenerateSpeech = (
-            (chunk.includes('.') && currentResponseRef.current.length > waitAfterPunctuation * 100) ||
-            (chunk.includes('!') && currentResponseRef.current.length > waitAfterPunctuation * 100) ||
-            (chunk.includes('?') && currentResponseRef.current.length > waitAfterPunctuation * 100) ||
-            (chunk.includes('\n\n') && currentResponseRef.current.length > waitWithoutPunctuation * 100) ||
-            /\d+/.test(chunk) && currentResponseRef.current.length > waitAfterNumber * 100 ||
-            (!/[.!?\n]/.test(chunk) && currentResponseRef.current.length > waitWithoutPunctuation * 100 && chunk.length > 20)
-          );
+        stream: true,
+        provider: agentConfig?.provider,
+        signal: abortController.signal,
+        language: getCallLanguage(),
+        onSources: (retrieved) => {
+          sources = retrieved;
+        }
+      }, {
+        onFunctionCall: (name) => {
+          console.log("Assistant is calling function:", name);
+        },
+        onMessage: (chunk) => {
+          fullResponseRef.current += chunk;
           
-          if (shouldGenerateSpeech) {
-            try {
-              console.log("Generating speech for sentence:", currentResponseRef.current);
-              const speechAudioBuffer = await generateSpeech(
-                currentResponseRef.current,
-                selectedVoice,
-                apiKey
-              );
-              
-              const speechBlob = new Blob([speechAudioBuffer], { type: 'audio/mpeg' });
-              const speechURL = URL.createObjectURL(speechBlob);
-              
-              await new Promise(resolve => setTimeout(resolve, waitBeforeSpeaking * 1000));
-              
-              playStreamingText(speechURL, currentResponseRef.current, false);
-              
-              currentResponseRef.current = "";
-            } catch (speechError) {
-              console.error("Error generating speech for chunk:", speechError);
-            }
-          }
+          updateMessage(assistantMessageId, fullResponseRef.current);
+          speechPipeline?.push(chunk);
         },
         onComplete: async (fullMessage) => {
           console.log("Complete response received:", fullMessage.substring(0, 50) + "...");
           
-          updateMessage(assistantMessageId, fullMessage);
+          updateMessage(assistantMessageId, fullMessage, sources);
           
-          if (agentConfig?.voice?.enabled && currentResponseRef.current) {
-            try {
-              const speechAudioBuffer = await generateSpeech(
-                currentResponseRef.current,
-                selectedVoice,
-                apiKey
+          if (speechPipeline) {
+            const metrics = await speechPipeline.finish();
+            console.log("[SpeechPipeline] Response spoken", {
+              timeToFirstAudioMs: metrics.timeToFirstAudioMs,
+              segments: metrics.segmentCount,
+              failedSegments: metrics.failedSegments,
+              synthesisMs: metrics.synthesisMs
+            });
+            
+            if (spokenSegments.length > 0) {
+              recordTurn(
+                new Blob(spokenSegments.map(segment => segment.audio), { type: 'audio/mpeg' }),
+                "assistant",
+                spokenSegments.map(segment => segment.text).join(" "),
+                assistantMessageId
               );
-              
-              const speechBlob = new Blob([speechAudioBuffer], { type: 'audio/mpeg' });
-              const speechURL = URL.createObjectURL(speechBlob);
-              
-              playStreamingText(speechURL, currentResponseRef.current, true);
-            } catch (speechError) {
-              console.error("Error generating speech for final chunk:", speechError);
             }
           }
           
+          // O usuário interrompeu enquanto a última frase era gerada; a nova gravação já começou
+          if (abortController.signal.aborted) return;
+          
+          abortControllerRef.current = null;
           setIsProcessing(false);
           processingAudioRef.current = false;
           setStoppingRecording(false);
           currentStreamingMessageId.current = null;
           
-          // Reinicia a gravação automaticamente após um breve intervalo
-          if (continuousModeEnabled) {
-            setTimeout(() => {
-              if (!isRecording && !stoppingRecording && !isProcessing) {
-                startRecording();
-              }
-            }, 1500);
-          }
+          // A vez volta ao usuário quando o agente termina de falar
+          stopBargeInMonitorAfterPlayback(continuousModeEnabled);
         },
         onError: (error) => {
           console.error("Error getting streaming response:", error);
+          speechPipeline?.abort();
+          stopBargeInMonitor();
+          abortControllerRef.current = null;
           toast.error("Erro na resposta do assistente", {
             description: error instanceof Error ? error.message : "Ocorreu um erro inesperado"
           });
@@ -598,10 +937,13 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
           processingAudioRef.current = false;
           setStoppingRecording(false);
           currentStreamingMessageId.current = null;
+          callLifecycleRef.current.send({ type: "listen" });
         }
       });
     } catch (error) {
       console.error("Error processing audio:", error);
+      stopBargeInMonitor();
+      callLifecycleRef.current.send({ type: "listen" });
       toast.error("Erro ao processar áudio", {
         description: error instanceof Error ? error.message : "Ocorreu um erro inesperado"
       });
@@ -613,7 +955,7 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
 
   const transcribeAudioWithRetry = async (audioBlob: Blob): Promise<string> => {
     try {
-      return await transcribeAudio(audioBlob, apiKey);
+      return await transcribeAudio(audioBlob, agentConfig?.provider, getCallLanguage());
     } catch (error) {
       retryCountRef.current += 1;
       if (retryCountRef.current <= MAX_RETRIES) {
@@ -635,13 +977,148 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
     return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
+  // Os limites são verificados periodicamente; a fala do usuário e o áudio do agente
+  // ainda tocando não contam como inatividade
+  const startCallTimer = () => {
+    if (callTickTimerRef.current) {
+      clearInterval(callTickTimerRef.current);
+    }
+    
+    callTickTimerRef.current = setInterval(() => {
+      const lifecycle = callLifecycleRef.current;
+      const userSpeaking = mediaRecorderRef.current?.state === "recording" && silenceDetector.hasVoiceBeenDetected();
+      if (userSpeaking || hasPendingAudio()) {
+        lifecycle.activity();
+      }
+      lifecycle.tick();
+    }, CALL_TICK_INTERVAL);
+  };
+
+  const startCall = () => {
+    console.log("Starting voice call");
+    needsCalibrationRef.current = true;
+    detectedLanguageRef.current = null;
+    
+    callLifecycleRef.current.send({ type: "start" });
+    startCallTimer();
+    startRecording();
+  };
+
+  // Fala a mensagem de encerramento e espera ela tocar, com um limite de tempo
+  const speakEndCallMessage = async () => {
+    addMessage(endCallMessage, "assistant");
+    if (agentConfig?.voice?.enabled === false) return;
+    
+    try {
+      const speech = await generateSpeech(
+        normalizeForSpeech(endCallMessage, {
+          language: getCallLanguage(),
+          pronunciations: agentConfig?.voice?.pronunciations
+        }),
+        selectedVoice,
+        agentConfig?.provider,
+        getCallLanguage()
+      );
+      queueAudio(URL.createObjectURL(new Blob([speech], { type: 'audio/mpeg' })), endCallMessage);
+      
+      const deadline = Date.now() + END_CALL_MESSAGE_TIMEOUT;
+      while (hasPendingAudio() && Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, PLAYBACK_CHECK_INTERVAL));
+      }
+    } catch (error) {
+      console.error("Error speaking end call message:", error);
+    }
+  };
+
+  // Libera microfone e resposta em andamento; por inatividade ou duração máxima o agente
+  // se despede antes. O encerramento fica registrado na conversa com o motivo.
+  const endCall = async (reason: CallEndReason) => {
+    const durationMs = callLifecycleRef.current.getDuration();
+    console.log(`Ending call (${reason}) after ${Math.round(durationMs / 1000)}s`);
+    
+    stopBargeInMonitor();
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    cleanupResources();
+    stopAudio();
+    fullResponseRef.current = "";
+    currentStreamingMessageId.current = null;
+    setIsProcessing(false);
+    
+    if (reason === "inactivity" || reason === "maxDuration") {
+      await speakEndCallMessage();
+    }
+    
+    addMessage(getCallEndDescription(reason), "system", { type: "callEnded", reason, durationMs });
+    callLifecycleRef.current.send({ type: "ended" });
+  };
+
+  // Troca de microfone no meio da chamada (desconectado, ou o escolhido voltou): a gravação ou o
+  // monitor de interrupção reabre no novo dispositivo e a chamada continua. A fala em andamento
+  // no microfone antigo é descartada.
+  handleAudioDevicesChangeRef.current = ({ inputs }) => {
+    const { inputDeviceId, outputDeviceId } = getAudioDevicePreferences();
+    setOutputDevice(outputDeviceId);
+    
+    if (!callLifecycleRef.current.isActive()) return;
+    
+    const preferredAvailable = !!inputDeviceId && inputs.some(device => device.deviceId === inputDeviceId);
+    const needsNewMicrophone = (stream: MediaStream) => {
+      const track = stream.getAudioTracks()[0];
+      const deviceId = getStreamDeviceId(stream);
+      if (!track || track.readyState === "ended") return true;
+      if (deviceId && deviceId !== "default" && !inputs.some(device => device.deviceId === deviceId)) return true;
+      return preferredAvailable && deviceId !== inputDeviceId;
+    };
+    
+    if (mediaRecorderRef.current?.state === "recording" && streamRef.current && needsNewMicrophone(streamRef.current)) {
+      console.log("Microphone changed during the call, restarting recording");
+      toast.info("Microfone alterado. Pode continuar falando.");
+      needsCalibrationRef.current = true;
+      startRecording();
+    } else if (bargeInStreamRef.current && speakingMessageIdRef.current && needsNewMicrophone(bargeInStreamRef.current)) {
+      console.log("Microphone changed while the assistant speaks, reopening barge-in monitor");
+      const messageId = speakingMessageIdRef.current;
+      bargeInDetector.cleanup();
+      bargeInStreamRef.current.getTracks().forEach(track => track.stop());
+      bargeInStreamRef.current = null;
+      startBargeInMonitor(messageId);
+    }
+  };
+
+  const handleAudioDevicePreferencesChange = async () => {
+    try {
+      handleAudioDevicesChangeRef.current(await listAudioDevices());
+    } catch (error) {
+      console.error("Error applying audio device selection:", error);
+    }
+  };
+
+  handleCallTransitionRef.current = (state, previous, event) => {
+    console.log(`Call state: ${previous} -> ${state} (${event.type})`);
+    setCallState(state);
+    
+    if (event.type === "hangUp") {
+      endCall(event.reason);
+    }
+    
+    if (state === "ended" && callTickTimerRef.current) {
+      clearInterval(callTickTimerRef.current);
+      callTickTimerRef.current = null;
+    }
+  };
+
   const toggleRecording = () => {
     if (isRecording) {
       console.log("User toggled recording off");
       stopRecording(true);
     } else if (!stoppingRecording && !isProcessing) {
       console.log("User toggled recording on");
-      startRecording();
+      if (callLifecycleRef.current.isActive()) {
+        startRecording();
+      } else {
+        startCall();
+      }
     } else {
       console.log("Ignoring toggle request while stopping or processing");
     }
@@ -715,7 +1192,7 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
             onClick={toggleRecording}
             variant={isRecording ? "destructive" : "default"}
             className={`rounded-full w-12 h-12 p-0 ${isRecording ? 'animate-pulse' : ''}`}
-            disabled={isProcessing || stoppingRecording || isMicrophoneAvailable === false}
+            disabled={isProcessing || stoppingRecording || callState === "ending" || isMicrophoneAvailable === false}
             aria-label={isRecording ? "Stop recording" : "Start recording"}
           >
             {isRecording ? (
@@ -727,11 +1204,29 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
             )}
           </Button>
           
+          {isCallActive(callState) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => callLifecycleRef.current.send({ type: "hangUp", reason: "user" })}
+              className="text-xs text-destructive hover:text-destructive/90 hover:bg-destructive/10"
+            >
+              <PhoneOff className="h-4 w-4 mr-1" /> Encerrar chamada
+            </Button>
+          )}
+          
           {isRecording && (
             <span className="text-xs text-red-500 animate-pulse">
               {formatTime(recordingDuration)}
             </span>
           )}
+          
+          {callRecordingEnabled && recordingConsent === true && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Circle className="h-2 w-2 fill-red-500 text-red-500" />
+              Chamada gravada
+            </span>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
@@ -756,6 +1251,28 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         </div>
       </div>
       
+      {callRecordingEnabled && currentConversationId && recordingConsent === null && (
+        <div className="rounded-md border border-border bg-muted/50 p-3 space-y-2">
+          <p className="text-sm">{getRecordingConsentMessage(recordingConfig)}</p>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => answerRecordingConsent(true)}>
+              Permitir gravação
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => answerRecordingConsent(false)}>
+              Não gravar
+            </Button>
+          </div>
+        </div>
+      )}
+      
+      {callWarning && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 p-2 text-center text-sm text-amber-800">
+          {callWarning.reason === "inactivity"
+            ? `Você ainda está aí? A chamada será encerrada em ${Math.ceil(callWarning.remainingMs / 1000)}s por inatividade.`
+            : `A chamada atinge a duração máxima em ${Math.ceil(callWarning.remainingMs / 1000)}s.`}
+        </div>
+      )}
+      
       <div className="bg-background/60 rounded-md p-2 border border-border">
         <div className="flex items-center gap-2 mb-1">
           <AudioWaveform 
@@ -776,7 +1293,30 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
           <div className="mt-2 text-xs text-muted-foreground">
             <p>Voz detectada: {silenceDetector.hasVoiceBeenDetected() ? 'Sim' : 'Não'}</p>
             <p>Contagem de silêncio: {silenceDetector.getConsecutiveSilenceCount()}/{CONSECUTIVE_SILENCE_THRESHOLD}</p>
-            <p>Nível de áudio: {audioLevel.toFixed(1)}%</p>
+            <p>Probabilidade de voz: {audioLevel.toFixed(1)}%</p>
+            <p>
+              Piso de ruído: {silenceDetector.isCalibrating()
+                ? 'calibrando...'
+                : `${silenceDetector.getNoiseFloorDb()?.toFixed(1) ?? '-'} dB`}
+            </p>
+          </div>
+        )}
+        
+        {showDebugInfo && bargeInDetector.isActive() && (
+          <div className="mt-2 text-xs text-muted-foreground">
+            <p>Interrupção: nível {bargeInDetector.getLevel().toFixed(3)} / {bargeInThreshold.toFixed(2)}</p>
+          </div>
+        )}
+        
+        {showDebugInfo && (
+          <div className="mt-2 text-xs text-muted-foreground">
+            <p>Estado da chamada: {callState}</p>
+          </div>
+        )}
+        
+        {showDebugInfo && timeToFirstAudio !== null && (
+          <div className="mt-2 text-xs text-muted-foreground">
+            <p>Tempo até o primeiro áudio: {timeToFirstAudio}ms</p>
           </div>
         )}
       </div>
@@ -784,17 +1324,22 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
       {showSettings && (
         <VoiceSettings 
           settings={{
-            silenceTimeout,
+            pauseDuration,
             maxCallDuration,
             waitBeforeSpeaking,
             waitAfterPunctuation,
             waitWithoutPunctuation,
             waitAfterNumber,
             endCallMessage,
-            continuousMode: continuousModeEnabled
+            continuousMode: continuousModeEnabled,
+            bargeInEnabled,
+            bargeInThreshold,
+            bargeInDuration
           }}
           onSave={saveVoiceSettings}
           onCancel={() => setShowSettings(false)}
+          micInUse={isCallActive(callState)}
+          onDevicesChange={handleAudioDevicePreferencesChange}
         />
       )}
       
@@ -804,6 +1349,12 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         </div>
       )}
       
+      {partialTranscript && (isRecording || isProcessing || stoppingRecording) && (
+        <div className="text-center text-sm italic text-foreground/80">
+          “{partialTranscript}”
+        </div>
+      )}
+      
       {isProcessing && (
         <div className="text-center text-sm text-muted-foreground">
           Processando áudio...
@@ -823,9 +1374,17 @@ const VoiceChatAgent: React.FC<VoiceChatAgentProps> = ({ apiKey }) => {
         </div>
       )}
       
-      {!isRecording && !isProcessing && !stoppingRecording && isMicrophoneAvailable !== false && (
+      {callState === "ending" && (
+        <div className="text-center text-sm text-muted-foreground">
+          Encerrando chamada...
+        </div>
+      )}
+      
+      {!isRecording && !isProcessing && !stoppingRecording && callState !== "ending" && isMicrophoneAvailable !== false && (
         <div className="text-center text-sm text-muted-foreground">
-          Clique no botão do microfone para iniciar a conversa por voz
+          {isCallActive(callState)
+            ? "Clique no botão do microfone para falar"
+            : "Clique no botão do microfone para iniciar a conversa por voz"}
         </div>
       )}
       
@@ -8,7 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { RefreshCw, Volume2, FileText, HelpCircle, Mic, Code, Brain, Bot, Braces, Sparkles, MessageSquareCode, Command } from "lucide-react";
 import { toast } from "sonner";
-import { AgentConfig, KnowledgeType } from "@/contexts/ChatContext";
+import { AgentConfig, KnowledgeType, LLMProviderConfig, EmbeddingSource, CallRecordingConfig } from "@/contexts/ChatContext";
 import { 
   Tooltip,
   TooltipContent,
@@ -22,6 +22,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { format } from "date-fns";
+import { AUTO_DETECT_LANGUAGE, getDefaultEndCallMessage, resolveEndCallMessage } from "@/utils/language";
+import PronunciationLexiconSection from "./PronunciationLexiconSection";
+import { DEFAULT_RECORDING_CONSENT_MESSAGE, DEFAULT_RECORDING_RETENTION_DAYS } from "@/utils/callRecording";
 
 interface AgentConfigTabProps {
   agentConfig: AgentConfig;
@@ -48,11 +51,13 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
       enabled: false,
       assistantId: '',
       name: ''
-    }
+    },
+    provider: agentConfig.provider || { type: 'openai' as const }
   };
   
   const [updatedAgentConfig, setUpdatedAgentConfig] = useState<AgentConfig>(initConfig);
   const [activeKnowledgeTab, setActiveKnowledgeTab] = useState<KnowledgeType>(initConfig.knowledgeType || 'rag');
+  const [mockScriptText, setMockScriptText] = useState(JSON.stringify(initConfig.provider.mockScript || [], null, 2));
 
   // Opções de voz da OpenAI
   const voiceOptions = [
@@ -66,6 +71,7 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
   
   // Opções de idioma
   const languageOptions = [
+    { id: AUTO_DETECT_LANGUAGE, name: "Detectar automaticamente" },
     { id: "pt-BR", name: "Português (Brasil)" },
     { id: "en-US", name: "Inglês (EUA)" },
     { id: "en-GB", name: "Inglês (Reino Unido)" },
@@ -85,8 +91,62 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
     { id: "gpt-4o", name: "GPT-4o - Mais poderoso" },
   ];
 
+  // Opções de provedor de LLM
+  const providerOptions = [
+    { id: "openai", name: "OpenAI" },
+    { id: "openai-compatible", name: "Compatível com OpenAI (Ollama, vLLM, LM Studio, Azure)" },
+    { id: "mock", name: "Simulado (offline, para desenvolvimento e testes)" },
+  ];
+
+  // Atualiza apenas os campos informados do provedor
+  const updateProvider = (changes: Partial<LLMProviderConfig>) => {
+    setUpdatedAgentConfig({
+      ...updatedAgentConfig,
+      provider: {
+        ...updatedAgentConfig.provider,
+        ...changes,
+      },
+    });
+  };
+
+  // Atualiza apenas os campos informados da gravação de chamadas
+  const updateRecordingConfig = (changes: Partial<CallRecordingConfig>) => {
+    setUpdatedAgentConfig({
+      ...updatedAgentConfig,
+      voice: {
+        ...updatedAgentConfig.voice,
+        recording: {
+          enabled: false,
+          retentionDays: DEFAULT_RECORDING_RETENTION_DAYS,
+          ...updatedAgentConfig.voice.recording,
+          ...changes,
+        },
+      },
+    });
+  };
+
+  // Valida e aplica o roteiro do provedor simulado
+  const applyMockScript = () => {
+    try {
+      const script = JSON.parse(mockScriptText || "[]");
+      if (!Array.isArray(script)) {
+        throw new Error("O roteiro deve ser uma lista");
+      }
+      updateProvider({ mockScript: script });
+    } catch (error) {
+      toast.error("Roteiro inválido", {
+        description: error instanceof Error ? error.message : "JSON inválido"
+      });
+    }
+  };
+
   // Salvar configuração do agente
   const saveAgentConfig = () => {
+    if (updatedAgentConfig.provider.type === "openai-compatible" && !updatedAgentConfig.provider.baseUrl?.trim()) {
+      toast.error("Informe a URL base do provedor compatível");
+      return;
+    }
+    
     const updatedConfig = {
       ...updatedAgentConfig,
       functions: functions,
@@ -132,7 +192,7 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
           waitAfterPunctuation: 0.1,
           waitWithoutPunctuation: 1.5,
           waitAfterNumber: 0.5,
-          endCallMessage: "Encerrando chamada por inatividade. Obrigado pela conversa."
+          endCallMessage: getDefaultEndCallMessage(updatedAgentConfig.voice.language)
         }
       });
     }
@@ -305,6 +365,105 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
                   />
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="embeddingSource">Embeddings</Label>
+                  <Select
+                    value={updatedAgentConfig.rag?.embeddingSource || "provider"}
+                    onValueChange={(value) => setUpdatedAgentConfig({
+                      ...updatedAgentConfig,
+                      rag: {
+                        ...updatedAgentConfig.rag,
+                        embeddingSource: value as EmbeddingSource,
+                      },
+                    })}
+                  >
+                    <SelectTrigger id="embeddingSource">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="provider">Provedor de LLM (semântico)</SelectItem>
+                      <SelectItem value="local">Local (offline, por vocabulário)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Ao trocar o modelo de embeddings, os documentos são reindexados automaticamente.
+                  </p>
+                </div>
+                
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ragTopK">Trechos por resposta (top-k)</Label>
+                    <Input
+                      id="ragTopK"
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={updatedAgentConfig.rag?.topK ?? 3}
+                      onChange={(e) => setUpdatedAgentConfig({
+                        ...updatedAgentConfig,
+                        rag: {
+                          ...updatedAgentConfig.rag,
+                          topK: Math.max(1, Math.min(10, parseInt(e.target.value) || 1)),
+                        },
+                      })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Quantos trechos dos documentos são enviados ao modelo.
+                    </p>
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label>Similaridade mínima: {(updatedAgentConfig.rag?.similarityThreshold ?? 0.25).toFixed(2)}</Label>
+                    <div className="pt-2">
+                      <Slider
+                        value={[updatedAgentConfig.rag?.similarityThreshold ?? 0.25]}
+                        min={0}
+                        max={1}
+                        step={0.05}
+                        onValueChange={(values) => setUpdatedAgentConfig({
+                          ...updatedAgentConfig,
+                          rag: {
+                            ...updatedAgentConfig.rag,
+                            similarityThreshold: values[0],
+                          },
+                        })}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Vale para a busca vetorial; termos exatos (nomes, códigos) são encontrados pela busca lexical.
+                    </p>
+                  </div>
+                </div>
+                
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="ragRerank" className="font-medium">Reordenar com o modelo (rerank)</Label>
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button variant="ghost" size="icon" className="h-5 w-5">
+                            <HelpCircle className="h-3 w-3" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent className="max-w-sm">
+                          <p>Pede ao modelo uma nota de relevância para os melhores candidatos antes de escolher os trechos. Melhora a precisão, mas adiciona uma chamada por pergunta.</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                  </div>
+                  <Switch
+                    id="ragRerank"
+                    checked={Boolean(updatedAgentConfig.rag?.rerank)}
+                    onCheckedChange={(checked) => setUpdatedAgentConfig({
+                      ...updatedAgentConfig,
+                      rag: {
+                        ...updatedAgentConfig.rag,
+                        rerank: checked,
+                      },
+                    })}
+                  />
+                </div>
+                
                 <div className="pt-2">
                   <div className="flex items-center gap-2">
                     <FileText className="h-5 w-5 text-muted-foreground" />
@@ -550,27 +709,175 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
             <h3 className="text-lg font-medium">Configurações do Modelo</h3>
           </div>
           
+          <div className="space-y-2">
+            <Label htmlFor="providerType">Provedor</Label>
+            <Select
+              value={updatedAgentConfig.provider.type}
+              onValueChange={(value) => updateProvider({ type: value as LLMProviderConfig["type"] })}
+            >
+              <SelectTrigger id="providerType">
+                <SelectValue placeholder="Selecione o provedor" />
+              </SelectTrigger>
+              <SelectContent>
+                {providerOptions.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              As requisições passam pelo servidor; chaves de API nunca são enviadas ao navegador.
+            </p>
+          </div>
+          
+          {updatedAgentConfig.provider.type === "openai-compatible" && (
+            <div className="space-y-4 p-4 border rounded-lg">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="providerBaseUrl">URL base</Label>
+                  <Input
+                    id="providerBaseUrl"
+                    value={updatedAgentConfig.provider.baseUrl || ""}
+                    onChange={(e) => updateProvider({ baseUrl: e.target.value })}
+                    placeholder="http://localhost:11434/v1"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Endereço que expõe /chat/completions. Para Azure, inclua o caminho da implantação. Precisa estar na lista LLM_COMPATIBLE_BASE_URLS do servidor.
+                  </p>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="providerApiVersion">Versão da API (opcional)</Label>
+                  <Input
+                    id="providerApiVersion"
+                    value={updatedAgentConfig.provider.apiVersion || ""}
+                    onChange={(e) => updateProvider({ apiVersion: e.target.value })}
+                    placeholder="2024-06-01"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Enviada como parâmetro api-version (necessário em implantações Azure).
+                  </p>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="providerAuthHeader">Cabeçalho de autenticação</Label>
+                  <Select
+                    value={updatedAgentConfig.provider.authHeader || "bearer"}
+                    onValueChange={(value) => updateProvider({ authHeader: value as LLMProviderConfig["authHeader"] })}
+                  >
+                    <SelectTrigger id="providerAuthHeader">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="bearer">Authorization: Bearer</SelectItem>
+                      <SelectItem value="api-key">api-key (Azure)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    A chave é lida da variável LLM_COMPATIBLE_API_KEY do servidor.
+                  </p>
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="providerEmbeddingModel">Modelo de embeddings</Label>
+                  <Input
+                    id="providerEmbeddingModel"
+                    value={updatedAgentConfig.provider.embeddingModel || ""}
+                    onChange={(e) => updateProvider({ embeddingModel: e.target.value })}
+                    placeholder="text-embedding-3-small"
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="providerTranscriptionModel">Modelo de transcrição</Label>
+                  <Input
+                    id="providerTranscriptionModel"
+                    value={updatedAgentConfig.provider.transcriptionModel || ""}
+                    onChange={(e) => updateProvider({ transcriptionModel: e.target.value })}
+                    placeholder="whisper-1"
+                  />
+                </div>
+                
+                <div className="space-y-2">
+                  <Label htmlFor="providerSpeechModel">Modelo de voz</Label>
+                  <Input
+                    id="providerSpeechModel"
+                    value={updatedAgentConfig.provider.speechModel || ""}
+                    onChange={(e) => updateProvider({ speechModel: e.target.value })}
+                    placeholder="tts-1"
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          
+          {updatedAgentConfig.provider.type === "mock" && (
+            <div className="space-y-4 p-4 border rounded-lg">
+              <div className="space-y-2">
+                <Label htmlFor="mockScript">Roteiro de respostas (JSON)</Label>
+                <Textarea
+                  id="mockScript"
+                  value={mockScriptText}
+                  onChange={(e) => setMockScriptText(e.target.value)}
+                  onBlur={applyMockScript}
+                  rows={6}
+                  className="font-mono text-xs"
+                  placeholder='[{ "match": "horário", "response": "Funcionamos das 8h às 18h." }]'
+                />
+                <p className="text-xs text-muted-foreground">
+                  A primeira entrada cujo "match" aparece na mensagem do usuário é usada ("match" vazio responde a qualquer mensagem).
+                  Entradas com "functionCall" acionam a função, e {"{result}"} na resposta é substituído pelo retorno dela.
+                </p>
+              </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="mockTranscript">Transcrição simulada</Label>
+                <Input
+                  id="mockTranscript"
+                  value={updatedAgentConfig.provider.mockTranscript || ""}
+                  onChange={(e) => updateProvider({ mockTranscript: e.target.value })}
+                  placeholder="Olá, esta é uma transcrição simulada."
+                />
+              </div>
+            </div>
+          )}
+          
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="model">Modelo OpenAI</Label>
-              <Select
-                value={updatedAgentConfig.model}
-                onValueChange={(value) => setUpdatedAgentConfig({
-                  ...updatedAgentConfig,
-                  model: value,
-                })}
-              >
-                <SelectTrigger id="model">
-                  <SelectValue placeholder="Selecione o modelo" />
-                </SelectTrigger>
-                <SelectContent>
-                  {modelOptions.map((model) => (
-                    <SelectItem key={model.id} value={model.id}>
-                      {model.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
+              <Label htmlFor="model">
+                {updatedAgentConfig.provider.type === "openai" ? "Modelo OpenAI" : "Modelo"}
+              </Label>
+              {updatedAgentConfig.provider.type === "openai" ? (
+                <Select
+                  value={updatedAgentConfig.model}
+                  onValueChange={(value) => setUpdatedAgentConfig({
+                    ...updatedAgentConfig,
+                    model: value,
+                  })}
+                >
+                  <SelectTrigger id="model">
+                    <SelectValue placeholder="Selecione o modelo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {modelOptions.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <Input
+                  id="model"
+                  value={updatedAgentConfig.model}
+                  onChange={(e) => setUpdatedAgentConfig({
+                    ...updatedAgentConfig,
+                    model: e.target.value,
+                  })}
+                  placeholder="llama3.1"
+                />
+              )}
               <p className="text-xs text-muted-foreground">
                 Selecione o modelo de IA que será usado para gerar respostas.
               </p>
@@ -691,6 +998,8 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
               <TabsList className="mb-4">
                 <TabsTrigger value="basic">Básico</TabsTrigger>
                 <TabsTrigger value="advanced">Avançado</TabsTrigger>
+                <TabsTrigger value="pronunciation">Pronúncia</TabsTrigger>
+                <TabsTrigger value="recording">Gravação</TabsTrigger>
               </TabsList>
               
               <TabsContent value="basic">
@@ -895,7 +1204,7 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
                           <Input
                             type="number"
                             id="silenceTimeout"
-                            min="1"
+                            min="5"
                             max="60"
                             value={updatedAgentConfig.voice.silenceTimeout || 10}
                             onChange={(e) => setUpdatedAgentConfig({
@@ -909,7 +1218,7 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
                           <span className="text-sm text-muted-foreground">seg</span>
                         </div>
                         <p className="text-xs text-muted-foreground">
-                          Tempo de espera antes de encerrar chamada por inatividade
+                          Tempo sem fala do usuário antes de encerrar a chamada por inatividade, com aviso nos últimos segundos
                         </p>
                       </div>
                       
@@ -943,7 +1252,7 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
                     <Label htmlFor="endCallMessage">Mensagem de encerramento</Label>
                     <Textarea
                       id="endCallMessage"
-                      value={updatedAgentConfig.voice.endCallMessage || "Encerrando chamada por inatividade. Obrigado pela conversa."}
+                      value={resolveEndCallMessage(updatedAgentConfig.voice.endCallMessage, updatedAgentConfig.voice.language)}
                       onChange={(e) => setUpdatedAgentConfig({
                         ...updatedAgentConfig,
                         voice: {
@@ -959,6 +1268,72 @@ const AgentConfigTab: React.FC<AgentConfigTabProps> = ({
                   </div>
                 </div>
               </TabsContent>
+
+              <TabsContent value="pronunciation">
+                <PronunciationLexiconSection
+                  pronunciations={updatedAgentConfig.voice.pronunciations || []}
+                  language={updatedAgentConfig.voice.language}
+                  onChange={(pronunciations) => setUpdatedAgentConfig({
+                    ...updatedAgentConfig,
+                    voice: {
+                      ...updatedAgentConfig.voice,
+                      pronunciations
+                    }
+                  })}
+                />
+              </TabsContent>
+
+              <TabsContent value="recording">
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-1">
+                      <Label htmlFor="recordingEnabled">Gravar chamadas</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Guarda no servidor o áudio do usuário e as respostas faladas de cada turno, para controle de qualidade.
+                        O usuário é avisado e só é gravado se permitir.
+                      </p>
+                    </div>
+                    <Switch
+                      id="recordingEnabled"
+                      checked={updatedAgentConfig.voice.recording?.enabled || false}
+                      onCheckedChange={(checked) => updateRecordingConfig({ enabled: checked })}
+                    />
+                  </div>
+
+                  {updatedAgentConfig.voice.recording?.enabled && (
+                    <>
+                      <div className="space-y-2">
+                        <Label htmlFor="recordingRetentionDays">Período de retenção (dias)</Label>
+                        <Input
+                          type="number"
+                          id="recordingRetentionDays"
+                          min="1"
+                          max="365"
+                          step="1"
+                          value={updatedAgentConfig.voice.recording.retentionDays || DEFAULT_RECORDING_RETENTION_DAYS}
+                          onChange={(e) => updateRecordingConfig({ retentionDays: parseInt(e.target.value, 10) })}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          As gravações são apagadas automaticamente depois desse período
+                        </p>
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="recordingConsentMessage">Aviso de gravação</Label>
+                        <Textarea
+                          id="recordingConsentMessage"
+                          value={updatedAgentConfig.voice.recording.consentMessage ?? DEFAULT_RECORDING_CONSENT_MESSAGE}
+                          onChange={(e) => updateRecordingConfig({ consentMessage: e.target.value })}
+                          rows={2}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Texto mostrado ao usuário para pedir o consentimento antes de gravar
+                        </p>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </TabsContent>
             </Tabs>
 
             <div className="mt-2 p-3 bg-primary/5 rounded border border-primary/10">
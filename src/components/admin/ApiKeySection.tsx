@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Check, Save, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { useChat } from "@/contexts/ChatContext";
+import { saveApiKeyToServer } from "@/services/databaseService";
 
 interface ApiKeySectionProps {
   apiKey: string;
@@ -46,6 +47,12 @@ const ApiKeySection: React.FC<ApiKeySectionProps> = ({ apiKey, setApiKey }) => {
         apiKey: keyInput.trim()
       };
       
+      // The LLM proxy reads the key on the server, so it must be saved there
+      const savedOnServer = await saveApiKeyToServer(updatedConfig);
+      if (!savedOnServer) {
+        throw new Error('Falha ao salvar a chave API no servidor');
+      }
+      
       const success = await updateAdminConfig(updatedConfig);
       
       if (success) {
@@ -108,7 +115,7 @@ const ApiKeySection: React.FC<ApiKeySectionProps> = ({ apiKey, setApiKey }) => {
         <p className="text-sm text-muted-foreground">
           {isDbConnected 
             ? "A chave API é armazenada no servidor e usada apenas para comunicações com a OpenAI."
-            : "A chave API é armazenada localmente no seu navegador."}
+            : "A chave API é armazenada no arquivo de configuração do servidor."}
         </p>
         {!isDbConnected && (
           <AlertCircle size={14} className="text-yellow-500 ml-1" />
@@ -0,0 +1,263 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Card, CardHeader, CardContent, CardDescription, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Play, Square, RefreshCw, Trash2, Phone, User, Bot, Eraser } from "lucide-react";
+import { toast } from "sonner";
+import { formatBytes } from "@/lib/utils";
+import {
+  getRecordedCalls,
+  getCallRecordingTurns,
+  getCallRecordingAudio,
+  deleteCallRecordings,
+  purgeCallRecordings,
+  RecordedCall,
+  CallRecordingTurn
+} from "@/services/databaseService";
+
+interface CallRecordingsTabProps {
+  retentionDays: number;
+}
+
+const formatDuration = (ms: number | null) => {
+  if (!ms) return null;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+const CallRecordingsTab: React.FC<CallRecordingsTabProps> = ({ retentionDays }) => {
+  const [calls, setCalls] = useState<RecordedCall[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedCallId, setSelectedCallId] = useState<string | null>(null);
+  const [turns, setTurns] = useState<CallRecordingTurn[]>([]);
+  const [playingIndex, setPlayingIndex] = useState<number | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  // URL do áudio baixado do turno em reprodução, liberada ao trocar de turno
+  const audioUrlRef = useRef<string | null>(null);
+
+  const releaseAudioUrl = () => {
+    if (audioUrlRef.current) {
+      URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = null;
+    }
+  };
+
+  const loadCalls = async () => {
+    setIsLoading(true);
+    try {
+      setCalls(await getRecordedCalls());
+    } catch (error) {
+      console.error("Error loading call recordings:", error);
+      toast.error("Não foi possível carregar as gravações", {
+        description: "As gravações ficam no banco de dados do servidor"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadCalls();
+    return releaseAudioUrl;
+  }, []);
+
+  const stopPlayback = () => {
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.removeAttribute("src");
+    }
+    releaseAudioUrl();
+    setPlayingIndex(null);
+  };
+
+  // Toca a partir de um turno e segue para os próximos, como na chamada
+  const playFrom = async (index: number) => {
+    const turn = turns[index];
+    if (!turn || !audioRef.current) {
+      stopPlayback();
+      return;
+    }
+
+    setPlayingIndex(index);
+    try {
+      // A rota do áudio exige a sessão de admin, que um src de <audio> não envia
+      const audio = await getCallRecordingAudio(turn.id);
+      releaseAudioUrl();
+      audioUrlRef.current = URL.createObjectURL(audio);
+      audioRef.current.src = audioUrlRef.current;
+      await audioRef.current.play();
+    } catch (error) {
+      console.error("Error playing call recording:", error);
+      toast.error("Não foi possível reproduzir o turno");
+      setPlayingIndex(null);
+    }
+  };
+
+  const handleSelectCall = async (conversationId: string) => {
+    stopPlayback();
+    setSelectedCallId(conversationId);
+    setTurns([]);
+    try {
+      setTurns(await getCallRecordingTurns(conversationId));
+    } catch (error) {
+      console.error("Error loading call turns:", error);
+      toast.error("Não foi possível carregar os turnos da chamada");
+    }
+  };
+
+  const handleDeleteCall = async (conversationId: string) => {
+    try {
+      await deleteCallRecordings(conversationId);
+      if (selectedCallId === conversationId) {
+        stopPlayback();
+        setSelectedCallId(null);
+        setTurns([]);
+      }
+      setCalls(prev => prev.filter(call => call.conversationId !== conversationId));
+      toast.success("Gravações da chamada removidas");
+    } catch (error) {
+      console.error("Error deleting call recordings:", error);
+      toast.error("Erro ao remover as gravações");
+    }
+  };
+
+  const handlePurge = async () => {
+    try {
+      const deleted = await purgeCallRecordings(retentionDays);
+      toast.success(deleted > 0
+        ? `${deleted} gravações fora do período de retenção removidas`
+        : "Nenhuma gravação fora do período de retenção");
+      stopPlayback();
+      setSelectedCallId(null);
+      setTurns([]);
+      await loadCalls();
+    } catch (error) {
+      console.error("Error purging call recordings:", error);
+      toast.error("Erro ao aplicar a retenção");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Gravações de Chamadas</CardTitle>
+        <CardDescription>
+          Chamadas de voz gravadas com o consentimento do usuário. Ouça cada chamada turno a turno, com a transcrição
+          ao lado. As gravações são apagadas depois de {retentionDays} dias.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={handlePurge}>
+            <Eraser className="h-4 w-4 mr-1" /> Aplicar retenção agora
+          </Button>
+          <Button variant="outline" size="sm" onClick={loadCalls} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? "animate-spin" : ""}`} /> Atualizar
+          </Button>
+        </div>
+
+        {calls.length === 0 ? (
+          <div className="bg-muted p-4 rounded-md text-center text-muted-foreground">
+            <Phone className="h-6 w-6 mx-auto mb-2" />
+            <p>Nenhuma chamada gravada</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {calls.map((call) => (
+              <div
+                key={call.conversationId}
+                className={`p-3 rounded-md flex items-center justify-between gap-2 cursor-pointer ${
+                  selectedCallId === call.conversationId ? "bg-primary/10 border border-primary/20" : "bg-muted"
+                }`}
+                onClick={() => handleSelectCall(call.conversationId)}
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{new Date(call.startedAt).toLocaleString()}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {call.turnCount} turnos • {formatBytes(call.totalSize)}
+                    {call.expiresAt && ` • apagada em ${new Date(call.expiresAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeleteCall(call.conversationId);
+                  }}
+                  className="text-destructive hover:text-destructive/90 hover:bg-destructive/10"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {selectedCallId && (
+          <div className="border rounded-md p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Turnos da chamada</h4>
+              {playingIndex === null ? (
+                <Button size="sm" onClick={() => playFrom(0)} disabled={turns.length === 0}>
+                  <Play className="h-4 w-4 mr-1" /> Ouvir chamada
+                </Button>
+              ) : (
+                <Button size="sm" variant="outline" onClick={stopPlayback}>
+                  <Square className="h-4 w-4 mr-1" /> Parar
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {turns.map((turn, index) => (
+                <div
+                  key={turn.id}
+                  className={`flex items-start gap-2 p-2 rounded-md ${
+                    playingIndex === index ? "bg-primary/10" : ""
+                  }`}
+                >
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 flex-shrink-0"
+                    onClick={() => playFrom(index)}
+                    title="Ouvir a partir deste turno"
+                  >
+                    <Play className="h-3 w-3" />
+                  </Button>
+                  {turn.role === "user" ? (
+                    <User className="h-4 w-4 mt-1.5 flex-shrink-0 text-muted-foreground" />
+                  ) : (
+                    <Bot className="h-4 w-4 mt-1.5 flex-shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={turn.role === "user" ? "outline" : "secondary"}>
+                        {turn.role === "user" ? "Usuário" : "Assistente"}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(turn.createdAt).toLocaleTimeString()}
+                        {formatDuration(turn.durationMs) && ` • ${formatDuration(turn.durationMs)}`}
+                      </span>
+                    </div>
+                    <p className="text-sm">{turn.transcript || <span className="italic text-muted-foreground">Sem transcrição</span>}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <audio
+          ref={audioRef}
+          className="hidden"
+          onEnded={() => playingIndex !== null && playFrom(playingIndex + 1)}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CallRecordingsTab;
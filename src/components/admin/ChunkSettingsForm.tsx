@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChunkingStrategy, ChunkSettings, TrainingFile } from "@/types/chat";
+import { previewChunkSettings } from "@/services/databaseService";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+interface ChunkSettingsFormProps {
+  file: TrainingFile;
+  onSave: (chunking: ChunkSettings) => Promise<void>;
+}
+
+const STRATEGY_LABELS: Record<Exclude<ChunkingStrategy, 'auto'>, string> = {
+  markdown: "Markdown (por título)",
+  csv: "CSV (grupos de linhas)",
+  json: "JSON (por registro)",
+  text: "Texto (por frase)"
+};
+
+const ChunkSettingsForm: React.FC<ChunkSettingsFormProps> = ({ file, onSave }) => {
+  const [settings, setSettings] = useState<Required<ChunkSettings> | null>(null);
+  const [detectedStrategy, setDetectedStrategy] = useState<Exclude<ChunkingStrategy, 'auto'>>('text');
+  const [loadError, setLoadError] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Os padrões e a estratégia automática vêm dos chunkers do servidor, que fazem a divisão
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(false);
+    previewChunkSettings({ name: file.name, type: file.type }, file.chunking)
+      .then(preview => {
+        if (cancelled) return;
+        setSettings(preview.settings);
+        setDetectedStrategy(preview.detectedStrategy);
+      })
+      .catch(error => {
+        console.error("Error loading chunk settings:", error);
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file.name, file.type, file.chunking]);
+
+  if (!settings) {
+    return (
+      <div className="mt-2 p-3 border rounded-md text-xs text-muted-foreground">
+        {loadError
+          ? "As configurações de divisão em fragmentos requerem conexão com o servidor"
+          : "Carregando configurações de divisão..."}
+      </div>
+    );
+  }
+
+  const effectiveStrategy = settings.strategy === 'auto' ? detectedStrategy : settings.strategy;
+
+  const updateNumber = (key: 'chunkSize' | 'chunkOverlap' | 'rowsPerChunk', value: string) => {
+    const parsed = parseInt(value, 10);
+    setSettings(prev => ({ ...prev, [key]: isNaN(parsed) ? prev[key] : parsed }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // O servidor completa e ajusta os valores fora dos limites antes de salvar
+      const preview = await previewChunkSettings(file, settings);
+      await onSave(preview.settings);
+    } catch (error) {
+      console.error("Error saving chunk settings:", error);
+      toast.error("Erro ao salvar as configurações de divisão");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-3 border rounded-md space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Divisão em fragmentos</h4>
+        <span className="text-xs text-muted-foreground">
+          Estratégia em uso: {STRATEGY_LABELS[effectiveStrategy]}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor={`strategy-${file.id}`} className="text-xs">Estratégia</Label>
+          <Select
+            value={settings.strategy}
+            onValueChange={(value: ChunkingStrategy) => setSettings(prev => ({ ...prev, strategy: value }))}
+          >
+            <SelectTrigger id={`strategy-${file.id}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Automática (pelo tipo do arquivo)</SelectItem>
+              {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor={`chunkSize-${file.id}`} className="text-xs">Tamanho do fragmento (tokens)</Label>
+          <Input
+            id={`chunkSize-${file.id}`}
+            type="number"
+            min={20}
+            value={settings.chunkSize}
+            onChange={(e) => updateNumber('chunkSize', e.target.value)}
+          />
+        </div>
+
+        {effectiveStrategy === 'csv' ? (
+          <div className="space-y-1">
+            <Label htmlFor={`rowsPerChunk-${file.id}`} className="text-xs">Linhas por fragmento</Label>
+            <Input
+              id={`rowsPerChunk-${file.id}`}
+              type="number"
+              min={1}
+              value={settings.rowsPerChunk}
+              onChange={(e) => updateNumber('rowsPerChunk', e.target.value)}
+            />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Label htmlFor={`chunkOverlap-${file.id}`} className="text-xs">Sobreposição (tokens)</Label>
+            <Input
+              id={`chunkOverlap-${file.id}`}
+              type="number"
+              min={0}
+              value={settings.chunkOverlap}
+              onChange={(e) => updateNumber('chunkOverlap', e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={isSaving}>
+          <RefreshCw className={`h-3 w-3 mr-1 ${isSaving ? "animate-spin" : ""}`} />
+          Salvar e reindexar
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default ChunkSettingsForm;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import { Command, CommandInput, CommandList, CommandEmpty, CommandGroup, CommandItem } from "@/components/ui/command";
+import { Button } from "@/components/ui/button";
+import { User, Bot, Info, Loader2, ChevronDown } from "lucide-react";
+import { toast } from "sonner";
+import { Message } from "@/types/chat";
+import { searchConversationMessages, MessageSearchResult } from "@/services/databaseService";
+
+interface ConversationSearchProps {
+  onSelectResult: (result: MessageSearchResult) => void;
+}
+
+type RoleFilter = "all" | "user" | "assistant";
+
+const ROLE_FILTERS: { value: RoleFilter; label: string }[] = [
+  { value: "all", label: "Todas" },
+  { value: "user", label: "Usuário" },
+  { value: "assistant", label: "Assistente" }
+];
+
+// Espera o usuário parar de digitar antes de consultar o servidor
+const SEARCH_DEBOUNCE_MS = 300;
+
+const hasWords = (text: string) => /[\p{L}\p{N}]/u.test(text);
+
+// Trecho da mensagem com as palavras encontradas destacadas
+const renderSnippet = (snippet: string, highlights: [number, number][]) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach(([start, end], index) => {
+    parts.push(snippet.slice(position, start));
+    parts.push(
+      <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 rounded-sm px-0.5">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(snippet.slice(position));
+  return parts;
+};
+
+const RoleIcon: React.FC<{ role: Message["role"] }> = ({ role }) => {
+  if (role === "user") return <User className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />;
+  if (role === "assistant") return <Bot className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />;
+  return <Info className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />;
+};
+
+const ConversationSearch: React.FC<ConversationSearchProps> = ({ onSelectResult }) => {
+  const [query, setQuery] = useState("");
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>("all");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Só a busca mais recente atualiza a lista (as respostas podem chegar fora de ordem)
+  const searchIdRef = useRef(0);
+
+  const search = useCallback(async (offset: number) => {
+    const searchId = ++searchIdRef.current;
+    setIsSearching(true);
+    try {
+      const page = await searchConversationMessages(query, roleFilter === "all" ? [] : [roleFilter], offset);
+      if (searchId !== searchIdRef.current) return;
+      setResults(prev => offset > 0 ? [...prev, ...page.results] : page.results);
+      setNextOffset(page.nextOffset);
+    } catch (error) {
+      if (searchId !== searchIdRef.current) return;
+      console.error("Error searching messages:", error);
+      toast.error("Não foi possível buscar nas conversas", {
+        description: "A busca usa o banco de dados do servidor"
+      });
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setIsSearching(false);
+      }
+    }
+  }, [query, roleFilter]);
+
+  useEffect(() => {
+    if (!hasWords(query)) {
+      searchIdRef.current++;
+      setResults([]);
+      setNextOffset(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const timer = setTimeout(() => search(0), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, search]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-muted-foreground mr-1">Mensagens de:</span>
+        {ROLE_FILTERS.map(filter => (
+          <Button
+            key={filter.value}
+            type="button"
+            size="sm"
+            variant={roleFilter === filter.value ? "secondary" : "ghost"}
+            className="h-7 px-2 text-xs"
+            onClick={() => setRoleFilter(filter.value)}
+          >
+            {filter.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* A lista vem filtrada e ordenada pelo servidor; o cmdk só cuida da navegação pelo teclado */}
+      <Command shouldFilter={false} className="border rounded-md">
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Buscar em todas as mensagens (↑ ↓ para navegar, Enter para abrir)"
+        />
+        {hasWords(query) && (
+          <CommandList>
+            {isSearching && results.length === 0 ? (
+              <div className="py-6 flex justify-center text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <CommandEmpty>Nenhuma mensagem encontrada</CommandEmpty>
+            )}
+            {results.length > 0 && (
+              <CommandGroup heading="Mensagens">
+                {results.map(result => (
+                  <CommandItem
+                    key={result.messageId}
+                    value={result.messageId}
+                    onSelect={() => onSelectResult(result)}
+                    className="items-start gap-2"
+                  >
+                    <RoleIcon role={result.role} />
+                    <div className="min-w-0 space-y-0.5">
+                      <p className="text-sm">{renderSnippet(result.snippet, result.highlights)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(result.timestamp).toLocaleString()} • conversa de{" "}
+                        {new Date(result.conversationCreatedAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+                {nextOffset !== null && (
+                  <CommandItem
+                    value="load-more"
+                    onSelect={() => search(nextOffset)}
+                    disabled={isSearching}
+                    className="justify-center text-muted-foreground"
+                  >
+                    <ChevronDown className="h-4 w-4 mr-1" /> Carregar mais resultados
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+          </CommandList>
+        )}
+      </Command>
+    </div>
+  );
+};
+
+export default ConversationSearch;
@@ -0,0 +1,330 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardHeader, CardContent, CardDescription, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, Search, MessagesSquare, Phone, User, Bot, Info, X } from "lucide-react";
+import { toast } from "sonner";
+import ConversationSearch from "@/components/admin/ConversationSearch";
+import {
+  getConversationHistory,
+  getConversationTranscript,
+  ConversationHistoryFilters,
+  ConversationSummary,
+  ConversationTranscript,
+  MessageSearchResult
+} from "@/services/databaseService";
+
+// Sentimentos pedidos ao modelo com detectEmotion (em português)
+const SENTIMENTS = ["Feliz", "Triste", "Irritado", "Confuso", "Neutro", "Preocupado", "Satisfeito"];
+
+interface FilterForm {
+  q: string;
+  from: string;
+  to: string;
+  voice: "all" | "voice" | "text";
+  sentiment: string;
+  minMessages: string;
+  maxMessages: string;
+}
+
+const EMPTY_FILTERS: FilterForm = {
+  q: "",
+  from: "",
+  to: "",
+  voice: "all",
+  sentiment: "all",
+  minMessages: "",
+  maxMessages: ""
+};
+
+// Datas do formulário são dias locais; o período inclui o dia final inteiro
+const toHistoryFilters = (form: FilterForm): ConversationHistoryFilters => ({
+  q: form.q.trim() || undefined,
+  from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+  to: form.to ? new Date(`${form.to}T23:59:59.999`).toISOString() : undefined,
+  hasVoice: form.voice === "all" ? undefined : form.voice === "voice",
+  sentiment: form.sentiment === "all" ? undefined : form.sentiment,
+  minMessages: form.minMessages ? Number(form.minMessages) : undefined,
+  maxMessages: form.maxMessages ? Number(form.maxMessages) : undefined
+});
+
+const ConversationsTab: React.FC = () => {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<ConversationHistoryFilters>({});
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selected, setSelected] = useState<ConversationTranscript | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+
+  // Sem cursor recarrega a lista desde o início; com cursor acrescenta a próxima página
+  const loadConversations = async (filters: ConversationHistoryFilters, cursor?: string | null) => {
+    setIsLoading(true);
+    try {
+      const page = await getConversationHistory(filters, cursor);
+      setConversations(prev => cursor ? [...prev, ...page.conversations] : page.conversations);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error("Error loading conversation history:", error);
+      toast.error("Não foi possível carregar as conversas", {
+        description: "O histórico fica no banco de dados do servidor"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadConversations({});
+  }, []);
+
+  const updateForm = (updates: Partial<FilterForm>) => setForm(prev => ({ ...prev, ...updates }));
+
+  const handleApplyFilters = (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const filters = toHistoryFilters(form);
+    setAppliedFilters(filters);
+    loadConversations(filters);
+  };
+
+  const handleClearFilters = () => {
+    setForm(EMPTY_FILTERS);
+    setAppliedFilters({});
+    loadConversations({});
+  };
+
+  const openTranscript = async (conversationId: string, messageId: string | null = null) => {
+    try {
+      setSelected(await getConversationTranscript(conversationId));
+      setHighlightedMessageId(messageId);
+    } catch (error) {
+      console.error("Error loading conversation transcript:", error);
+      toast.error("Não foi possível carregar a transcrição");
+    }
+  };
+
+  const handleSelectConversation = (conversationId: string) => {
+    if (selected?.id === conversationId) {
+      setSelected(null);
+      return;
+    }
+    openTranscript(conversationId);
+  };
+
+  // Um resultado da busca abre a transcrição na mensagem encontrada
+  const handleSelectSearchResult = (result: MessageSearchResult) => {
+    openTranscript(result.conversationId, result.messageId);
+  };
+
+  useEffect(() => {
+    if (selected && highlightedMessageId) {
+      document.getElementById(`transcript-message-${highlightedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [selected, highlightedMessageId]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Conversas</CardTitle>
+        <CardDescription>
+          Histórico das conversas salvas no servidor, das mais recentes para as mais antigas. Filtre por período,
+          chamadas de voz, sentimento detectado, número de mensagens ou por um texto das mensagens.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ConversationSearch onSelectResult={handleSelectSearchResult} />
+
+        <form onSubmit={handleApplyFilters} className="space-y-3">
+          <div className="relative">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={form.q}
+              onChange={(e) => updateForm({ q: e.target.value })}
+              placeholder="Buscar no conteúdo das mensagens"
+              className="pl-9"
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="history-from">De</Label>
+              <Input id="history-from" type="date" value={form.from} onChange={(e) => updateForm({ from: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to">Até</Label>
+              <Input id="history-to" type="date" value={form.to} onChange={(e) => updateForm({ to: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Voz</Label>
+              <Select value={form.voice} onValueChange={(value: FilterForm["voice"]) => updateForm({ voice: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todas</SelectItem>
+                  <SelectItem value="voice">Com chamada de voz</SelectItem>
+                  <SelectItem value="text">Somente texto</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Sentimento</Label>
+              <Select value={form.sentiment} onValueChange={(value) => updateForm({ sentiment: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Todos</SelectItem>
+                  {SENTIMENTS.map(sentiment => (
+                    <SelectItem key={sentiment} value={sentiment}>{sentiment}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-min">Mín. de mensagens</Label>
+              <Input
+                id="history-min"
+                type="number"
+                min={0}
+                value={form.minMessages}
+                onChange={(e) => updateForm({ minMessages: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-max">Máx. de mensagens</Label>
+              <Input
+                id="history-max"
+                type="number"
+                min={0}
+                value={form.maxMessages}
+                onChange={(e) => updateForm({ maxMessages: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={handleClearFilters}>
+              <X className="h-4 w-4 mr-1" /> Limpar filtros
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => loadConversations(appliedFilters)} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isLoading ? "animate-spin" : ""}`} /> Atualizar
+            </Button>
+            <Button type="submit" size="sm" disabled={isLoading}>
+              <Search className="h-4 w-4 mr-1" /> Filtrar
+            </Button>
+          </div>
+        </form>
+
+        {conversations.length === 0 ? (
+          <div className="bg-muted p-4 rounded-md text-center text-muted-foreground">
+            <MessagesSquare className="h-6 w-6 mx-auto mb-2" />
+            <p>{isLoading ? "Carregando conversas..." : "Nenhuma conversa encontrada"}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {conversations.map((conversation) => (
+              <div
+                key={conversation.id}
+                className={`p-3 rounded-md cursor-pointer space-y-1 ${
+                  selected?.id === conversation.id ? "bg-primary/10 border border-primary/20" : "bg-muted"
+                }`}
+                onClick={() => handleSelectConversation(conversation.id)}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="text-sm font-medium">{new Date(conversation.createdAt).toLocaleString()}</p>
+                  <div className="flex items-center gap-1">
+                    {conversation.hasVoice && (
+                      <Badge variant="outline">
+                        <Phone className="h-3 w-3 mr-1" /> Voz
+                      </Badge>
+                    )}
+                    {conversation.sentiment && <Badge variant="secondary">{conversation.sentiment}</Badge>}
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {conversation.preview || <span className="italic">Sem mensagens do usuário</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {conversation.messageCount} mensagens
+                  {conversation.lastMessageAt && ` • última em ${new Date(conversation.lastMessageAt).toLocaleString()}`}
+                </p>
+              </div>
+            ))}
+
+            {nextCursor && (
+              <div className="flex justify-center">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => loadConversations(appliedFilters, nextCursor)}
+                  disabled={isLoading}
+                >
+                  Carregar mais
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {selected && (
+          <div className="border rounded-md p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Transcrição</h4>
+              <Button variant="ghost" size="sm" onClick={() => { setSelected(null); setHighlightedMessageId(null); }} title="Fechar transcrição">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="space-y-2">
+              {selected.messages.map((message) => (
+                message.role === "system" ? (
+                  <div
+                    key={message.id}
+                    id={`transcript-message-${message.id}`}
+                    className={`flex items-center gap-2 text-xs text-muted-foreground p-2 rounded-md ${
+                      highlightedMessageId === message.id ? "bg-primary/10" : ""
+                    }`}
+                  >
+                    <Info className="h-3 w-3 flex-shrink-0" />
+                    <span>{message.content}</span>
+                    <span>• {message.timestamp.toLocaleTimeString()}</span>
+                  </div>
+                ) : (
+                  <div
+                    key={message.id}
+                    id={`transcript-message-${message.id}`}
+                    className={`flex items-start gap-2 p-2 rounded-md ${
+                      highlightedMessageId === message.id ? "bg-primary/10" : ""
+                    }`}
+                  >
+                    {message.role === "user" ? (
+                      <User className="h-4 w-4 mt-1.5 flex-shrink-0 text-muted-foreground" />
+                    ) : (
+                      <Bot className="h-4 w-4 mt-1.5 flex-shrink-0 text-muted-foreground" />
+                    )}
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={message.role === "user" ? "outline" : "secondary"}>
+                          {message.role === "user" ? "Usuário" : "Assistente"}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {message.timestamp.toLocaleTimeString()}
+                          {message.truncated && " • interrompida"}
+                        </span>
+                      </div>
+                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                    </div>
+                  </div>
+                )
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConversationsTab;
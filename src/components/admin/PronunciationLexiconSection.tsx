@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2, BookA } from "lucide-react";
+import { toast } from "sonner";
+import { PronunciationEntry } from "@/types/chat";
+import { normalizeForSpeech } from "@/utils/speechNormalizer";
+import { DEFAULT_LANGUAGE, resolveCallLanguage } from "@/utils/language";
+
+interface PronunciationLexiconSectionProps {
+  pronunciations: PronunciationEntry[];
+  language?: string;
+  onChange: (pronunciations: PronunciationEntry[]) => void;
+}
+
+const PronunciationLexiconSection: React.FC<PronunciationLexiconSectionProps> = ({
+  pronunciations,
+  language,
+  onChange,
+}) => {
+  const [term, setTerm] = useState("");
+  const [pronunciation, setPronunciation] = useState("");
+  const [sampleText, setSampleText] = useState("O modelo CPJ-3C custa R$ 1.299,90 e chega em 15/03/2026.");
+
+  const handleAdd = () => {
+    const trimmedTerm = term.trim();
+    if (!trimmedTerm || !pronunciation.trim()) {
+      toast.error("Informe o termo e como ele deve ser pronunciado");
+      return;
+    }
+
+    if (pronunciations.some(entry => entry.term.trim().toLowerCase() === trimmedTerm.toLowerCase())) {
+      toast.error(`O termo "${trimmedTerm}" já está no léxico`);
+      return;
+    }
+
+    onChange([...pronunciations, { id: uuidv4(), term: trimmedTerm, pronunciation: pronunciation.trim() }]);
+    setTerm("");
+    setPronunciation("");
+  };
+
+  const handleUpdate = (id: string, updates: Partial<PronunciationEntry>) => {
+    onChange(pronunciations.map(entry => (entry.id === id ? { ...entry, ...updates } : entry)));
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(pronunciations.filter(entry => entry.id !== id));
+  };
+
+  // Na detecção automática, a prévia usa o idioma padrão
+  const previewLanguage = resolveCallLanguage(language) || DEFAULT_LANGUAGE;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        <h4 className="text-sm font-medium">Léxico de Pronúncias</h4>
+        <p className="text-xs text-muted-foreground">
+          Termos que a voz do assistente deve falar de um jeito específico, como nomes de marcas e siglas.
+          O termo é procurado como palavra inteira, sem diferenciar maiúsculas.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="pronunciationTerm" className="text-xs">Termo</Label>
+          <Input
+            id="pronunciationTerm"
+            placeholder="CPJ-3C"
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="pronunciationValue" className="text-xs">Pronúncia</Label>
+          <Input
+            id="pronunciationValue"
+            placeholder="cê pê jota três cê"
+            value={pronunciation}
+            onChange={(e) => setPronunciation(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+        </div>
+        <Button type="button" onClick={handleAdd} disabled={!term.trim() || !pronunciation.trim()}>
+          <Plus className="h-4 w-4 mr-1" /> Adicionar
+        </Button>
+      </div>
+
+      {pronunciations.length === 0 ? (
+        <div className="bg-muted p-4 rounded-md text-center text-muted-foreground">
+          <BookA className="h-6 w-6 mx-auto mb-2" />
+          <p className="text-sm">Nenhuma pronúncia personalizada</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {pronunciations.map((entry) => (
+            <div key={entry.id} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-center">
+              <Input
+                value={entry.term}
+                onChange={(e) => handleUpdate(entry.id, { term: e.target.value })}
+                aria-label="Termo"
+              />
+              <Input
+                value={entry.pronunciation}
+                onChange={(e) => handleUpdate(entry.id, { pronunciation: e.target.value })}
+                aria-label="Pronúncia"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(entry.id)}
+                className="text-destructive hover:text-destructive/90 hover:bg-destructive/10"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="pronunciationSample" className="text-xs">Testar com um texto</Label>
+        <Input
+          id="pronunciationSample"
+          value={sampleText}
+          onChange={(e) => setSampleText(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground bg-muted p-2 rounded-md">
+          {normalizeForSpeech(sampleText, { language: previewLanguage, pronunciations }) || "—"}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Texto que será enviado para a síntese de voz, depois de remover formatação e escrever números,
+          valores e datas por extenso.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationLexiconSection;
@@ -6,12 +6,11 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { SHA256 } from "crypto-js";
 import { toast } from "sonner";
+import { AdminConfig } from "@/types/chat";
 
 interface SettingsTabProps {
-  adminConfig: {
-    passwordHash: string;
-  };
-  updateAdminConfig: (config: any) => void;
+  adminConfig: AdminConfig;
+  updateAdminConfig: (config: AdminConfig) => Promise<boolean>;
 }
 
 const SettingsTab: React.FC<SettingsTabProps> = ({ 
@@ -23,7 +22,7 @@ const SettingsTab: React.FC<SettingsTabProps> = ({
   const [confirmPassword, setConfirmPassword] = useState("");
 
   // Handle password change
-  const handlePasswordChange = () => {
+  const handlePasswordChange = async () => {
     // Check if current password is correct
     const currentHash = SHA256(currentPassword).toString();
     
@@ -42,11 +41,16 @@ const SettingsTab: React.FC<SettingsTabProps> = ({
       return;
     }
     
-    // Update password
+    // Update password (on the server too, which checks it at login)
     const newHash = SHA256(newPassword).toString();
-    updateAdminConfig({
+    const success = await updateAdminConfig({
+      ...adminConfig,
       passwordHash: newHash,
     });
+    if (!success) {
+      toast.error("Failed to update password");
+      return;
+    }
     
     toast.success("Password updated successfully");
     setCurrentPassword("");
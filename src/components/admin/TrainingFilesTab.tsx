@@ -2,26 +2,36 @@
 import React, { useState, useRef, useEffect } from "react";
 import { Card, CardHeader, CardContent, CardDescription, CardTitle, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { TrainingFile } from "@/types/chat";
+import { ChunkSettings, TrainingFile } from "@/types/chat";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { File, FileUp, Trash2, FileText, AlertCircle, CheckCircle2, Database, RefreshCw } from "lucide-react";
 import { toast } from "sonner";
-import { formatBytes } from "@/lib/utils";
+import { blobToBase64, formatBytes } from "@/lib/utils";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { v4 as uuidv4 } from "uuid";
 import { embeddingService } from "@/utils/embeddingService";
+import ChunkSettingsForm from "./ChunkSettingsForm";
+
+// Limite do servidor (TRAINING_MAX_FILE_SIZE_MB no backend)
+const MAX_FILE_SIZE_MB = 20;
+const TEXT_EXTENSIONS = [".txt", ".md", ".csv", ".json", ".html", ".htm"];
+// Formatos cujo texto só pode ser extraído no servidor
+const EXTRACTED_EXTENSIONS = [".docx", ".pdf"];
+const SUPPORTED_EXTENSIONS = [...TEXT_EXTENSIONS, ...EXTRACTED_EXTENSIONS].join(", ");
 
 interface TrainingFilesTabProps {
   trainingFiles: TrainingFile[];
   addTrainingFile: (file: TrainingFile) => Promise<boolean>;
   removeTrainingFile: (id: string) => Promise<boolean>;
+  updateTrainingFile: (file: TrainingFile) => Promise<boolean>;
 }
 
 const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
   trainingFiles,
   addTrainingFile,
   removeTrainingFile,
+  updateTrainingFile,
 }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [openFileId, setOpenFileId] = useState<string | null>(null);
@@ -69,7 +79,7 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
       
       // Index all training files
       for (const file of trainingFiles) {
-        await embeddingService.addDocument(file.id, file.name, file.content);
+        await embeddingService.ingestDocument(file);
       }
       
       updateIndexingStatus();
@@ -91,71 +101,68 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
     setUploadSuccess(null);
     
     try {
-      // Process only text files
       const file = files[0];
-      const isDocx = file.name.endsWith(".docx") || 
-                     file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+      const fileName = file.name.toLowerCase();
+      const isDocument = EXTRACTED_EXTENSIONS.some(ext => fileName.endsWith(ext));
       
-      // Check if file is a text file or docx
+      // Check if file is a supported text or document file
       if (!file.type.startsWith("text/") && 
-          !file.name.endsWith(".txt") && 
-          !file.name.endsWith(".md") &&
-          !file.name.endsWith(".csv") &&
-          !file.name.endsWith(".json") &&
-          !isDocx) {
-        setUploadError("Por favor, envie apenas arquivos de texto (.txt, .md, .csv, .json, .docx)");
-        toast.error("Por favor, envie apenas arquivos de texto (.txt, .md, .csv, .json, .docx)");
+          !TEXT_EXTENSIONS.some(ext => fileName.endsWith(ext)) &&
+          !isDocument) {
+        setUploadError(`Por favor, envie apenas arquivos suportados (${SUPPORTED_EXTENSIONS})`);
+        toast.error(`Por favor, envie apenas arquivos suportados (${SUPPORTED_EXTENSIONS})`);
         return;
       }
       
-      // Check file size (max 1MB)
-      if (file.size > 1024 * 1024) {
-        setUploadError("O arquivo é muito grande. O tamanho máximo é de 1MB");
-        toast.error("O arquivo é muito grande. O tamanho máximo é de 1MB");
+      // Check file size
+      if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+        setUploadError(`O arquivo é muito grande. O tamanho máximo é de ${MAX_FILE_SIZE_MB}MB`);
+        toast.error(`O arquivo é muito grande. O tamanho máximo é de ${MAX_FILE_SIZE_MB}MB`);
         return;
       }
       
-      // Choose appropriate reading method based on file type
-      let content: string;
-      
-      if (isDocx) {
-        // For DOCX, we'll store a placeholder and let the backend handle it
-        // We can't parse DOCX in the browser easily
-        content = `[DOCX Document: ${file.name}]\n\nThis document was uploaded in DOCX format. The content is being processed.`;
-        console.log("Processing DOCX file:", file.name, "Size:", file.size);
-      } else {
-        // For text files, read as text
-        content = await readFileContent(file);
-      }
+      // O texto é extraído no servidor a partir do original; arquivos de texto também são lidos
+      // aqui para que fiquem salvos mesmo com o servidor indisponível (sem indexação)
+      const localContent = isDocument ? "" : await readFileContent(file);
+      const data = await blobToBase64(file);
       
-      // Create training file object
       const trainingFile: TrainingFile = {
         id: uuidv4(),
         name: file.name,
-        content,
+        content: localContent,
         size: file.size,
         type: file.type,
         timestamp: new Date()
       };
       
-      console.log("Attempting to add training file:", file.name, "Type:", file.type);
-      const success = await addTrainingFile(trainingFile);
+      console.log("Uploading training file for extraction:", file.name, "Type:", file.type, "Size:", file.size);
+      const result = await embeddingService.ingestDocument(trainingFile, data);
+      
+      if (!result && isDocument) {
+        setUploadError("A extração de texto de arquivos DOCX e PDF requer conexão com o servidor");
+        toast.error("A extração de texto de arquivos DOCX e PDF requer conexão com o servidor");
+        return;
+      }
+      
+      const warnings = result?.warnings || [];
+      const extractedFile: TrainingFile = {
+        ...trainingFile,
+        content: result?.content ?? localContent,
+        format: result?.format,
+        extractionWarnings: warnings.length > 0 ? warnings : undefined
+      };
+      updateIndexingStatus();
+      
+      console.log("Attempting to add training file:", file.name, "Content length:", extractedFile.content.length);
+      const success = await addTrainingFile(extractedFile);
       
       if (success) {
-        // Adicione o arquivo ao índice de embeddings em segundo plano
-        setTimeout(() => {
-          embeddingService.addDocument(trainingFile.id, trainingFile.name, trainingFile.content)
-            .then(() => {
-              updateIndexingStatus();
-              console.log(`Document ${trainingFile.id} indexed successfully`);
-            })
-            .catch(err => {
-              console.error(`Error indexing document ${trainingFile.id}:`, err);
-            });
-        }, 100);
-        
         setUploadSuccess(`Arquivo "${file.name}" adicionado com sucesso`);
-        toast.success(`Arquivo "${file.name}" adicionado com sucesso`);
+        if (warnings.length > 0) {
+          toast.warning(`Arquivo "${file.name}" adicionado com ${warnings.length} aviso(s) de extração`);
+        } else {
+          toast.success(`Arquivo "${file.name}" adicionado com sucesso`);
+        }
       } else {
         setUploadError(`Erro ao adicionar arquivo "${file.name}"`);
         toast.error(`Erro ao adicionar arquivo "${file.name}"`);
@@ -167,7 +174,7 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
       }
     } catch (error) {
       console.error("Error uploading file:", error);
-      setUploadError(`Erro ao fazer upload do arquivo: ${error.message}`);
+      setUploadError(`Erro ao fazer upload do arquivo: ${error.details || error.message}`);
       toast.error("Erro ao fazer upload do arquivo");
     } finally {
       setIsUploading(false);
@@ -202,8 +209,7 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
       if (success) {
         // Remova o arquivo do índice de embeddings em segundo plano
         setTimeout(() => {
-          embeddingService.removeDocument(id);
-          updateIndexingStatus();
+          embeddingService.deleteDocument(id).then(updateIndexingStatus);
         }, 100);
         
         toast.success(`Arquivo "${name}" removido com sucesso`);
@@ -216,6 +222,26 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
     }
   };
 
+  const handleSaveChunking = async (file: TrainingFile, chunking: ChunkSettings) => {
+    const updatedFile = { ...file, chunking };
+    const success = await updateTrainingFile(updatedFile);
+    if (!success) {
+      toast.error(`Erro ao salvar as configurações de "${file.name}"`);
+      return;
+    }
+    
+    try {
+      const result = await embeddingService.ingestDocument(updatedFile);
+      updateIndexingStatus();
+      toast.success(result?.indexing?.chunkCount !== undefined
+        ? `"${file.name}" reindexado em ${result.indexing.chunkCount} fragmentos`
+        : `"${file.name}" reindexado`);
+    } catch (error) {
+      console.error("Error reindexing file:", error);
+      toast.error(`Erro ao reindexar "${file.name}"`);
+    }
+  };
+
   const toggleFilePreview = (id: string) => {
     setOpenFileId(openFileId === id ? null : id);
   };
@@ -226,6 +252,8 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
     if (fileName.endsWith(".csv")) return "CSV";
     if (fileName.endsWith(".md")) return "MD";
     if (fileName.endsWith(".docx")) return "DOCX";
+    if (fileName.endsWith(".pdf")) return "PDF";
+    if (fileName.endsWith(".html") || fileName.endsWith(".htm")) return "HTML";
     return "TXT";
   };
 
@@ -245,7 +273,7 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
               ref={fileInputRef}
               id="fileUpload"
               type="file"
-              accept=".txt,.md,.csv,.json,.docx,text/plain,text/markdown,text/csv,application/json,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+              accept=".txt,.md,.csv,.json,.html,.htm,.docx,.pdf,text/plain,text/markdown,text/csv,text/html,application/json,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
               onChange={handleFileChange}
               className="hidden"
             />
@@ -267,7 +295,7 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
                 </>
               )}
               <span className="text-xs text-muted-foreground">
-                Suporta arquivos .txt, .md, .csv, .json, .docx (Max: 1MB)
+                Suporta arquivos {SUPPORTED_EXTENSIONS} (Max: {MAX_FILE_SIZE_MB}MB)
               </span>
             </Button>
           </div>
@@ -346,12 +374,21 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
                     <div className="flex items-center justify-between p-3 bg-muted rounded-md cursor-pointer hover:bg-muted/80">
                       <div className="flex items-center gap-2">
                         <div className="flex items-center justify-center h-8 w-8 rounded bg-primary/10 text-primary text-xs font-mono">
-                          {getFileIcon(file.name)}
+                          {file.sourceUrl ? "URL" : getFileIcon(file.name)}
                         </div>
                         <div>
                           <p className="text-sm font-medium">{file.name}</p>
+                          {file.sourceUrl && (
+                            <p className="text-xs text-muted-foreground truncate">{file.sourceUrl}</p>
+                          )}
                           <p className="text-xs text-muted-foreground">
                             {formatBytes(file.size)} • {new Date(file.timestamp).toLocaleString()}
+                            {file.extractionWarnings?.length > 0 && (
+                              <span className="inline-flex items-center gap-1 ml-2 text-amber-600 dark:text-amber-400">
+                                <AlertCircle className="h-3 w-3" />
+                                {file.extractionWarnings.length} aviso(s)
+                              </span>
+                            )}
                           </p>
                         </div>
                       </div>
@@ -371,11 +408,25 @@ const TrainingFilesTab: React.FC<TrainingFilesTabProps> = ({
                     </div>
                   </CollapsibleTrigger>
                   <CollapsibleContent>
+                    {file.extractionWarnings?.length > 0 && (
+                      <div className="mt-2 p-3 rounded-md bg-amber-50 dark:bg-amber-950/50 text-amber-900 dark:text-amber-300 text-xs space-y-1">
+                        <p className="font-medium">Avisos da extração de texto:</p>
+                        <ul className="list-disc pl-4">
+                          {file.extractionWarnings.map((warning, index) => (
+                            <li key={index}>{warning}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     <div className="mt-2 p-3 border rounded-md bg-muted/50 text-sm font-mono overflow-auto max-h-40">
                       {file.content.length > 500 
                         ? file.content.substring(0, 500) + "..." 
                         : file.content}
                     </div>
+                    <ChunkSettingsForm
+                      file={file}
+                      onSave={(chunking) => handleSaveChunking(file, chunking)}
+                    />
                   </CollapsibleContent>
                 </Collapsible>
               ))}
@@ -0,0 +1,240 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardHeader, CardContent, CardDescription, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Globe, Plus, RefreshCw, Trash2, AlertCircle } from "lucide-react";
+import { toast } from "sonner";
+import { UrlSource } from "@/types/chat";
+import {
+  getUrlSources,
+  createUrlSource,
+  refreshUrlSource,
+  removeUrlSource
+} from "@/services/databaseService";
+
+const DEFAULT_URL_SOURCE_SETTINGS = {
+  maxDepth: 2,
+  maxPages: 50,
+  refreshIntervalHours: 24
+};
+
+const isValidUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+// As fontes ficam no servidor, que rastreia as páginas e as atualiza no intervalo de cada fonte
+const UrlSourcesSection: React.FC = () => {
+  const [urlSources, setUrlSources] = useState<UrlSource[]>([]);
+  const [url, setUrl] = useState("");
+  const [settings, setSettings] = useState(DEFAULT_URL_SOURCE_SETTINGS);
+
+  const loadUrlSources = async () => {
+    try {
+      setUrlSources(await getUrlSources());
+    } catch (error) {
+      console.error("Error loading URL sources:", error);
+      toast.error("Não foi possível carregar as fontes de URL", {
+        description: "As fontes ficam no banco de dados do servidor"
+      });
+    }
+  };
+
+  useEffect(() => {
+    loadUrlSources();
+  }, []);
+
+  const updateNumber = (key: keyof typeof DEFAULT_URL_SOURCE_SETTINGS, value: string) => {
+    const parsed = parseInt(value, 10);
+    setSettings(prev => ({ ...prev, [key]: isNaN(parsed) ? DEFAULT_URL_SOURCE_SETTINGS[key] : parsed }));
+  };
+
+  const replaceSource = (source: UrlSource) => {
+    setUrlSources(prev => prev.map(existing => existing.id === source.id ? source : existing));
+  };
+
+  const handleRefresh = async (source: UrlSource) => {
+    toast.info(`Rastreando ${source.url}...`);
+    replaceSource({ ...source, status: "crawling" });
+    try {
+      const refreshed = await refreshUrlSource(source.id);
+      replaceSource(refreshed);
+      if (refreshed.status === "error") {
+        toast.error(`Erro ao rastrear ${source.url}`, { description: refreshed.lastError });
+      } else {
+        toast.success(`Fonte ${source.url} atualizada`);
+      }
+    } catch (error) {
+      console.error("Error refreshing URL source:", error);
+      toast.error(`Erro ao rastrear ${source.url}`);
+      await loadUrlSources();
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!isValidUrl(url.trim())) {
+      toast.error("Informe uma URL completa, começando com http:// ou https://");
+      return;
+    }
+
+    let source: UrlSource;
+    try {
+      source = await createUrlSource({ url: url.trim(), ...settings });
+    } catch (error) {
+      console.error("Error adding URL source:", error);
+      toast.error("Erro ao adicionar a fonte de URL");
+      return;
+    }
+
+    setUrlSources(prev => [...prev, source]);
+    setUrl("");
+    await handleRefresh(source);
+  };
+
+  const handleRemove = async (source: UrlSource) => {
+    try {
+      await removeUrlSource(source.id);
+      setUrlSources(prev => prev.filter(existing => existing.id !== source.id));
+      toast.success(`Fonte ${source.url} removida com ${source.pages.length} páginas`);
+    } catch (error) {
+      console.error("Error removing URL source:", error);
+      toast.error(`Erro ao remover a fonte ${source.url}`);
+    }
+  };
+
+  const renderStatus = (source: UrlSource) => {
+    if (source.status === "crawling") return <Badge variant="secondary">Rastreando...</Badge>;
+    if (source.status === "error") return <Badge variant="destructive">Erro</Badge>;
+    return <Badge variant="outline">{source.pages.length} páginas</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Fontes de URL</CardTitle>
+        <CardDescription>
+          Rastreie as páginas do seu site (a partir de uma página inicial ou de um sitemap) e mantenha-as atualizadas
+          automaticamente. Apenas as páginas alteradas são indexadas novamente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="urlSource">URL inicial ou sitemap</Label>
+            <Input
+              id="urlSource"
+              placeholder="https://www.exemplo.com.br/ajuda ou https://www.exemplo.com.br/sitemap.xml"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="urlSourceDepth" className="text-xs">Profundidade máxima</Label>
+              <Input
+                id="urlSourceDepth"
+                type="number"
+                min={0}
+                max={5}
+                value={settings.maxDepth}
+                onChange={(e) => updateNumber("maxDepth", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="urlSourcePages" className="text-xs">Máximo de páginas</Label>
+              <Input
+                id="urlSourcePages"
+                type="number"
+                min={1}
+                value={settings.maxPages}
+                onChange={(e) => updateNumber("maxPages", e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="urlSourceInterval" className="text-xs">Atualizar a cada (horas, 0 = manual)</Label>
+              <Input
+                id="urlSourceInterval"
+                type="number"
+                min={0}
+                value={settings.refreshIntervalHours}
+                onChange={(e) => updateNumber("refreshIntervalHours", e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={!url.trim()}>
+              <Plus className="h-4 w-4 mr-1" /> Adicionar fonte
+            </Button>
+          </div>
+        </div>
+
+        {urlSources.length === 0 ? (
+          <div className="bg-muted p-4 rounded-md text-center text-muted-foreground">
+            <Globe className="h-6 w-6 mx-auto mb-2" />
+            <p>Nenhuma fonte de URL adicionada</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {urlSources.map((source) => (
+              <div key={source.id} className="p-3 bg-muted rounded-md space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Globe className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <p className="text-sm font-medium truncate">{source.url}</p>
+                    {renderStatus(source)}
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRefresh(source)}
+                      disabled={source.status === "crawling"}
+                      title="Rastrear agora"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${source.status === "crawling" ? "animate-spin" : ""}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(source)}
+                      disabled={source.status === "crawling"}
+                      className="text-destructive hover:text-destructive/90 hover:bg-destructive/10"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Profundidade {source.maxDepth} • até {source.maxPages} páginas •{" "}
+                  {source.refreshIntervalHours > 0
+                    ? `atualiza a cada ${source.refreshIntervalHours}h`
+                    : "atualização manual"}
+                  {source.lastCrawledAt && ` • último rastreamento: ${new Date(source.lastCrawledAt).toLocaleString()}`}
+                </p>
+                {source.lastRefresh && source.status !== "error" && (
+                  <p className="text-xs text-muted-foreground">
+                    {source.lastRefresh.added} novas, {source.lastRefresh.changed} alteradas,{" "}
+                    {source.lastRefresh.removed} removidas, {source.lastRefresh.unchanged} sem alteração
+                  </p>
+                )}
+                {source.status === "error" && source.lastError && (
+                  <p className="text-xs text-red-700 dark:text-red-400 flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" /> {source.lastError}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default UrlSourcesSection;
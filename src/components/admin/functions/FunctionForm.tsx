@@ -103,31 +103,19 @@ const FunctionForm: React.FC<FunctionFormProps> = ({
       embeddingService.setDebug(true);
       
       // Buscar resultados brutos para mostrar detalhes
-      const results = embeddingService.search(testQuery, 5);
+      const results = await embeddingService.search(testQuery, 5);
       setRawResults(results);
       
       // Construir informações de debug
       let debug = "Detalhes da busca:\n";
       if (results.length > 0) {
         debug += results.map((r, i) => 
-          `${i+1}. Arquivo: ${r.fileName}\n   Score: ${r.score.toFixed(4)}\n   Primeiros 100 chars: ${r.content.substring(0, 100)}...\n`
+          `${i+1}. Arquivo: ${r.fileName}\n   Score: ${r.score.toFixed(4)} (vetorial: ${r.vectorScore?.toFixed(4) ?? '-'}, BM25: ${r.lexicalScore?.toFixed(4) ?? '-'})\n   Primeiros 100 chars: ${r.content.substring(0, 100)}...\n`
         ).join("\n");
       } else {
         debug += "Nenhum resultado encontrado acima do limiar de relevância.\n";
         debug += "Isso pode indicar que o texto que você está procurando não está nos documentos,\n";
         debug += "ou que o algoritmo de relevância não encontrou correspondência suficiente.\n";
-        
-        // Sugerir termos semelhantes
-        const specialTerms = ["cpj", "cpj-3c", "spiced", "office.adv"];
-        const queryLower = testQuery.toLowerCase();
-        
-        for (const term of specialTerms) {
-          if (queryLower.includes(term)) {
-            debug += `\nDica: Foi detectado o termo especial "${term}" na consulta.\n`;
-            debug += `Tente uma consulta mais específica que inclua mais contexto.\n`;
-            break;
-          }
-        }
       }
       
       // Definir detalhes da busca
@@ -0,0 +1,252 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Mic, Square, Volume2 } from "lucide-react";
+import { toast } from "sonner";
+import { SilenceDetector } from "@/utils/silenceDetector";
+import {
+  AudioDeviceList,
+  AudioDevicePreferences,
+  getAudioDevicePreferences,
+  getDeviceLabel,
+  isDeviceSelectionSupported,
+  isOutputSelectionSupported,
+  listAudioDevices,
+  onAudioDevicesChange,
+  openMicrophone,
+  playTestTone,
+  saveAudioDevicePreferences
+} from "@/utils/audioDevices";
+
+// O Select não aceita valor vazio; este valor representa o dispositivo padrão do sistema
+const SYSTEM_DEFAULT = "system-default";
+
+interface AudioDeviceSettingsProps {
+  // Durante a chamada o microfone é dela e o teste fica indisponível
+  micInUse: boolean;
+  onChange?: (preferences: AudioDevicePreferences) => void;
+}
+
+const AudioDeviceSettings: React.FC<AudioDeviceSettingsProps> = ({ micInUse, onChange }) => {
+  const [devices, setDevices] = useState<AudioDeviceList>({ inputs: [], outputs: [] });
+  const [preferences, setPreferences] = useState<AudioDevicePreferences>(getAudioDevicePreferences);
+  const [isTestingMic, setIsTestingMic] = useState(false);
+  const [micLevel, setMicLevel] = useState(0);
+  const [speechProbability, setSpeechProbability] = useState(0);
+  const [isTestingSpeaker, setIsTestingSpeaker] = useState(false);
+
+  const testStreamRef = useRef<MediaStream | null>(null);
+  // Detector próprio do teste: não disputa com o da chamada
+  const [testDetector] = useState(() => new SilenceDetector());
+
+  useEffect(() => {
+    listAudioDevices()
+      .then(setDevices)
+      .catch(error => console.error("Error listing audio devices:", error));
+
+    const unsubscribe = onAudioDevicesChange(setDevices);
+    const testStream = testStreamRef;
+
+    return () => {
+      unsubscribe();
+      if (testStream.current) {
+        testDetector.cleanup();
+        testStream.current.getTracks().forEach(track => track.stop());
+        testStream.current = null;
+      }
+    };
+  }, [testDetector]);
+
+  const stopMicTest = () => {
+    if (testStreamRef.current) {
+      testDetector.cleanup();
+      testStreamRef.current.getTracks().forEach(track => track.stop());
+      testStreamRef.current = null;
+    }
+    setIsTestingMic(false);
+    setMicLevel(0);
+    setSpeechProbability(0);
+  };
+
+  // O teste usa a mesma detecção da chamada: o medidor mostra o que a chamada vai ouvir
+  const startMicTest = async () => {
+    stopMicTest();
+
+    try {
+      const stream = await openMicrophone({
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        channelCount: 1
+      });
+      testStreamRef.current = stream;
+
+      testDetector.initialize(
+        stream,
+        () => {},
+        { continuousModeEnabled: false, calibrationDuration: 0 },
+        (levels, probability) => {
+          setMicLevel(Math.max(...levels));
+          setSpeechProbability(probability);
+        }
+      );
+      setIsTestingMic(true);
+
+      // Com o acesso permitido, os dispositivos passam a ter nome
+      setDevices(await listAudioDevices());
+    } catch (error) {
+      console.error("Error testing microphone:", error);
+      toast.error("Não foi possível abrir o microfone", {
+        description: "Verifique se ele está conectado e se o navegador tem permissão."
+      });
+      stopMicTest();
+    }
+  };
+
+  // A chamada assumiu o microfone
+  useEffect(() => {
+    if (micInUse && testStreamRef.current) {
+      testDetector.cleanup();
+      testStreamRef.current.getTracks().forEach(track => track.stop());
+      testStreamRef.current = null;
+      setIsTestingMic(false);
+      setMicLevel(0);
+      setSpeechProbability(0);
+    }
+  }, [micInUse, testDetector]);
+
+  const updatePreferences = (changes: AudioDevicePreferences) => {
+    const updated = { ...preferences, ...changes };
+    setPreferences(updated);
+    saveAudioDevicePreferences(updated);
+    onChange?.(updated);
+  };
+
+  const handleInputChange = (value: string) => {
+    updatePreferences({ inputDeviceId: value === SYSTEM_DEFAULT ? undefined : value });
+    if (isTestingMic) {
+      startMicTest();
+    }
+  };
+
+  const handleOutputChange = (value: string) => {
+    updatePreferences({ outputDeviceId: value === SYSTEM_DEFAULT ? undefined : value });
+  };
+
+  const testSpeaker = async () => {
+    setIsTestingSpeaker(true);
+    try {
+      await playTestTone(preferences.outputDeviceId);
+    } catch (error) {
+      console.error("Error playing test tone:", error);
+      toast.error("Não foi possível tocar o som de teste");
+    } finally {
+      setIsTestingSpeaker(false);
+    }
+  };
+
+  if (!isDeviceSelectionSupported()) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Este navegador não permite escolher os dispositivos de áudio; são usados os padrões do sistema.
+      </p>
+    );
+  }
+
+  // Sem permissão de microfone os ids vêm vazios e não podem ser escolhidos
+  const inputs = devices.inputs.filter(device => device.deviceId);
+  const outputs = devices.outputs.filter(device => device.deviceId);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Microfone</Label>
+        <div className="flex gap-2">
+          <Select value={preferences.inputDeviceId || SYSTEM_DEFAULT} onValueChange={handleInputChange}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Selecione um microfone" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={SYSTEM_DEFAULT}>Padrão do sistema</SelectItem>
+              {inputs.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {getDeviceLabel(device, index)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={isTestingMic ? stopMicTest : startMicTest}
+            disabled={micInUse}
+          >
+            {isTestingMic ? <Square className="h-4 w-4 mr-1" /> : <Mic className="h-4 w-4 mr-1" />}
+            {isTestingMic ? "Parar" : "Testar"}
+          </Button>
+        </div>
+        {isTestingMic && (
+          <div className="space-y-1">
+            <div className="h-2 w-full rounded bg-muted overflow-hidden">
+              <div
+                className={`h-full transition-all duration-75 ${speechProbability > 0.5 ? "bg-green-500" : "bg-primary/60"}`}
+                style={{ width: `${Math.round(micLevel * 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {speechProbability > 0.5 ? "Voz detectada" : "Fale algo para ver o nível do microfone"}
+            </p>
+          </div>
+        )}
+        {micInUse && (
+          <p className="text-xs text-muted-foreground">
+            Durante a chamada, o nível do microfone aparece na onda de áudio
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Alto-falante</Label>
+        {isOutputSelectionSupported() ? (
+          <div className="flex gap-2">
+            <Select value={preferences.outputDeviceId || SYSTEM_DEFAULT} onValueChange={handleOutputChange}>
+              <SelectTrigger className="flex-1">
+                <SelectValue placeholder="Selecione um alto-falante" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SYSTEM_DEFAULT}>Padrão do sistema</SelectItem>
+                {outputs.map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {getDeviceLabel(device, index)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="button" variant="outline" size="sm" onClick={testSpeaker} disabled={isTestingSpeaker}>
+              <Volume2 className="h-4 w-4 mr-1" /> Testar
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-muted-foreground">
+              Este navegador toca o áudio sempre no alto-falante padrão do sistema.
+            </p>
+            <Button type="button" variant="outline" size="sm" onClick={testSpeaker} disabled={isTestingSpeaker}>
+              <Volume2 className="h-4 w-4 mr-1" /> Testar
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AudioDeviceSettings;
@@ -10,10 +10,12 @@ import { Switch } from "@/components/ui/switch";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
 import RagSettings from "./RagSettings";
+import AudioDeviceSettings from "./AudioDeviceSettings";
+import { AudioDevicePreferences } from "@/utils/audioDevices";
 
 interface VoiceSettingsProps {
   settings: {
-    silenceTimeout: number;
+    pauseDuration: number;
     maxCallDuration: number;
     waitBeforeSpeaking: number;
     waitAfterPunctuation: number;
@@ -21,19 +23,28 @@ interface VoiceSettingsProps {
     waitAfterNumber: number;
     endCallMessage: string;
     continuousMode?: boolean;
+    bargeInEnabled?: boolean;
+    bargeInThreshold: number;
+    bargeInDuration: number;
   };
   onSave: (settings: any) => void;
   onCancel: () => void;
+  micInUse?: boolean;
+  // Os dispositivos são salvos na hora, neste navegador, sem passar pelo formulário
+  onDevicesChange?: (preferences: AudioDevicePreferences) => void;
 }
 
 export const VoiceSettings: React.FC<VoiceSettingsProps> = ({
   settings,
   onSave,
-  onCancel
+  onCancel,
+  micInUse = false,
+  onDevicesChange
 }) => {
   const [formValues, setFormValues] = useState({
     ...settings,
-    continuousMode: settings.continuousMode !== undefined ? settings.continuousMode : true
+    continuousMode: settings.continuousMode !== undefined ? settings.continuousMode : true,
+    bargeInEnabled: settings.bargeInEnabled !== undefined ? settings.bargeInEnabled : true
   });
   const { toast } = useToast();
 
@@ -76,6 +87,11 @@ export const VoiceSettings: React.FC<VoiceSettingsProps> = ({
         <form onSubmit={handleSubmit}>
           <CardContent className="space-y-4">
             <div className="space-y-4">
+              <h3 className="font-medium text-sm">Dispositivos de Áudio</h3>
+              <AudioDeviceSettings micInUse={micInUse} onChange={onDevicesChange} />
+              
+              <Separator className="my-4" />
+              
               <h3 className="font-medium text-sm">Comportamento de Resposta</h3>
               <div className="space-y-3">
                 <div className="flex items-center justify-between space-x-2">
@@ -92,16 +108,16 @@ export const VoiceSettings: React.FC<VoiceSettingsProps> = ({
                 
                 <div className="space-y-2">
                   <div className="flex justify-between items-center">
-                    <Label htmlFor="silenceTimeout">Tempo de silêncio (s)</Label>
-                    <span className="text-xs text-muted-foreground">{formValues.silenceTimeout.toFixed(1)}s</span>
+                    <Label htmlFor="pauseDuration">Tempo de silêncio (s)</Label>
+                    <span className="text-xs text-muted-foreground">{formValues.pauseDuration.toFixed(1)}s</span>
                   </div>
                   <Slider
-                    id="silenceTimeout"
+                    id="pauseDuration"
                     min={0.2}
                     max={2}
                     step={0.1}
-                    value={[formValues.silenceTimeout]}
-                    onValueChange={handleSliderChange("silenceTimeout")}
+                    value={[formValues.pauseDuration]}
+                    onValueChange={handleSliderChange("pauseDuration")}
                   />
                   <p className="text-xs text-muted-foreground">Tempo de silêncio necessário para considerar uma pausa</p>
                 </div>
@@ -173,6 +189,57 @@ export const VoiceSettings: React.FC<VoiceSettingsProps> = ({
               
               <Separator className="my-4" />
               
+              <h3 className="font-medium text-sm">Interrupção</h3>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between space-x-2">
+                  <Label htmlFor="bargeInEnabled" className="flex-grow">Permitir interromper o assistente</Label>
+                  <Switch
+                    id="bargeInEnabled"
+                    checked={formValues.bargeInEnabled}
+                    onCheckedChange={handleSwitchChange("bargeInEnabled")}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Quando ativado, o microfone fica aberto enquanto o assistente fala e sua voz interrompe a resposta
+                </p>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="bargeInThreshold">Nível de voz para interromper</Label>
+                    <span className="text-xs text-muted-foreground">{formValues.bargeInThreshold.toFixed(2)}</span>
+                  </div>
+                  <Slider
+                    id="bargeInThreshold"
+                    min={0.01}
+                    max={0.2}
+                    step={0.01}
+                    value={[formValues.bargeInThreshold]}
+                    onValueChange={handleSliderChange("bargeInThreshold")}
+                    disabled={!formValues.bargeInEnabled}
+                  />
+                  <p className="text-xs text-muted-foreground">Aumente se ruídos do ambiente interrompem o assistente</p>
+                </div>
+                
+                <div className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <Label htmlFor="bargeInDuration">Duração da voz para interromper</Label>
+                    <span className="text-xs text-muted-foreground">{formValues.bargeInDuration.toFixed(1)}s</span>
+                  </div>
+                  <Slider
+                    id="bargeInDuration"
+                    min={0.1}
+                    max={1.5}
+                    step={0.1}
+                    value={[formValues.bargeInDuration]}
+                    onValueChange={handleSliderChange("bargeInDuration")}
+                    disabled={!formValues.bargeInEnabled}
+                  />
+                  <p className="text-xs text-muted-foreground">Tempo de fala contínua necessário para interromper a resposta</p>
+                </div>
+              </div>
+              
+              <Separator className="my-4" />
+              
               <h3 className="font-medium text-sm">Limite de Tempo</h3>
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
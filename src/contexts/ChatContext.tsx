@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useState, useEffect } from "react";
 import { v4 as uuidv4 } from "uuid";
 import * as database from "@/services/databaseService";
+import { embeddingService } from "@/utils/embeddingService";
 import { toast } from "sonner";
 import {
   Message,
@@ -14,8 +15,18 @@ import {
   VoiceConfig,
   KnowledgeType,
   FineTuningConfig,
-  AssistantConfig
+  AssistantConfig,
+  LLMProviderConfig,
+  EmbeddingSource,
+  MessageSource,
+  UrlSource,
+  PronunciationEntry,
+  CallRecordingConfig,
+  ConversationEvent,
+  CallEndReason,
+  SyncState
 } from "@/types/chat";
+import { DEFAULT_LANGUAGE, getDefaultEndCallMessage } from "@/utils/language";
 
 // Re-export the types
 export type {
@@ -29,7 +40,16 @@ export type {
   VoiceConfig,
   KnowledgeType,
   FineTuningConfig,
-  AssistantConfig
+  AssistantConfig,
+  LLMProviderConfig,
+  EmbeddingSource,
+  MessageSource,
+  UrlSource,
+  PronunciationEntry,
+  CallRecordingConfig,
+  ConversationEvent,
+  CallEndReason,
+  SyncState
 };
 
 // Create the chat context with correct types
@@ -50,7 +70,7 @@ export const ChatContext = createContext<ChatContextType>({
     voice: {
       enabled: true,
       voiceId: "alloy",
-      language: "en-US",
+      language: DEFAULT_LANGUAGE,
       latency: 100,
       silenceTimeout: 10,
       maxCallDuration: 1800,
@@ -58,7 +78,7 @@ export const ChatContext = createContext<ChatContextType>({
       waitAfterPunctuation: 0.1,
       waitWithoutPunctuation: 1.5,
       waitAfterNumber: 0.5,
-      endCallMessage: "Encerrando chamada por inatividade. Obrigado pela conversa."
+      endCallMessage: getDefaultEndCallMessage(DEFAULT_LANGUAGE)
     },
     trainingFiles: [],
     model: "gpt-4o", 
@@ -68,7 +88,8 @@ export const ChatContext = createContext<ChatContextType>({
     knowledgeType: 'rag',
     rag: { enabled: true },
     fineTuning: { enabled: false, modelId: '', status: 'not_started' },
-    assistant: { enabled: false, assistantId: '', name: '' }
+    assistant: { enabled: false, assistantId: '', name: '' },
+    provider: { type: 'openai' }
   },
   adminConfig: {
     username: "admin",
@@ -76,6 +97,7 @@ export const ChatContext = createContext<ChatContextType>({
     apiKey: ""
   },
   isDbConnected: false,
+  syncState: { status: 'local', pendingCount: 0, lastSyncedAt: null },
   isWidgetOpen: false,
   setIsWidgetOpen: () => {},
   isVoiceChatActive: false,
@@ -89,6 +111,7 @@ export const ChatContext = createContext<ChatContextType>({
   startNewConversation: () => Promise.resolve(null),
   addTrainingFile: () => Promise.resolve(false),
   removeTrainingFile: () => Promise.resolve(false),
+  updateTrainingFile: () => Promise.resolve(false),
   loadData: () => Promise.resolve()
 });
 
@@ -116,7 +139,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     voice: {
       enabled: true,
       voiceId: "alloy",
-      language: "en-US",
+      language: DEFAULT_LANGUAGE,
       latency: 100,
       silenceTimeout: 10,
       maxCallDuration: 1800,
@@ -124,7 +147,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       waitAfterPunctuation: 0.1,
       waitWithoutPunctuation: 1.5,
       waitAfterNumber: 0.5,
-      endCallMessage: "Encerrando chamada por inatividade. Obrigado pela conversa."
+      endCallMessage: getDefaultEndCallMessage(DEFAULT_LANGUAGE)
     },
     trainingFiles: [],
     model: "gpt-4o", 
@@ -134,7 +157,8 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     knowledgeType: 'rag',
     rag: { enabled: true },
     fineTuning: { enabled: false, modelId: '', status: 'not_started' },
-    assistant: { enabled: false, assistantId: '', name: '' }
+    assistant: { enabled: false, assistantId: '', name: '' },
+    provider: { type: 'openai' }
   });
   
   const [adminConfig, setAdminConfig] = useState<AdminConfig>({
@@ -144,6 +168,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   });
 
   const [isDbConnected, setIsDbConnected] = useState(false);
+  const [syncState, setSyncState] = useState<SyncState>(database.getSyncState);
   
   // Check database connection on component mount
   useEffect(() => {
@@ -162,6 +187,26 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     initializeData();
   }, []);
   
+  // The outbox replays queued writes in the background and reconnects on its own
+  useEffect(() => {
+    return database.onSyncStateChange(state => {
+      setSyncState(state);
+      setIsDbConnected(database.isConnected());
+    });
+  }, []);
+  
+  // Retrieval parameters (top-k, similarity threshold, rerank) come from the agent config.
+  // The embedding model is the one of the config saved on the server (see updateAgentConfig).
+  useEffect(() => {
+    embeddingService.setRetrievalOptions({
+      topK: agentConfig.rag?.topK,
+      similarityThreshold: agentConfig.rag?.similarityThreshold,
+      rerank: agentConfig.rag?.rerank,
+      model: agentConfig.model,
+      provider: agentConfig.provider
+    });
+  }, [agentConfig.rag, agentConfig.model, agentConfig.provider]);
+  
   // Function to load all data from the database
   const loadData = async () => {
     try {
@@ -190,7 +235,8 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
           knowledgeType: agentCfg.knowledgeType || 'rag',
           rag: agentCfg.rag || { enabled: true },
           fineTuning: agentCfg.fineTuning || { enabled: false, modelId: '', status: 'not_started' },
-          assistant: agentCfg.assistant || { enabled: false, assistantId: '', name: '' }
+          assistant: agentCfg.assistant || { enabled: false, assistantId: '', name: '' },
+          provider: agentCfg.provider || { type: 'openai' }
         };
         setAgentConfig(mergedAgentConfig);
       }
@@ -202,11 +248,22 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setAdminConfig(adminCfg);
       }
       
-      // Load conversations
-      const convs = await database.getConversations();
-      if (convs && convs.length > 0) {
-        console.log(`${convs.length} conversations loaded`);
-        setConversations(convs);
+      // The admin loads every conversation; a widget visitor only its own, by id
+      if (database.hasAdminSession()) {
+        const convs = await database.getConversations();
+        if (convs && convs.length > 0) {
+          console.log(`${convs.length} conversations loaded`);
+          setConversations(convs);
+        }
+      } else {
+        const ownConversationId = database.getCurrentConversationId();
+        const ownConversation = ownConversationId ? await database.getConversation(ownConversationId) : null;
+        if (ownConversation) {
+          console.log(`Conversation ${ownConversation.id} restored with ${ownConversation.messages.length} messages`);
+          setConversations([ownConversation]);
+          setCurrentConversationId(ownConversation.id);
+          setMessages(ownConversation.messages);
+        }
       }
       
       // Update database connection status
@@ -240,8 +297,19 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const updateAgentConfig = async (config: AgentConfig) => {
     try {
       console.log("Updating agent config");
+      // With an admin session the config is saved on the server, which embeds training files and
+      // searches with the saved provider
       const success = await database.updateAgentConfig(config);
       if (success) {
+        // A new embedding model re-embeds the stored chunks
+        if (database.isConnected() && database.hasAdminSession()) {
+          const embeddingChanged =
+            (config.rag?.embeddingSource || 'provider') !== (agentConfig.rag?.embeddingSource || 'provider') ||
+            JSON.stringify(config.provider) !== JSON.stringify(agentConfig.provider);
+          if (embeddingChanged) {
+            await embeddingService.reindexAllDocuments(false);
+          }
+        }
         setAgentConfig(config);
         console.log("Agent config updated successfully");
       } else {
@@ -273,7 +341,8 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
   
   // Function to add a message directly
-  const addMessage = (content: string, role: "user" | "assistant" | "system"): string => {
+  // Um `event` (ex.: fim de chamada) é registrado como mensagem de sistema que não vai para o modelo
+  const addMessage = (content: string, role: "user" | "assistant" | "system", event?: ConversationEvent): string => {
     const messageId = uuidv4();
     
     // Enhanced duplicate message detection
@@ -293,7 +362,8 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
       id: messageId,
       role: role,
       content: content,
-      timestamp: new Date()
+      timestamp: new Date(),
+      ...(event ? { event } : {})
     };
     
     setMessages(prev => {
@@ -353,11 +423,16 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return messageId;
   };
 
-  // Function to update a message
-  const updateMessage = (messageId: string, updatedContent: string) => {
+  // Function to update a message. Passing sources marks the final version of an
+  // assistant answer, which is also saved to the database with its citations.
+  const updateMessage = (messageId: string, updatedContent: string, sources?: MessageSource[], truncated?: boolean) => {
+    const updates: Partial<Message> = { content: updatedContent };
+    if (sources) updates.sources = sources;
+    if (truncated) updates.truncated = true;
+    
     setMessages(prev => 
       prev.map(msg => 
-        msg.id === messageId ? { ...msg, content: updatedContent } : msg
+        msg.id === messageId ? { ...msg, ...updates } : msg
       )
     );
     
@@ -369,13 +444,21 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
             return {
               ...conv,
               messages: conv.messages.map(msg => 
-                msg.id === messageId ? { ...msg, content: updatedContent } : msg
+                msg.id === messageId ? { ...msg, ...updates } : msg
               )
             };
           }
           return conv;
         });
       });
+      
+      // Streaming updates stay in memory; the final update (with sources or truncation) is persisted
+      if (sources || truncated) {
+        const success = database.updateMessage(currentConversationId, messageId, updates);
+        if (!success) {
+          console.error("Failed to update message in database");
+        }
+      }
     }
   };
 
@@ -563,6 +646,24 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Function to update a training file (e.g. its chunk settings)
+  const updateTrainingFile = async (file: TrainingFile) => {
+    try {
+      const success = await database.updateTrainingFile(file);
+      if (success) {
+        setAgentConfig(prev => ({
+          ...prev,
+          trainingFiles: prev.trainingFiles.map(existing => existing.id === file.id ? file : existing)
+        }));
+        return true;
+      }
+      return false;
+    } catch (error) {
+      console.error("Error updating training file:", error);
+      return false;
+    }
+  };
+
   // Helper function to read file contents
   const readFileContents = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
@@ -589,6 +690,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         agentConfig,
         adminConfig,
         isDbConnected,
+        syncState,
         isWidgetOpen,
         setIsWidgetOpen,
         isVoiceChatActive,
@@ -602,6 +704,7 @@ export const ChatProvider: React.FC<{ children: React.ReactNode }> = ({ children
         startNewConversation,
         addTrainingFile,
         removeTrainingFile,
+        updateTrainingFile,
         loadData
       }}
     >
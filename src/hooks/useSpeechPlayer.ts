@@ -1,5 +1,6 @@
 
 import { useState, useRef, useEffect } from "react";
+import { applyOutputDevice, getAudioDevicePreferences } from "@/utils/audioDevices";
 
 export function useSpeechPlayer(defaultVoice: string = "alloy") {
   const [volume, setVolume] = useState<number>(0.8);
@@ -9,14 +10,18 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
   const [audioData, setAudioData] = useState<number[]>(Array(30).fill(0));
   
   const audioRef = useRef<HTMLAudioElement | null>(null);
-  const audioQueue = useRef<string[]>([]);
+  const audioQueue = useRef<{ url: string; text?: string }[]>([]);
   const isProcessingQueue = useRef<boolean>(false);
   const lastPlayedTextRef = useRef<string>("");
   const textChunksRef = useRef<string[]>([]);
+  // Textos cuja reprodução já começou, para saber até onde a resposta foi falada
+  const spokenTextsRef = useRef<string[]>([]);
   const analyzerRef = useRef<AnalyserNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const sourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
+  // Alto-falante escolhido neste navegador (undefined = padrão do sistema)
+  const outputDeviceRef = useRef<string | undefined>(getAudioDevicePreferences().outputDeviceId);
   
   // Effect para aplicar volume e playback rate
   useEffect(() => {
@@ -53,6 +58,8 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
         // Tentar próximo item na fila em caso de erro
         processQueue();
       };
+      
+      applyOutputDevice(audioRef.current, outputDeviceRef.current);
     }
     
     return () => {
@@ -133,6 +140,9 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
       audioContextRef.current = audioContext;
       analyzerRef.current = analyzer;
       
+      // Com a visualização o áudio sai pelo contexto, não pelo elemento
+      applyOutputDevice(audioContext, outputDeviceRef.current);
+      
       const source = audioContext.createMediaElementSource(audioRef.current);
       sourceNodeRef.current = source;
       
@@ -220,11 +230,14 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
     isProcessingQueue.current = true;
     
     try {
-      const nextAudioUrl = audioQueue.current.shift();
+      const nextAudio = audioQueue.current.shift();
       
-      if (nextAudioUrl && audioRef.current) {
+      if (nextAudio && audioRef.current) {
         console.log("Reproduzindo próximo áudio da fila");
-        audioRef.current.src = nextAudioUrl;
+        if (nextAudio.text) {
+          spokenTextsRef.current.push(nextAudio.text);
+        }
+        audioRef.current.src = nextAudio.url;
         audioRef.current.volume = volume;
         audioRef.current.playbackRate = playbackRate;
         
@@ -278,7 +291,7 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
     }
     
     // Adicionar à fila
-    audioQueue.current.push(url);
+    audioQueue.current.push({ url, text });
     
     // Se não estiver reproduzindo, iniciar processamento da fila
     if (!isPlaying) {
@@ -286,32 +299,13 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
     }
   };
   
-  // Função para reproduzir texto em streaming
-  const playStreamingText = (url: string, text: string, isComplete: boolean = false) => {
-    // Verificar se esse texto é um duplicado
-    if (isDuplicateText(text)) {
-      console.log("Pulando texto de streaming duplicado:", text.substring(0, 30));
-      return;
-    }
-    
-    // Para streaming, atualizar o último texto reproduzido apenas em mensagens completas
-    if (isComplete) {
-      lastPlayedTextRef.current = text;
-    }
-    
-    // Adicionar texto ao histórico
-    textChunksRef.current.push(text);
-    
-    // Manter apenas os últimos 10 chunks para economizar memória
-    if (textChunksRef.current.length > 10) {
-      textChunksRef.current.shift();
-    }
-    
-    // Adicionar à fila
-    audioQueue.current.push(url);
+  // Enfileira um trecho da resposta já segmentado e ordenado pelo pipeline de fala
+  const queueAudio = (url: string, text: string) => {
+    audioQueue.current.push({ url, text });
     
-    // Se não estiver reproduzindo, iniciar processamento da fila
-    if (!isPlaying) {
+    // O estado isPlaying pode estar desatualizado neste callback; o elemento de áudio diz se algo está tocando
+    const audio = audioRef.current;
+    if (!audio || !audio.src || audio.paused || audio.ended) {
       processQueue();
     }
   };
@@ -329,6 +323,7 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
     audioQueue.current = [];
     lastPlayedTextRef.current = "";
     textChunksRef.current = [];
+    spokenTextsRef.current = [];
   };
   
   // Pausar reprodução sem limpar fila
@@ -361,6 +356,27 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
     console.log("Limpando histórico de texto");
     lastPlayedTextRef.current = "";
     textChunksRef.current = [];
+    spokenTextsRef.current = [];
+  };
+  
+  // Troca o alto-falante, inclusive no meio de uma reprodução
+  const setOutputDevice = (deviceId?: string) => {
+    outputDeviceRef.current = deviceId;
+    if (audioRef.current) {
+      applyOutputDevice(audioRef.current, deviceId);
+    }
+    if (audioContextRef.current) {
+      applyOutputDevice(audioContextRef.current, deviceId);
+    }
+  };
+  
+  // Texto já falado (reprodução iniciada) desde a última limpeza do histórico
+  const getSpokenText = (): string => spokenTextsRef.current.join("");
+  
+  // Indica se ainda há áudio tocando ou na fila
+  const hasPendingAudio = (): boolean => {
+    const audio = audioRef.current;
+    return audioQueue.current.length > 0 || (!!audio && !!audio.src && !audio.paused && !audio.ended);
   };
   
   return {
@@ -374,10 +390,13 @@ export function useSpeechPlayer(defaultVoice: string = "alloy") {
     isPlaying,
     audioData,
     playAudio,
-    playStreamingText,
+    queueAudio,
     stopAudio,
     pauseAudio,
     resumeAudio,
-    clearTextHistory
+    clearTextHistory,
+    getSpokenText,
+    hasPendingAudio,
+    setOutputDevice
   };
 }
@@ -180,15 +180,31 @@ const Admin = () => {
     }
   };
 
-  const handleLogin = (username: string, password: string) => {
+  // Verifica as credenciais no servidor, que abre a sessão usada pelas rotas de admin.
+  // Sem o servidor, compara com a configuração local (as rotas de admin ficam indisponíveis).
+  const verifyCredentials = async (username: string, password: string) => {
+    try {
+      await databaseService.loginAdmin(username, password);
+      return true;
+    } catch (error) {
+      if (error.status === 401) return false;
+      console.warn("Admin login unavailable on the server, checking locally:", error);
+    }
+
     if (!adminConfig) {
       toast.error("Erro ao carregar configurações de admin");
-      return;
+      return false;
     }
-
-    const passwordHash = SHA256(password).toString();
     
-    if (username === adminConfig.username && passwordHash === adminConfig.passwordHash) {
+    const valid = username === adminConfig.username && SHA256(password).toString() === adminConfig.passwordHash;
+    if (valid) {
+      toast.warning("Servidor indisponível: a atualização das fontes de URL exige o login no servidor");
+    }
+    return valid;
+  };
+
+  const handleLogin = async (username: string, password: string) => {
+    if (await verifyCredentials(username, password)) {
       setIsAuthenticated(true);
       setLoginAttempts(0);
       toast.success("Login bem-sucedido!");
@@ -5,6 +5,8 @@ import ChatWidget from "@/components/ChatWidget";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
+import * as databaseService from "@/services/databaseService";
+import { providerRequiresApiKey } from "@/utils/providers";
 import { 
   Dialog,
   DialogContent,
@@ -15,8 +17,8 @@ import {
 } from "@/components/ui/dialog";
 
 const Index = () => {
-  const [apiKey, setApiKey] = useState<string | null>(null);
-  const { adminConfig, updateAdminConfig } = useChat();
+  const [isLlmConfigured, setIsLlmConfigured] = useState(false);
+  const { adminConfig, updateAdminConfig, agentConfig } = useChat();
   const [backendError, setBackendError] = useState(false);
   const [showSetupDialog, setShowSetupDialog] = useState(false);
   const [tempApiKey, setTempApiKey] = useState("");
@@ -28,54 +30,25 @@ const Index = () => {
   // Log the API base URL to help with debugging
   console.log(`Index component using API base URL: ${apiBaseUrl} (${process.env.NODE_ENV} environment)`);
 
-  // Function to fetch API key with retry limits and backoff
-  const fetchApiKey = useCallback(async () => {
-    if (apiCheckInProgress) return { apiKey: adminConfig?.apiKey || null };
+  // Function to check whether the backend LLM proxy has an API key, with a timeout.
+  // The key itself never leaves the server.
+  const fetchLlmStatus = useCallback(async () => {
+    if (apiCheckInProgress) return { configured: isLlmConfigured };
     
     try {
       setApiCheckInProgress(true);
-      console.log("Tentando buscar chave de API do backend...");
-      // Add cache busting to prevent browser caching
-      const cacheBuster = new Date().getTime();
-      const timeoutPromise = new Promise((_, reject) => 
+      console.log("Verificando se a chave de API está configurada no backend...");
+      const timeoutPromise = new Promise<never>((_, reject) => 
         setTimeout(() => reject(new Error('Request timeout')), 3000)
       );
       
-      // Use the proxy URL
-      const fetchPromise = fetch(`${apiBaseUrl}/admin/api-key?_=${cacheBuster}`, {
-        headers: { 
-          'Cache-Control': 'no-cache, no-store, must-revalidate',
-          'Pragma': 'no-cache',
-          'Expires': '0',
-          'Accept': 'application/json'
-        },
-        cache: 'no-store'
-      });
-      
       // Race between fetch and timeout
-      const response = await Promise.race([fetchPromise, timeoutPromise]) as Response;
-      
-      if (!response.ok) {
-        if (response.status === 404) {
-          console.log('Chave de API não encontrada no servidor, usando do contexto');
-          return { apiKey: adminConfig?.apiKey || null };
-        }
-        throw new Error(`Falha ao buscar chave de API: ${response.status}`);
-      }
-      
-      // Check content type to ensure we're getting JSON
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/json')) {
-        console.error('API returned non-JSON response:', contentType);
-        throw new Error('API returned non-JSON response');
-      }
+      const data = await Promise.race([databaseService.getLlmStatus(), timeoutPromise]);
+      console.log("Status do LLM obtido do backend:", data.configured ? "configurado" : "não configurado");
       
-      const data = await response.json();
-      console.log("Chave de API obtida com sucesso do backend");
       return data;
     } catch (error) {
-      console.error('Erro ao buscar chave de API:', error);
-      console.log("Usando chave de API do contexto:", adminConfig?.apiKey ? "existe" : "não definida");
+      console.error('Erro ao verificar status do LLM:', error);
       
       // Check if error is due to backend server not running
       if (error instanceof TypeError && error.message.includes('Failed to fetch') ||
@@ -86,29 +59,23 @@ const Index = () => {
         // Only show toast once
         if (!backendError) {
           toast.error("Servidor backend não está em execução", {
-            description: "Configure a chave de API diretamente no aplicativo",
+            description: "O assistente precisa do servidor backend para funcionar",
             duration: 10000,
           });
-          
-          // If we don't have an API key and the backend isn't working, show dialog
-          if (!adminConfig?.apiKey) {
-            setShowSetupDialog(true);
-          }
         }
       }
       
-      // In case of error, use the value from context
-      return { apiKey: adminConfig?.apiKey || null };
+      return { configured: false };
     } finally {
       setApiCheckInProgress(false);
     }
-  }, [adminConfig, backendError, apiCheckInProgress, apiBaseUrl]);
+  }, [backendError, apiCheckInProgress, isLlmConfigured]);
 
-  // Fetch API key from backend, with reduced stale time and cache time
+  // Check LLM status on the backend, with reduced stale time and cache time
   // Updated to use gcTime instead of cacheTime for React Query v5+
-  const { data: apiKeyData, isLoading: isApiKeyLoading } = useQuery({
-    queryKey: ['apiKey'],
-    queryFn: fetchApiKey,
+  const { data: llmStatusData, isLoading: isApiKeyLoading } = useQuery({
+    queryKey: ['llmStatus'],
+    queryFn: fetchLlmStatus,
     retry: 1, // Only retry once to avoid too many failed requests
     staleTime: 30000, // Consider data stale after 30 seconds
     gcTime: 60000, // Cache for 1 minute only (previously cacheTime)
@@ -117,11 +84,10 @@ const Index = () => {
   });
 
   useEffect(() => {
-    if (apiKeyData) {
-      console.log("Definindo chave de API a partir dos dados:", apiKeyData.apiKey ? "Chave de API existe" : "Chave de API é nula");
-      setApiKey(apiKeyData.apiKey);
+    if (llmStatusData) {
+      setIsLlmConfigured(Boolean(llmStatusData.configured));
     }
-  }, [apiKeyData]);
+  }, [llmStatusData]);
 
   const handleSaveApiKey = async () => {
     if (!tempApiKey.trim()) {
@@ -130,17 +96,19 @@ const Index = () => {
     }
 
     try {
-      // Update API key in context
       const updatedConfig = {
         ...adminConfig,
         apiKey: tempApiKey.trim()
       };
       
-      const success = await updateAdminConfig(updatedConfig);
+      // The key is stored on the server, where the LLM proxy uses it
+      const savedOnServer = await databaseService.saveApiKeyToServer(updatedConfig);
       
-      if (success) {
-        setApiKey(tempApiKey.trim());
+      if (savedOnServer) {
+        await updateAdminConfig(updatedConfig);
+        setIsLlmConfigured(true);
         setShowSetupDialog(false);
+        setTempApiKey("");
         toast.success("Chave de API configurada com sucesso");
       } else {
         throw new Error('Falha ao salvar chave de API');
@@ -169,7 +137,7 @@ const Index = () => {
             </div>
             <div className="ml-3">
               <p className="text-sm text-yellow-700">
-                O servidor backend não está em execução. Você pode configurar a chave de API diretamente no aplicativo ou acessar a página de administração.
+                O servidor backend não está em execução. O assistente precisa do servidor para se comunicar com a OpenAI.
               </p>
             </div>
             <div className="ml-auto pl-3 flex gap-2">
@@ -192,7 +160,7 @@ const Index = () => {
             <DialogTitle>Configurar Chave de API OpenAI</DialogTitle>
             <DialogDescription>
               Insira sua chave de API OpenAI para usar o assistente de chat.
-              Esta chave será armazenada localmente no seu navegador.
+              Esta chave será armazenada no servidor e nunca enviada aos visitantes.
             </DialogDescription>
           </DialogHeader>
           <div className="my-4">
@@ -217,7 +185,8 @@ const Index = () => {
         </DialogContent>
       </Dialog>
 
-      <ChatWidget apiKey={apiKey} />
+      {/* Provedores compatíveis e o simulado não dependem da chave da OpenAI */}
+      <ChatWidget isLlmConfigured={isLlmConfigured || !providerRequiresApiKey(agentConfig.provider)} />
     </div>
   );
 };
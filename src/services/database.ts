@@ -24,9 +24,7 @@ export const initDatabase = async () => {
     console.log('Database connected successfully');
     connection.release();
     
-    // Cria as tabelas necessárias se não existirem
-    await createTables();
-    
+    // As tabelas são criadas e atualizadas pelas migrations do backend (backend/migrations)
     return true;
   } catch (error) {
     console.error('Database connection error:', error);
@@ -34,99 +32,6 @@ export const initDatabase = async () => {
   }
 };
 
-// Cria as tabelas necessárias
-const createTables = async () => {
-  if (!pool) return;
-  
-  try {
-    // Tabela de configurações do widget
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS widget_config (
-        id INT PRIMARY KEY,
-        position VARCHAR(20) NOT NULL,
-        title VARCHAR(100) NOT NULL,
-        subtitle VARCHAR(255) NOT NULL,
-        primary_color VARCHAR(20) NOT NULL,
-        icon_type VARCHAR(20) NOT NULL,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Tabela de configurações do agente
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS agent_config (
-        id INT PRIMARY KEY,
-        system_prompt TEXT NOT NULL,
-        voice_enabled BOOLEAN DEFAULT true,
-        voice_id VARCHAR(50) NOT NULL,
-        voice_language VARCHAR(10) NOT NULL,
-        voice_latency INT DEFAULT 100,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Tabela de funções do agente
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS agent_functions (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        description TEXT NOT NULL,
-        parameters JSON NOT NULL,
-        webhook VARCHAR(255) NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Tabela de arquivos de treinamento
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS training_files (
-        id VARCHAR(36) PRIMARY KEY,
-        name VARCHAR(255) NOT NULL,
-        content TEXT NOT NULL,
-        size INT NOT NULL,
-        type VARCHAR(100) NOT NULL,
-        timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Tabela de conversas
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS conversations (
-        id VARCHAR(36) PRIMARY KEY,
-        is_active BOOLEAN DEFAULT true,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-    
-    // Tabela de mensagens
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS messages (
-        id VARCHAR(36) PRIMARY KEY,
-        conversation_id VARCHAR(36) NOT NULL,
-        role ENUM('user', 'assistant', 'system') NOT NULL,
-        content TEXT NOT NULL,
-        timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (conversation_id) REFERENCES conversations(id) ON DELETE CASCADE
-      )
-    `);
-    
-    // Tabela de configurações de admin
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS admin_config (
-        id INT PRIMARY KEY,
-        username VARCHAR(50) NOT NULL,
-        password_hash VARCHAR(100) NOT NULL,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-    
-    console.log('Database tables created/verified');
-  } catch (error) {
-    console.error('Error creating tables:', error);
-  }
-};
-
 // Obtém a conexão com o banco de dados
 export const getDbConnection = async () => {
   if (!pool) {
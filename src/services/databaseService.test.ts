@@ -0,0 +1,232 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Message } from "@/types/chat";
+
+type DatabaseService = typeof import("./databaseService");
+
+// localStorage/sessionStorage em memória; o ambiente dos testes é o Node, sem IndexedDB, então a
+// fila de sincronização usa a memória
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+    clear: () => items.clear()
+  };
+};
+
+interface Request {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+// Backend falso: grava as escritas e responde com o status programado para cada uma
+const backend = {
+  up: true,
+  requests: [] as Request[],
+  // Status das próximas escritas, na ordem; sem nada programado a escrita dá 200
+  writeStatuses: [] as number[],
+  conversations: new Map<string, { id: string; createdAt: string; messages: Record<string, unknown>[] }>()
+};
+
+const json = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const handleRequest = async (url: string, init: RequestInit = {}) => {
+  if (!backend.up) throw new TypeError("Failed to fetch");
+
+  const method = init.method || "GET";
+  const path = new URL(url, "http://localhost").pathname.replace(/^\/api/, "");
+  if (path === "/health") return json(200, { status: "ok", dbConnected: true });
+
+  const body = init.body ? JSON.parse(String(init.body)) : undefined;
+  if (method === "GET") {
+    const conversation = backend.conversations.get(path.split("/")[2]);
+    return conversation ? json(200, conversation) : json(404, { error: "Conversation not found" });
+  }
+
+  backend.requests.push({ method, path, body });
+  const status = backend.writeStatuses.shift() ?? 200;
+  if (status !== 200) return json(status, { error: "Falha programada" });
+
+  // O servidor guarda cada mensagem uma vez só, pelo id que o cliente gerou
+  const [, , conversationId, resource] = path.split("/");
+  if (method === "POST" && resource === "messages") {
+    const conversation = backend.conversations.get(conversationId)
+      || { id: conversationId, createdAt: String(body?.timestamp), messages: [] };
+    if (!conversation.messages.some(message => message.id === body?.id)) {
+      conversation.messages.push(body!);
+    }
+    backend.conversations.set(conversationId, conversation);
+  }
+  return json(200, { success: true });
+};
+
+const message = (id: string, content: string): Message => ({
+  id,
+  role: "user",
+  content,
+  timestamp: new Date("2026-03-10T14:00:00.000Z")
+});
+
+const writes = () => backend.requests.map(request => `${request.method} ${request.path}`);
+
+let database: DatabaseService;
+
+// Cada teste carrega o serviço de novo: o estado da conexão e a fila ficam no módulo
+const connect = async () => {
+  database = await import("./databaseService");
+  expect(await database.getDbConnection()).toBe(true);
+  await database.flushOutbox();
+};
+
+const comeBack = async () => {
+  backend.up = true;
+  await database.getDbConnection();
+  await database.flushOutbox();
+};
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  vi.stubGlobal("window", {
+    location: { hostname: "localhost", origin: "http://localhost" },
+    addEventListener: () => {}
+  });
+  vi.stubGlobal("localStorage", createStorage());
+  vi.stubGlobal("sessionStorage", createStorage());
+  vi.stubGlobal("fetch", vi.fn(handleRequest));
+
+  backend.up = true;
+  backend.requests = [];
+  backend.writeStatuses = [];
+  backend.conversations = new Map();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("sync outbox", () => {
+  it("queues the writes made offline and replays them in order on reconnect", async () => {
+    await connect();
+    backend.up = false;
+
+    database.createConversation("conv-1");
+    database.addMessage("conv-1", message("msg-1", "Quero a segunda via do boleto"));
+    database.updateMessage("conv-1", "msg-1", { content: "Quero a segunda via do boleto de março", truncated: true });
+    await vi.waitFor(() => expect(database.getSyncState().pendingCount).toBe(3));
+    expect(database.getSyncState().status).toBe("offline");
+
+    await comeBack();
+
+    expect(writes()).toEqual([
+      "POST /conversation",
+      "POST /conversation/conv-1/messages",
+      "PATCH /conversation/conv-1/messages/msg-1"
+    ]);
+    expect(backend.requests[1].body).toMatchObject({ id: "msg-1", timestamp: "2026-03-10T14:00:00.000Z" });
+    expect(backend.requests[2].body).toEqual({ content: "Quero a segunda via do boleto de março", truncated: true });
+    expect(database.getSyncState()).toMatchObject({ status: "synced", pendingCount: 0 });
+  });
+
+  it("keeps a write that failed on the server queued and retries it with the same message id", async () => {
+    await connect();
+    database.createConversation("conv-1");
+    await database.flushOutbox();
+
+    // A resposta se perde depois que o servidor guardou a mensagem: a escrita falha e fica na fila
+    vi.mocked(fetch).mockImplementationOnce(async (url, init) => {
+      await handleRequest(String(url), init);
+      throw new TypeError("Failed to fetch");
+    });
+    database.addMessage("conv-1", message("msg-1", "Olá"));
+    await vi.waitFor(() => expect(database.getSyncState().status).toBe("offline"));
+    expect(database.getSyncState()).toMatchObject({ pendingCount: 1, lastError: "Failed to fetch" });
+
+    // Um erro do servidor também mantém a escrita na fila
+    backend.writeStatuses = [503];
+    await comeBack();
+    expect(database.getSyncState()).toMatchObject({ status: "offline", pendingCount: 1 });
+
+    await comeBack();
+    expect(writes()).toEqual([
+      "POST /conversation",
+      "POST /conversation/conv-1/messages",
+      "POST /conversation/conv-1/messages",
+      "POST /conversation/conv-1/messages"
+    ]);
+    // Reenviada com o mesmo id, a mensagem é gravada uma vez só
+    expect(backend.conversations.get("conv-1")?.messages.map(stored => stored.id)).toEqual(["msg-1"]);
+    expect(database.getSyncState()).toMatchObject({ status: "synced", pendingCount: 0, lastError: undefined });
+  });
+
+  it("drops a write the server rejects so it does not block the ones after it", async () => {
+    await connect();
+    backend.up = false;
+
+    database.addMessage("conv-1", message("msg-1", "Primeira"));
+    database.addMessage("conv-1", message("msg-2", "Segunda"));
+    await vi.waitFor(() => expect(database.getSyncState().pendingCount).toBe(2));
+
+    backend.writeStatuses = [400];
+    await comeBack();
+
+    expect(writes()).toEqual(["POST /conversation/conv-1/messages", "POST /conversation/conv-1/messages"]);
+    expect(backend.conversations.get("conv-1")?.messages.map(stored => stored.id)).toEqual(["msg-2"]);
+    expect(database.getSyncState()).toMatchObject({ status: "synced", pendingCount: 0 });
+  });
+
+  it("never queues anything before this browser has reached the backend", async () => {
+    backend.up = false;
+    database = await import("./databaseService");
+    expect(await database.getDbConnection()).toBe(false);
+
+    database.createConversation("conv-1");
+    database.addMessage("conv-1", message("msg-1", "Olá"));
+
+    expect(database.getSyncState()).toMatchObject({ status: "local", pendingCount: 0 });
+    expect(backend.requests).toEqual([]);
+  });
+});
+
+describe("visitor conversation", () => {
+  it("reads only the visitor's own conversation, by id, and keeps the local copy up to date", async () => {
+    await connect();
+    database.createConversation("conv-1");
+    database.addMessage("conv-1", message("msg-1", "Olá"));
+    await database.flushOutbox();
+
+    // Resposta gravada por outra aba do mesmo visitante
+    backend.conversations.get("conv-1")!.messages.push({
+      id: "msg-2",
+      role: "assistant",
+      content: "Olá! Como posso ajudar?",
+      timestamp: "2026-03-10T14:01:00.000Z"
+    });
+
+    const conversation = await database.getConversation(database.getCurrentConversationId()!);
+    expect(conversation?.messages.map(stored => stored.id)).toEqual(["msg-1", "msg-2"]);
+    expect(conversation?.messages[1].timestamp).toEqual(new Date("2026-03-10T14:01:00.000Z"));
+
+    const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url));
+    expect(urls.some(url => url.includes("/conversation/conv-1/messages?"))).toBe(true);
+    expect(urls.some(url => /\/conversation\?/.test(url))).toBe(false);
+
+    // Offline, a cópia local já tem a resposta
+    backend.up = false;
+    await database.getDbConnection();
+    expect((await database.getConversation("conv-1"))?.messages.map(stored => stored.id)).toEqual(["msg-1", "msg-2"]);
+  });
+});
@@ -1,5 +1,7 @@
 import * as localDb from './localStorageDb';
-import { WidgetConfig, AgentConfig, AdminConfig, Message, Conversation, TrainingFile } from "@/types/chat";
+import * as outbox from './syncOutbox';
+import { blobToBase64 } from "@/lib/utils";
+import { WidgetConfig, AgentConfig, AdminConfig, Message, Conversation, TrainingFile, UrlSource, SyncState, ChunkSettings, ChunkingStrategy } from "@/types/chat";
 
 // Enhanced API base URL function that robustly handles both development and production environments
 const getApiBaseUrl = () => {
@@ -32,8 +34,11 @@ console.log(`Running on hostname: ${window.location.hostname}`);
 
 // Configuration for fetch requests
 const FETCH_TIMEOUT = 15000; // 15 seconds timeout
+const UPLOAD_TIMEOUT = 120000; // Training uploads are extracted and embedded before the server answers
+const CRAWL_TIMEOUT = 300000; // A crawl fetches up to hundreds of pages before answering
 const MAX_RETRIES = 3;     
 const RETRY_DELAY = 1000;  // 1 second between retries
+const SYNC_RETRY_INTERVAL = 15000; // Reconnection attempts while writes wait in the outbox
 
 // Database connection state
 let isDbConnected = false;
@@ -42,13 +47,14 @@ let connectionRetryCount = 0;
 let lastConnectionAttempt = 0;
 let inProgressRequests = new Set();
 
-// Helper function to create a fetch request with timeout
-const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
+// Helper function to create a fetch request with timeout.
+// Error responses throw an Error carrying the HTTP `status` and the server's `details` message.
+const fetchWithTimeout = async (url: string, options: RequestInit = {}, timeout: number = FETCH_TIMEOUT) => {
   const controller = new AbortController();
   const { signal } = controller;
   
   // Create a timeout that will abort the fetch
-  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT);
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
   
   try {
     console.log(`Fetching from URL: ${url}`);
@@ -81,14 +87,24 @@ const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
       console.error(`Fetch error: ${response.status} ${response.statusText}`);
       
       // Log the response body for debugging
+      let details: string | undefined;
       try {
         const errorText = await response.text();
         console.error(`Error response body: ${errorText.substring(0, 200)}${errorText.length > 200 ? '...' : ''}`);
+        try {
+          const errorBody = JSON.parse(errorText);
+          details = errorBody.details || errorBody.error;
+        } catch (e) {
+          // Not a JSON error body
+        }
       } catch (e) {
         console.error('Could not read error response body');
       }
       
-      throw new Error(`API returned error status: ${response.status}`);
+      throw Object.assign(new Error(`API returned error status: ${response.status}`), {
+        status: response.status,
+        details
+      });
     }
     
     // Check content type to ensure we're getting JSON
@@ -113,8 +129,8 @@ const fetchWithTimeout = async (url: string, options: RequestInit = {}) => {
     
     // Add more detailed error logging
     if (error.name === 'AbortError') {
-      console.error(`Fetch timeout after ${FETCH_TIMEOUT}ms:`, url);
-      throw new Error(`Request timed out after ${FETCH_TIMEOUT}ms`);
+      console.error(`Fetch timeout after ${timeout}ms:`, url);
+      throw new Error(`Request timed out after ${timeout}ms`);
     }
     
     throw error;
@@ -230,12 +246,14 @@ export const initDatabase = async (): Promise<boolean> => {
     }
     
     console.log(`Using ${isDbConnected ? 'backend API with database' : 'localStorage fallback'} for data storage`);
+    handleConnectionChange();
     
     return isDbConnected;
   } catch (error) {
     console.error('Error connecting to backend API:', error);
     console.log('Using localStorage fallback for database operations');
     isDbConnected = false;
+    handleConnectionChange();
     return false;
   }
 };
@@ -245,6 +263,461 @@ export const getApiHealthUrl = () => {
   return `${API_BASE_URL}/health`;
 };
 
+// Build a full URL for a backend API path (e.g. "/llm/chat")
+export const getApiUrl = (path: string) => {
+  return `${API_BASE_URL}${path}`;
+};
+
+// An empty apiKey keeps the key stored on the server
+const putAdminConfig = (config: AdminConfig) =>
+  fetchWithTimeout(`${API_BASE_URL}/admin`, {
+    method: 'PUT',
+    headers: adminAuthHeaders(),
+    body: JSON.stringify({
+      username: config.username,
+      passwordHash: config.passwordHash,
+      apiKey: config.apiKey
+    })
+  });
+
+// Save the OpenAI API key on the backend so the LLM proxy can use it.
+// The key is only ever sent to the server, never read back by the browser.
+// Requires an admin session, except for the first key (first-run setup), when only the key is saved.
+export const saveApiKeyToServer = async (config: AdminConfig): Promise<boolean> => {
+  try {
+    await putAdminConfig(config);
+    return true;
+  } catch (error) {
+    console.error('Error saving API key to server:', error);
+    return false;
+  }
+};
+
+// Check whether the backend has an API key configured for the LLM proxy
+export const getLlmStatus = async (): Promise<{ configured: boolean }> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/llm/status?_=${Date.now()}`, {
+    cache: 'no-store'
+  });
+  return response.json();
+};
+
+// Admin session started by loginAdmin; it lasts until the tab is closed or the server expires it
+const ADMIN_SESSION_KEY = 'admin_session';
+
+interface AdminSession {
+  token: string;
+  expiresAt: string;
+}
+
+const getAdminSession = (): AdminSession | null => {
+  try {
+    const session: AdminSession | null = JSON.parse(sessionStorage.getItem(ADMIN_SESSION_KEY) || 'null');
+    return session && new Date(session.expiresAt).getTime() > Date.now() ? session : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+export const hasAdminSession = (): boolean => getAdminSession() !== null;
+
+const adminAuthHeaders = (): Record<string, string> => {
+  const session = getAdminSession();
+  return session ? { 'Authorization': `Bearer ${session.token}` } : {};
+};
+
+// Check the admin credentials on the server and keep the session token for the admin-only routes.
+// Rejects with status 401 for wrong credentials.
+export const loginAdmin = async (username: string, password: string): Promise<void> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/admin/login`, {
+    method: 'POST',
+    body: JSON.stringify({ username, password })
+  });
+  const { token, expiresAt } = await response.json();
+  sessionStorage.setItem(ADMIN_SESSION_KEY, JSON.stringify({ token, expiresAt }));
+};
+
+export interface RagIndexingResult {
+  chunkCount?: number;
+  embeddingModel?: string | null;
+  skipped?: boolean;
+  embeddingError?: string | null;
+  error?: string;
+}
+
+// Response of a training upload: the text extracted from the original file (when `data` was sent),
+// the detected format, extraction warnings and the RAG indexing result
+export interface TrainingUploadResult {
+  content?: string;
+  format?: string;
+  warnings?: string[];
+  indexing?: RagIndexingResult;
+}
+
+export interface RagSearchResult {
+  chunkId: string;
+  documentId: string;
+  fileName: string;
+  content: string;
+  score: number;
+  vectorScore?: number;
+  lexicalScore?: number;
+}
+
+// Chunk settings of a file as the server applies them, and the strategy 'auto' picks for the file
+export interface ChunkSettingsPreview {
+  settings: Required<ChunkSettings>;
+  detectedStrategy: Exclude<ChunkingStrategy, 'auto'>;
+}
+
+export interface RagStats {
+  documentCount: number;
+  chunkCount: number;
+  embeddingModels: string[];
+  connected: boolean;
+}
+
+// Save a training file on the server, which chunks, embeds (with the embedding settings of the
+// agent config saved on the server) and stores it for RAG.
+// `data` is the original file in base64; the server then extracts its text (DOCX, PDF, HTML or text).
+// Requires an admin session.
+export const ingestTrainingFile = async (file: TrainingFile, data?: string): Promise<TrainingUploadResult> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/training`, {
+    method: 'POST',
+    headers: adminAuthHeaders(),
+    // With the original file the server extracts the text itself
+    body: JSON.stringify({ ...file, content: data ? undefined : file.content, data })
+  }, data ? UPLOAD_TIMEOUT : FETCH_TIMEOUT);
+  const result = await response.json();
+  return {
+    content: result.content,
+    format: result.format,
+    warnings: result.warnings || [],
+    indexing: result.indexing
+  };
+};
+
+// Remove a training file (and its RAG chunks) from the server. Requires an admin session.
+export const deleteTrainingFileFromServer = async (id: string): Promise<void> => {
+  await fetchWithTimeout(`${API_BASE_URL}/training/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: adminAuthHeaders()
+  });
+};
+
+// Hybrid search over the chunks stored on the server
+export const searchRag = async (
+  query: string,
+  options: { topK?: number; similarityThreshold?: number; limit?: number }
+): Promise<{ results: RagSearchResult[]; embeddingModel: string; chunkCount: number }> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/rag/search`, {
+    method: 'POST',
+    body: JSON.stringify({ query, ...options })
+  });
+  return response.json();
+};
+
+// Resolve the chunk settings of a training file with the server's chunkers
+export const previewChunkSettings = async (
+  file: Pick<TrainingFile, 'name' | 'type'>,
+  chunking?: ChunkSettings
+): Promise<ChunkSettingsPreview> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/rag/chunking`, {
+    method: 'POST',
+    body: JSON.stringify({ fileName: file.name, fileType: file.type, chunking })
+  });
+  return response.json();
+};
+
+// Re-embed the stored chunks with the embedding model of the agent config saved on the server.
+// Without force only the chunks of another model are embedded. Requires an admin session.
+export const reindexRag = async (force = true): Promise<number> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/rag/reindex`, {
+    method: 'POST',
+    headers: adminAuthHeaders(),
+    body: JSON.stringify({ force })
+  });
+  const data = await response.json();
+  return data.reembedded || 0;
+};
+
+// Save the agent config on the server, whose provider and embedding settings are the ones the
+// server uses for RAG. Requires an admin session.
+export const saveAgentConfigToServer = async (config: AgentConfig): Promise<void> => {
+  await fetchWithTimeout(`${API_BASE_URL}/agent`, {
+    method: 'PUT',
+    headers: adminAuthHeaders(),
+    body: JSON.stringify(config)
+  });
+};
+
+// URL source as the server stores it (dates arrive as ISO strings)
+const toUrlSource = (source: UrlSource): UrlSource => ({
+  ...source,
+  lastCrawledAt: source.lastCrawledAt ? new Date(source.lastCrawledAt) : undefined
+});
+
+// URL knowledge sources are stored, crawled and refreshed on the server (browsers cannot fetch
+// other sites because of CORS). All these calls require an admin session.
+export const getUrlSources = async (): Promise<UrlSource[]> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/sources?_=${Date.now()}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  const sources: UrlSource[] = await response.json();
+  return sources.map(toUrlSource);
+};
+
+export const createUrlSource = async (
+  settings: Pick<UrlSource, 'url' | 'maxDepth' | 'maxPages' | 'refreshIntervalHours'>
+): Promise<UrlSource> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/sources`, {
+    method: 'POST',
+    headers: adminAuthHeaders(),
+    body: JSON.stringify(settings)
+  });
+  return toUrlSource(await response.json());
+};
+
+// Crawl a source now; resolves once the crawl is over, with status 'error' if it failed
+export const refreshUrlSource = async (id: string): Promise<UrlSource> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/sources/${encodeURIComponent(id)}/refresh`, {
+    method: 'POST',
+    headers: adminAuthHeaders()
+  }, CRAWL_TIMEOUT);
+  return toUrlSource(await response.json());
+};
+
+// Remove a source with the training files of its pages
+export const removeUrlSource = async (id: string): Promise<void> => {
+  await fetchWithTimeout(`${API_BASE_URL}/sources/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+    headers: adminAuthHeaders()
+  });
+};
+
+export const getRagStats = async (): Promise<RagStats> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/rag/stats?_=${Date.now()}`, {
+    cache: 'no-store'
+  });
+  return response.json();
+};
+
+// Audio of one turn of a voice call. `messageId` links it to the transcribed user message
+// or to the assistant answer that was spoken.
+export interface CallRecordingUpload {
+  conversationId: string;
+  messageId?: string;
+  role: 'user' | 'assistant';
+  transcript: string;
+  audio: Blob;
+  durationMs?: number;
+  retentionDays: number;
+}
+
+export interface RecordedCall {
+  conversationId: string;
+  turnCount: number;
+  totalSize: number;
+  startedAt: string;
+  endedAt: string;
+  expiresAt: string | null;
+}
+
+export interface CallRecordingTurn {
+  id: string;
+  conversationId: string;
+  messageId: string | null;
+  role: 'user' | 'assistant';
+  transcript: string;
+  mimeType: string;
+  size: number;
+  durationMs: number | null;
+  createdAt: string;
+  expiresAt: string | null;
+}
+
+// Save the caller's answer to the recording consent prompt; refusing deletes what was already recorded
+export const saveRecordingConsent = async (conversationId: string, granted: boolean, consentText?: string): Promise<void> => {
+  await fetchWithTimeout(`${API_BASE_URL}/recordings/consent`, {
+    method: 'POST',
+    body: JSON.stringify({ conversationId, granted, consentText })
+  });
+};
+
+export const uploadCallRecording = async (recording: CallRecordingUpload): Promise<string> => {
+  const { audio, ...details } = recording;
+  const response = await fetchWithTimeout(`${API_BASE_URL}/recordings`, {
+    method: 'POST',
+    body: JSON.stringify({ ...details, mimeType: audio.type, data: await blobToBase64(audio) })
+  }, UPLOAD_TIMEOUT);
+  const data = await response.json();
+  return data.id;
+};
+
+// The recordings can only be listed, played and deleted with an admin session
+export const getRecordedCalls = async (): Promise<RecordedCall[]> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/recordings?_=${Date.now()}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  const data = await response.json();
+  return data.calls || [];
+};
+
+export const getCallRecordingTurns = async (conversationId: string): Promise<CallRecordingTurn[]> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/recordings/${encodeURIComponent(conversationId)}?_=${Date.now()}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  const data = await response.json();
+  return data.turns || [];
+};
+
+// Audio of one turn. An <audio> src cannot send the admin token, so the audio is downloaded
+// here and played from an object URL.
+export const getCallRecordingAudio = async (id: string): Promise<Blob> => {
+  const response = await fetch(`${API_BASE_URL}/recordings/audio/${encodeURIComponent(id)}`, {
+    headers: adminAuthHeaders(),
+    credentials: 'include'
+  });
+  if (!response.ok) {
+    throw Object.assign(new Error(`API returned error status: ${response.status}`), { status: response.status });
+  }
+  return response.blob();
+};
+
+export const deleteCallRecordings = async (conversationId: string): Promise<number> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/recordings/${encodeURIComponent(conversationId)}`, {
+    method: 'DELETE',
+    headers: adminAuthHeaders()
+  });
+  const data = await response.json();
+  return data.deleted || 0;
+};
+
+// Delete the recordings past their expiry date and, with `retentionDays`, those older than that period
+export const purgeCallRecordings = async (retentionDays?: number): Promise<number> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/recordings/purge`, {
+    method: 'POST',
+    headers: adminAuthHeaders(),
+    body: JSON.stringify({ retentionDays })
+  });
+  const data = await response.json();
+  return data.deleted || 0;
+};
+
+export interface ConversationHistoryFilters {
+  from?: string;
+  to?: string;
+  hasVoice?: boolean;
+  sentiment?: string;
+  minMessages?: number;
+  maxMessages?: number;
+  q?: string;
+}
+
+export interface ConversationSummary {
+  id: string;
+  isActive: boolean;
+  createdAt: string;
+  lastMessageAt: string | null;
+  messageCount: number;
+  hasVoice: boolean;
+  sentiment: string | null;
+  preview: string | null;
+}
+
+export interface ConversationHistoryPage {
+  conversations: ConversationSummary[];
+  nextCursor: string | null;
+}
+
+export interface ConversationTranscript extends ConversationSummary {
+  messages: Message[];
+}
+
+// One page of the conversation history stored on the server, newest first.
+// The history, the transcripts and the message search require an admin session.
+export const getConversationHistory = async (
+  filters: ConversationHistoryFilters = {},
+  cursor?: string | null,
+  limit = 20
+): Promise<ConversationHistoryPage> => {
+  const params = new URLSearchParams({ limit: String(limit), _: String(Date.now()) });
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      params.set(key, String(value));
+    }
+  });
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+
+  const response = await fetchWithTimeout(`${API_BASE_URL}/conversation/history?${params}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  const data = await response.json();
+  return {
+    conversations: data.conversations || [],
+    nextCursor: data.nextCursor || null
+  };
+};
+
+export const getConversationTranscript = async (conversationId: string): Promise<ConversationTranscript> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}/conversation/${encodeURIComponent(conversationId)}?_=${Date.now()}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  const data = await response.json();
+  return {
+    ...data,
+    messages: (data.messages || []).map((message: Message) => ({
+      ...message,
+      timestamp: new Date(message.timestamp)
+    }))
+  };
+};
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  role: Message['role'];
+  timestamp: string;
+  conversationCreatedAt: string;
+  snippet: string;
+  // [start, end) offsets of the matched words in the snippet
+  highlights: [number, number][];
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchResult[];
+  nextOffset: number | null;
+}
+
+// Full-text search over the messages of every conversation stored on the server
+export const searchConversationMessages = async (
+  q: string,
+  roles: Message['role'][] = [],
+  offset = 0,
+  limit = 20
+): Promise<MessageSearchPage> => {
+  const params = new URLSearchParams({ q, limit: String(limit), offset: String(offset) });
+  if (roles.length > 0) {
+    params.set('role', roles.join(','));
+  }
+
+  const response = await fetchWithTimeout(`${API_BASE_URL}/conversation/search?${params}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  const data = await response.json();
+  return {
+    results: data.results || [],
+    nextOffset: data.nextOffset ?? null
+  };
+};
+
 // Get database connection status
 export const getDbConnection = async (): Promise<boolean> => {
   // Prevent duplicate concurrent requests
@@ -279,11 +752,13 @@ export const getDbConnection = async (): Promise<boolean> => {
     const data = await response.json();
     isDbConnected = data.dbConnected && data.status === 'ok';
     inProgressRequests.delete(requestId);
+    handleConnectionChange();
     return data.dbConnected;
   } catch (error) {
     console.error('Error checking database connection:', error);
     isDbConnected = false;
     inProgressRequests.delete(requestId);
+    handleConnectionChange();
     return false;
   }
 };
@@ -300,16 +775,410 @@ export const isConnected = () => {
   return isDbConnected;
 };
 
-// Export type-safe versions of all functions from localDb
-export const getWidgetConfig = (): WidgetConfig => localDb.getWidgetConfig();
-export const updateWidgetConfig = (config: WidgetConfig): boolean => localDb.updateWidgetConfig(config);
-export const getAgentConfig = (): AgentConfig => localDb.getAgentConfig();
-export const updateAgentConfig = (config: AgentConfig): boolean => localDb.updateAgentConfig(config);
-export const getAdminConfig = (): AdminConfig => localDb.getAdminConfig();
-export const updateAdminConfig = (config: AdminConfig): boolean => localDb.updateAdminConfig(config);
-export const getConversations = (): Conversation[] => localDb.getConversations();
-export const createConversation = (id: string): boolean => localDb.createConversation(id);
-export const addMessage = (conversationId: string, message: Message): boolean => localDb.addMessage(conversationId, message);
-export const getTrainingFiles = (): TrainingFile[] => localDb.getTrainingFiles();
-export const addTrainingFile = (file: TrainingFile): boolean => localDb.addTrainingFile(file);
-export const removeTrainingFile = (id: string): boolean => localDb.removeTrainingFile(id);
+// Conversation repository. localStorage keeps a copy of every conversation so the app works
+// offline; once this browser has reached the backend database, every write is also queued in
+// the outbox (IndexedDB) and replayed in order through the REST API. Messages carry client
+// generated ids, so a write replayed after a lost response is stored only once.
+
+const REMOTE_SYNC_KEY = 'remoteSyncEnabled';
+
+let pendingCount = 0;
+let isSyncing = false;
+let lastSyncedAt: Date | null = null;
+let lastSyncError: string | undefined;
+let flushPromise: Promise<void> | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const syncListeners = new Set<(state: SyncState) => void>();
+
+// A deployment without the backend never queues anything: localStorage is its only store
+const isRemoteSyncEnabled = () => localStorage.getItem(REMOTE_SYNC_KEY) === 'true';
+
+export const getSyncState = (): SyncState => {
+  let status: SyncState['status'];
+  if (!isRemoteSyncEnabled()) status = 'local';
+  else if (isSyncing) status = 'syncing';
+  else if (!isDbConnected) status = 'offline';
+  else status = pendingCount > 0 ? 'pending' : 'synced';
+  
+  return { status, pendingCount, lastSyncedAt, lastError: lastSyncError };
+};
+
+// Subscribe to sync state changes; returns the unsubscribe function
+export const onSyncStateChange = (listener: (state: SyncState) => void): (() => void) => {
+  syncListeners.add(listener);
+  return () => {
+    syncListeners.delete(listener);
+  };
+};
+
+const publishSyncState = () => {
+  const state = getSyncState();
+  syncListeners.forEach(listener => listener(state));
+};
+
+const refreshPendingCount = async () => {
+  try {
+    pendingCount = await outbox.countPendingEntries();
+  } catch (error) {
+    console.error('Error counting outbox entries:', error);
+  }
+  publishSyncState();
+};
+
+const scheduleReconnect = () => {
+  if (reconnectTimer || !isRemoteSyncEnabled()) return;
+  
+  reconnectTimer = setTimeout(async () => {
+    reconnectTimer = null;
+    if (!await initDatabase()) {
+      scheduleReconnect();
+    }
+  }, SYNC_RETRY_INTERVAL);
+};
+
+// Called whenever a health check changes (or confirms) the connection state
+const handleConnectionChange = () => {
+  if (isDbConnected) {
+    localStorage.setItem(REMOTE_SYNC_KEY, 'true');
+    flushOutbox();
+  } else {
+    scheduleReconnect();
+    publishSyncState();
+  }
+};
+
+// Client errors other than timeouts and rate limits will not succeed on a retry
+const isPermanentFailure = (error: unknown) => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 500 && ![408, 429].includes(status);
+};
+
+const sendOperation = async (operation: outbox.OutboxOperation) => {
+  const conversationUrl = `${API_BASE_URL}/conversation`;
+  
+  switch (operation.type) {
+    case 'createConversation':
+      await fetchWithTimeout(conversationUrl, {
+        method: 'POST',
+        body: JSON.stringify({ id: operation.conversationId, createdAt: operation.createdAt })
+      });
+      break;
+    case 'addMessage':
+      await fetchWithTimeout(`${conversationUrl}/${encodeURIComponent(operation.conversationId)}/messages`, {
+        method: 'POST',
+        body: JSON.stringify(operation.message)
+      });
+      break;
+    case 'updateMessage':
+      await fetchWithTimeout(
+        `${conversationUrl}/${encodeURIComponent(operation.conversationId)}/messages/${encodeURIComponent(operation.messageId)}`,
+        { method: 'PATCH', body: JSON.stringify(operation.updates) }
+      );
+      break;
+  }
+};
+
+// Send the queued writes in order. A network or server error stops the replay (the entry stays
+// queued and a reconnection is scheduled); a rejected write is dropped so it cannot block the rest.
+const replayOutbox = async () => {
+  if (!isDbConnected) return;
+  
+  isSyncing = true;
+  publishSyncState();
+  
+  try {
+    let entries = await outbox.getPendingEntries();
+    while (entries.length > 0) {
+      for (const entry of entries) {
+        try {
+          await sendOperation(entry.operation);
+        } catch (error) {
+          if (!isPermanentFailure(error)) throw error;
+          console.error(`Dropping ${entry.operation.type} rejected by the server:`, error);
+        }
+        await outbox.removeEntry(entry.id!);
+      }
+      // Writes queued during the replay
+      entries = await outbox.getPendingEntries();
+    }
+    
+    lastSyncedAt = new Date();
+    lastSyncError = undefined;
+  } catch (error) {
+    console.error('Sync interrupted, queued writes will be retried:', error);
+    lastSyncError = error instanceof Error ? error.message : String(error);
+    isDbConnected = false;
+    scheduleReconnect();
+  } finally {
+    isSyncing = false;
+    await refreshPendingCount();
+  }
+};
+
+// Replay the outbox now; concurrent callers share the same replay
+export const flushOutbox = (): Promise<void> => {
+  if (!flushPromise) {
+    flushPromise = replayOutbox().finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+};
+
+const queueWrite = async (operation: outbox.OutboxOperation) => {
+  if (!isRemoteSyncEnabled()) return;
+  
+  try {
+    await outbox.enqueueOperation(operation);
+  } catch (error) {
+    console.error(`Error queueing ${operation.type} for sync:`, error);
+    return;
+  }
+  
+  if (isDbConnected) {
+    flushOutbox();
+  } else {
+    await refreshPendingCount();
+    scheduleReconnect();
+  }
+};
+
+const toOutboxMessage = (message: Message): outbox.OutboxMessage => ({
+  id: message.id,
+  role: message.role,
+  content: message.content,
+  timestamp: new Date(message.timestamp).toISOString(),
+  ...(message.sources?.length ? { sources: message.sources } : {}),
+  ...(message.truncated ? { truncated: true } : {}),
+  ...(message.event ? { event: message.event } : {})
+});
+
+// Dates arrive as ISO strings in the API response
+const parseConversation = (conversation: Conversation): Conversation => ({
+  ...conversation,
+  createdAt: new Date(conversation.createdAt),
+  messages: (conversation.messages || []).map(message => ({
+    ...message,
+    timestamp: new Date(message.timestamp)
+  }))
+});
+
+// Every conversation, for the admin panel (GET /conversation requires an admin session). The local
+// writes are sent first and the local copy is kept up to date; offline (or on error) it is returned.
+export const getConversations = async (): Promise<Conversation[]> => {
+  const localConversations = localDb.getConversations();
+  if (!isDbConnected) return localConversations;
+  
+  try {
+    await flushOutbox();
+    if (!isDbConnected) return localConversations;
+    
+    const response = await fetchWithTimeout(`${API_BASE_URL}/conversation?_=${Date.now()}`, {
+      headers: adminAuthHeaders(),
+      cache: 'no-store'
+    });
+    const remoteConversations: Conversation[] = (await response.json()).map(parseConversation);
+    const remoteIds = new Set(remoteConversations.map(conversation => conversation.id));
+    
+    const conversations = [
+      ...remoteConversations,
+      ...localConversations.filter(conversation => !remoteIds.has(conversation.id))
+    ].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    
+    localDb.saveConversations(conversations);
+    return conversations;
+  } catch (error) {
+    console.error('Error reading conversations from the backend, using the local copy:', error);
+    return localConversations;
+  }
+};
+
+// The visitor's own conversation (the last one started in this browser), or null
+export const getCurrentConversationId = (): string | null => localDb.getCurrentConversationId();
+
+// One conversation for the widget, read by its id (GET /conversation/:id/messages) once the local
+// writes have reached the backend. Messages not stored there yet are kept from the local copy.
+export const getConversation = async (id: string): Promise<Conversation | null> => {
+  const localConversations = localDb.getConversations();
+  const localConversation = localConversations.find(conversation => conversation.id === id) || null;
+  if (!isDbConnected) return localConversation;
+  
+  try {
+    await flushOutbox();
+    if (!isDbConnected) return localConversation;
+    
+    const response = await fetchWithTimeout(`${API_BASE_URL}/conversation/${encodeURIComponent(id)}/messages?_=${Date.now()}`, {
+      cache: 'no-store'
+    });
+    const remoteConversation = parseConversation(await response.json());
+    const remoteIds = new Set(remoteConversation.messages.map(message => message.id));
+    const conversation: Conversation = {
+      ...remoteConversation,
+      messages: [
+        ...remoteConversation.messages,
+        ...(localConversation?.messages || []).filter(message => !remoteIds.has(message.id))
+      ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    };
+    
+    localDb.saveConversations(localConversation
+      ? localConversations.map(existing => existing.id === id ? conversation : existing)
+      : [...localConversations, conversation]);
+    return conversation;
+  } catch (error) {
+    if ((error as { status?: number }).status !== 404) {
+      console.error(`Error reading conversation ${id} from the backend, using the local copy:`, error);
+    }
+    return localConversation;
+  }
+};
+
+export const createConversation = (id: string): boolean => {
+  const saved = localDb.createConversation(id);
+  if (saved) {
+    localDb.setCurrentConversationId(id);
+    queueWrite({ type: 'createConversation', conversationId: id, createdAt: new Date().toISOString() });
+  }
+  return saved;
+};
+
+export const addMessage = (conversationId: string, message: Message): boolean => {
+  const saved = localDb.addMessage(conversationId, message);
+  if (saved) {
+    queueWrite({ type: 'addMessage', conversationId, message: toOutboxMessage(message) });
+  }
+  return saved;
+};
+
+export const updateMessage = (conversationId: string, messageId: string, updates: Partial<Message>): boolean => {
+  const saved = localDb.updateMessage(conversationId, messageId, updates);
+  if (saved) {
+    queueWrite({
+      type: 'updateMessage',
+      conversationId,
+      messageId,
+      updates: {
+        ...(updates.content !== undefined ? { content: updates.content } : {}),
+        ...(updates.sources !== undefined ? { sources: updates.sources } : {}),
+        ...(updates.truncated !== undefined ? { truncated: updates.truncated } : {})
+      }
+    });
+  }
+  return saved;
+};
+
+// Back online: check the backend right away instead of waiting for the next retry
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => {
+    if (isRemoteSyncEnabled()) {
+      initDatabase();
+    }
+  });
+}
+
+// Configuration and training file repository. Connected to the backend, reads come from the server
+// and refresh the local copy, which is used offline and by deployments without the backend. Writes
+// change the local copy; with an admin session they are saved on the server first, and a write the
+// server refuses is not applied locally either.
+
+// Read from the backend and keep the local copy; offline (or on error) the local copy is returned
+const readThrough = async <T>(name: string, readRemote: () => Promise<T>, readLocal: () => T): Promise<T> => {
+  if (!isDbConnected) return readLocal();
+  
+  try {
+    return await readRemote();
+  } catch (error) {
+    console.error(`Error reading ${name} from the backend, using the local copy:`, error);
+    return readLocal();
+  }
+};
+
+// Save on the backend when connected with an admin session, then locally. Without a session (e.g. the
+// voice settings of a widget visitor) only the local copy changes.
+const writeThrough = async (name: string, writeRemote: () => Promise<unknown>, writeLocal: () => boolean): Promise<boolean> => {
+  if (isDbConnected && hasAdminSession()) {
+    try {
+      await writeRemote();
+    } catch (error) {
+      console.error(`Error saving ${name} on the server:`, error);
+      return false;
+    }
+  }
+  return writeLocal();
+};
+
+const getFromServer = async <T>(path: string): Promise<T> => {
+  const response = await fetchWithTimeout(`${API_BASE_URL}${path}?_=${Date.now()}`, {
+    headers: adminAuthHeaders(),
+    cache: 'no-store'
+  });
+  return response.json();
+};
+
+export const getWidgetConfig = (): Promise<WidgetConfig> =>
+  readThrough('widget config', async () => {
+    const config = await getFromServer<WidgetConfig>('/widget');
+    localDb.updateWidgetConfig(config);
+    return config;
+  }, localDb.getWidgetConfig);
+
+export const updateWidgetConfig = (config: WidgetConfig): Promise<boolean> =>
+  writeThrough(
+    'widget config',
+    () => fetchWithTimeout(`${API_BASE_URL}/widget`, { method: 'PUT', headers: adminAuthHeaders(), body: JSON.stringify(config) }),
+    () => localDb.updateWidgetConfig(config)
+  );
+
+// Training files stored on the server (uploads and URL source pages). The server does not keep the
+// chunk settings, so they come from the local copy; files uploaded offline (not indexed) are kept.
+const readServerTrainingFiles = async (): Promise<TrainingFile[]> => {
+  const localFiles = localDb.getTrainingFiles();
+  const localById = new Map(localFiles.map(file => [file.id, file]));
+  const remoteFiles = await getFromServer<TrainingFile[]>('/training');
+  const remoteIds = new Set(remoteFiles.map(file => file.id));
+  
+  return [
+    ...remoteFiles.map(file => ({
+      ...file,
+      timestamp: new Date(file.timestamp),
+      ...(localById.get(file.id)?.chunking ? { chunking: localById.get(file.id)!.chunking } : {})
+    })),
+    ...localFiles.filter(file => !remoteIds.has(file.id))
+  ];
+};
+
+export const getAgentConfig = (): Promise<AgentConfig> =>
+  readThrough('agent config', async () => {
+    const { platformInfo, debug, ...remoteConfig } = await getFromServer<AgentConfig & { platformInfo?: unknown; debug?: unknown }>('/agent');
+    const config: AgentConfig = { ...remoteConfig, trainingFiles: await readServerTrainingFiles() };
+    localDb.updateAgentConfig(config);
+    return config;
+  }, localDb.getAgentConfig);
+
+export const updateAgentConfig = (config: AgentConfig): Promise<boolean> =>
+  writeThrough('agent config', () => saveAgentConfigToServer(config), () => localDb.updateAgentConfig(config));
+
+// The server never returns the password hash or the API key, so the local copy keeps them
+export const getAdminConfig = (): Promise<AdminConfig> =>
+  readThrough('admin config', async () => {
+    const { username } = await getFromServer<{ username: string }>('/admin');
+    const config = { ...localDb.getAdminConfig(), username };
+    localDb.updateAdminConfig(config);
+    return config;
+  }, localDb.getAdminConfig);
+
+export const updateAdminConfig = (config: AdminConfig): Promise<boolean> =>
+  writeThrough('admin config', () => putAdminConfig(config), () => localDb.updateAdminConfig(config));
+
+export const getTrainingFiles = (): Promise<TrainingFile[]> =>
+  readThrough('training files', async () => {
+    const files = await readServerTrainingFiles();
+    localDb.saveTrainingFiles(files);
+    return files;
+  }, localDb.getTrainingFiles);
+
+// The server stores (and extracts, chunks and indexes) a training file when it is uploaded with
+// ingestTrainingFile and removes it with deleteTrainingFileFromServer, both through embeddingService;
+// these keep the local copy in step
+export const addTrainingFile = async (file: TrainingFile): Promise<boolean> => localDb.addTrainingFile(file);
+export const removeTrainingFile = async (id: string): Promise<boolean> => localDb.removeTrainingFile(id);
+export const updateTrainingFile = async (file: TrainingFile): Promise<boolean> => localDb.updateTrainingFile(file);
@@ -28,7 +28,8 @@ const defaultAgentConfig: AgentConfig = {
   knowledgeType: 'rag',
   rag: { enabled: true },
   fineTuning: { enabled: false, modelId: '', status: 'not_started' },
-  assistant: { enabled: false, assistantId: '', name: '' }
+  assistant: { enabled: false, assistantId: '', name: '' },
+  provider: { type: 'openai' }
 };
 
 const defaultAdminConfig: AdminConfig = {
@@ -71,6 +72,9 @@ export const getAgentConfig = (): AgentConfig => {
       }));
     }
     
+    // URL sources are stored on the server now; drop the copy of older versions
+    delete parsedConfig.urlSources;
+    
     // Ensure all required fields are present by merging with defaults
     return {
       ...defaultAgentConfig,
@@ -90,6 +94,10 @@ export const getAgentConfig = (): AgentConfig => {
       assistant: {
         ...defaultAgentConfig.assistant,
         ...(parsedConfig.assistant || {})
+      },
+      provider: {
+        ...defaultAgentConfig.provider,
+        ...(parsedConfig.provider || {})
       }
     };
   }
@@ -162,6 +170,24 @@ export const getConversations = (): Conversation[] => {
   return [];
 };
 
+// Replace the stored conversations (e.g. with the ones read from the backend)
+export const saveConversations = (conversations: Conversation[]): boolean => {
+  try {
+    localStorage.setItem("conversations", JSON.stringify(conversations));
+    return true;
+  } catch (error) {
+    console.error("Error saving conversations:", error);
+    return false;
+  }
+};
+
+// The visitor's own conversation: the last one started in this browser
+export const getCurrentConversationId = (): string | null => localStorage.getItem("currentConversationId");
+
+export const setCurrentConversationId = (id: string): void => {
+  localStorage.setItem("currentConversationId", id);
+};
+
 // Create a new conversation in localStorage
 export const createConversation = (id: string): boolean => {
   try {
@@ -200,6 +226,24 @@ export const addMessage = (conversationId: string, message: Message): boolean =>
   }
 };
 
+// Update a message of a conversation in localStorage
+export const updateMessage = (conversationId: string, messageId: string, updates: Partial<Message>): boolean => {
+  try {
+    const conversations = getConversations();
+    const updatedConversations = conversations.map(conv => 
+      conv.id === conversationId
+        ? { ...conv, messages: conv.messages.map(msg => msg.id === messageId ? { ...msg, ...updates } : msg) }
+        : conv
+    );
+    
+    localStorage.setItem("conversations", JSON.stringify(updatedConversations));
+    return true;
+  } catch (error) {
+    console.error("Error updating message:", error);
+    return false;
+  }
+};
+
 // Get training files from localStorage
 export const getTrainingFiles = (): TrainingFile[] => {
   const config = getAgentConfig();
@@ -218,6 +262,28 @@ export const addTrainingFile = (file: TrainingFile): boolean => {
   }
 };
 
+// Update a training file (e.g. its chunk settings) in localStorage
+export const updateTrainingFile = (file: TrainingFile): boolean => {
+  try {
+    const config = getAgentConfig();
+    config.trainingFiles = config.trainingFiles.map(existing => existing.id === file.id ? file : existing);
+    return updateAgentConfig(config);
+  } catch (error) {
+    console.error("Error updating training file:", error);
+    return false;
+  }
+};
+
+// Replace the stored training files (e.g. with the ones read from the backend)
+export const saveTrainingFiles = (files: TrainingFile[]): boolean => {
+  try {
+    return updateAgentConfig({ ...getAgentConfig(), trainingFiles: files });
+  } catch (error) {
+    console.error("Error saving training files:", error);
+    return false;
+  }
+};
+
 // Remove a training file in localStorage
 export const removeTrainingFile = (id: string): boolean => {
   try {
@@ -0,0 +1,116 @@
+// Writes made while the backend is unreachable, kept in IndexedDB until they are replayed.
+// Entries are replayed in the order they were queued (auto-increment key order).
+
+const DB_NAME = 'chatSync';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+// Message as sent to POST /conversation/:id/messages
+export interface OutboxMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: string;
+  sources?: unknown[];
+  truncated?: boolean;
+  event?: unknown;
+}
+
+export type OutboxOperation =
+  | { type: 'createConversation'; conversationId: string; createdAt: string }
+  | { type: 'addMessage'; conversationId: string; message: OutboxMessage }
+  | { type: 'updateMessage'; conversationId: string; messageId: string; updates: { content?: string; sources?: unknown[]; truncated?: boolean } };
+
+export interface OutboxEntry {
+  id?: number;
+  operation: OutboxOperation;
+  queuedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Without IndexedDB (e.g. some private browsing modes) the outbox only lives for this page load
+let memoryEntries: OutboxEntry[] | null = null;
+let memorySequence = 0;
+
+const openOutbox = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve once the transaction is committed
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openOutbox();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Use IndexedDB when it opens, otherwise fall back to memory for the rest of the page load
+const withStore = async <T>(indexedDbAction: () => Promise<T>, memoryAction: (entries: OutboxEntry[]) => T): Promise<T> => {
+  if (memoryEntries === null) {
+    try {
+      return await indexedDbAction();
+    } catch (error) {
+      if (dbPromise) {
+        const opened = await dbPromise.then(() => true, () => false);
+        if (opened) throw error;
+      }
+      console.warn('Sync outbox falling back to memory:', error);
+      memoryEntries = [];
+    }
+  }
+  return memoryAction(memoryEntries);
+};
+
+export const enqueueOperation = (operation: OutboxOperation): Promise<void> => {
+  const entry: OutboxEntry = { operation, queuedAt: Date.now() };
+  return withStore(
+    async () => {
+      await runRequest('readwrite', store => store.add(entry));
+    },
+    entries => {
+      entries.push({ ...entry, id: ++memorySequence });
+    }
+  );
+};
+
+export const getPendingEntries = (): Promise<OutboxEntry[]> =>
+  withStore(
+    () => runRequest<OutboxEntry[]>('readonly', store => store.getAll()),
+    entries => [...entries]
+  );
+
+export const removeEntry = (id: number): Promise<void> =>
+  withStore(
+    async () => {
+      await runRequest('readwrite', store => store.delete(id));
+    },
+    entries => {
+      memoryEntries = entries.filter(entry => entry.id !== id);
+    }
+  );
+
+export const countPendingEntries = (): Promise<number> =>
+  withStore(
+    () => runRequest<number>('readonly', store => store.count()),
+    entries => entries.length
+  );
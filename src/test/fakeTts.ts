@@ -0,0 +1,62 @@
+import { SynthesizeSpeech } from "@/utils/speechPipeline";
+
+// Síntese de voz falsa para os testes: cada requisição fica pendente até o teste responder ou
+// falhar, e o "áudio" é o próprio texto codificado, para conferir qual trecho foi entregue.
+
+export interface FakeTtsRequest {
+  text: string;
+  signal: AbortSignal;
+  settled: boolean;
+}
+
+export interface FakeTts {
+  synthesize: SynthesizeSpeech;
+  requests: FakeTtsRequest[];
+  maxActive: () => number; // Maior número de sínteses simultâneas observado
+  respond: (text: string) => void;
+  fail: (text: string, error?: Error) => void;
+}
+
+export const decodeAudio = (audio: ArrayBuffer): string => new TextDecoder().decode(audio);
+
+export const createFakeTts = (): FakeTts => {
+  const requests: FakeTtsRequest[] = [];
+  const pending = new Map<FakeTtsRequest, { resolve: (audio: ArrayBuffer) => void; reject: (error: Error) => void }>();
+  let active = 0;
+  let maxActive = 0;
+
+  const settle = (text: string, action: (handlers: { resolve: (audio: ArrayBuffer) => void; reject: (error: Error) => void }) => void) => {
+    const request = requests.find(candidate => candidate.text === text && !candidate.settled);
+    if (!request) {
+      throw new Error(`Nenhuma síntese pendente para "${text}"`);
+    }
+    request.settled = true;
+    active--;
+    action(pending.get(request)!);
+    pending.delete(request);
+  };
+
+  const synthesize: SynthesizeSpeech = (text, signal) => new Promise((resolve, reject) => {
+    const request: FakeTtsRequest = { text, signal, settled: false };
+    requests.push(request);
+    pending.set(request, { resolve, reject });
+    active++;
+    maxActive = Math.max(maxActive, active);
+
+    signal.addEventListener("abort", () => {
+      if (request.settled) return;
+      request.settled = true;
+      active--;
+      pending.delete(request);
+      reject(new DOMException("Síntese interrompida", "AbortError"));
+    });
+  });
+
+  return {
+    synthesize,
+    requests,
+    maxActive: () => maxActive,
+    respond: text => settle(text, ({ resolve }) => resolve(new TextEncoder().encode(text).buffer as ArrayBuffer)),
+    fail: (text, error = new Error("TTS indisponível")) => settle(text, ({ reject }) => reject(error))
+  };
+};
@@ -0,0 +1,63 @@
+// Gravações PCM de 16 bits sintéticas e determinísticas (mesma semente, mesmas amostras) para os testes
+// do detector de voz: ruído de fundo, fala vozeada, zumbido da rede elétrica e ruído de banda larga.
+
+export const FIXTURE_SAMPLE_RATE = 16000;
+
+// Gerador pseudoaleatório (mulberry32), para que o ruído seja igual em toda execução
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const toPcm16 = (values: number[]): Int16Array =>
+  Int16Array.from(values, value => Math.max(-32768, Math.min(32767, Math.round(value * 32768))));
+
+const sampleCount = (durationMs: number, sampleRate: number) => Math.round(sampleRate * durationMs / 1000);
+
+// Ruído branco com a amplitude de pico indicada (0-1)
+export const whiteNoise = (durationMs: number, amplitude: number, sampleRate = FIXTURE_SAMPLE_RATE, seed = 1): Int16Array => {
+  const random = createRandom(seed);
+  return toPcm16(Array.from({ length: sampleCount(durationMs, sampleRate) }, () => (random() * 2 - 1) * amplitude));
+};
+
+// Senoide pura, como o zumbido de 50/60 Hz da rede elétrica
+export const tone = (durationMs: number, frequency: number, amplitude: number, sampleRate = FIXTURE_SAMPLE_RATE): Int16Array =>
+  toPcm16(Array.from({ length: sampleCount(durationMs, sampleRate) }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate)));
+
+// Fala vozeada: harmônicos de uma fundamental com leve vibrato e envelope silábico (4 sílabas por segundo)
+export const voicedSpeech = (
+  durationMs: number,
+  amplitude: number,
+  sampleRate = FIXTURE_SAMPLE_RATE,
+  fundamental = 140
+): Int16Array => {
+  const harmonics = [1, 0.6, 0.4, 0.25, 0.15];
+  const peak = harmonics.reduce((sum, weight) => sum + weight, 0);
+  let phase = 0;
+
+  return toPcm16(Array.from({ length: sampleCount(durationMs, sampleRate) }, (_, i) => {
+    const t = i / sampleRate;
+    phase += 2 * Math.PI * fundamental * (1 + 0.03 * Math.sin(2 * Math.PI * 5 * t)) / sampleRate;
+    const envelope = 0.6 + 0.4 * Math.sin(2 * Math.PI * 4 * t);
+    const value = harmonics.reduce((sum, weight, index) => sum + weight * Math.sin((index + 1) * phase), 0);
+    return amplitude * envelope * value / peak;
+  }));
+};
+
+// Soma dois trechos amostra a amostra (ex.: fala sobre ruído de fundo)
+export const mix = (a: Int16Array, b: Int16Array): Int16Array =>
+  Int16Array.from({ length: Math.max(a.length, b.length) }, (_, i) =>
+    Math.max(-32768, Math.min(32767, (a[i] || 0) + (b[i] || 0))));
+
+// Junta trechos em uma única gravação
+export const concat = (...parts: Int16Array[]): Int16Array => {
+  const result = new Int16Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
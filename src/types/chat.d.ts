@@ -1,11 +1,30 @@
 
 // Types for Chat Context
 
+export interface MessageSource {
+  documentId: string;
+  fileName: string;
+  chunkId: string;
+  score: number;
+  snippet: string;
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  sources?: MessageSource[];
+  truncated?: boolean; // Resposta interrompida pelo usuário; o conteúdo vai até o trecho já falado
+  event?: ConversationEvent; // Evento registrado na conversa (não é enviado ao modelo)
+}
+
+export type CallEndReason = 'user' | 'inactivity' | 'maxDuration' | 'error';
+
+export interface ConversationEvent {
+  type: 'callEnded';
+  reason: CallEndReason;
+  durationMs: number; // Desde a conexão da chamada
 }
 
 export interface Conversation {
@@ -26,23 +45,52 @@ export interface WidgetConfig {
 export interface VoiceConfig {
   enabled: boolean;
   voiceId: string;
-  language: string;
+  language: string; // Locale (ex.: "pt-BR") ou "auto" para usar o idioma da primeira fala do usuário
   latency: number;
-  silenceTimeout?: number;
-  maxCallDuration?: number;
+  silenceTimeout?: number; // Segundos sem fala do usuário até encerrar a chamada por inatividade
+  maxCallDuration?: number; // Segundos até encerrar a chamada
+  pauseDuration?: number; // Segundos de silêncio que encerram uma fala do usuário
   waitBeforeSpeaking?: number;
   waitAfterPunctuation?: number;
   waitWithoutPunctuation?: number;
   waitAfterNumber?: number;
   endCallMessage?: string;
   continuousMode?: boolean;
+  bargeInEnabled?: boolean; // Permite interromper o agente falando por cima dele
+  bargeInThreshold?: number; // Nível de voz (RMS, 0-1) que conta como interrupção
+  bargeInDuration?: number; // Segundos de voz acima do nível para interromper
+  pronunciations?: PronunciationEntry[]; // Léxico aplicado ao texto antes da síntese de voz
+  recording?: CallRecordingConfig;
+}
+
+// Gravação das chamadas de voz para controle de qualidade, sempre com consentimento do usuário
+export interface CallRecordingConfig {
+  enabled: boolean;
+  retentionDays: number; // Dias até as gravações serem apagadas pelo servidor
+  consentMessage?: string; // Aviso mostrado ao usuário antes de gravar
+}
+
+// Termo (ex.: nome de marca) e a forma como ele deve ser falado pela síntese de voz
+export interface PronunciationEntry {
+  id: string;
+  term: string;
+  pronunciation: string;
 }
 
 export interface AgentFunction {
   name: string;
   description: string;
   parameters: any;
-  webhook: string;
+  webhook?: string; // O servidor só envia a URL ao painel de admin; a chamada é feita por ele
+}
+
+export type ChunkingStrategy = 'auto' | 'markdown' | 'csv' | 'json' | 'text';
+
+export interface ChunkSettings {
+  strategy?: ChunkingStrategy;
+  chunkSize?: number; // tokens
+  chunkOverlap?: number; // tokens
+  rowsPerChunk?: number; // CSV
 }
 
 export interface TrainingFile {
@@ -52,10 +100,46 @@ export interface TrainingFile {
   size: number;
   type: string;
   timestamp: Date;
+  chunking?: ChunkSettings;
+  format?: string; // Formato de origem detectado na extração (docx, pdf, html, text)
+  extractionWarnings?: string[];
+  sourceId?: string; // Fonte de URL que gerou este documento
+  sourceUrl?: string;
+}
+
+// Página de uma fonte de URL, ligada ao documento de treinamento que guarda seu conteúdo
+export interface UrlSourcePage {
+  url: string;
+  title: string;
+  hash: string; // SHA-256 do conteúdo extraído, usado para detectar mudanças
+  trainingFileId: string;
+}
+
+export type UrlSourceStatus = 'idle' | 'crawling' | 'error';
+
+// Site (página inicial ou sitemap) rastreado periodicamente pelo servidor como fonte de conhecimento
+export interface UrlSource {
+  id: string;
+  url: string;
+  maxDepth: number;
+  maxPages: number;
+  refreshIntervalHours: number;
+  pages: UrlSourcePage[];
+  status: UrlSourceStatus;
+  lastCrawledAt?: Date;
+  lastError?: string;
+  lastRefresh?: {
+    added: number;
+    changed: number;
+    removed: number;
+    unchanged: number;
+  };
 }
 
 export type KnowledgeType = 'rag' | 'fine-tuning' | 'assistant';
 
+export type EmbeddingSource = 'provider' | 'local';
+
 export interface FineTuningConfig {
   enabled: boolean;
   modelId: string;
@@ -69,6 +153,29 @@ export interface AssistantConfig {
   name: string;
 }
 
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'mock';
+
+export interface MockScriptEntry {
+  match: string;
+  response: string;
+  functionCall?: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface LLMProviderConfig {
+  type: LLMProviderType;
+  baseUrl?: string;
+  apiVersion?: string;
+  authHeader?: 'bearer' | 'api-key';
+  embeddingModel?: string;
+  transcriptionModel?: string;
+  speechModel?: string;
+  mockScript?: MockScriptEntry[];
+  mockTranscript?: string;
+}
+
 export interface AgentConfig {
   systemPrompt: string;
   functions: AgentFunction[];
@@ -81,9 +188,14 @@ export interface AgentConfig {
   knowledgeType: KnowledgeType;
   rag: {
     enabled: boolean;
+    embeddingSource?: EmbeddingSource;
+    topK?: number;
+    similarityThreshold?: number;
+    rerank?: boolean;
   };
   fineTuning: FineTuningConfig;
   assistant: AssistantConfig;
+  provider: LLMProviderConfig;
 }
 
 export interface AdminConfig {
@@ -92,6 +204,19 @@ export interface AdminConfig {
   apiKey: string;
 }
 
+// Sync of conversations with the backend database:
+// local - no backend database seen in this browser yet, localStorage is the only store
+// synced / pending - connected, with nothing or something still waiting in the outbox
+// syncing - replaying the outbox; offline - writes are queued until the backend is back
+export type SyncStatus = 'local' | 'synced' | 'pending' | 'syncing' | 'offline';
+
+export interface SyncState {
+  status: SyncStatus;
+  pendingCount: number;
+  lastSyncedAt: Date | null;
+  lastError?: string;
+}
+
 export interface ChatContextType {
   messages: Message[];
   conversations: Conversation[];
@@ -100,6 +225,7 @@ export interface ChatContextType {
   agentConfig: AgentConfig;
   adminConfig: AdminConfig;
   isDbConnected: boolean;
+  syncState: SyncState;
   
   // Widget state fields
   isWidgetOpen?: boolean;
@@ -112,12 +238,13 @@ export interface ChatContextType {
   updateAgentConfig: (config: AgentConfig) => Promise<boolean>;
   updateAdminConfig: (config: AdminConfig) => Promise<boolean>;
   sendMessage: (content: string) => Promise<boolean>;
-  addMessage: (content: string, role: 'user' | 'assistant' | 'system') => string;
-  updateMessage: (messageId: string, updatedContent: string) => void;
+  addMessage: (content: string, role: 'user' | 'assistant' | 'system', event?: ConversationEvent) => string;
+  updateMessage: (messageId: string, updatedContent: string, sources?: MessageSource[], truncated?: boolean) => void;
   startNewConversation: () => Promise<string | null>;
   
   // Training file methods
   addTrainingFile: (file: TrainingFile) => Promise<boolean>;
   removeTrainingFile: (id: string) => Promise<boolean>;
+  updateTrainingFile: (file: TrainingFile) => Promise<boolean>;
   loadData: () => Promise<void>;
 }
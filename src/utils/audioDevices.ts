@@ -0,0 +1,153 @@
+// Os ids de dispositivo valem só neste navegador, por isso a escolha fica no localStorage e não na configuração do agente
+const STORAGE_KEY = "audioDevices";
+
+const TEST_TONE_FREQUENCY = 440;
+const TEST_TONE_DURATION = 800;
+
+export interface AudioDevicePreferences {
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+}
+
+export interface AudioDeviceList {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// setSinkId ainda não está nas tipagens do DOM de todos os navegadores
+type SinkTarget = { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const getAudioDevicePreferences = (): AudioDevicePreferences => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error("Error reading audio device preferences:", error);
+    return {};
+  }
+};
+
+export const saveAudioDevicePreferences = (preferences: AudioDevicePreferences) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error("Error saving audio device preferences:", error);
+  }
+};
+
+export const isDeviceSelectionSupported = (): boolean =>
+  typeof navigator !== "undefined" &&
+  !!navigator.mediaDevices &&
+  typeof navigator.mediaDevices.enumerateDevices === "function";
+
+export const isOutputSelectionSupported = (): boolean =>
+  typeof HTMLMediaElement !== "undefined" && "setSinkId" in HTMLMediaElement.prototype;
+
+// Os nomes dos dispositivos só aparecem depois que o acesso ao microfone foi permitido
+export const listAudioDevices = async (): Promise<AudioDeviceList> => {
+  if (!isDeviceSelectionSupported()) {
+    return { inputs: [], outputs: [] };
+  }
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter(device => device.kind === "audioinput"),
+    outputs: devices.filter(device => device.kind === "audiooutput")
+  };
+};
+
+export const getDeviceLabel = (device: MediaDeviceInfo, index: number): string =>
+  device.label || `${device.kind === "audioinput" ? "Microfone" : "Alto-falante"} ${index + 1}`;
+
+/**
+ * Abre o microfone escolhido neste navegador. Se ele não estiver mais conectado,
+ * usa o microfone padrão em vez de falhar.
+ */
+export const openMicrophone = async (constraints: MediaTrackConstraints = {}): Promise<MediaStream> => {
+  const { inputDeviceId } = getAudioDevicePreferences();
+
+  if (inputDeviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...constraints, deviceId: { exact: inputDeviceId } }
+      });
+    } catch (error) {
+      if (!(error instanceof DOMException) || !["OverconstrainedError", "NotFoundError"].includes(error.name)) {
+        throw error;
+      }
+      console.warn("Selected microphone unavailable, using the default one:", error);
+    }
+  }
+
+  return navigator.mediaDevices.getUserMedia({ audio: constraints });
+};
+
+// Dispositivo de onde vem o áudio do stream, para saber se ele ainda está conectado
+export const getStreamDeviceId = (stream: MediaStream | null): string | undefined =>
+  stream?.getAudioTracks()[0]?.getSettings().deviceId;
+
+// Direciona a reprodução para o alto-falante escolhido; sem suporte a setSinkId fica no padrão do sistema
+export const applyOutputDevice = async (
+  target: HTMLMediaElement | AudioContext,
+  deviceId: string | undefined = getAudioDevicePreferences().outputDeviceId
+): Promise<boolean> => {
+  const sinkTarget = target as unknown as SinkTarget;
+  if (typeof sinkTarget.setSinkId !== "function") return false;
+
+  try {
+    await sinkTarget.setSinkId(deviceId || "");
+    return true;
+  } catch (error) {
+    console.warn("Could not switch audio output device:", error);
+    return false;
+  }
+};
+
+// Toca um tom curto no alto-falante escolhido
+export const playTestTone = async (deviceId?: string): Promise<void> => {
+  const context = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+  const destination = context.createMediaStreamDestination();
+  const audio = new Audio();
+  audio.srcObject = destination.stream;
+
+  try {
+    await applyOutputDevice(audio, deviceId);
+    await audio.play();
+
+    const oscillator = context.createOscillator();
+    const gainNode = context.createGain();
+    oscillator.type = "sine";
+    oscillator.frequency.setValueAtTime(TEST_TONE_FREQUENCY, context.currentTime);
+    gainNode.gain.setValueAtTime(0.2, context.currentTime);
+    oscillator.connect(gainNode);
+    gainNode.connect(destination);
+
+    await new Promise<void>(resolve => {
+      oscillator.onended = () => resolve();
+      oscillator.start();
+      oscillator.stop(context.currentTime + TEST_TONE_DURATION / 1000);
+    });
+  } finally {
+    audio.pause();
+    audio.srcObject = null;
+    await context.close();
+  }
+};
+
+// Avisa quando dispositivos são conectados ou desconectados; devolve a função que cancela a inscrição
+export const onAudioDevicesChange = (callback: (devices: AudioDeviceList) => void): (() => void) => {
+  if (!isDeviceSelectionSupported()) {
+    return () => {};
+  }
+
+  const handleChange = async () => {
+    try {
+      callback(await listAudioDevices());
+    } catch (error) {
+      console.error("Error listing audio devices:", error);
+    }
+  };
+
+  navigator.mediaDevices.addEventListener("devicechange", handleChange);
+  return () => navigator.mediaDevices.removeEventListener("devicechange", handleChange);
+};
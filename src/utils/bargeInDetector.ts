@@ -0,0 +1,152 @@
+
+interface BargeInDetectorConfig {
+  threshold: number; // Nível RMS (0-1) a partir do qual há voz
+  minDuration: number; // ms de voz contínua para considerar uma interrupção
+  debugMode?: boolean;
+}
+
+// Pausas curtas entre sílabas não zeram a contagem de voz contínua
+const GAP_TOLERANCE_MS = 120;
+const CHECK_INTERVAL_MS = 20;
+
+/**
+ * Detecta quando o usuário começa a falar enquanto o agente responde (barge-in).
+ * O microfone deve ser aberto com cancelamento de eco, para que a fala do próprio
+ * agente não conte como voz do usuário.
+ */
+class BargeInDetector {
+  private audioContext: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private dataArray: Float32Array | null = null;
+  private checkIntervalId: number | null = null;
+  private onBargeIn: (() => void) | null = null;
+  private voiceStartTime: number | null = null;
+  private lastVoiceTime: number = 0;
+  private level: number = 0;
+
+  private threshold: number = 0.04;
+  private minDuration: number = 300;
+  private debugMode: boolean = false;
+
+  initialize(stream: MediaStream, onBargeIn: () => void, config?: Partial<BargeInDetectorConfig>) {
+    this.cleanup();
+
+    if (config) {
+      this.threshold = config.threshold ?? this.threshold;
+      this.minDuration = config.minDuration ?? this.minDuration;
+      this.debugMode = config.debugMode ?? this.debugMode;
+    }
+
+    this.onBargeIn = onBargeIn;
+    this.voiceStartTime = null;
+    this.lastVoiceTime = 0;
+
+    try {
+      this.audioContext = new (window.AudioContext || (window as typeof window & { webkitAudioContext: typeof AudioContext }).webkitAudioContext)();
+      this.analyser = this.audioContext.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.dataArray = new Float32Array(this.analyser.fftSize);
+
+      // Mesma faixa de voz usada pelo detector de silêncio
+      const highpassFilter = this.audioContext.createBiquadFilter();
+      highpassFilter.type = "highpass";
+      highpassFilter.frequency.value = 85;
+
+      const lowpassFilter = this.audioContext.createBiquadFilter();
+      lowpassFilter.type = "lowpass";
+      lowpassFilter.frequency.value = 3500;
+
+      const microphone = this.audioContext.createMediaStreamSource(stream);
+      microphone.connect(highpassFilter);
+      highpassFilter.connect(lowpassFilter);
+      lowpassFilter.connect(this.analyser);
+    } catch (error) {
+      console.error("[BargeInDetector] Error setting up audio analysis:", error);
+      return;
+    }
+
+    // setInterval em vez de requestAnimationFrame: continua funcionando com a aba em segundo plano
+    this.checkIntervalId = window.setInterval(() => this.checkForVoice(), CHECK_INTERVAL_MS);
+    this.log("BargeInDetector initialized", { threshold: this.threshold, minDuration: this.minDuration });
+  }
+
+  private log(...args: unknown[]) {
+    if (this.debugMode) {
+      console.log("[BargeInDetector]", ...args);
+    }
+  }
+
+  private checkForVoice() {
+    if (!this.analyser || !this.dataArray) return;
+
+    this.analyser.getFloatTimeDomainData(this.dataArray);
+
+    let sumSquares = 0;
+    for (let i = 0; i < this.dataArray.length; i++) {
+      sumSquares += this.dataArray[i] * this.dataArray[i];
+    }
+    this.level = Math.sqrt(sumSquares / this.dataArray.length);
+
+    const now = Date.now();
+    if (this.level >= this.threshold) {
+      if (this.voiceStartTime === null) {
+        this.voiceStartTime = now;
+        this.log(`Voice started: level=${this.level.toFixed(3)}`);
+      }
+      this.lastVoiceTime = now;
+
+      if (now - this.voiceStartTime >= this.minDuration) {
+        this.log(`Barge-in after ${now - this.voiceStartTime}ms of voice`);
+        const callback = this.onBargeIn;
+        // Dispara uma única vez; o chamador decide se monitora de novo
+        this.cleanup();
+        callback?.();
+      }
+    } else if (this.voiceStartTime !== null && now - this.lastVoiceTime > GAP_TOLERANCE_MS) {
+      this.log(`Voice ended after ${this.lastVoiceTime - this.voiceStartTime}ms, below minimum`);
+      this.voiceStartTime = null;
+    }
+  }
+
+  getLevel(): number {
+    return this.level;
+  }
+
+  isActive(): boolean {
+    return this.checkIntervalId !== null;
+  }
+
+  cleanup() {
+    if (this.checkIntervalId !== null) {
+      clearInterval(this.checkIntervalId);
+      this.checkIntervalId = null;
+    }
+
+    if (this.analyser) {
+      try {
+        this.analyser.disconnect();
+      } catch (e) {
+        // Ignora erro se já desconectado
+      }
+      this.analyser = null;
+    }
+
+    // O contexto de áudio é exclusivo do detector; o stream pertence a quem o abriu
+    if (this.audioContext) {
+      try {
+        this.audioContext.close();
+      } catch (e) {
+        // Ignora erro se já fechado
+      }
+      this.audioContext = null;
+    }
+
+    this.dataArray = null;
+    this.onBargeIn = null;
+    this.voiceStartTime = null;
+    this.level = 0;
+  }
+}
+
+// Exportar uma única instância para uso em toda a aplicação
+export const bargeInDetector = new BargeInDetector();
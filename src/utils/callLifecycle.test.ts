@@ -0,0 +1,174 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  CALL_TRANSITIONS,
+  CallEvent,
+  CallLifecycle,
+  CallLifecycleConfig,
+  CallState,
+  isCallActive
+} from "./callLifecycle";
+
+const CONFIG: CallLifecycleConfig = {
+  maxCallDuration: 120000,
+  inactivityTimeout: 20000,
+  inactivityWarning: 5000
+};
+
+// Eventos que levam uma chamada nova até cada estado
+const PATH_TO: Record<CallState, CallEvent[]> = {
+  idle: [],
+  connecting: [{ type: "start" }],
+  listening: [{ type: "start" }, { type: "connected" }],
+  thinking: [{ type: "start" }, { type: "connected" }, { type: "userSpoke" }],
+  speaking: [{ type: "start" }, { type: "connected" }, { type: "userSpoke" }, { type: "responseAudio" }],
+  ending: [{ type: "start" }, { type: "hangUp", reason: "user" }],
+  ended: [{ type: "start" }, { type: "hangUp", reason: "user" }, { type: "ended" }]
+};
+
+const TRANSITIONS: [CallState, CallEvent, CallState][] = [
+  ["idle", { type: "start" }, "connecting"],
+  ["connecting", { type: "connected" }, "listening"],
+  ["connecting", { type: "hangUp", reason: "error" }, "ending"],
+  ["listening", { type: "userSpoke" }, "thinking"],
+  ["listening", { type: "hangUp", reason: "user" }, "ending"],
+  ["thinking", { type: "responseAudio" }, "speaking"],
+  ["thinking", { type: "turnDiscarded" }, "listening"],
+  ["thinking", { type: "listen" }, "listening"],
+  ["thinking", { type: "hangUp", reason: "user" }, "ending"],
+  ["speaking", { type: "listen" }, "listening"],
+  ["speaking", { type: "hangUp", reason: "user" }, "ending"],
+  ["ending", { type: "ended" }, "ended"],
+  ["ended", { type: "start" }, "connecting"]
+];
+
+// Chamada com relógio controlado pelo teste
+const createCall = (from: CallState = "idle") => {
+  let clock = 0;
+  const onTransition = vi.fn();
+  const onWarning = vi.fn();
+  const call = new CallLifecycle({ config: { ...CONFIG }, now: () => clock, onTransition, onWarning });
+  PATH_TO[from].forEach(event => call.send(event));
+  onTransition.mockClear();
+  onWarning.mockClear();
+
+  return {
+    call,
+    onTransition,
+    onWarning,
+    advance: (ms: number) => {
+      clock += ms;
+    }
+  };
+};
+
+describe("CallLifecycle transitions", () => {
+  it("has exactly the tested transitions", () => {
+    const table = Object.entries(CALL_TRANSITIONS).flatMap(([state, events]) =>
+      Object.entries(events).map(([event, next]) => `${state} --${event}--> ${next}`));
+
+    expect(table.sort()).toEqual(TRANSITIONS.map(([state, event, next]) => `${state} --${event.type}--> ${next}`).sort());
+  });
+
+  it.each(TRANSITIONS)("%s + %o → %s", (from, event, to) => {
+    const { call, onTransition } = createCall(from);
+
+    expect(call.send(event)).toBe(true);
+    expect(call.getState()).toBe(to);
+    expect(onTransition).toHaveBeenCalledOnce();
+    expect(onTransition).toHaveBeenCalledWith(to, from, event);
+
+    if (event.type === "hangUp") {
+      expect(call.getEndReason()).toBe(event.reason);
+    }
+    if (event.type === "start") {
+      expect(call.getEndReason()).toBeNull();
+      expect(call.getDuration()).toBe(0);
+    }
+  });
+
+  it("is active only between connecting and hanging up", () => {
+    expect((Object.keys(PATH_TO) as CallState[]).filter(isCallActive)).toEqual(["connecting", "listening", "thinking", "speaking"]);
+    expect(createCall("thinking").call.isActive()).toBe(true);
+    expect(createCall("ending").call.isActive()).toBe(false);
+  });
+
+  it("ignores events that are not valid in the current state", () => {
+    const { call, onTransition } = createCall("listening");
+
+    expect(call.send({ type: "responseAudio" })).toBe(false);
+    expect(call.send({ type: "start" })).toBe(false);
+    expect(call.send({ type: "ended" })).toBe(false);
+    expect(call.getState()).toBe("listening");
+    expect(onTransition).not.toHaveBeenCalled();
+
+    const idle = createCall("idle");
+    expect(idle.call.send({ type: "hangUp", reason: "user" })).toBe(false);
+    expect(idle.call.getEndReason()).toBeNull();
+  });
+});
+
+describe("CallLifecycle limits", () => {
+  it("warns and then hangs up after inactivity on the user's turn", () => {
+    const { call, onWarning, advance } = createCall("listening");
+
+    advance(16000);
+    call.tick();
+    expect(onWarning).toHaveBeenLastCalledWith({ reason: "inactivity", remainingMs: 4000 });
+
+    advance(4000);
+    call.tick();
+    expect(call.getState()).toBe("ending");
+    expect(call.getEndReason()).toBe("inactivity");
+    expect(onWarning).toHaveBeenLastCalledWith(null);
+  });
+
+  it("restarts the inactivity count on activity and on every user turn", () => {
+    const { call, onWarning, advance } = createCall("listening");
+
+    advance(16000);
+    call.tick();
+    call.activity();
+    expect(onWarning).toHaveBeenLastCalledWith(null);
+
+    advance(16000);
+    call.tick();
+    expect(call.getState()).toBe("listening");
+
+    // Enquanto o agente pensa ou fala, a inatividade não conta
+    call.send({ type: "userSpoke" });
+    advance(30000);
+    call.tick();
+    expect(call.getState()).toBe("thinking");
+
+    call.send({ type: "listen" });
+    advance(19000);
+    call.tick();
+    expect(call.getState()).toBe("listening");
+  });
+
+  it("warns before and hangs up at the maximum duration", () => {
+    const { call, onWarning, advance } = createCall("speaking");
+
+    advance(100000);
+    call.tick();
+    expect(onWarning).toHaveBeenLastCalledWith({ reason: "maxDuration", remainingMs: 20000 });
+
+    advance(20000);
+    call.tick();
+    expect(call.getState()).toBe("ending");
+    expect(call.getEndReason()).toBe("maxDuration");
+  });
+
+  it("does not check limits before connecting or after the call ends", () => {
+    const connecting = createCall("connecting");
+    connecting.advance(CONFIG.maxCallDuration * 2);
+    connecting.call.tick();
+    expect(connecting.call.getState()).toBe("connecting");
+
+    const ended = createCall("ended");
+    ended.advance(CONFIG.maxCallDuration * 2);
+    ended.call.tick();
+    expect(ended.call.getState()).toBe("ended");
+    expect(ended.onWarning).not.toHaveBeenCalled();
+  });
+});
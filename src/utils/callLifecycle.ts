@@ -0,0 +1,180 @@
+import { CallEndReason } from "@/types/chat";
+
+export type CallState = "idle" | "connecting" | "listening" | "thinking" | "speaking" | "ending" | "ended";
+
+export type CallEvent =
+  | { type: "start" } // Usuário iniciou a chamada; o microfone está sendo aberto
+  | { type: "connected" } // Microfone aberto, vez do usuário falar
+  | { type: "userSpoke" } // Fim da fala do usuário; a resposta está sendo preparada
+  | { type: "turnDiscarded" } // Fala sem conteúdo (transcrição vazia ou erro); volta a vez ao usuário
+  | { type: "responseAudio" } // Primeiro áudio da resposta na fila de reprodução
+  | { type: "listen" } // Resposta terminada ou interrompida (barge-in); vez do usuário
+  | { type: "hangUp"; reason: CallEndReason }
+  | { type: "ended" }; // Mensagem de encerramento falada e evento registrado
+
+export type CallEventType = CallEvent["type"];
+
+const ACTIVE_STATES: CallState[] = ["connecting", "listening", "thinking", "speaking"];
+
+// Transições válidas: estado atual → evento → próximo estado. Eventos fora da tabela são ignorados.
+export const CALL_TRANSITIONS: Record<CallState, Partial<Record<CallEventType, CallState>>> = {
+  idle: { start: "connecting" },
+  connecting: { connected: "listening", hangUp: "ending" },
+  listening: { userSpoke: "thinking", hangUp: "ending" },
+  thinking: { responseAudio: "speaking", turnDiscarded: "listening", listen: "listening", hangUp: "ending" },
+  speaking: { listen: "listening", hangUp: "ending" },
+  ending: { ended: "ended" },
+  ended: { start: "connecting" }
+};
+
+// Próximo estado, ou null se o evento não vale no estado atual
+export const transitionCall = (state: CallState, event: CallEvent): CallState | null =>
+  CALL_TRANSITIONS[state][event.type] ?? null;
+
+export const isCallActive = (state: CallState): boolean => ACTIVE_STATES.includes(state);
+
+export interface CallLifecycleConfig {
+  maxCallDuration: number; // ms desde a conexão
+  inactivityTimeout: number; // ms sem fala do usuário enquanto é a vez dele
+  inactivityWarning: number; // ms antes do encerramento por inatividade em que o aviso começa
+}
+
+export interface CallWarning {
+  reason: Extract<CallEndReason, "inactivity" | "maxDuration">;
+  remainingMs: number;
+}
+
+export interface CallLifecycleOptions {
+  config: CallLifecycleConfig;
+  now?: () => number;
+  onTransition?: (state: CallState, previous: CallState, event: CallEvent) => void;
+  // Chamado a cada tick durante o aviso; com null quando o aviso deixa de valer
+  onWarning?: (warning: CallWarning | null) => void;
+}
+
+// Aviso antes do encerramento por duração máxima
+const MAX_DURATION_WARNING_MS = 30000;
+
+const CALL_END_DESCRIPTIONS: Record<CallEndReason, string> = {
+  user: "Chamada encerrada pelo usuário",
+  inactivity: "Chamada encerrada por inatividade",
+  maxDuration: "Chamada encerrada ao atingir a duração máxima",
+  error: "Chamada encerrada por um erro"
+};
+
+export const getCallEndDescription = (reason: CallEndReason): string => CALL_END_DESCRIPTIONS[reason];
+
+/**
+ * Ciclo de vida de uma chamada de voz: idle → connecting → listening → thinking → speaking → … →
+ * ending → ended. Não usa timers próprios: quem controla a chamada chama tick() periodicamente e
+ * activity() enquanto o usuário fala ou o agente ainda reproduz áudio. Em tick() a chamada é
+ * encerrada por inatividade (só conta na vez do usuário) ou pela duração máxima, com aviso antes.
+ */
+export class CallLifecycle {
+  private options: CallLifecycleOptions;
+  private now: () => number;
+  private state: CallState = "idle";
+  private connectedAt: number | null = null;
+  private lastActivityAt: number = 0;
+  private endReason: CallEndReason | null = null;
+  private warning: CallWarning | null = null;
+
+  constructor(options: CallLifecycleOptions) {
+    this.options = options;
+    this.now = options.now || (() => Date.now());
+  }
+
+  getState(): CallState {
+    return this.state;
+  }
+
+  isActive(): boolean {
+    return isCallActive(this.state);
+  }
+
+  getEndReason(): CallEndReason | null {
+    return this.endReason;
+  }
+
+  // Duração desde a conexão (0 antes de conectar)
+  getDuration(): number {
+    return this.connectedAt === null ? 0 : this.now() - this.connectedAt;
+  }
+
+  setConfig(config: CallLifecycleConfig) {
+    this.options.config = config;
+  }
+
+  // Aplica o evento; devolve false (sem mudar nada) se ele não vale no estado atual
+  send(event: CallEvent): boolean {
+    const next = transitionCall(this.state, event);
+    if (next === null) return false;
+
+    const previous = this.state;
+    this.state = next;
+
+    if (event.type === "start") {
+      this.connectedAt = null;
+      this.endReason = null;
+    } else if (event.type === "connected") {
+      this.connectedAt = this.now();
+    } else if (event.type === "hangUp") {
+      this.endReason = event.reason;
+    }
+
+    // A contagem de inatividade recomeça sempre que a vez volta ao usuário
+    if (next === "listening") {
+      this.lastActivityAt = this.now();
+    }
+    this.setWarning(null);
+
+    this.options.onTransition?.(next, previous, event);
+    return true;
+  }
+
+  // O usuário está falando (ou o agente ainda reproduz áudio): adia o encerramento por inatividade
+  activity() {
+    this.lastActivityAt = this.now();
+    if (this.warning?.reason === "inactivity") {
+      this.setWarning(null);
+    }
+  }
+
+  // Verifica os limites da chamada; encerra com hangUp quando algum é atingido
+  tick() {
+    if (!this.isActive() || this.connectedAt === null) return;
+
+    const { maxCallDuration, inactivityTimeout, inactivityWarning } = this.options.config;
+    const now = this.now();
+
+    const remainingDuration = maxCallDuration - (now - this.connectedAt);
+    if (remainingDuration <= 0) {
+      this.send({ type: "hangUp", reason: "maxDuration" });
+      return;
+    }
+
+    if (this.state === "listening") {
+      const remainingInactivity = inactivityTimeout - (now - this.lastActivityAt);
+      if (remainingInactivity <= 0) {
+        this.send({ type: "hangUp", reason: "inactivity" });
+        return;
+      }
+      if (remainingInactivity <= inactivityWarning) {
+        this.setWarning({ reason: "inactivity", remainingMs: remainingInactivity });
+        return;
+      }
+    }
+
+    if (remainingDuration <= Math.min(MAX_DURATION_WARNING_MS, maxCallDuration / 2)) {
+      this.setWarning({ reason: "maxDuration", remainingMs: remainingDuration });
+    } else {
+      this.setWarning(null);
+    }
+  }
+
+  private setWarning(warning: CallWarning | null) {
+    if (warning === null && this.warning === null) return;
+    this.warning = warning;
+    this.options.onWarning?.(warning);
+  }
+}
@@ -0,0 +1,54 @@
+import { CallRecordingConfig } from "@/types/chat";
+import { saveRecordingConsent, uploadCallRecording, CallRecordingUpload } from "@/services/databaseService";
+
+export const DEFAULT_RECORDING_RETENTION_DAYS = 30;
+export const DEFAULT_RECORDING_CONSENT_MESSAGE =
+  "Esta chamada pode ser gravada para controle de qualidade. Você permite a gravação?";
+
+export const isCallRecordingEnabled = (config?: CallRecordingConfig): boolean => Boolean(config?.enabled);
+
+export const getRecordingRetentionDays = (config?: CallRecordingConfig): number =>
+  config?.retentionDays && config.retentionDays > 0 ? config.retentionDays : DEFAULT_RECORDING_RETENTION_DAYS;
+
+export const getRecordingConsentMessage = (config?: CallRecordingConfig): string =>
+  config?.consentMessage?.trim() || DEFAULT_RECORDING_CONSENT_MESSAGE;
+
+export type CallRecordingTurn = Omit<CallRecordingUpload, "retentionDays">;
+
+/**
+ * Guarda o consentimento de gravação de cada conversa e envia o áudio dos turnos para o servidor.
+ * Sem consentimento dado, nada é enviado. Os envios são feitos um de cada vez, para que os turnos
+ * fiquem guardados na ordem em que foram falados; uma falha não interrompe a chamada.
+ */
+export class CallRecorder {
+  private consents = new Map<string, boolean>();
+  private uploads: Promise<void> = Promise.resolve();
+
+  // true/false quando o usuário já respondeu ao aviso de gravação nesta conversa, null se ainda não
+  getConsent(conversationId: string | null): boolean | null {
+    if (!conversationId || !this.consents.has(conversationId)) return null;
+    return this.consents.get(conversationId)!;
+  }
+
+  async setConsent(conversationId: string, granted: boolean, consentText: string): Promise<void> {
+    this.consents.set(conversationId, granted);
+    await saveRecordingConsent(conversationId, granted, consentText);
+  }
+
+  recordTurn(turn: CallRecordingTurn, retentionDays: number): Promise<void> {
+    if (this.getConsent(turn.conversationId) !== true || turn.audio.size === 0) {
+      return this.uploads;
+    }
+
+    this.uploads = this.uploads
+      .then(async () => {
+        const id = await uploadCallRecording({ ...turn, retentionDays });
+        console.log(`Call recording ${id} stored (${turn.role}, ${turn.audio.size} bytes)`);
+      })
+      .catch(error => {
+        console.error(`Error storing ${turn.role} call recording:`, error);
+      });
+
+    return this.uploads;
+  }
+}
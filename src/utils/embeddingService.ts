@@ -1,20 +1,11 @@
-import { v4 as uuidv4 } from 'uuid';
-import { createEmbedding } from './openai';
+import { LLMProviderConfig, MessageSource, TrainingFile } from '@/types/chat';
+import * as databaseService from '@/services/databaseService';
+import { TrainingUploadResult } from '@/services/databaseService';
+import { getLLMProvider } from './providers';
 
-// Tipos para o serviço de embeddings
-interface Document {
-  id: string;
-  name: string;
-  content: string;
-  chunks: Chunk[];
-}
-
-interface Chunk {
-  id: string;
-  documentId: string;
-  content: string;
-  embedding?: number[];
-}
+// Cliente do RAG do servidor: a divisão em chunks, os embeddings e a busca híbrida (BM25 + vetores)
+// rodam no backend (backend/rag), com o modelo de embeddings da configuração do agente salva lá.
+// Aqui ficam apenas o rerank opcional e a montagem do contexto enviado ao modelo.
 
 interface SearchResult {
   fileName: string;
@@ -22,24 +13,44 @@ interface SearchResult {
   content: string;
   chunkId?: string;
   documentId?: string;
+  vectorScore?: number;
+  lexicalScore?: number;
+}
+
+// Contexto montado para o modelo e os trechos que o originaram (citados na resposta)
+export interface RelevantContext {
+  context: string;
+  sources: MessageSource[];
 }
 
+// Parâmetros da busca, vindos de AgentConfig.rag
+export interface RetrievalOptions {
+  topK: number;
+  similarityThreshold: number;
+  rerank: boolean;
+  model?: string;
+  provider?: LLMProviderConfig;
+}
+
+export const DEFAULT_RETRIEVAL_OPTIONS: RetrievalOptions = {
+  topK: 3,
+  similarityThreshold: 0.25,
+  rerank: false
+};
+
 // Estado do serviço
-let documents: Document[] = [];
-let chunks: Chunk[] = [];
 let isInitialized = false;
 let debugMode = false;
 let ragEnabled = true; // Por padrão está habilitado
-let embeddingCache: Map<string, number[]> = new Map(); // Cache de embeddings
+let retrievalOptions: RetrievalOptions = { ...DEFAULT_RETRIEVAL_OPTIONS };
+let serverChunkCount = 0; // Chunks guardados no servidor (tabela rag_chunks)
+let serverDocumentCount = 0;
 
 // Configurações
-const CHUNK_SIZE = 1000;
-const CHUNK_OVERLAP = 200;
-const SIMILARITY_THRESHOLD = 0.75;
-const SIMILARITY_THRESHOLD_SHORT_QUERY = 0.6; // Limiar mais baixo para consultas curtas
-const MAX_RESULTS = 3;
-const SHORT_QUERY_LENGTH = 15; // Define o que é uma consulta curta
+const RERANK_CANDIDATES = 10; // Candidatos enviados ao modelo no rerank
+const RERANK_PASSAGE_LENGTH = 500; // Caracteres de cada trecho enviados ao rerank
 const MAX_CONTEXT_LENGTH = 1500; // Limite máximo de contexto a ser enviado
+const SOURCE_SNIPPET_LENGTH = 200; // Caracteres de cada trecho guardados na citação
 
 /**
  * Inicializa o serviço de embeddings
@@ -55,15 +66,11 @@ export const initialize = async (): Promise<void> => {
       console.log(`RAG system initialized as ${ragEnabled ? 'enabled' : 'disabled'}`);
     }
     
-    // Tenta carregar documentos do localStorage
-    const storedDocuments = localStorage.getItem('rag_documents');
-    const storedChunks = localStorage.getItem('rag_chunks');
+    // Remove o índice local das versões anteriores, que guardavam chunks e embeddings no navegador
+    localStorage.removeItem('rag_documents');
+    localStorage.removeItem('rag_chunks');
     
-    if (storedDocuments && storedChunks) {
-      documents = JSON.parse(storedDocuments);
-      chunks = JSON.parse(storedChunks);
-      console.log(`Loaded ${documents.length} documents and ${chunks.length} chunks from localStorage`);
-    }
+    await refreshServerStats();
     
     isInitialized = true;
   } catch (error) {
@@ -71,6 +78,22 @@ export const initialize = async (): Promise<void> => {
   }
 };
 
+/**
+ * Atualiza a contagem de chunks guardados no servidor
+ */
+const refreshServerStats = async (): Promise<void> => {
+  try {
+    const stats = await databaseService.getRagStats();
+    serverChunkCount = stats.connected ? stats.chunkCount : 0;
+    serverDocumentCount = stats.connected ? stats.documentCount : 0;
+    console.log(`Server RAG store has ${serverChunkCount} chunks`);
+  } catch (error) {
+    serverChunkCount = 0;
+    serverDocumentCount = 0;
+    console.warn("Server RAG store unavailable:", error);
+  }
+};
+
 /**
  * Habilita ou desabilita o sistema RAG
  * 
@@ -95,7 +118,7 @@ export const isEnabled = (): boolean => {
  * Verifica se o serviço está pronto para uso
  */
 export const isReady = (): boolean => {
-  return isInitialized && documents.length > 0 && chunks.length > 0;
+  return isInitialized && serverChunkCount > 0;
 };
 
 /**
@@ -107,212 +130,167 @@ export const setDebug = (debug: boolean): void => {
 };
 
 /**
- * Cria hash para o conteúdo para uso na cache de embeddings
+ * Atualiza os parâmetros da busca (top-k, limiar de similaridade e rerank)
  */
-const createContentHash = (content: string): string => {
-  // Simplificado: apenas os primeiros 100 caracteres + comprimento
-  return content.substring(0, 100) + '_' + content.length;
+export const setRetrievalOptions = (options: Partial<RetrievalOptions>): void => {
+  retrievalOptions = {
+    topK: options.topK || DEFAULT_RETRIEVAL_OPTIONS.topK,
+    similarityThreshold: options.similarityThreshold ?? DEFAULT_RETRIEVAL_OPTIONS.similarityThreshold,
+    rerank: Boolean(options.rerank),
+    model: options.model,
+    provider: options.provider
+  };
 };
 
 /**
- * Adiciona um documento ao índice
+ * Envia um arquivo de treinamento ao servidor, que gera os chunks e embeddings e os guarda no banco.
+ * Com `data` (o arquivo original em base64), o servidor também extrai o texto do arquivo.
+ * Sem conexão com o servidor, o arquivo não é indexado e o retorno é undefined.
+ * Arquivos recusados pelo servidor (tamanho, extração) lançam o erro para quem chamou.
  */
-export const addDocument = async (id: string, name: string, content: string): Promise<void> => {
+export const ingestDocument = async (file: TrainingFile, data?: string): Promise<TrainingUploadResult | undefined> => {
+  if (!isInitialized) {
+    await initialize();
+  }
+  
   try {
-    // Inicializa o serviço se ainda não estiver inicializado
-    if (!isInitialized) {
-      await initialize();
-    }
-    
-    // Verifica se o documento já existe
-    const existingDocIndex = documents.findIndex(doc => doc.id === id);
-    
-    if (existingDocIndex !== -1) {
-      // Se o conteúdo do documento não mudou, não reprocesse
-      if (documents[existingDocIndex].content === content) {
-        console.log(`Document ${id} already exists with the same content, skipping update`);
-        return;
-      }
-      
-      console.log(`Document ${id} exists but content changed, updating...`);
-      
-      // Remove chunks existentes deste documento
-      chunks = chunks.filter(chunk => chunk.documentId !== id);
-      
-      // Atualiza o documento
-      documents[existingDocIndex] = {
-        id,
-        name,
-        content,
-        chunks: []
-      };
+    const result = await databaseService.ingestTrainingFile(file, data);
+    if (result.indexing && !result.indexing.error) {
+      await refreshServerStats();
+      console.log(`Document ${file.id} indexed on the server with ${result.indexing.chunkCount} chunks`);
     } else {
-      // Adiciona novo documento
-      documents.push({
-        id,
-        name,
-        content,
-        chunks: []
-      });
+      console.warn(`Server could not index document ${file.id}:`, result.indexing?.error);
     }
-    
-    // Divide o conteúdo em chunks
-    const newChunks = splitIntoChunks(id, content);
-    
-    // Adiciona os novos chunks
-    for (const chunk of newChunks) {
-      try {
-        // Verificar se já temos o embedding deste conteúdo em cache
-        const contentHash = createContentHash(chunk.content);
-        
-        if (embeddingCache.has(contentHash)) {
-          console.log(`Using cached embedding for chunk in document ${id}`);
-          chunk.embedding = embeddingCache.get(contentHash);
-        } else {
-          // Gera embedding para o chunk
-          const embedding = await createEmbedding(chunk.content);
-          chunk.embedding = embedding;
-          // Salva no cache
-          embeddingCache.set(contentHash, embedding);
-        }
-        
-        chunks.push(chunk);
-        
-        // Adiciona referência ao chunk no documento
-        const docIndex = documents.findIndex(doc => doc.id === id);
-        if (docIndex !== -1) {
-          documents[docIndex].chunks.push(chunk);
-        }
-      } catch (error) {
-        console.error(`Error generating embedding for chunk in document ${id}:`, error);
-      }
+    return result;
+  } catch (error) {
+    if (error.status && error.status < 500) {
+      throw error;
     }
-    
-    // Salva no localStorage
-    saveToLocalStorage();
-    
-    console.log(`Document ${id} added/updated with ${newChunks.length} chunks`);
+    console.warn(`Server RAG store unavailable, document ${file.id} was not indexed:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * Remove um documento do servidor
+ */
+export const deleteDocument = async (id: string): Promise<void> => {
+  try {
+    await databaseService.deleteTrainingFileFromServer(id);
+    await refreshServerStats();
   } catch (error) {
-    console.error(`Error adding document ${id}:`, error);
+    console.warn(`Could not remove document ${id} from the server:`, error);
   }
 };
 
 /**
- * Remove um documento do índice
+ * Reindexa os documentos no servidor com o modelo da configuração do agente salva lá.
+ * Requer uma sessão de admin.
+ * 
+ * @param force - Se false, só reindexa os chunks gerados por outro modelo de embeddings
+ * ou que ficaram sem embedding
  */
-export const removeDocument = (id: string): void => {
+export const reindexAllDocuments = async (force: boolean = true): Promise<void> => {
+  if (!databaseService.hasAdminSession()) {
+    console.warn("Reindexing requires an admin session");
+    return;
+  }
+  
   try {
-    // Remove o documento
-    documents = documents.filter(doc => doc.id !== id);
-    
-    // Remove os chunks do documento
-    chunks = chunks.filter(chunk => chunk.documentId !== id);
-    
-    // Salva no localStorage
-    saveToLocalStorage();
-    
-    console.log(`Document ${id} removed`);
+    const reembedded = await databaseService.reindexRag(force);
+    console.log(`Server reindexed ${reembedded} chunks`);
+    await refreshServerStats();
   } catch (error) {
-    console.error(`Error removing document ${id}:`, error);
+    console.error("Error reindexing server chunks:", error);
   }
 };
 
 /**
- * Reindexar todos os documentos
+ * Reordena os candidatos pedindo ao modelo uma nota de relevância para cada um.
+ * Se a resposta não puder ser interpretada, mantém a ordem da fusão.
  */
-export const reindexAllDocuments = async (): Promise<void> => {
+const rerankWithModel = async (query: string, candidates: SearchResult[]): Promise<SearchResult[]> => {
   try {
-    console.log("Reindexing all documents...");
-    
-    // Salva os documentos atuais
-    const currentDocuments = [...documents];
+    const passages = candidates
+      .map((candidate, index) => `[${index}] ${candidate.content.substring(0, RERANK_PASSAGE_LENGTH)}`)
+      .join("\n\n");
     
-    // Limpa os arrays
-    documents = [];
-    chunks = [];
-    
-    // Limpa o cache de embeddings
-    embeddingCache.clear();
+    const result = await getLLMProvider(retrievalOptions.provider).chat({
+      model: retrievalOptions.model || "gpt-4o-mini",
+      temperature: 0,
+      maxTokens: 200,
+      messages: [
+        {
+          role: "system",
+          content: "Avalie a relevância de cada trecho para a pergunta com uma nota de 0 a 10. Responda apenas com um array JSON de números, na mesma ordem dos trechos."
+        },
+        { role: "user", content: `Pergunta: ${query}\n\nTrechos:\n\n${passages}` }
+      ]
+    });
     
-    // Reindexar cada documento
-    for (const doc of currentDocuments) {
-      await addDocument(doc.id, doc.name, doc.content);
+    const scores = JSON.parse(result.content.substring(result.content.indexOf("["), result.content.lastIndexOf("]") + 1));
+    if (!Array.isArray(scores) || scores.length !== candidates.length || scores.some(score => typeof score !== "number")) {
+      throw new Error("Unexpected rerank response");
     }
     
-    console.log(`Reindexed ${currentDocuments.length} documents`);
+    return candidates
+      .map((candidate, index) => ({ ...candidate, score: Math.max(0, Math.min(1, scores[index] / 10)) }))
+      .sort((a, b) => b.score - a.score);
   } catch (error) {
-    console.error("Error reindexing documents:", error);
+    console.warn("Rerank failed, keeping fused order:", error);
+    return candidates;
   }
 };
 
 /**
- * Verifica se uma consulta contém termos específicos importantes
+ * Busca no servidor (a busca híbrida roda sobre a tabela rag_chunks).
+ * Retorna uma lista vazia se o servidor não estiver disponível.
  */
-const containsSpecificTerms = (query: string): boolean => {
-  const specificTerms = [
-    'cpj', 'cpj-3c', 'office.adv', 'spiced', 'cobrança', 'recuperação',
-    'negociação', 'whatsapp', 'metodologia'
-  ];
-  
-  const lowerQuery = query.toLowerCase();
-  return specificTerms.some(term => lowerQuery.includes(term.toLowerCase()));
+const searchOnServer = async (query: string, limit: number): Promise<SearchResult[]> => {
+  try {
+    const response = await databaseService.searchRag(query, {
+      topK: retrievalOptions.topK,
+      similarityThreshold: retrievalOptions.similarityThreshold,
+      limit
+    });
+    serverChunkCount = response.chunkCount;
+    
+    if (debugMode) {
+      console.log(`Server search for "${query}" with ${response.embeddingModel}: ${response.results.length} results from ${response.chunkCount} chunks`);
+    }
+    
+    return response.results;
+  } catch (error) {
+    console.warn("Server search failed:", error);
+    return [];
+  }
 };
 
 /**
- * Busca documentos relevantes para uma consulta
+ * Busca documentos relevantes para uma consulta (BM25 + vetores no servidor, com rerank opcional)
  */
-export const search = (query: string, maxResults: number = MAX_RESULTS): SearchResult[] => {
+export const search = async (query: string, maxResults: number = retrievalOptions.topK): Promise<SearchResult[]> => {
   if (!isReady() || !isEnabled()) {
     console.log("Embedding service not ready or disabled");
     return [];
   }
   
   try {
-    // Gera embedding para a consulta
-    const queryEmbedding = createEmbedding(query);
-    
-    // Define o limiar de similaridade com base no tamanho da consulta 
-    // ou se contém termos específicos importantes
-    const isShortQuery = query.length <= SHORT_QUERY_LENGTH;
-    const hasSpecificTerms = containsSpecificTerms(query);
-    const threshold = (isShortQuery || hasSpecificTerms) ? 
-      SIMILARITY_THRESHOLD_SHORT_QUERY : SIMILARITY_THRESHOLD;
+    const candidateCount = retrievalOptions.rerank ? Math.max(RERANK_CANDIDATES, maxResults) : maxResults;
+    let results = await searchOnServer(query, candidateCount);
     
-    if (debugMode) {
-      console.log(`Using similarity threshold: ${threshold} for query: "${query}"`);
-      console.log(`Short query: ${isShortQuery}, Has specific terms: ${hasSpecificTerms}`);
+    if (retrievalOptions.rerank && results.length > 1) {
+      results = await rerankWithModel(query, results.slice(0, RERANK_CANDIDATES));
     }
     
-    // Calcula similaridade com todos os chunks
-    const results = chunks
-      .filter(chunk => chunk.embedding && chunk.embedding.length > 0)
-      .map(chunk => {
-        const similarity = calculateCosineSimilarity(queryEmbedding, chunk.embedding!);
-        const document = documents.find(doc => doc.id === chunk.documentId);
-        
-        return {
-          chunkId: chunk.id,
-          documentId: chunk.documentId,
-          fileName: document?.name || "Unknown",
-          content: chunk.content,
-          score: similarity
-        };
-      })
-      .filter(result => result.score > threshold)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, maxResults);
+    results = results.slice(0, maxResults);
     
+    console.log(`Searching for relevant chunks for query: "${query}"`);
+    console.log(`Found ${results.length} relevant chunks (${serverChunkCount} total, rerank ${retrievalOptions.rerank ? 'on' : 'off'})`);
     if (debugMode) {
-      console.log(`Searching for relevant chunks for query: "${query}"`);
-      console.log(`Found ${results.length} relevant chunks (from ${chunks.length} total)`);
       results.forEach((r, i) => {
-        console.log(`Result ${i+1}: ${r.fileName}, Score: ${r.score.toFixed(4)}`);
+        console.log(`Result ${i+1}: ${r.fileName}, Score: ${r.score.toFixed(4)}, Vector: ${r.vectorScore?.toFixed(4) ?? '-'}, BM25: ${r.lexicalScore?.toFixed(4) ?? '-'}`);
       });
-    } else {
-      console.log(`Searching for relevant chunks for query: "${query}"`);
-      console.log(`Found ${results.length} relevant chunks (from ${
-        chunks.filter(c => c.embedding && c.embedding.length > 0).length
-      } total above threshold ${threshold.toFixed(2)})`);
     }
     
     return results;
@@ -369,21 +347,21 @@ const condensarContexto = (context: string): string => {
 };
 
 /**
- * Obtém contexto relevante para uma consulta
+ * Obtém contexto relevante para uma consulta, junto com as fontes usadas
  */
-export const getRelevantContext = async (query: string): Promise<string> => {
+export const retrieveContext = async (query: string): Promise<RelevantContext> => {
   if (!isReady() || !isEnabled()) {
     console.log("Embedding service not ready or disabled, returning empty context");
-    return "";
+    return { context: "", sources: [] };
   }
   
   try {
     // Busca resultados relevantes
-    const results = search(query);
+    const results = await search(query);
     
     if (results.length === 0) {
       console.log("No relevant context found for query");
-      return "";
+      return { context: "", sources: [] };
     }
     
     // Formata os resultados como contexto
@@ -394,137 +372,55 @@ export const getRelevantContext = async (query: string): Promise<string> => {
     // Condensar o contexto para reduzir o tamanho
     const context = condensarContexto(rawContext);
     
-    console.log(`Contexto relevante recuperado: ${context.length} caracteres (reduzido de ${rawContext.length})`);
-    return context;
+    // As fontes guardam cada trecho recuperado, mesmo os resumidos pela condensação
+    const sources: MessageSource[] = results.map(result => ({
+      documentId: result.documentId || "",
+      fileName: result.fileName,
+      chunkId: result.chunkId || "",
+      score: result.score,
+      snippet: result.content.length > SOURCE_SNIPPET_LENGTH
+        ? result.content.substring(0, SOURCE_SNIPPET_LENGTH - 3) + "..."
+        : result.content
+    }));
+    
+    console.log(`Contexto relevante recuperado: ${context.length} caracteres (reduzido de ${rawContext.length}), ${sources.length} fontes`);
+    return { context, sources };
   } catch (error) {
     console.error("Error getting relevant context:", error);
-    return "";
+    return { context: "", sources: [] };
   }
 };
 
+/**
+ * Obtém contexto relevante para uma consulta
+ */
+export const getRelevantContext = async (query: string): Promise<string> => {
+  const { context } = await retrieveContext(query);
+  return context;
+};
+
 /**
  * Obtém estatísticas do serviço
  */
 export const getStats = () => {
   return {
-    documentCount: documents.length,
-    chunkCount: chunks.length,
+    documentCount: serverDocumentCount,
+    chunkCount: serverChunkCount,
     isReady: isReady(),
     isEnabled: isEnabled()
   };
 };
 
-/**
- * Divide o conteúdo em chunks
- */
-const splitIntoChunks = (documentId: string, content: string): Chunk[] => {
-  const chunks: Chunk[] = [];
-  
-  // Divide por parágrafos primeiro
-  const paragraphs = content.split(/\n\s*\n/);
-  
-  let currentChunk = "";
-  
-  for (const paragraph of paragraphs) {
-    // Se o parágrafo for maior que o tamanho do chunk, divide-o
-    if (paragraph.length > CHUNK_SIZE) {
-      // Adiciona o chunk atual se não estiver vazio
-      if (currentChunk.length > 0) {
-        chunks.push({
-          id: uuidv4(),
-          documentId,
-          content: currentChunk.trim()
-        });
-        currentChunk = "";
-      }
-      
-      // Divide o parágrafo grande em chunks menores
-      let i = 0;
-      while (i < paragraph.length) {
-        const chunkContent = paragraph.substring(i, i + CHUNK_SIZE);
-        chunks.push({
-          id: uuidv4(),
-          documentId,
-          content: chunkContent.trim()
-        });
-        i += CHUNK_SIZE - CHUNK_OVERLAP;
-      }
-    } 
-    // Se adicionar o parágrafo exceder o tamanho do chunk, cria um novo chunk
-    else if (currentChunk.length + paragraph.length > CHUNK_SIZE) {
-      chunks.push({
-        id: uuidv4(),
-        documentId,
-        content: currentChunk.trim()
-      });
-      currentChunk = paragraph;
-    } 
-    // Caso contrário, adiciona o parágrafo ao chunk atual
-    else {
-      if (currentChunk.length > 0) {
-        currentChunk += "\n\n";
-      }
-      currentChunk += paragraph;
-    }
-  }
-  
-  // Adiciona o último chunk se não estiver vazio
-  if (currentChunk.length > 0) {
-    chunks.push({
-      id: uuidv4(),
-      documentId,
-      content: currentChunk.trim()
-    });
-  }
-  
-  return chunks;
-};
-
-/**
- * Calcula a similaridade de cosseno entre dois vetores
- */
-const calculateCosineSimilarity = (a: number[], b: number[]): number => {
-  if (!a || !b || a.length !== b.length) {
-    return 0;
-  }
-  
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-  
-  for (let i = 0; i < a.length; i++) {
-    dotProduct += a[i] * b[i];
-    normA += a[i] * a[i];
-    normB += b[i] * b[i];
-  }
-  
-  if (normA === 0 || normB === 0) {
-    return 0;
-  }
-  
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-};
-
-/**
- * Salva documentos e chunks no localStorage
- */
-const saveToLocalStorage = (): void => {
-  try {
-    localStorage.setItem('rag_documents', JSON.stringify(documents));
-    localStorage.setItem('rag_chunks', JSON.stringify(chunks));
-  } catch (error) {
-    console.error("Error saving to localStorage:", error);
-  }
-};
-
 // Exporta o serviço como um objeto para facilitar o uso
 export const embeddingService = {
   initialize,
+  setRetrievalOptions,
   isReady,
-  addDocument,
-  removeDocument,
+  ingestDocument,
+  deleteDocument,
   search,
   getRelevantContext,
+  retrieveContext,
   getStats,
   reindexAllDocuments,
   setDebug,
@@ -0,0 +1,61 @@
+
+// Como a fala parcial termina, para decidir quanto silêncio esperar antes de responder
+export type TurnEnding = 'punctuation' | 'number' | 'none';
+
+export interface EndOfTurnConfig {
+  silenceDuration: number; // ms de silêncio acústico sempre exigidos
+  waitAfterPunctuation: number; // s extras quando a fala termina com pontuação final
+  waitWithoutPunctuation: number; // s extras quando não há pontuação final (ou ainda não há transcrição)
+  waitAfterNumber: number; // s extras quando a fala termina com um número (telefone, CPF...)
+}
+
+export interface EndOfTurnDecision {
+  endOfTurn: boolean;
+  ending: TurnEnding;
+  silenceMs: number;
+  requiredSilenceMs: number;
+}
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const TRAILING_PUNCTUATION = /[\s.,;:!?…"'”’)\]-]+$/;
+
+export const classifyTurnEnding = (transcript: string): TurnEnding => {
+  const text = transcript.trim();
+  if (!text) return 'none';
+
+  // "123.456." também termina com ponto, mas quem dita um número costuma continuar
+  const lastWord = text.replace(TRAILING_PUNCTUATION, '').split(/\s+/).pop() || '';
+  if (/\d$/.test(lastWord)) return 'number';
+
+  return SENTENCE_END.test(text) ? 'punctuation' : 'none';
+};
+
+export const requiredSilenceFor = (ending: TurnEnding, config: EndOfTurnConfig): number => {
+  const extraWait = ending === 'punctuation'
+    ? config.waitAfterPunctuation
+    : ending === 'number'
+      ? config.waitAfterNumber
+      : config.waitWithoutPunctuation;
+
+  return config.silenceDuration + extraWait * 1000;
+};
+
+/**
+ * Decide se o turno do usuário terminou, combinando o silêncio acústico com a transcrição parcial:
+ * depois de pontuação final espera menos, depois de um número espera mais e sem pontuação espera mais ainda.
+ */
+export const decideEndOfTurn = (
+  silenceMs: number,
+  partialTranscript: string,
+  config: EndOfTurnConfig
+): EndOfTurnDecision => {
+  const ending = classifyTurnEnding(partialTranscript);
+  const requiredSilenceMs = requiredSilenceFor(ending, config);
+
+  return {
+    endOfTurn: silenceMs >= requiredSilenceMs,
+    ending,
+    silenceMs,
+    requiredSilenceMs
+  };
+};
@@ -0,0 +1,83 @@
+import { AgentFunction } from "@/types/chat";
+import { getApiUrl } from "@/services/databaseService";
+
+// Chamada de função solicitada pelo modelo (formato legado ou tool_calls)
+export interface FunctionCallRequest {
+  name: string;
+  arguments: string;
+}
+
+// Definição de função enviada para a API (sem o webhook)
+export interface OpenAIFunctionDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+// Configurações
+const FUNCTION_CALL_TIMEOUT = 20000; // O servidor espera o webhook por até 15 segundos
+export const MAX_FUNCTION_CALL_ROUNDS = 5; // Evita loops infinitos de chamadas
+
+/**
+ * Remove campos internos (como o webhook) antes de enviar as funções para a API
+ */
+export const toOpenAIFunctions = (functions: AgentFunction[]): OpenAIFunctionDefinition[] => {
+  return functions.map(func => ({
+    name: func.name,
+    description: func.description,
+    parameters: typeof func.parameters === 'string'
+      ? JSON.parse(func.parameters)
+      : (func.parameters || { type: "object", properties: {} })
+  }));
+};
+
+/**
+ * Executa uma chamada de função pelo servidor, que envia os argumentos ao webhook configurado
+ * (POST /api/agent/functions/:name/execute). O navegador nunca vê a URL do webhook.
+ * Sempre retorna uma string para ser devolvida ao modelo, inclusive em caso de erro,
+ * para que ele possa informar o usuário em vez de interromper a conversa.
+ */
+export const executeFunctionCall = async (
+  call: FunctionCallRequest,
+  functions: AgentFunction[]
+): Promise<string> => {
+  if (!functions.some(f => f.name === call.name)) {
+    console.error(`Função não encontrada: ${call.name}`);
+    return JSON.stringify({ error: `Function "${call.name}" is not available` });
+  }
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FUNCTION_CALL_TIMEOUT);
+
+  try {
+    console.log(`Executando função ${call.name} pelo servidor`);
+
+    const response = await fetch(getApiUrl(`/agent/functions/${encodeURIComponent(call.name)}/execute`), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": "application/json"
+      },
+      body: JSON.stringify({ arguments: call.arguments }),
+      signal: controller.signal
+    });
+
+    if (!response.ok) {
+      console.error(`Servidor retornou erro ao executar a função ${call.name}: ${response.status}`);
+      return JSON.stringify({ error: `Function call failed with status ${response.status}` });
+    }
+
+    const { output } = await response.json();
+    console.log(`Função ${call.name} executada`);
+    return output;
+  } catch (error) {
+    const message = error instanceof Error && error.name === 'AbortError'
+      ? `Function call timed out after ${FUNCTION_CALL_TIMEOUT}ms`
+      : (error instanceof Error ? error.message : String(error));
+
+    console.error(`Erro ao executar função ${call.name}:`, error);
+    return JSON.stringify({ error: message });
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
@@ -0,0 +1,180 @@
+
+// Valor de VoiceConfig.language que faz o agente usar o idioma detectado na primeira fala do usuário
+export const AUTO_DETECT_LANGUAGE = "auto";
+
+// Idioma usado quando o agente não tem idioma configurado nem detectado
+export const DEFAULT_LANGUAGE = "pt-BR";
+
+// Textos injetados nas instruções do modelo e mensagens faladas pelo agente, por idioma base
+interface LanguageStrings {
+  locale: string; // Locale completo usado quando o idioma é detectado
+  replyInstruction: string;
+  contextInstruction: string;
+  emotionInstruction: string;
+  endCallMessage: string;
+  defaultVoice: string; // Voz padrão quando o agente não escolheu uma
+  stopwords: string[]; // Palavras frequentes usadas para reconhecer o idioma de um texto
+}
+
+const LANGUAGE_STRINGS: Record<string, LanguageStrings> = {
+  pt: {
+    locale: "pt-BR",
+    replyInstruction: "Responda sempre em português do Brasil.",
+    contextInstruction: "Utilize as informações abaixo para responder à pergunta do usuário (apenas se for relevante):",
+    emotionInstruction: "Detecte o sentimento emocional principal na mensagem do usuário e inclua essa informação no início da sua resposta entre colchetes, por exemplo: [Sentimento: Feliz]. Os possíveis sentimentos são: Feliz, Triste, Irritado, Confuso, Neutro, Preocupado, Satisfeito.",
+    endCallMessage: "Encerrando chamada por inatividade. Obrigado pela conversa.",
+    defaultVoice: "alloy",
+    stopwords: ["não", "você", "que", "de", "é", "uma", "um", "para", "com", "meu", "minha", "está", "isso", "obrigado", "obrigada", "olá", "oi", "bom", "dia", "sim", "quero", "preciso", "como", "por", "favor", "também", "mas"]
+  },
+  en: {
+    locale: "en-US",
+    replyInstruction: "Always reply in English.",
+    contextInstruction: "Use the information below to answer the user's question (only if relevant):",
+    emotionInstruction: "Detect the main emotion in the user's message and include it at the beginning of your reply in square brackets, for example: [Sentiment: Happy]. The possible sentiments are: Happy, Sad, Angry, Confused, Neutral, Worried, Satisfied.",
+    endCallMessage: "Ending the call due to inactivity. Thank you for the conversation.",
+    defaultVoice: "alloy",
+    stopwords: ["the", "you", "is", "are", "what", "and", "to", "of", "my", "i'm", "it", "this", "that", "hello", "hi", "please", "thanks", "thank", "yes", "want", "need", "how", "can", "with", "for", "have", "do"]
+  },
+  es: {
+    locale: "es-ES",
+    replyInstruction: "Responde siempre en español.",
+    contextInstruction: "Utiliza la información siguiente para responder a la pregunta del usuario (solo si es relevante):",
+    emotionInstruction: "Detecta la emoción principal en el mensaje del usuario e inclúyela al comienzo de tu respuesta entre corchetes, por ejemplo: [Sentimiento: Feliz]. Los sentimientos posibles son: Feliz, Triste, Enojado, Confundido, Neutral, Preocupado, Satisfecho.",
+    endCallMessage: "Finalizando la llamada por inactividad. Gracias por la conversación.",
+    defaultVoice: "nova",
+    stopwords: ["el", "la", "los", "que", "de", "es", "y", "usted", "tú", "yo", "mi", "por", "favor", "gracias", "hola", "buenos", "días", "sí", "quiero", "necesito", "cómo", "está", "estoy", "pero", "también", "muy", "qué"]
+  },
+  fr: {
+    locale: "fr-FR",
+    replyInstruction: "Réponds toujours en français.",
+    contextInstruction: "Utilise les informations ci-dessous pour répondre à la question de l'utilisateur (seulement si elles sont pertinentes) :",
+    emotionInstruction: "Détecte l'émotion principale dans le message de l'utilisateur et indique-la au début de ta réponse entre crochets, par exemple : [Sentiment : Heureux]. Les sentiments possibles sont : Heureux, Triste, En colère, Confus, Neutre, Inquiet, Satisfait.",
+    endCallMessage: "Fin de l'appel pour inactivité. Merci pour la conversation.",
+    defaultVoice: "shimmer",
+    stopwords: ["le", "la", "les", "je", "vous", "est", "et", "de", "des", "une", "un", "pour", "avec", "mon", "ma", "bonjour", "merci", "oui", "non", "veux", "besoin", "comment", "pas", "c'est", "qui", "suis", "s'il"]
+  },
+  de: {
+    locale: "de-DE",
+    replyInstruction: "Antworte immer auf Deutsch.",
+    contextInstruction: "Nutze die folgenden Informationen, um die Frage des Benutzers zu beantworten (nur wenn sie relevant sind):",
+    emotionInstruction: "Erkenne die wichtigste Emotion in der Nachricht des Benutzers und gib sie am Anfang deiner Antwort in eckigen Klammern an, zum Beispiel: [Stimmung: Glücklich]. Mögliche Stimmungen sind: Glücklich, Traurig, Wütend, Verwirrt, Neutral, Besorgt, Zufrieden.",
+    endCallMessage: "Der Anruf wird wegen Inaktivität beendet. Vielen Dank für das Gespräch.",
+    defaultVoice: "onyx",
+    stopwords: ["der", "die", "das", "ich", "sie", "ist", "und", "nicht", "ein", "eine", "mit", "für", "mein", "meine", "hallo", "danke", "bitte", "ja", "nein", "möchte", "brauche", "wie", "auch", "aber", "haben", "bin", "guten"]
+  },
+  it: {
+    locale: "it-IT",
+    replyInstruction: "Rispondi sempre in italiano.",
+    contextInstruction: "Usa le informazioni seguenti per rispondere alla domanda dell'utente (solo se pertinenti):",
+    emotionInstruction: "Rileva l'emozione principale nel messaggio dell'utente e includila all'inizio della risposta tra parentesi quadre, per esempio: [Sentimento: Felice]. I sentimenti possibili sono: Felice, Triste, Arrabbiato, Confuso, Neutrale, Preoccupato, Soddisfatto.",
+    endCallMessage: "Chiusura della chiamata per inattività. Grazie per la conversazione.",
+    defaultVoice: "nova",
+    stopwords: ["il", "lo", "gli", "che", "di", "è", "e", "non", "sono", "io", "mio", "mia", "per", "con", "ciao", "buongiorno", "grazie", "sì", "voglio", "bisogno", "come", "anche", "ma", "della", "questo", "favore", "vorrei"]
+  },
+  ja: {
+    locale: "ja-JP",
+    replyInstruction: "常に日本語で回答してください。",
+    contextInstruction: "次の情報を使ってユーザーの質問に答えてください(関連する場合のみ):",
+    emotionInstruction: "ユーザーのメッセージの主な感情を検出し、回答の冒頭に角括弧で記載してください。例: [感情: 嬉しい]。可能な感情: 嬉しい、悲しい、怒り、困惑、中立、心配、満足。",
+    endCallMessage: "操作がないため通話を終了します。ご利用ありがとうございました。",
+    defaultVoice: "nova",
+    stopwords: []
+  },
+  ko: {
+    locale: "ko-KR",
+    replyInstruction: "항상 한국어로 답변하세요.",
+    contextInstruction: "다음 정보를 사용하여 사용자의 질문에 답하세요(관련이 있는 경우에만):",
+    emotionInstruction: "사용자 메시지의 주요 감정을 감지하여 답변 시작 부분에 대괄호로 표시하세요. 예: [감정: 행복]. 가능한 감정: 행복, 슬픔, 분노, 혼란, 중립, 걱정, 만족.",
+    endCallMessage: "활동이 없어 통화를 종료합니다. 대화해 주셔서 감사합니다.",
+    defaultVoice: "nova",
+    stopwords: []
+  },
+  zh: {
+    locale: "zh-CN",
+    replyInstruction: "请始终用简体中文回答。",
+    contextInstruction: "请使用以下信息回答用户的问题(仅在相关时):",
+    emotionInstruction: "识别用户消息中的主要情绪,并在回答开头用方括号标明,例如:[情绪:高兴]。可能的情绪有:高兴、伤心、生气、困惑、中立、担心、满意。",
+    endCallMessage: "由于长时间无操作,通话即将结束。感谢您的交流。",
+    defaultVoice: "nova",
+    stopwords: []
+  }
+};
+
+// Menos palavras que isso não bastam para reconhecer o idioma ("ok", "sim", nomes próprios)
+const MIN_STOPWORD_MATCHES = 2;
+
+export const isAutoDetectLanguage = (language?: string): boolean => language === AUTO_DETECT_LANGUAGE;
+
+// "pt-BR" -> "pt"; devolve undefined para idioma vazio ou detecção automática
+export const getBaseLanguage = (language?: string): string | undefined => {
+  if (!language || isAutoDetectLanguage(language)) return undefined;
+  return language.split(/[-_]/)[0].toLowerCase();
+};
+
+const getLanguageStrings = (language?: string): LanguageStrings =>
+  LANGUAGE_STRINGS[getBaseLanguage(language) || ""] || LANGUAGE_STRINGS[getBaseLanguage(DEFAULT_LANGUAGE)!];
+
+/**
+ * Idioma efetivo da chamada: o configurado no agente ou, na detecção automática,
+ * o detectado na primeira fala do usuário (undefined enquanto nada foi detectado).
+ */
+export const resolveCallLanguage = (configured?: string, detected?: string | null): string | undefined => {
+  if (isAutoDetectLanguage(configured)) {
+    return detected || undefined;
+  }
+  return configured || DEFAULT_LANGUAGE;
+};
+
+// Código ISO-639-1 enviado ao STT; sem idioma definido o provedor detecta sozinho
+export const toTranscriptionLanguage = (language?: string): string | undefined => getBaseLanguage(language);
+
+export const getReplyInstruction = (language?: string): string | undefined =>
+  getBaseLanguage(language) ? getLanguageStrings(language).replyInstruction : undefined;
+
+export const getContextInstruction = (language?: string): string => getLanguageStrings(language).contextInstruction;
+
+export const getEmotionInstruction = (language?: string): string => getLanguageStrings(language).emotionInstruction;
+
+export const getDefaultVoice = (language?: string): string => getLanguageStrings(language).defaultVoice;
+
+export const getDefaultEndCallMessage = (language?: string): string => getLanguageStrings(language).endCallMessage;
+
+/**
+ * Mensagem de encerramento da chamada: a personalizada do agente ou a padrão no idioma da chamada.
+ * Uma mensagem igual à padrão de algum idioma conta como não personalizada, para acompanhar o idioma.
+ */
+export const resolveEndCallMessage = (message: string | undefined, language?: string): string => {
+  const isDefault = !message?.trim() ||
+    Object.values(LANGUAGE_STRINGS).some(strings => strings.endCallMessage === message.trim());
+  return isDefault ? getDefaultEndCallMessage(language) : message!;
+};
+
+/**
+ * Reconhece o idioma de um texto transcrito, devolvendo o locale (ex.: "en-US") ou null se não houver
+ * indícios suficientes. Escritas próprias (japonês, coreano, chinês) são reconhecidas pelos caracteres;
+ * as demais línguas, pela contagem de palavras frequentes.
+ */
+export const detectLanguage = (text: string): string | null => {
+  if (/[぀-ヿ]/.test(text)) return LANGUAGE_STRINGS.ja.locale;
+  if (/[가-힯]/.test(text)) return LANGUAGE_STRINGS.ko.locale;
+  if (/[一-鿿]/.test(text)) return LANGUAGE_STRINGS.zh.locale;
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) || [];
+  let best: { locale: string; matches: number } | null = null;
+  let tied = false;
+
+  for (const strings of Object.values(LANGUAGE_STRINGS)) {
+    if (strings.stopwords.length === 0) continue;
+
+    const matches = words.filter(word => strings.stopwords.includes(word)).length;
+    if (!best || matches > best.matches) {
+      best = { locale: strings.locale, matches };
+      tied = false;
+    } else if (matches === best.matches) {
+      tied = true;
+    }
+  }
+
+  if (!best || best.matches < MIN_STOPWORD_MATCHES || tied) return null;
+  return best.locale;
+};
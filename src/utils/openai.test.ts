@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AgentFunction } from "@/types/chat";
+import { callOpenAI, streamOpenAI } from "./openai";
+import { MAX_FUNCTION_CALL_ROUNDS } from "./functionExecutor";
+import { ChatResult, OpenAIMessage } from "./providers";
+
+// Provedor com respostas roteirizadas; cada chamada guarda uma cópia das mensagens recebidas
+const provider = vi.hoisted(() => ({
+  results: [] as ChatResult[],
+  requests: [] as OpenAIMessage[][],
+  next(messages: OpenAIMessage[]) {
+    provider.requests.push(JSON.parse(JSON.stringify(messages)));
+    const result = provider.results.shift();
+    if (!result) throw new Error("Roteiro do provedor terminou");
+    return result;
+  }
+}));
+
+vi.mock("./providers", () => ({
+  getLLMProvider: () => ({
+    type: "openai",
+    chat: async (request: { messages: OpenAIMessage[] }) => provider.next(request.messages),
+    stream: async (request: { messages: OpenAIMessage[] }, onContent: (content: string) => void) => {
+      const result = provider.next(request.messages);
+      if (result.content) onContent(result.content);
+      return result;
+    }
+  })
+}));
+
+vi.mock("./embeddingService", () => ({
+  embeddingService: { isReady: () => true, isEnabled: () => false, initialize: async () => {} }
+}));
+
+vi.mock("@/services/databaseService", () => ({
+  getApiUrl: (path: string) => `http://api.test${path}`
+}));
+
+const FUNCTIONS: AgentFunction[] = [
+  { name: "consultar_pedido", description: "Consulta um pedido", parameters: { type: "object", properties: {} } }
+];
+
+const answer = (content: string): ChatResult => ({ content, functionCall: null, toolCalls: [] });
+
+const toolCall = (id: string, args = '{"pedido":"42"}'): ChatResult => ({
+  content: "",
+  functionCall: null,
+  toolCalls: [{ id, type: "function", function: { name: "consultar_pedido", arguments: args } }]
+});
+
+const legacyCall = (args = '{"pedido":"42"}'): ChatResult => ({
+  content: "",
+  functionCall: { name: "consultar_pedido", arguments: args },
+  toolCalls: []
+});
+
+const ask = () => callOpenAI({ messages: [{ role: "user", content: "Onde está o pedido 42?" }], functions: FUNCTIONS });
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+// Resposta do servidor ao executar a função (POST /api/agent/functions/:name/execute)
+const serverOutput = (output: string) => new Response(JSON.stringify({ output }), {
+  status: 200,
+  headers: { "Content-Type": "application/json" }
+});
+
+beforeEach(() => {
+  provider.results = [];
+  provider.requests = [];
+  fetchMock = vi.fn(async () => serverOutput('{"status":"enviado"}'));
+  vi.stubGlobal("fetch", fetchMock);
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("function-call loop", () => {
+  it("executes tool_calls through the server and answers with their results", async () => {
+    provider.results = [toolCall("call_1"), answer("Seu pedido foi enviado.")];
+
+    expect(await ask()).toBe("Seu pedido foi enviado.");
+
+    expect(fetchMock).toHaveBeenCalledOnce();
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("http://api.test/agent/functions/consultar_pedido/execute");
+    expect(JSON.parse(init.body)).toEqual({ arguments: '{"pedido":"42"}' });
+
+    expect(provider.requests[1].slice(-2)).toEqual([
+      { role: "assistant", content: null, tool_calls: toolCall("call_1").toolCalls },
+      { role: "tool", tool_call_id: "call_1", name: "consultar_pedido", content: '{"status":"enviado"}' }
+    ]);
+  });
+
+  it("executes a legacy function_call and replies with a function message", async () => {
+    provider.results = [legacyCall(), answer("Pedido enviado.")];
+
+    expect(await ask()).toBe("Pedido enviado.");
+    expect(provider.requests[1].slice(-2)).toEqual([
+      { role: "assistant", content: null, function_call: { name: "consultar_pedido", arguments: '{"pedido":"42"}' } },
+      { role: "function", name: "consultar_pedido", content: '{"status":"enviado"}' }
+    ]);
+  });
+
+  it(`stops after ${MAX_FUNCTION_CALL_ROUNDS} rounds of function calls`, async () => {
+    provider.results = Array.from({ length: MAX_FUNCTION_CALL_ROUNDS + 1 }, (_, index) => toolCall(`call_${index}`));
+
+    await expect(ask()).rejects.toThrow(`Limite de ${MAX_FUNCTION_CALL_ROUNDS} rodadas`);
+    expect(provider.requests).toHaveLength(MAX_FUNCTION_CALL_ROUNDS + 1);
+    expect(fetchMock).toHaveBeenCalledTimes(MAX_FUNCTION_CALL_ROUNDS);
+  });
+
+  it("hands a failing webhook back to the model as an error result", async () => {
+    fetchMock
+      .mockResolvedValueOnce(serverOutput('{"error":"Webhook returned status 500","body":"falhou"}'))
+      .mockRejectedValueOnce(new TypeError("Failed to fetch"));
+    provider.results = [toolCall("call_1"), toolCall("call_2"), answer("Não consegui consultar o pedido agora.")];
+
+    expect(await ask()).toBe("Não consegui consultar o pedido agora.");
+
+    const toolResults = provider.requests[2].filter(message => message.role === "tool").map(message => message.content);
+    expect(toolResults).toEqual([
+      '{"error":"Webhook returned status 500","body":"falhou"}',
+      '{"error":"Failed to fetch"}'
+    ]);
+  });
+
+  it("does not call the server for functions the agent does not have", async () => {
+    provider.results = [
+      { content: "", functionCall: { name: "apagar_tudo", arguments: "{}" }, toolCalls: [] },
+      answer("Não posso fazer isso.")
+    ];
+
+    expect(await ask()).toBe("Não posso fazer isso.");
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(provider.requests[1].at(-1)!.content).toContain("is not available");
+  });
+
+  it("reports function calls and completes the stream after them", async () => {
+    provider.results = [toolCall("call_1"), answer("Pedido a caminho.")];
+    const onFunctionCall = vi.fn();
+    const onComplete = vi.fn();
+    const onError = vi.fn();
+
+    await streamOpenAI(
+      { messages: [{ role: "user", content: "E o pedido 42?" }], functions: FUNCTIONS },
+      { onMessage: () => {}, onComplete, onError, onFunctionCall }
+    );
+
+    expect(onFunctionCall).toHaveBeenCalledWith("consultar_pedido", '{"pedido":"42"}');
+    expect(onComplete).toHaveBeenCalledWith("Pedido a caminho.");
+    expect(onError).not.toHaveBeenCalled();
+  });
+});
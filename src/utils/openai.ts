@@ -1,13 +1,21 @@
 
 import CryptoJS from 'crypto-js';
 import { embeddingService } from './embeddingService';
-
-// Interface para mensagem da OpenAI
-interface OpenAIMessage {
-  role: "system" | "user" | "assistant" | "function";
-  content: string;
-  name?: string;
-}
+import { AgentFunction, LLMProviderConfig, MessageSource } from '@/types/chat';
+import {
+  executeFunctionCall,
+  toOpenAIFunctions,
+  FunctionCallRequest,
+  MAX_FUNCTION_CALL_ROUNDS
+} from './functionExecutor';
+import { getLLMProvider, ChatRequest, OpenAIMessage, OpenAIToolCall, StreamingTranscription } from './providers';
+import {
+  getContextInstruction,
+  getDefaultVoice,
+  getEmotionInstruction,
+  getReplyInstruction,
+  toTranscriptionLanguage
+} from './language';
 
 // Interface para opções de conclusão da OpenAI
 interface OpenAICompletionOptions {
@@ -23,20 +31,16 @@ interface OpenAICompletionOptions {
     type?: string;
     timestamp?: Date;
   }>;
-  functions?: Array<{
-    name: string;
-    description: string;
-    parameters: Record<string, any>;
-  }>;
+  functions?: AgentFunction[];
   detectEmotion?: boolean;
   stream?: boolean;
-}
-
-// Interface para função de conclusão da OpenAI
-interface OpenAIFunction {
-  name: string;
-  description: string;
-  parameters: Record<string, any>;
+  provider?: LLMProviderConfig;
+  // Recebe os trechos do RAG usados como contexto, para citá-los na resposta
+  onSources?: (sources: MessageSource[]) => void;
+  // Interrompe a geração; no streaming, nenhum callback é chamado depois da interrupção
+  signal?: AbortSignal;
+  // Idioma da conversa (ex.: "pt-BR"); define o idioma das instruções e da resposta
+  language?: string;
 }
 
 // Interface de callbacks para streaming
@@ -44,43 +48,13 @@ interface StreamCallbacks {
   onMessage: (chunk: string) => void;
   onComplete: (fullMessage: string) => void;
   onError: (error: Error) => void;
+  onFunctionCall?: (name: string, args: string) => void;
 }
 
-// Cache para embeddings
-const embeddingCache = new Map<string, number[]>();
-
 // Cache para consultas recentes para evitar duplicações
 const recentQueriesCache = new Map<string, string>();
 const MAX_CACHE_SIZE = 20;
 
-// Função para criar embeddings de texto usando o modelo da OpenAI
-export const createEmbedding = (text: string): number[] => {
-  // Verificar se já temos este texto no cache
-  const key = text.substring(0, 100) + '_' + text.length;
-  if (embeddingCache.has(key)) {
-    console.log(`Using cached embedding for text: ${text.substring(0, 50)}...`);
-    return embeddingCache.get(key)!;
-  }
-  
-  // Implementação simples de hash para simular embeddings
-  // Em um ambiente de produção, você deve chamar a API de embeddings da OpenAI
-  const hash = CryptoJS.SHA256(text).toString();
-  
-  // Transformar o hash em um array de números para simular um embedding
-  const embedding = Array.from({ length: 384 }, (_, i) => {
-    // Usar substrings do hash para gerar os valores do embedding
-    const value = parseInt(hash.substring((i * 2) % hash.length, (i * 2 + 2) % hash.length), 16);
-    // Normalizar para um valor entre -1 e 1
-    return (value / 65535) * 2 - 1;
-  });
-  
-  // Armazenar no cache
-  embeddingCache.set(key, embedding);
-  
-  console.log(`Generated embedding for text: ${text.substring(0, 50)}...`);
-  return embedding;
-};
-
 // Função para verificar se uma consulta é semanticamente similar a uma recente
 const isQuerySimilarToRecent = (query: string, queryHash: string): boolean => {
   if (recentQueriesCache.has(queryHash)) {
@@ -103,7 +77,7 @@ const prepareMessages = async (options: OpenAICompletionOptions): Promise<OpenAI
   // Cria uma cópia das mensagens para evitar mutações
   let messages = [...options.messages];
   
-  // Inicializa o serviço de embeddings se necessário
+  // Inicializa o serviço de embeddings se necessário (os chunks ficam no servidor)
   if (!embeddingService.isReady() && options.trainingFiles && options.trainingFiles.length > 0) {
     await embeddingService.initialize();
   }
@@ -130,25 +104,12 @@ const prepareMessages = async (options: OpenAICompletionOptions): Promise<OpenAI
     
     // Se não for duplicada, processa normalmente
     if (!isDuplicate) {
-      // Indexa arquivos apenas se eles não estiverem indexados
-      if (options.trainingFiles && options.trainingFiles.length > 0) {
-        // Verifica se os documentos já estão indexados
-        const stats = embeddingService.getStats();
-        if (stats.documentCount < options.trainingFiles.length) {
-          console.log(`Indexing ${options.trainingFiles.length} training files...`);
-          
-          for (const file of options.trainingFiles) {
-            embeddingService.addDocument(file.id, file.name, file.content);
-          }
-        }
-      }
-      
       // Usa o sistema RAG para obter contexto relevante
       try {
         console.log("Usando sistema RAG para buscar contexto relevante");
         
         // Obtém contexto relevante para a última mensagem do usuário
-        const contextContent = await embeddingService.getRelevantContext(lastUserMessage.content);
+        const { context: contextContent, sources } = await embeddingService.retrieveContext(lastUserMessage.content);
         
         // Somente adiciona o contexto se algo relevante foi encontrado
         if (contextContent && contextContent.length > 0) {
@@ -157,16 +118,18 @@ const prepareMessages = async (options: OpenAICompletionOptions): Promise<OpenAI
           
           if (systemMessageIndex !== -1) {
             // Anexa à mensagem do sistema existente
-            messages[systemMessageIndex].content += `\n\nUtilize as informações abaixo para responder à pergunta do usuário (apenas se for relevante):\n\n${contextContent}`;
+            messages[systemMessageIndex].content += `\n\n${getContextInstruction(options.language)}\n\n${contextContent}`;
             console.log("Contexto relevante adicionado à conversa");
           } else {
             // Adiciona como uma nova mensagem do sistema se não existir nenhuma
             messages.unshift({
               role: "system",
-              content: `Use as seguintes informações para responder às perguntas do usuário (apenas se for relevante):\n\n${contextContent}`
+              content: `${getContextInstruction(options.language)}\n\n${contextContent}`
             });
             console.log("Contexto relevante adicionado como nova mensagem do sistema");
           }
+
+          options.onSources?.(sources);
         } else {
           console.log("Nenhum contexto relevante encontrado para adicionar à conversa");
         }
@@ -192,15 +155,27 @@ const prepareMessages = async (options: OpenAICompletionOptions): Promise<OpenAI
     const lastSystemMessageIndex = messages.findIndex(msg => msg.role === "system");
     
     if (lastSystemMessageIndex !== -1) {
-      messages[lastSystemMessageIndex].content += "\n\nDetecte o sentimento emocional principal na mensagem do usuário e inclua essa informação no início da sua resposta entre colchetes, por exemplo: [Sentimento: Feliz]. Os possíveis sentimentos são: Feliz, Triste, Irritado, Confuso, Neutro, Preocupado, Satisfeito.";
+      messages[lastSystemMessageIndex].content += `\n\n${getEmotionInstruction(options.language)}`;
     } else {
       messages.unshift({
         role: "system",
-        content: "Detecte o sentimento emocional principal na mensagem do usuário e inclua essa informação no início da sua resposta entre colchetes, por exemplo: [Sentimento: Feliz]. Os possíveis sentimentos são: Feliz, Triste, Irritado, Confuso, Neutro, Preocupado, Satisfeito."
+        content: getEmotionInstruction(options.language)
       });
     }
   }
   
+  // Fixa o idioma da resposta; sem idioma definido (detecção automática) o modelo acompanha o usuário
+  const replyInstruction = getReplyInstruction(options.language);
+  if (replyInstruction) {
+    const systemMessageIndex = messages.findIndex(msg => msg.role === "system");
+    
+    if (systemMessageIndex !== -1) {
+      messages[systemMessageIndex].content += `\n\n${replyInstruction}`;
+    } else {
+      messages.unshift({ role: "system", content: replyInstruction });
+    }
+  }
+  
   // Limpa mensagens duplicadas consecutivas
   let cleanedMessages: OpenAIMessage[] = [];
   for (let i = 0; i < messages.length; i++) {
@@ -227,148 +202,149 @@ const prepareMessages = async (options: OpenAICompletionOptions): Promise<OpenAI
   return cleanedMessages;
 };
 
-// Chama a API da OpenAI
-export const callOpenAI = async (options: OpenAICompletionOptions, apiKey: string): Promise<string> => {
-  try {
-    console.log("Chamando API OpenAI com modelo:", options.model);
+// Constrói a requisição de chat enviada ao provedor
+const buildChatRequest = (
+  options: OpenAICompletionOptions,
+  messages: OpenAIMessage[]
+): ChatRequest => {
+  const request: ChatRequest = {
+    model: options.model || "gpt-3.5-turbo",
+    messages,
+    temperature: options.temperature !== undefined ? options.temperature : 0.7,
+    maxTokens: options.maxTokens || 1000,
+    signal: options.signal,
+  };
+  
+  // Adiciona funções se fornecidas
+  if (options.functions && options.functions.length > 0) {
+    request.functions = toOpenAIFunctions(options.functions);
+  }
+  
+  return request;
+};
+
+// Executa as chamadas de função solicitadas pelo modelo e anexa os resultados às mensagens
+const appendFunctionResults = async (
+  messages: OpenAIMessage[],
+  assistantContent: string | null,
+  functionCall: FunctionCallRequest | null,
+  toolCalls: OpenAIToolCall[],
+  functions: AgentFunction[],
+  onFunctionCall?: (name: string, args: string) => void
+): Promise<void> => {
+  if (toolCalls.length > 0) {
+    messages.push({ role: "assistant", content: assistantContent || null, tool_calls: toolCalls });
     
-    if (!apiKey) {
-      throw new Error("API key não fornecida");
+    for (const toolCall of toolCalls) {
+      onFunctionCall?.(toolCall.function.name, toolCall.function.arguments);
+      const result = await executeFunctionCall(toolCall.function, functions);
+      messages.push({ role: "tool", tool_call_id: toolCall.id, name: toolCall.function.name, content: result });
     }
+    return;
+  }
+  
+  if (functionCall) {
+    messages.push({ role: "assistant", content: assistantContent || null, function_call: functionCall });
+    
+    onFunctionCall?.(functionCall.name, functionCall.arguments);
+    const result = await executeFunctionCall(functionCall, functions);
+    messages.push({ role: "function", name: functionCall.name, content: result });
+  }
+};
+
+// Chama o provedor de LLM configurado
+export const callOpenAI = async (options: OpenAICompletionOptions): Promise<string> => {
+  try {
+    const provider = getLLMProvider(options.provider);
+    console.log(`Chamando provedor ${provider.type} com modelo:`, options.model);
     
     // Prepara as mensagens para a API, incluindo o contexto relevante dos arquivos de treinamento
     const messages = await prepareMessages(options);
     
     // Log do tamanho do contexto sendo enviado para a API
-    const totalContextSize = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-    console.log(`Enviando contexto para OpenAI: ${totalContextSize} caracteres`);
+    const totalContextSize = messages.reduce((sum, msg) => sum + (msg.content || "").length, 0);
+    console.log(`Enviando contexto para o provedor: ${totalContextSize} caracteres`);
     
     // Log completo das mensagens sendo enviadas (apenas para debugging)
-    console.log("Mensagens enviadas para OpenAI:", JSON.stringify(messages.map(m => ({ role: m.role, content: m.content.substring(0, 50) + "..." }))));
-    
-    // Estabelece os parâmetros padrão
-    const model = options.model || "gpt-3.5-turbo";
-    const temperature = options.temperature !== undefined ? options.temperature : 0.7;
-    const max_tokens = options.maxTokens || 1000;
+    console.log("Mensagens enviadas ao provedor:", JSON.stringify(messages.map(m => ({ role: m.role, content: (m.content || "").substring(0, 50) + "..." }))));
     
-    // Constrói o corpo da solicitação
-    const requestBody: Record<string, any> = {
-      model,
-      messages,
-      temperature,
-      max_tokens,
-    };
-    
-    // Adiciona funções se fornecidas
-    if (options.functions && options.functions.length > 0) {
-      requestBody.functions = options.functions;
-      requestBody.function_call = "auto";
-    }
-    
-    // Faz a chamada para a API da OpenAI
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    });
-    
-    // Verifica se a resposta foi bem-sucedida
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      console.error("Erro na API OpenAI:", errorData);
-      throw new Error(`Erro na API OpenAI: ${response.status} - ${response.statusText}`);
+    // Repete a chamada enquanto o modelo solicitar funções, até obter a resposta final
+    for (let round = 0; round <= MAX_FUNCTION_CALL_ROUNDS; round++) {
+      const result = await provider.chat(buildChatRequest(options, messages));
+      
+      if ((result.toolCalls.length === 0 && !result.functionCall) || !options.functions?.length) {
+        console.log("Resposta recebida do provedor com sucesso");
+        return result.content;
+      }
+      
+      if (round === MAX_FUNCTION_CALL_ROUNDS) {
+        break;
+      }
+      
+      console.log(`Modelo solicitou chamada de função (rodada ${round + 1})`);
+      await appendFunctionResults(messages, result.content, result.functionCall, result.toolCalls, options.functions);
     }
     
-    // Processa a resposta
-    const data = await response.json();
-    
-    // Extrai o conteúdo da resposta
-    const content = data.choices[0].message.content || "";
-    
-    console.log("Resposta recebida da OpenAI com sucesso");
-    return content;
+    throw new Error(`Limite de ${MAX_FUNCTION_CALL_ROUNDS} rodadas de chamadas de função excedido`);
   } catch (error) {
-    console.error("Erro ao chamar a API OpenAI:", error);
+    console.error("Erro ao chamar o provedor de LLM:", error);
     throw error;
   }
 };
 
-export const transcribeAudio = async (audioBlob: Blob, apiKey: string): Promise<string> => {
+/**
+ * Transcreve uma fala no idioma informado (ex.: "pt-BR"). Sem idioma, ou na detecção automática,
+ * o provedor reconhece o idioma sozinho.
+ */
+export const transcribeAudio = async (
+  audioBlob: Blob,
+  providerConfig?: LLMProviderConfig,
+  language?: string
+): Promise<string> => {
   try {
-    console.log("Enviando áudio para transcrição via API Whisper");
-    
-    if (!apiKey) {
-      throw new Error("API key não fornecida para transcrição");
-    }
-    
-    const formData = new FormData();
-    formData.append("file", audioBlob, "recording.webm");
-    formData.append("model", "whisper-1");
-    formData.append("language", "pt");
-    formData.append("response_format", "json");
-    
-    const response = await fetch("https://api.openai.com/v1/audio/transcriptions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: formData
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      console.error("Erro na API de transcrição:", errorData);
-      throw new Error(`Erro na API de transcrição: ${response.status} - ${response.statusText}`);
-    }
+    const provider = getLLMProvider(providerConfig);
+    console.log(`Enviando áudio para transcrição (provedor ${provider.type}, idioma ${language || "automático"})`);
     
-    const data = await response.json();
-    return data.text || "";
+    return await provider.transcribe(audioBlob, { language: toTranscriptionLanguage(language) });
   } catch (error) {
     console.error("Erro ao transcrever áudio:", error);
     throw error;
   }
 };
 
+/**
+ * Inicia a transcrição em streaming de uma fala; o áudio é enviado em trechos durante a gravação
+ * e as hipóteses parciais chegam por onPartial. O texto final vem de finish().
+ */
+export const startStreamingTranscription = (
+  onPartial: (text: string) => void,
+  providerConfig?: LLMProviderConfig,
+  mimeType: string = "audio/webm",
+  language?: string
+): StreamingTranscription => {
+  const provider = getLLMProvider(providerConfig);
+  console.log(`Iniciando transcrição em streaming (provedor ${provider.type}, idioma ${language || "automático"})`);
+  
+  return provider.transcribeStream({ language: toTranscriptionLanguage(language), mimeType, onPartial });
+};
+
+// Sem voz escolhida, usa a voz padrão do idioma da conversa
 export const generateSpeech = async (
   text: string, 
-  voiceId: string = 'alloy', 
-  apiKey: string
+  voiceId?: string,
+  providerConfig?: LLMProviderConfig,
+  language?: string,
+  signal?: AbortSignal
 ): Promise<ArrayBuffer> => {
+  voiceId = voiceId || getDefaultVoice(language);
   try {
     console.log(`Gerando fala para texto com ${text.length} caracteres, voz: ${voiceId}`);
     
-    if (!apiKey) {
-      throw new Error("API key não fornecida para geração de fala");
-    }
-    
     if (!text || text.trim() === "") {
       throw new Error("Texto vazio fornecido para geração de fala");
     }
     
-    const response = await fetch("https://api.openai.com/v1/audio/speech", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: "tts-1",
-        voice: voiceId,
-        input: text,
-        speed: 1.0
-      })
-    });
-    
-    if (!response.ok) {
-      const errorData = await response.text().catch(() => null);
-      console.error("Erro na API de geração de fala:", errorData);
-      throw new Error(`Erro na API de geração de fala: ${response.status} - ${response.statusText}`);
-    }
-    
-    return await response.arrayBuffer();
+    return await getLLMProvider(providerConfig).speak(text, { voice: voiceId, speed: 1.0, signal });
   } catch (error) {
     console.error("Erro ao gerar fala:", error);
     throw error;
@@ -377,112 +353,62 @@ export const generateSpeech = async (
 
 export const streamOpenAI = async (
   options: OpenAICompletionOptions, 
-  apiKey: string,
   callbacks: StreamCallbacks
 ): Promise<void> => {
   try {
-    console.log("Chamando API OpenAI em modo streaming com modelo:", options.model);
-    
-    if (!apiKey) {
-      throw new Error("API key não fornecida");
-    }
+    const provider = getLLMProvider(options.provider);
+    console.log(`Chamando provedor ${provider.type} em modo streaming com modelo:`, options.model);
     
     // Prepara as mensagens para a API
     const messages = await prepareMessages(options);
     
     // Log do tamanho do contexto sendo enviado para a API
-    const totalContextSize = messages.reduce((sum, msg) => sum + msg.content.length, 0);
-    console.log(`Enviando contexto para OpenAI em streaming: ${totalContextSize} caracteres`);
-    
-    // Estabelece os parâmetros padrão
-    const model = options.model || "gpt-3.5-turbo";
-    const temperature = options.temperature !== undefined ? options.temperature : 0.7;
-    const max_tokens = options.maxTokens || 1000;
+    const totalContextSize = messages.reduce((sum, msg) => sum + (msg.content || "").length, 0);
+    console.log(`Enviando contexto para o provedor em streaming: ${totalContextSize} caracteres`);
     
-    // Constrói o corpo da solicitação
-    const requestBody: Record<string, any> = {
-      model,
-      messages,
-      temperature,
-      max_tokens,
-      stream: true
-    };
-    
-    // Adiciona funções se fornecidas
-    if (options.functions && options.functions.length > 0) {
-      requestBody.functions = options.functions;
-      requestBody.function_call = "auto";
-    }
-    
-    // Faz a chamada para a API da OpenAI
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`
-      },
-      body: JSON.stringify(requestBody)
-    });
-    
-    // Verifica se a resposta foi bem-sucedida
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => null);
-      console.error("Erro na API OpenAI:", errorData);
-      callbacks.onError(new Error(`Erro na API OpenAI: ${response.status} - ${response.statusText}`));
-      return;
-    }
-    
-    if (!response.body) {
-      callbacks.onError(new Error("Response body is null"));
-      return;
-    }
-
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder("utf-8");
     let fullMessage = "";
-    let buffer = "";
     
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
+    // Repete o streaming enquanto o modelo solicitar funções, até obter a resposta final
+    for (let round = 0; round <= MAX_FUNCTION_CALL_ROUNDS; round++) {
+      const result = await provider.stream(buildChatRequest(options, messages), (content) => {
+        if (options.signal?.aborted) return;
+        fullMessage += content;
+        callbacks.onMessage(content);
+      });
       
-      const chunk = decoder.decode(value, { stream: true });
-      buffer += chunk;
+      if (options.signal?.aborted) {
+        console.log("Streaming interrompido antes da conclusão");
+        return;
+      }
       
-      // Processa as linhas completas
-      while (buffer.includes('\n')) {
-        const lineEnd = buffer.indexOf('\n');
-        const line = buffer.substring(0, lineEnd).trim();
-        buffer = buffer.substring(lineEnd + 1);
-        
-        if (!line) continue;
-        if (line === 'data: [DONE]') break;
-        
-        if (line.startsWith('data: ')) {
-          try {
-            const jsonData = JSON.parse(line.substring(6));
-            
-            if (jsonData.choices && jsonData.choices.length > 0) {
-              const content = jsonData.choices[0].delta?.content;
-              
-              if (content) {
-                fullMessage += content;
-                callbacks.onMessage(content);
-              }
-            }
-          } catch (e) {
-            console.warn("Erro ao analisar linha JSON:", e);
-            continue;
-          }
-        }
+      if ((result.toolCalls.length === 0 && !result.functionCall) || !options.functions?.length) {
+        callbacks.onComplete(fullMessage);
+        console.log("Streaming concluído com sucesso");
+        return;
       }
+      
+      if (round === MAX_FUNCTION_CALL_ROUNDS) {
+        break;
+      }
+      
+      console.log(`Modelo solicitou chamada de função durante streaming (rodada ${round + 1})`);
+      await appendFunctionResults(
+        messages,
+        result.content,
+        result.functionCall,
+        result.toolCalls,
+        options.functions,
+        callbacks.onFunctionCall
+      );
     }
     
-    callbacks.onComplete(fullMessage);
-    console.log("Streaming concluído com sucesso");
-    
+    callbacks.onError(new Error(`Limite de ${MAX_FUNCTION_CALL_ROUNDS} rodadas de chamadas de função excedido`));
   } catch (error) {
-    console.error("Erro no streaming da OpenAI:", error);
+    if (options.signal?.aborted) {
+      console.log("Streaming interrompido pelo usuário");
+      return;
+    }
+    console.error("Erro no streaming do provedor de LLM:", error);
     callbacks.onError(error instanceof Error ? error : new Error(String(error)));
   }
 };
@@ -0,0 +1,45 @@
+import { LLMProviderConfig } from "@/types/chat";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { LLMProvider } from "./types";
+
+export type {
+  ChatRequest,
+  ChatResult,
+  LLMProvider,
+  OpenAIMessage,
+  OpenAIToolCall,
+  SpeechOptions,
+  StreamingTranscription,
+  StreamingTranscriptionOptions,
+  TranscriptionOptions
+} from "./types";
+
+export const DEFAULT_PROVIDER_CONFIG: LLMProviderConfig = { type: "openai" };
+
+/**
+ * Retorna o provedor de LLM correspondente à configuração do agente
+ */
+export const getLLMProvider = (config?: LLMProviderConfig): LLMProvider => {
+  const providerConfig = config || DEFAULT_PROVIDER_CONFIG;
+
+  switch (providerConfig.type) {
+    case "mock":
+      return createMockProvider(providerConfig);
+    case "openai-compatible":
+      if (!providerConfig.baseUrl) {
+        throw new Error("URL base não configurada para o provedor compatível com OpenAI");
+      }
+      return createProxyProvider(providerConfig);
+    case "openai":
+    default:
+      return createProxyProvider(providerConfig);
+  }
+};
+
+/**
+ * Somente a OpenAI depende da chave de API salva no servidor
+ */
+export const providerRequiresApiKey = (config?: LLMProviderConfig): boolean => {
+  return !config || config.type === "openai";
+};
@@ -0,0 +1,175 @@
+import { LLMProviderConfig, MockScriptEntry } from "@/types/chat";
+import { getApiUrl } from "@/services/databaseService";
+import {
+  ChatRequest,
+  ChatResult,
+  LLMProvider,
+  OpenAIMessage,
+  SpeechOptions,
+  StreamingTranscription,
+  StreamingTranscriptionOptions
+} from "./types";
+
+// Configurações do provedor simulado
+const MOCK_SPEECH_SAMPLE_RATE = 8000;
+const MOCK_SECONDS_PER_WORD = 0.3;
+const DEFAULT_MOCK_TRANSCRIPT = "Olá, esta é uma transcrição simulada.";
+
+// Última mensagem com conteúdo de um determinado papel
+const findLastMessage = (messages: OpenAIMessage[], roles: OpenAIMessage["role"][]): OpenAIMessage | undefined => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (roles.includes(messages[i].role) && messages[i].content) {
+      return messages[i];
+    }
+  }
+  return undefined;
+};
+
+// Primeira entrada do roteiro cujo trecho aparece na mensagem (trecho vazio casa com qualquer uma)
+const findScriptEntry = (script: MockScriptEntry[], text: string): MockScriptEntry | undefined => {
+  const normalized = text.toLowerCase();
+  return script.find(entry => !entry.match || normalized.includes(entry.match.toLowerCase()));
+};
+
+// Gera um WAV de silêncio com duração proporcional ao texto, para que o player tenha algo a tocar
+const createSilentWav = (text: string): ArrayBuffer => {
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  const sampleCount = Math.max(1, Math.round(words * MOCK_SECONDS_PER_WORD * MOCK_SPEECH_SAMPLE_RATE));
+  const dataSize = sampleCount * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, MOCK_SPEECH_SAMPLE_RATE, true);
+  view.setUint32(28, MOCK_SPEECH_SAMPLE_RATE * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+
+  return buffer;
+};
+
+/**
+ * Provedor offline e determinístico, usado em desenvolvimento e testes automatizados.
+ * Responde de acordo com o roteiro configurado e nunca acessa a rede.
+ */
+export const createMockProvider = (config: LLMProviderConfig): LLMProvider => {
+  const script = config.mockScript || [];
+
+  const respond = (request: ChatRequest): ChatResult => {
+    const lastUserMessage = findLastMessage(request.messages, ["user"]);
+    const userText = lastUserMessage?.content || "";
+    const entry = findScriptEntry(script, userText);
+    const lastMessage = request.messages[request.messages.length - 1];
+    const isFunctionResult = lastMessage?.role === "function" || lastMessage?.role === "tool";
+
+    // Solicita a função do roteiro apenas se ela foi oferecida ao modelo e ainda não foi executada
+    const functionAvailable = entry?.functionCall &&
+      request.functions?.some(func => func.name === entry.functionCall.name);
+
+    if (entry && functionAvailable && !isFunctionResult) {
+      return {
+        content: "",
+        functionCall: { name: entry.functionCall.name, arguments: entry.functionCall.arguments || "{}" },
+        toolCalls: []
+      };
+    }
+
+    if (entry) {
+      // {result} é substituído pelo retorno da função executada
+      const result = isFunctionResult ? lastMessage.content || "" : "";
+      return { content: entry.response.split("{result}").join(result), functionCall: null, toolCalls: [] };
+    }
+
+    return {
+      content: `Resposta simulada para: "${userText}"`,
+      functionCall: null,
+      toolCalls: []
+    };
+  };
+
+  return {
+    type: "mock",
+
+    async chat(request) {
+      console.log("Provedor simulado respondendo ao chat");
+      return respond(request);
+    },
+
+    async stream(request, onContent) {
+      console.log("Provedor simulado respondendo em streaming");
+      const result = respond(request);
+
+      // Entrega a resposta palavra por palavra, como um stream real
+      for (const piece of result.content.match(/\S+\s*/g) || []) {
+        await Promise.resolve();
+        if (request.signal?.aborted) {
+          throw new DOMException("Streaming interrompido", "AbortError");
+        }
+        onContent(piece);
+      }
+
+      return result;
+    },
+
+    async transcribe() {
+      return config.mockTranscript || DEFAULT_MOCK_TRANSCRIPT;
+    },
+
+    // Cada trecho de áudio revela mais uma palavra da transcrição simulada
+    transcribeStream(options: StreamingTranscriptionOptions): StreamingTranscription {
+      const transcript = config.mockTranscript || DEFAULT_MOCK_TRANSCRIPT;
+      const words = transcript.split(/\s+/).filter(Boolean);
+      let revealed = 0;
+
+      return {
+        sendAudio() {
+          if (revealed < words.length) {
+            revealed++;
+            options.onPartial(words.slice(0, revealed).join(" "));
+          }
+        },
+        async finish() {
+          return transcript;
+        },
+        close() {}
+      };
+    },
+
+    async speak(text: string, options: SpeechOptions) {
+      if (options.signal?.aborted) {
+        throw new DOMException("Síntese interrompida", "AbortError");
+      }
+      return createSilentWav(text);
+    },
+
+    async embed(texts: string[]) {
+      // O backend responde com o vetorizador local, que é determinístico e não chama nenhum provedor
+      const response = await fetch(getApiUrl("/llm/embeddings"), {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ input: texts, provider: { type: "mock" } })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Erro nos embeddings simulados: ${response.status} - ${response.statusText}`);
+      }
+
+      const data = await response.json();
+      return data.embeddings || [];
+    }
+  };
+};
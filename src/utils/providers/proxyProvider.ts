@@ -0,0 +1,304 @@
+import { LLMProviderConfig } from "@/types/chat";
+import { getApiUrl } from "@/services/databaseService";
+import { blobToBase64 } from "@/lib/utils";
+import { FunctionCallRequest } from "../functionExecutor";
+import {
+  ChatRequest,
+  ChatResult,
+  LLMProvider,
+  OpenAIToolCall,
+  SpeechOptions,
+  StreamingTranscription,
+  StreamingTranscriptionOptions,
+  TranscriptionOptions
+} from "./types";
+
+// Modelos padrão da OpenAI para as operações que não usam o modelo de chat
+const DEFAULT_TRANSCRIPTION_MODEL = "whisper-1";
+const DEFAULT_SPEECH_MODEL = "tts-1";
+const DEFAULT_EMBEDDING_MODEL = "text-embedding-3-small";
+
+// Dados do provedor repassados ao backend; a OpenAI é o padrão e não precisa de nada
+const toProxyTarget = (config: LLMProviderConfig) => {
+  if (config.type !== "openai-compatible") {
+    return undefined;
+  }
+
+  return {
+    type: config.type,
+    baseUrl: config.baseUrl,
+    apiVersion: config.apiVersion || undefined,
+    authHeader: config.authHeader || "bearer"
+  };
+};
+
+// Endereço WebSocket de um caminho da API (a URL base pode ser relativa à página)
+const getSocketUrl = (path: string) => {
+  const url = new URL(getApiUrl(path), window.location.href);
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  return url.toString();
+};
+
+// Lê um stream SSE, repassando o conteúdo e acumulando fragmentos de chamadas de função
+const readCompletionStream = async (
+  body: ReadableStream<Uint8Array>,
+  onContent: (content: string) => void
+): Promise<ChatResult> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder("utf-8");
+  let content = "";
+  let buffer = "";
+  let functionCall: FunctionCallRequest | null = null;
+  const toolCalls: OpenAIToolCall[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const chunk = decoder.decode(value, { stream: true });
+    buffer += chunk;
+
+    // Processa as linhas completas
+    while (buffer.includes('\n')) {
+      const lineEnd = buffer.indexOf('\n');
+      const line = buffer.substring(0, lineEnd).trim();
+      buffer = buffer.substring(lineEnd + 1);
+
+      if (!line) continue;
+      if (line === 'data: [DONE]') break;
+
+      if (line.startsWith('data: ')) {
+        try {
+          const jsonData = JSON.parse(line.substring(6));
+
+          if (jsonData.choices && jsonData.choices.length > 0) {
+            const delta = jsonData.choices[0].delta || {};
+
+            if (delta.content) {
+              content += delta.content;
+              onContent(delta.content);
+            }
+
+            // Formato legado: function_call chega fragmentado
+            if (delta.function_call) {
+              if (!functionCall) {
+                functionCall = { name: "", arguments: "" };
+              }
+              functionCall.name += delta.function_call.name || "";
+              functionCall.arguments += delta.function_call.arguments || "";
+            }
+
+            // Formato tools: cada fragmento indica o índice da chamada
+            if (delta.tool_calls) {
+              for (const fragment of delta.tool_calls) {
+                const index = fragment.index ?? 0;
+                if (!toolCalls[index]) {
+                  toolCalls[index] = { id: "", type: "function", function: { name: "", arguments: "" } };
+                }
+                if (fragment.id) toolCalls[index].id = fragment.id;
+                toolCalls[index].function.name += fragment.function?.name || "";
+                toolCalls[index].function.arguments += fragment.function?.arguments || "";
+              }
+            }
+          }
+        } catch (e) {
+          console.warn("Erro ao analisar linha JSON:", e);
+          continue;
+        }
+      }
+    }
+  }
+
+  return { content, functionCall, toolCalls: toolCalls.filter(Boolean) };
+};
+
+/**
+ * Provedor que fala com a API da OpenAI (ou qualquer API compatível) através do backend.
+ * As chaves ficam no servidor; o navegador só informa qual destino usar.
+ */
+export const createProxyProvider = (config: LLMProviderConfig): LLMProvider => {
+  const target = toProxyTarget(config);
+  const label = config.type === "openai-compatible" ? "API compatível" : "API OpenAI";
+
+  // Envia uma requisição JSON para o proxy do backend e valida o status
+  const postToProxy = async (
+    path: string,
+    body: Record<string, unknown>,
+    accept: string,
+    signal?: AbortSignal
+  ): Promise<Response> => {
+    const response = await fetch(getApiUrl(path), {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Accept": accept
+      },
+      body: JSON.stringify({ ...body, provider: target }),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text().catch(() => null);
+      console.error(`Erro na ${label} (${path}):`, errorData);
+      throw new Error(`Erro na ${label}: ${response.status} - ${response.statusText}`);
+    }
+
+    return response;
+  };
+
+  // Constrói o corpo da solicitação de chat completions
+  const buildChatBody = (request: ChatRequest, stream: boolean): Record<string, unknown> => {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    };
+
+    if (stream) {
+      body.stream = true;
+    }
+
+    if (request.functions && request.functions.length > 0) {
+      body.functions = request.functions;
+      body.function_call = "auto";
+    }
+
+    return body;
+  };
+
+  return {
+    type: config.type,
+
+    async chat(request) {
+      const response = await postToProxy("/llm/chat", buildChatBody(request, false), "application/json", request.signal);
+      const data = await response.json();
+      const message = data.choices[0].message;
+
+      return {
+        content: message.content || "",
+        functionCall: message.function_call || null,
+        toolCalls: message.tool_calls || []
+      };
+    },
+
+    async stream(request, onContent) {
+      const response = await postToProxy("/llm/chat", buildChatBody(request, true), "text/event-stream", request.signal);
+
+      if (!response.body) {
+        throw new Error("Response body is null");
+      }
+
+      return readCompletionStream(response.body, onContent);
+    },
+
+    async transcribe(audio: Blob, options: TranscriptionOptions = {}) {
+      const response = await postToProxy("/llm/transcribe", {
+        audio: await blobToBase64(audio),
+        mimeType: audio.type || "audio/webm",
+        model: config.transcriptionModel || DEFAULT_TRANSCRIPTION_MODEL,
+        language: options.language
+      }, "application/json");
+
+      const data = await response.json();
+      return data.text || "";
+    },
+
+    // O áudio vai para o backend por WebSocket enquanto é gravado; o backend devolve hipóteses parciais
+    transcribeStream(options: StreamingTranscriptionOptions): StreamingTranscription {
+      const socket = new WebSocket(getSocketUrl("/stt/stream"));
+      // Trechos gravados antes de a conexão abrir
+      const queued: Blob[] = [];
+      let finishRequested = false;
+
+      let resolveFinal: (text: string) => void = () => {};
+      let rejectFinal: (error: Error) => void = () => {};
+      const finalText = new Promise<string>((resolve, reject) => {
+        resolveFinal = resolve;
+        rejectFinal = reject;
+      });
+      // Quem não chamar finish() não deve gerar rejeição sem tratamento
+      finalText.catch(() => {});
+
+      socket.onopen = () => {
+        socket.send(JSON.stringify({
+          type: "start",
+          provider: target,
+          mimeType: options.mimeType || "audio/webm",
+          model: config.transcriptionModel || DEFAULT_TRANSCRIPTION_MODEL,
+          language: options.language
+        }));
+        queued.splice(0).forEach(chunk => socket.send(chunk));
+        if (finishRequested) {
+          socket.send(JSON.stringify({ type: "end" }));
+        }
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(event.data);
+          if (message.type === "partial") {
+            options.onPartial(message.text || "");
+          } else if (message.type === "final") {
+            resolveFinal(message.text || "");
+          } else if (message.type === "error") {
+            rejectFinal(new Error(message.details || message.error || "Erro na transcrição em streaming"));
+          }
+        } catch (e) {
+          console.warn("Mensagem inválida da transcrição em streaming:", e);
+        }
+      };
+
+      socket.onerror = () => rejectFinal(new Error("Falha na conexão de transcrição em streaming"));
+      // Depois do texto final a rejeição não tem efeito
+      socket.onclose = () => rejectFinal(new Error("Transcrição em streaming encerrada sem texto final"));
+
+      return {
+        sendAudio(chunk: Blob) {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(chunk);
+          } else if (socket.readyState === WebSocket.CONNECTING) {
+            queued.push(chunk);
+          }
+        },
+
+        finish() {
+          if (!finishRequested) {
+            finishRequested = true;
+            if (socket.readyState === WebSocket.OPEN) {
+              socket.send(JSON.stringify({ type: "end" }));
+            }
+          }
+          return finalText;
+        },
+
+        close() {
+          if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+            socket.close();
+          }
+        }
+      };
+    },
+
+    async speak(text: string, options: SpeechOptions) {
+      const response = await postToProxy("/llm/speech", {
+        model: config.speechModel || DEFAULT_SPEECH_MODEL,
+        voice: options.voice,
+        input: text,
+        speed: options.speed || 1.0
+      }, "audio/mpeg", options.signal);
+
+      return response.arrayBuffer();
+    },
+
+    async embed(texts: string[]) {
+      const response = await postToProxy("/llm/embeddings", {
+        model: config.embeddingModel || DEFAULT_EMBEDDING_MODEL,
+        input: texts
+      }, "application/json");
+
+      const data = await response.json();
+      return data.embeddings || [];
+    }
+  };
+};
@@ -0,0 +1,72 @@
+import { LLMProviderType } from "@/types/chat";
+import { FunctionCallRequest, OpenAIFunctionDefinition } from "../functionExecutor";
+
+// Interface para chamada de ferramenta (formato tools da OpenAI)
+export interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: FunctionCallRequest;
+}
+
+// Interface para mensagem no formato de chat completions (usado por todos os provedores)
+export interface OpenAIMessage {
+  role: "system" | "user" | "assistant" | "function" | "tool";
+  content: string | null;
+  name?: string;
+  function_call?: FunctionCallRequest;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+}
+
+// Parâmetros de uma requisição de chat
+export interface ChatRequest {
+  model: string;
+  messages: OpenAIMessage[];
+  temperature: number;
+  maxTokens: number;
+  functions?: OpenAIFunctionDefinition[];
+  signal?: AbortSignal; // Cancela a requisição (ex.: quando o usuário interrompe a resposta)
+}
+
+// Resposta do modelo, com as chamadas de função solicitadas (se houver)
+export interface ChatResult {
+  content: string;
+  functionCall: FunctionCallRequest | null;
+  toolCalls: OpenAIToolCall[];
+}
+
+export interface TranscriptionOptions {
+  language?: string;
+}
+
+export interface StreamingTranscriptionOptions extends TranscriptionOptions {
+  mimeType?: string;
+  onPartial: (text: string) => void; // Hipótese parcial, substitui a anterior
+}
+
+// Sessão de transcrição em streaming de uma fala: recebe o áudio aos poucos e devolve o texto final
+export interface StreamingTranscription {
+  sendAudio(chunk: Blob): void;
+  finish(): Promise<string>;
+  close(): void;
+}
+
+export interface SpeechOptions {
+  voice: string;
+  speed?: number;
+  // Cancela a síntese, por exemplo quando o usuário interrompe o agente
+  signal?: AbortSignal;
+}
+
+/**
+ * Operações que todo provedor de LLM precisa oferecer ao agente
+ */
+export interface LLMProvider {
+  readonly type: LLMProviderType;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  stream(request: ChatRequest, onContent: (content: string) => void): Promise<ChatResult>;
+  transcribe(audio: Blob, options?: TranscriptionOptions): Promise<string>;
+  transcribeStream(options: StreamingTranscriptionOptions): StreamingTranscription;
+  speak(text: string, options: SpeechOptions): Promise<ArrayBuffer>;
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -1,36 +1,52 @@
 
+import { VoiceActivityDetector, DEFAULT_VAD_CONFIG } from "./vad";
+import { decideEndOfTurn, TurnEnding } from "./endOfTurn";
+
 interface SilenceDetectorConfig {
-  silenceThreshold: number;
-  minVoiceLevel: number;
   silenceDuration: number;
   minRecordingDuration: number;
   consecutiveSilenceThreshold: number;
   continuousModeEnabled?: boolean;
+  calibrationDuration?: number; // ms de ruído de fundo para calibrar o VAD; 0 reaproveita a calibração anterior
+  // Esperas extras (s) conforme o fim da transcrição parcial, somadas ao silenceDuration
+  waitAfterPunctuation?: number;
+  waitWithoutPunctuation?: number;
+  waitAfterNumber?: number;
   debugMode?: boolean;
 }
 
-class SilenceDetector {
+const FRAME_DURATION_MS = DEFAULT_VAD_CONFIG.frameDurationMs;
+const LOG_EVERY_FRAMES = Math.round(1000 / FRAME_DURATION_MS);
+
+export class SilenceDetector {
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
   private dataArray: Uint8Array | null = null;
+  private timeData: Float32Array | null = null;
+  private vad: VoiceActivityDetector | null = null;
+  private speechProbability: number = 0;
+  private frameCount: number = 0;
   private stream: MediaStream | null = null;
   private audioLevels: number[] = [];
   private voiceDetected: boolean = false;
   private consecutiveSilenceCount: number = 0;
   private silenceStartTime: number = 0;
   private recordingStartTime: number = 0;
-  private animationFrameId: number | null = null;
   private silenceCallback: (() => void) | null = null;
-  private checkSilenceIntervalId: number | null = null;
+  private frameIntervalId: number | null = null;
   private onAudioLevelUpdate: ((levels: number[], overallLevel: number) => void) | null = null;
   
   // Configurações
-  private silenceThreshold: number = 0.5;
-  private minVoiceLevel: number = 1.0;
   private silenceDuration: number = 800;
   private minRecordingDuration: number = 1000;
   private consecutiveSilenceThreshold: number = 8;
   private continuousMode: boolean = true;
+  private calibrationDuration: number = 0;
+  private waitAfterPunctuation: number = 0;
+  private waitWithoutPunctuation: number = 0;
+  private waitAfterNumber: number = 0;
+  private partialTranscript: string = "";
+  private lastTurnEnding: TurnEnding | null = null;
   
   private initialized: boolean = false;
   private debugMode: boolean = false;
@@ -45,12 +61,14 @@ class SilenceDetector {
     this.cleanup();
     
     if (config) {
-      this.silenceThreshold = config.silenceThreshold ?? this.silenceThreshold;
-      this.minVoiceLevel = config.minVoiceLevel ?? this.minVoiceLevel;
       this.silenceDuration = config.silenceDuration ?? this.silenceDuration;
       this.minRecordingDuration = config.minRecordingDuration ?? this.minRecordingDuration;
       this.consecutiveSilenceThreshold = config.consecutiveSilenceThreshold ?? this.consecutiveSilenceThreshold;
       this.continuousMode = config.continuousModeEnabled ?? this.continuousMode;
+      this.calibrationDuration = config.calibrationDuration ?? 0;
+      this.waitAfterPunctuation = config.waitAfterPunctuation ?? this.waitAfterPunctuation;
+      this.waitWithoutPunctuation = config.waitWithoutPunctuation ?? this.waitWithoutPunctuation;
+      this.waitAfterNumber = config.waitAfterNumber ?? this.waitAfterNumber;
       this.debugMode = config.debugMode ?? this.debugMode;
     }
     
@@ -62,6 +80,8 @@ class SilenceDetector {
     this.audioLevels = [];
     this.voiceDetected = false;
     this.consecutiveSilenceCount = 0;
+    this.partialTranscript = "";
+    this.lastTurnEnding = null;
     
     this.setupAudioAnalysis();
     this.startSilenceDetection();
@@ -69,12 +89,14 @@ class SilenceDetector {
     this.initialized = true;
     
     this.log("SilenceDetector initialized with config:", {
-      silenceThreshold: this.silenceThreshold,
-      minVoiceLevel: this.minVoiceLevel,
       silenceDuration: this.silenceDuration,
       minRecordingDuration: this.minRecordingDuration,
       consecutiveSilenceThreshold: this.consecutiveSilenceThreshold,
       continuousMode: this.continuousMode,
+      calibrationDuration: this.calibrationDuration,
+      waitAfterPunctuation: this.waitAfterPunctuation,
+      waitWithoutPunctuation: this.waitWithoutPunctuation,
+      waitAfterNumber: this.waitAfterNumber,
       debugMode: this.debugMode
     });
   }
@@ -88,10 +110,18 @@ class SilenceDetector {
   private setupAudioAnalysis() {
     try {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      
+      // O detector é recriado se a taxa de amostragem mudar (44,1 kHz, 48 kHz, ...); senão mantém o piso de ruído
+      if (!this.vad || this.vad.sampleRate !== this.audioContext.sampleRate) {
+        this.vad = new VoiceActivityDetector({ sampleRate: this.audioContext.sampleRate });
+      } else {
+        this.vad.resetState();
+      }
+      
       this.analyser = this.audioContext.createAnalyser();
       
-      // Configurações otimizadas para detecção de voz
-      this.analyser.fftSize = 1024; // Mais detalhado para melhor análise de frequência
+      // Janela com pelo menos um quadro do VAD na taxa de amostragem real
+      this.analyser.fftSize = Math.max(256, Math.pow(2, Math.ceil(Math.log2(this.vad.frameSize))));
       this.analyser.smoothingTimeConstant = 0.2; // Reduzido para resposta mais rápida
       
       // Filtro passa-alta para reduzir ruídos de baixa frequência
@@ -104,7 +134,8 @@ class SilenceDetector {
       lowpassFilter.type = "lowpass";
       lowpassFilter.frequency.value = 3500; // Mantém a maior parte da fala humana
       
-      // Criação do buffer para análise
+      // Buffers para o VAD (amostras) e para a visualização (frequências)
+      this.timeData = new Float32Array(this.analyser.fftSize);
       this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
       
       // Conectar o stream aos filtros e analisador
@@ -113,164 +144,126 @@ class SilenceDetector {
       highpassFilter.connect(lowpassFilter);
       lowpassFilter.connect(this.analyser);
       
-      this.log("Audio analysis setup completed successfully");
+      this.log(`Audio analysis setup completed at ${this.audioContext.sampleRate} Hz`);
     } catch (error) {
       console.error("[SilenceDetector] Error setting up audio analysis:", error);
     }
   }
   
   private startSilenceDetection() {
-    if (!this.analyser || !this.dataArray) {
+    if (!this.analyser || !this.dataArray || !this.timeData || !this.vad) {
       console.error("[SilenceDetector] Analyzer not initialized");
       return;
     }
     
-    // Monitorar níveis de áudio continuamente
-    const checkAudioLevel = () => {
-      if (!this.analyser || !this.dataArray || !this.initialized) return;
-      
-      this.analyser.getByteFrequencyData(this.dataArray);
-      
-      // Focamos nas frequências da voz humana (85Hz-255Hz)
-      let voiceSum = 0;
-      let voiceCount = 0;
-      
-      // Cálculo aproximado de bins para frequências específicas da voz
-      // Para fftSize 1024, cada bin é ~21Hz (taxa de amostragem 44100/2 dividido por frequencyBinCount)
-      const startBin = Math.floor(85 / 21); // ~4
-      const endBin = Math.floor(255 / 21);  // ~12
-      
-      for (let i = startBin; i < endBin && i < this.dataArray.length; i++) {
-        voiceSum += this.dataArray[i];
-        voiceCount++;
-      }
-      
-      // Calcular média geral
-      let sum = 0;
-      for (let i = 0; i < this.dataArray.length; i++) {
-        sum += this.dataArray[i];
-      }
-      
-      const average = sum / this.dataArray.length;
-      const voiceAverage = voiceSum / (voiceCount || 1);
-      
-      // Dar mais peso à faixa de voz humana
-      const weightedAverage = (voiceAverage * 0.7) + (average * 0.3);
-      const normalizedValue = weightedAverage / 256; // Normalizar para 0-1
-      
-      // Adicionar ao histórico de níveis
-      const amplifiedValue = normalizedValue * 6; // Amplificamos o valor para ter melhor sensibilidade
-      this.audioLevels.push(amplifiedValue); 
-      
-      // Manter apenas os últimos N níveis
-      if (this.audioLevels.length > 20) {
-        this.audioLevels.shift();
+    if (this.calibrationDuration > 0) {
+      this.vad.startCalibration(this.calibrationDuration);
+      this.log(`Calibrating noise floor for ${this.calibrationDuration}ms`);
+    }
+    
+    // Um quadro do VAD por intervalo; setInterval continua rodando com a aba em segundo plano
+    this.frameIntervalId = window.setInterval(() => {
+      this.processFrame();
+    }, FRAME_DURATION_MS);
+  }
+  
+  private processFrame() {
+    if (!this.analyser || !this.dataArray || !this.timeData || !this.vad || !this.initialized) return;
+    
+    // O analisador guarda as últimas amostras; o quadro são as mais recentes
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    const frame = this.timeData.subarray(this.timeData.length - this.vad.frameSize);
+    const wasCalibrating = this.vad.isCalibrating();
+    const result = this.vad.processFrame(frame);
+    this.frameCount += 1;
+    
+    if (wasCalibrating && !result.calibrating) {
+      this.log(`Calibration finished: noise floor=${result.noiseFloorDb.toFixed(1)}dB`);
+    }
+    
+    this.speechProbability = result.probability;
+    this.audioLevels.push(result.probability);
+    
+    // Manter apenas os últimos N níveis
+    if (this.audioLevels.length > 20) {
+      this.audioLevels.shift();
+    }
+    
+    if (result.isSpeech) {
+      if (!this.voiceDetected) {
+        this.log(`Voice detected: probability=${result.probability.toFixed(2)}, energy=${result.energyDb.toFixed(1)}dB`);
+        
+        // Feedback sonoro (opcional)
+        this.playDetectionTone(660, 0.05, 0.1);
       }
       
-      // Verificar se há voz (com histerese para evitar oscilações)
-      const recentLevels = this.audioLevels.slice(-5);
-      const recentAverage = recentLevels.reduce((sum, level) => sum + level, 0) / recentLevels.length;
+      this.voiceDetected = true;
+    }
+    
+    // Preparar dados de nível de áudio para visualização
+    if (this.onAudioLevelUpdate) {
+      this.analyser.getByteFrequencyData(this.dataArray);
       
-      // Detecção de voz com histerese
-      if (recentAverage > this.minVoiceLevel) {
-        if (!this.voiceDetected) {
-          this.log(`Voice detected with level: ${recentAverage.toFixed(2)}`);
-          
-          // Feedback sonoro (opcional)
-          this.playDetectionTone(660, 0.05, 0.1);
-        }
-        
-        this.voiceDetected = true;
-        this.consecutiveSilenceCount = 0;
-        this.silenceStartTime = Date.now();
-      }
+      // Preparar níveis para visualização (30 barras)
+      const levelCount = 30;
+      const levelData = Array(levelCount).fill(0);
+      const freqStep = Math.floor(this.dataArray.length / levelCount);
       
-      // Preparar dados de nível de áudio para visualização
-      if (this.onAudioLevelUpdate) {
-        // Preparar níveis para visualização (30 barras)
-        const levelCount = 30;
-        const levelData = Array(levelCount).fill(0);
-        const freqStep = Math.floor(this.dataArray!.length / levelCount);
+      for (let i = 0; i < levelCount; i++) {
+        const start = i * freqStep;
+        const end = (i + 1) * freqStep;
+        let sum = 0;
         
-        for (let i = 0; i < levelCount; i++) {
-          const start = i * freqStep;
-          const end = (i + 1) * freqStep;
-          let sum = 0;
-          
-          for (let j = start; j < end && j < this.dataArray!.length; j++) {
-            sum += this.dataArray![j];
-          }
-          
-          // Normalizar e amplificar para melhor visualização
-          const normalizedValue = (sum / (end - start)) / 256;
-          levelData[i] = Math.min(1, normalizedValue * 8);
+        for (let j = start; j < end && j < this.dataArray.length; j++) {
+          sum += this.dataArray[j];
         }
         
-        // Chamar callback com dados de nível de áudio
-        this.onAudioLevelUpdate(levelData, recentAverage);
-      }
-      
-      // Log de amostra a cada 1 segundo
-      if (Math.random() < 0.05) {
-        this.log(
-          `Audio levels: weighted=${recentAverage.toFixed(2)}, ` +
-          `voice=${voiceAverage.toFixed(2)}, ` +
-          `voice detected=${this.voiceDetected}`
-        );
+        // Normalizar e amplificar para melhor visualização
+        const normalizedValue = (sum / (end - start)) / 256;
+        levelData[i] = Math.min(1, normalizedValue * 8);
       }
       
-      // Continuar monitorando enquanto estiver inicializado
-      if (this.initialized) {
-        this.animationFrameId = requestAnimationFrame(checkAudioLevel);
-      }
-    };
+      // O nível geral passa a ser a probabilidade de fala
+      this.onAudioLevelUpdate(levelData, result.probability);
+    }
     
-    // Iniciar loop de monitoramento
-    this.animationFrameId = requestAnimationFrame(checkAudioLevel);
+    // Log uma vez por segundo
+    if (this.frameCount % LOG_EVERY_FRAMES === 0) {
+      this.log(
+        `VAD: probability=${result.probability.toFixed(2)}, ` +
+        `energy=${result.energyDb.toFixed(1)}dB, ` +
+        `noiseFloor=${result.noiseFloorDb.toFixed(1)}dB, ` +
+        `zcr=${result.zeroCrossingRate.toFixed(0)}/s, ` +
+        `speech=${result.isSpeech}`
+      );
+    }
     
-    // Verificar silêncio em intervalos mais frequentes (30ms em vez de 50ms)
-    this.checkSilenceIntervalId = window.setInterval(() => {
-      this.checkForSilence();
-    }, 30) as unknown as number;
+    if (!result.calibrating) {
+      this.checkForSilence(result.isSpeech);
+    }
   }
   
-  private checkForSilence() {
+  private checkForSilence(isSpeech: boolean) {
     if (!this.initialized) return;
     
     const currentTime = Date.now();
     const elapsedSilence = currentTime - this.silenceStartTime;
     const recordingLength = currentTime - this.recordingStartTime;
     
-    // Calcular média dos últimos níveis de áudio
-    const recentLevels = this.audioLevels.slice(-10);
-    const avgLevel = recentLevels.reduce((sum, level) => sum + level, 0) / 
-                     (recentLevels.length || 1);
-    
-    // Considerar silêncio se nível médio estiver abaixo do limiar
-    const isSilent = avgLevel < this.silenceThreshold;
-    
-    // Log detalhado a cada segundo
-    if (Math.random() < 0.05) {
-      this.log(
-        `Silence check: avgLevel=${avgLevel.toFixed(2)}, ` +
-        `threshold=${this.silenceThreshold}, ` +
-        `isSilent=${isSilent}, ` +
-        `count=${this.consecutiveSilenceCount}/${this.consecutiveSilenceThreshold}, ` +
-        `elapsedSilence=${elapsedSilence}ms`
-      );
-    }
+    // O VAD já mantém a fala durante pausas curtas (hangover)
+    const isSilent = !isSpeech;
     
     if (isSilent) {
       this.consecutiveSilenceCount += 1;
       
       // Log quando começamos a detectar silêncio
       if (this.consecutiveSilenceCount === 1) {
-        this.log(`Silence started: level=${avgLevel.toFixed(2)}`);
+        this.log(`Silence started: probability=${this.speechProbability.toFixed(2)}`);
       }
       
       // Log a cada 5 contagens
       if (this.consecutiveSilenceCount % 5 === 0) {
-        this.log(`Silence continuing: count=${this.consecutiveSilenceCount}, level=${avgLevel.toFixed(2)}`);
+        this.log(`Silence continuing: count=${this.consecutiveSilenceCount}, probability=${this.speechProbability.toFixed(2)}`);
       }
     } else {
       if (this.consecutiveSilenceCount > 0) {
@@ -280,26 +273,43 @@ class SilenceDetector {
       this.silenceStartTime = currentTime;
     }
     
+    if (!isSilent || !this.voiceDetected) return;
+    
+    // O tempo de silêncio exigido depende de como a transcrição parcial termina
+    const decision = decideEndOfTurn(elapsedSilence, this.partialTranscript, {
+      silenceDuration: this.silenceDuration,
+      waitAfterPunctuation: this.waitAfterPunctuation,
+      waitWithoutPunctuation: this.waitWithoutPunctuation,
+      waitAfterNumber: this.waitAfterNumber
+    });
+    
+    if (decision.ending !== this.lastTurnEnding) {
+      this.log(`Turn ending "${decision.ending}": waiting ${decision.requiredSilenceMs}ms of silence`);
+      this.lastTurnEnding = decision.ending;
+    }
+    
     // No modo contínuo, respeitar as condições de silêncio para responder durante a conversa
     if (this.continuousMode && 
-        this.voiceDetected && 
         recordingLength > this.minRecordingDuration && 
-        (this.consecutiveSilenceCount >= this.consecutiveSilenceThreshold || 
-         elapsedSilence > this.silenceDuration)) {
+        this.consecutiveSilenceCount >= this.consecutiveSilenceThreshold &&
+        decision.endOfTurn) {
       
-      this.log(`Sufficient silence detected in continuous mode: ${this.consecutiveSilenceCount} samples or ${elapsedSilence}ms`);
-      this.log(`Recording length: ${recordingLength}ms, minimum: ${this.minRecordingDuration}ms`);
+      // Registrado sempre, para ajustar as esperas a partir de conversas reais
+      console.log("[EndOfTurn] End of turn detected", {
+        ending: decision.ending,
+        silenceMs: decision.silenceMs,
+        requiredSilenceMs: decision.requiredSilenceMs,
+        recordingMs: recordingLength,
+        transcriptTail: this.partialTranscript.slice(-40)
+      });
       
-      // Executar callback de silêncio
-      if (this.silenceCallback) {
+      // Guardar o callback antes da limpeza, que o descarta
+      const callback = this.silenceCallback;
+      if (callback) {
         // Feedback sonoro de fim (opcional)
         this.playDetectionTone(440, 0.05, 0.15);
         
-        setTimeout(() => {
-          if (this.silenceCallback) {
-            this.silenceCallback();
-          }
-        }, 100);
+        setTimeout(callback, 100);
       }
       
       // Limpar este verificador para evitar múltiplas chamadas
@@ -340,6 +350,23 @@ class SilenceDetector {
     return this.consecutiveSilenceCount;
   }
   
+  getSpeechProbability(): number {
+    return this.speechProbability;
+  }
+  
+  getNoiseFloorDb(): number | null {
+    return this.vad ? this.vad.getNoiseFloorDb() : null;
+  }
+  
+  isCalibrating(): boolean {
+    return !!this.vad && this.vad.isCalibrating();
+  }
+  
+  // Transcrição parcial da fala em andamento, usada na decisão de fim de turno
+  setPartialTranscript(transcript: string): void {
+    this.partialTranscript = transcript;
+  }
+  
   setDebugMode(enabled: boolean): void {
     this.debugMode = enabled;
   }
@@ -352,14 +379,9 @@ class SilenceDetector {
   cleanup() {
     this.log("Cleaning up silence detector resources");
     
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
-    
-    if (this.checkSilenceIntervalId !== null) {
-      clearInterval(this.checkSilenceIntervalId);
-      this.checkSilenceIntervalId = null;
+    if (this.frameIntervalId !== null) {
+      clearInterval(this.frameIntervalId);
+      this.frameIntervalId = null;
     }
     
     // Não fechar o audioContext aqui, apenas desconectar o analisador
@@ -376,11 +398,12 @@ class SilenceDetector {
     this.initialized = false;
     this.silenceCallback = null;
     this.dataArray = null;
+    this.timeData = null;
     this.onAudioLevelUpdate = null;
     
     // Manter audioLevels e voiceDetected para consulta posterior
   }
 }
 
-// Exportar uma única instância para uso em toda a aplicação
+// Instância usada pela chamada; o teste do microfone cria a sua própria
 export const silenceDetector = new SilenceDetector();
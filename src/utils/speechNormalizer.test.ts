@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { PronunciationEntry } from "@/types/chat";
+import { applyPronunciations, normalizeForSpeech } from "./speechNormalizer";
+
+const pt = (text: string) => normalizeForSpeech(text, { language: "pt-BR" });
+const en = (text: string) => normalizeForSpeech(text, { language: "en-US" });
+
+const entries = (terms: Record<string, string>): PronunciationEntry[] =>
+  Object.entries(terms).map(([term, pronunciation], index) => ({ id: String(index), term, pronunciation }));
+
+describe("normalizeForSpeech", () => {
+  it("reads currency amounts by the convention of each symbol", () => {
+    expect(pt("Total: R$ 1.234,56")).toBe("Total: mil duzentos e trinta e quatro reais e cinquenta e seis centavos");
+    expect(pt("Custa $12.50.")).toBe("Custa doze dólares e cinquenta centavos.");
+    expect(pt("São US$ 3,99 ou 21,50 €")).toBe("São três dólares e noventa e nove centavos ou vinte e um euros e cinquenta cêntimos");
+
+    expect(en("It costs $12.50 or $1,250.")).toBe("It costs twelve dollars and fifty cents or one thousand two hundred fifty dollars.");
+    expect(en("Paid €12.50 and R$ 10,00")).toBe("Paid twelve euros and fifty cents and ten reais");
+  });
+
+  it("reads an amount written in the other convention and leaves more than two decimals to the numbers", () => {
+    expect(pt("Custa $12,50 e R$10")).toBe("Custa doze dólares e cinquenta centavos e dez reais");
+    expect(pt("R$ 0,125")).toBe("R$ zero vírgula um dois cinco");
+  });
+
+  it("reads CPF and CNPJ digit by digit, in groups", () => {
+    expect(pt("CPF 123.456.789-09")).toBe("CPF um dois três, quatro cinco seis, sete oito nove, zero nove");
+    expect(pt("CNPJ 12.345.678/0001-90")).toBe(
+      "CNPJ um dois, três quatro cinco, seis sete oito, zero zero zero um, nove zero"
+    );
+  });
+
+  it("writes dates out in the order of the locale", () => {
+    expect(pt("Vence em 10/03/2026 ou 2026-03-01")).toBe(
+      "Vence em dez de março de dois mil e vinte e seis ou primeiro de março de dois mil e vinte e seis"
+    );
+    expect(en("Due on 03/10/2026")).toBe("Due on March tenth, twenty twenty-six");
+    expect(normalizeForSpeech("Due on 03/10/2026", { language: "en-GB" })).toBe("Due on October third, twenty twenty-six");
+  });
+
+  it("reads phone numbers and long hyphenated digit runs digit by digit", () => {
+    expect(pt("Ligue 11 98765-4321")).toBe("Ligue um um, nove oito sete seis cinco, quatro três dois um");
+    expect(pt("ou +55 (11) 3456-7890")).toBe("ou cinco cinco, um um, três quatro cinco seis, sete oito nove zero");
+    expect(en("Call (555) 123-4567 or +1 555-123-4567.")).toBe(
+      "Call five five five, one two three, four five six seven or one, five five five, one two three, four five six seven."
+    );
+    // Sequências curtas continuam números: faixas de páginas, placares
+    expect(pt("páginas 10-20")).toBe("páginas dez-vinte");
+  });
+
+  it("reads numbers, percentages and codes", () => {
+    expect(pt("Pedido 12345678, 3,5 kg, 25% e 0800")).toBe(
+      "Pedido um dois três quatro cinco seis sete oito, três vírgula cinco kg, vinte e cinco por cento e zero oito zero zero"
+    );
+    expect(en("1,500 items, 2.5 kg, 10%")).toBe("one thousand five hundred items, two point five kg, ten percent");
+  });
+
+  it("reads only the domain of links and e-mails", () => {
+    expect(pt("Veja https://www.loja.com.br/ajuda?x=1.")).toBe("Veja loja ponto com ponto br.");
+    expect(en("Write to contato@loja.com")).toBe("Write to contato at loja dot com");
+  });
+
+  it("removes the emotion tag and the Markdown formatting", () => {
+    expect(pt("[Sentimento: Feliz] **Olá!** Veja a [central](https://loja.com/ajuda)")).toBe("Olá! Veja a central");
+  });
+
+  it("leaves numbers to the voice provider when the language is unknown", () => {
+    expect(normalizeForSpeech("R$ 10,00 em 10/03/2026", { language: "fr-FR" })).toBe("R$ 10,00 em 10/03/2026");
+    expect(normalizeForSpeech("Veja www.loja.com/ajuda")).toBe("Veja loja.com");
+  });
+});
+
+describe("applyPronunciations", () => {
+  const lexicon = entries({
+    "CPJ-3C": "cê pê jota três cê",
+    "CPJ-3C Pro": "cê pê jota três cê pró",
+    SaaS: "sás"
+  });
+
+  it("replaces whole terms, ignoring case, with the longest term first", () => {
+    expect(applyPronunciations("O CPJ-3C Pro e o cpj-3c usam saas, não SaaSy", lexicon)).toBe(
+      "O cê pê jota três cê pró e o cê pê jota três cê usam sás, não SaaSy"
+    );
+  });
+
+  it("applies the lexicon before the numbers in both locales", () => {
+    const pronunciations = entries({ V8: "vê oito", iOS: "ai ó ésse" });
+
+    expect(normalizeForSpeech("O V8 custa R$ 8,00 no iOS", { language: "pt-BR", pronunciations })).toBe(
+      "O vê oito custa oito reais no ai ó ésse"
+    );
+    expect(normalizeForSpeech("The V8 costs $8.00 on iOS", { language: "en-US", pronunciations })).toBe(
+      "The vê oito costs eight dollars on ai ó ésse"
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import { PronunciationEntry } from "@/types/chat";
+import { getBaseLanguage } from "./language";
+import {
+  CurrencyCode,
+  SpokenLanguage,
+  currencyToWords,
+  dateToWords,
+  decimalToWords,
+  digitsToWords,
+  getSpokenLanguage,
+  isSpokenLanguage,
+  numberToWords
+} from "./spokenNumbers";
+
+export interface SpeechNormalizationOptions {
+  language?: string; // Locale da chamada (ex.: "pt-BR"); define como números e datas são lidos
+  pronunciations?: PronunciationEntry[];
+}
+
+// Tag de sentimento que o modelo coloca no início da resposta com detectEmotion, ex.: "[Sentimento: Feliz]"
+const EMOTION_TAG = /^\s*\[[^[\]\n:：]{1,30}[:：][^[\]\n]{1,40}\]\s*/u;
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>()]+/gi;
+const EMAIL_PATTERN = /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/g;
+const TRAILING_URL_PUNCTUATION = /[.,;:!?]+$/;
+
+// Documentos brasileiros são lidos dígito a dígito, em grupos
+const CPF_PATTERN = /(?<![\p{N}])\d{3}\.\d{3}\.\d{3}-\d{2}(?![\p{N}])/gu;
+const CNPJ_PATTERN = /(?<![\p{N}])\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}(?![\p{N}])/gu;
+
+// Telefones: código do país e DDD opcionais antes de dígitos ligados por hífen, ex.: "+55 (11) 98765-4321".
+// Os grupos são lidos dígito a dígito, como os documentos.
+const PHONE_PATTERN = /(?<![\p{L}\p{N}+-])(?:\+\d{1,3}\s?)?(?:\(\d{2,3}\)\s?|\d{2,3}\s)?\d+(?:-\d+)+(?![\p{L}\p{N}-])/gu;
+
+interface CurrencySymbol {
+  code: CurrencyCode;
+  // Separadores com que o valor costuma ser escrito; sem ele, valem os do idioma da chamada
+  format?: SpokenLanguage;
+}
+
+const CURRENCY_SYMBOLS: Record<string, CurrencySymbol> = {
+  "R$": { code: "BRL", format: "pt" },
+  "US$": { code: "USD" },
+  "$": { code: "USD", format: "en" },
+  "€": { code: "EUR" }
+};
+
+// Números sem separador com tantos dígitos costumam ser códigos (protocolo, pedido), não quantidades
+const MIN_CODE_DIGITS = 7;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Remove a formatação Markdown que o modelo usa no chat, mantendo o texto
+export const stripMarkup = (text: string): string => text
+  .replace(/```[^\n]*\n?/g, "")
+  .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+  .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+  .replace(/`([^`]*)`/g, "$1")
+  .replace(/^\s{0,3}#{1,6}\s+/gm, "")
+  .replace(/^\s*>\s?/gm, "")
+  .replace(/^\s*([-*_]\s*){3,}$/gm, "")
+  .replace(/^\s*[|:\s-]+$/gm, "")
+  .replace(/^\s*[-*+•]\s+/gm, "")
+  .replace(/(\*\*|__)(.+?)\1/g, "$2")
+  .replace(/\*(\S(?:[^*]*\S)?)\*/g, "$1")
+  .replace(/^[ \t]*\||\|[ \t]*$/gm, "")
+  .replace(/\s*\|\s*/g, ", ")
+  .replace(/[*#]/g, "");
+
+export const stripEmotionTag = (text: string): string => text.replace(EMOTION_TAG, "");
+
+/**
+ * Aplica o léxico de pronúncias: cada termo (palavra inteira, sem diferenciar maiúsculas) é trocado
+ * pela forma como deve ser falado. Termos mais longos têm prioridade ("CPJ-3C Pro" antes de "CPJ-3C").
+ */
+export const applyPronunciations = (text: string, pronunciations: PronunciationEntry[] = []): string => {
+  const entries = pronunciations
+    .filter(entry => entry.term.trim() && entry.pronunciation.trim())
+    .sort((a, b) => b.term.trim().length - a.term.trim().length);
+
+  return entries.reduce((result, entry) => {
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry.term.trim())}(?![\\p{L}\\p{N}])`, "giu");
+    return result.replace(pattern, entry.pronunciation.trim());
+  }, text);
+};
+
+// Lê só o domínio de links e e-mails: "https://www.loja.com.br/ajuda" vira "loja ponto com ponto br"
+const speakAddresses = (text: string, language?: SpokenLanguage): string => {
+  const speakDomain = (domain: string) => language
+    ? domain.split(".").filter(Boolean).join(` ${getSpokenLanguage(language).dotWord} `)
+    : domain;
+
+  return text
+    .replace(EMAIL_PATTERN, (email) => {
+      const [user, domain] = email.split("@");
+      const at = language ? getSpokenLanguage(language).atWord : "@";
+      return `${user.replace(/[._]/g, " ")} ${at} ${speakDomain(domain)}`;
+    })
+    .replace(URL_PATTERN, (match) => {
+      const trailing = match.match(TRAILING_URL_PUNCTUATION)?.[0] || "";
+      const url = match.slice(0, match.length - trailing.length);
+      const host = url.replace(/^https?:\/\//i, "").replace(/^www\./i, "").split(/[/?#:]/)[0];
+      return speakDomain(host) + trailing;
+    });
+};
+
+// Padrão de um número no formato do idioma: "1.234,56" em português, "1,234.56" em inglês
+const numberPattern = (language: SpokenLanguage) => {
+  const { thousandsSeparator, decimalSeparator } = getSpokenLanguage(language);
+  const thousands = escapeRegExp(thousandsSeparator);
+  const decimal = escapeRegExp(decimalSeparator);
+  return `(\\d{1,3}(?:${thousands}\\d{3})+|\\d+)(?:${decimal}(\\d+))?`;
+};
+
+const parseInteger = (digits: string, language: SpokenLanguage) =>
+  Number(digits.split(getSpokenLanguage(language).thousandsSeparator).join(""));
+
+const expandDocuments = (text: string, language: SpokenLanguage): string => text
+  .replace(CNPJ_PATTERN, (cnpj) => cnpj.split(/[./-]/).map(group => digitsToWords(group, language)).join(", "))
+  .replace(CPF_PATTERN, (cpf) => cpf.split(/[.-]/).map(group => digitsToWords(group, language)).join(", "));
+
+// Valor de um símbolo de moeda: "$12.50" segue o formato americano e "R$ 12,50" o brasileiro, seja qual
+// for o idioma da chamada. Se o valor não se encaixa nesse formato ("$12,50" numa chamada em português),
+// tenta o do idioma e depois o outro. Retorna null para um valor que não é dinheiro.
+const parseAmount = (amount: string, symbol: CurrencySymbol, language: SpokenLanguage) => {
+  const formats = [symbol.format ?? language, language, language === "en" ? "pt" : "en"] as SpokenLanguage[];
+
+  for (const format of formats) {
+    const match = amount.match(new RegExp(`^${numberPattern(format)}$`));
+    if (!match) continue;
+
+    const [, integer, fraction] = match;
+    // Mais de duas casas decimais não é um valor em dinheiro; fica para a leitura de números
+    if (fraction && fraction.length > 2) return null;
+    return { integer: parseInteger(integer, format), cents: fraction ? Number(fraction.padEnd(2, "0")) : 0 };
+  }
+  return null;
+};
+
+const expandCurrency = (text: string, language: SpokenLanguage): string => {
+  const symbols = Object.keys(CURRENCY_SYMBOLS).map(escapeRegExp).join("|");
+  // O valor é capturado com qualquer separador e interpretado por parseAmount
+  const amount = "(\\d(?:[\\d.,]*\\d)?)";
+  const prefixed = new RegExp(`(?<![\\p{L}$])(${symbols})\\s?${amount}(?![\\p{L}\\p{N}])`, "gu");
+  // O euro também é escrito depois do valor: "21,50 €"
+  const suffixed = new RegExp(`(?<![\\p{L}\\p{N}.,])${amount}\\s?(€)`, "gu");
+
+  const toWords = (match: string, symbol: string, value: string) => {
+    const parsed = parseAmount(value, CURRENCY_SYMBOLS[symbol], language);
+    return parsed
+      ? currencyToWords(parsed.integer, parsed.cents, CURRENCY_SYMBOLS[symbol].code, language)
+      : match;
+  };
+
+  return text
+    .replace(prefixed, (match, symbol: string, value: string) => toWords(match, symbol, value))
+    .replace(suffixed, (match, value: string, symbol: string) => toWords(match, symbol, value));
+};
+
+const isValidDate = (day: number, month: number) => month >= 1 && month <= 12 && day >= 1 && day <= 31;
+
+const expandDates = (text: string, language: SpokenLanguage, locale: string): string => {
+  const monthFirst = getSpokenLanguage(language).monthFirst(locale);
+
+  return text
+    .replace(/(?<![\p{N}/.-])(\d{4})-(\d{2})-(\d{2})(?![\p{N}])/gu, (match, year, month, day) =>
+      isValidDate(Number(day), Number(month))
+        ? dateToWords(Number(day), Number(month), Number(year), language)
+        : match)
+    .replace(/(?<![\p{N}/.])(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?![\p{N}])/gu, (match, first, second, year) => {
+      const day = Number(monthFirst ? second : first);
+      const month = Number(monthFirst ? first : second);
+      return isValidDate(day, month) ? dateToWords(day, month, Number(year), language) : match;
+    });
+};
+
+// Telefones e sequências de dígitos com hífen longas demais para uma quantidade ("98765-4321") são lidos
+// dígito a dígito, grupo a grupo; "10-20" continua com a leitura de números
+const expandPhoneNumbers = (text: string, language: SpokenLanguage): string =>
+  text.replace(PHONE_PATTERN, (match) => {
+    const groups = match.match(/\d+/g) || [];
+    const hyphenated = match.slice(match.search(/\d+-/)).replace(/\D/g, "");
+    if (hyphenated.length < MIN_CODE_DIGITS) return match;
+
+    return groups.map(group => digitsToWords(group, language)).join(", ");
+  });
+
+const expandNumbers = (text: string, language: SpokenLanguage): string => {
+  const { percentWord } = getSpokenLanguage(language);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${numberPattern(language)}(\\s?%)?(?![\\p{L}\\p{N}])`, "gu");
+
+  return text.replace(pattern, (match, integer: string, fraction?: string, percent?: string) => {
+    let words: string;
+    if (!fraction && /^\d+$/.test(integer) && (integer.length >= MIN_CODE_DIGITS || (integer.length > 1 && integer.startsWith("0")))) {
+      words = digitsToWords(integer, language);
+    } else if (fraction) {
+      words = decimalToWords(parseInteger(integer, language), fraction, language);
+    } else {
+      words = numberToWords(parseInteger(integer, language), language);
+    }
+    return percent ? `${words} ${percentWord}` : words;
+  });
+};
+
+/**
+ * Prepara o texto da resposta para a síntese de voz: remove a tag de sentimento e a formatação,
+ * lê links pelo domínio, aplica o léxico de pronúncias e escreve por extenso documentos, valores,
+ * datas, porcentagens e números no idioma da chamada (português, inglês e espanhol; nos demais
+ * idiomas os números ficam para o provedor de voz).
+ */
+export const normalizeForSpeech = (text: string, options: SpeechNormalizationOptions = {}): string => {
+  // Sem idioma definido (detecção automática ainda sem resultado), números ficam para o provedor de voz
+  const locale = options.language;
+  const baseLanguage = getBaseLanguage(locale);
+  const language = isSpokenLanguage(baseLanguage) ? baseLanguage : undefined;
+
+  let result = stripMarkup(stripEmotionTag(text));
+  result = speakAddresses(result, language);
+  result = applyPronunciations(result, options.pronunciations);
+
+  if (language) {
+    result = expandDocuments(result, language);
+    result = expandCurrency(result, language);
+    result = expandDates(result, language, locale!);
+    result = expandPhoneNumbers(result, language);
+    result = expandNumbers(result, language);
+  }
+
+  return result.replace(/[ \t]+/g, " ").replace(/\s*\n\s*/g, "\n").trim();
+};
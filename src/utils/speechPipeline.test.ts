@@ -0,0 +1,199 @@
+import { describe, expect, it, vi } from "vitest";
+import { SpeechPipeline, SpeechPipelineOptions, SpeechSegment, SpeechSegmenter } from "./speechPipeline";
+import { createFakeTts, decodeAudio, FakeTts } from "@/test/fakeTts";
+
+// Deixa as promessas pendentes (sínteses e entregas) andarem
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const createPipeline = (tts: FakeTts, options: Partial<SpeechPipelineOptions> = {}) => {
+  const delivered: SpeechSegment[] = [];
+  const pipeline = new SpeechPipeline({
+    synthesize: tts.synthesize,
+    onSegment: segment => {
+      delivered.push(segment);
+    },
+    ...options
+  });
+  return { pipeline, delivered };
+};
+
+describe("SpeechSegmenter", () => {
+  it("cuts complete sentences and keeps the unfinished one", () => {
+    const segmenter = new SpeechSegmenter();
+
+    expect(segmenter.push("Olá, tudo bem com você? Posso aj")).toEqual(["Olá, tudo bem com você?"]);
+    expect(segmenter.push("udar com o pedido.")).toEqual([]);
+    expect(segmenter.flush()).toEqual(["Posso ajudar com o pedido."]);
+    expect(segmenter.flush()).toEqual([]);
+  });
+
+  it("joins short sentences and does not cut decimal numbers", () => {
+    const segmenter = new SpeechSegmenter();
+
+    expect(segmenter.push("Sim. O valor é 3.5 reais. ")).toEqual(["Sim. O valor é 3.5 reais."]);
+  });
+
+  it("cuts long sentences at clauses and, without punctuation, at the last space", () => {
+    const clauses = new SpeechSegmenter({ clauseLength: 40, maxLength: 80 });
+    expect(clauses.push("O pedido saiu do centro de distribuição hoje, chega amanhã de manhã")).toEqual([
+      "O pedido saiu do centro de distribuição hoje,"
+    ]);
+
+    const words = new SpeechSegmenter({ clauseLength: 40, maxLength: 30 });
+    expect(words.push("palavras sem nenhuma pontuação que continuam")).toEqual([
+      "palavras sem nenhuma pontuação"
+    ]);
+  });
+});
+
+describe("SpeechPipeline", () => {
+  it("delivers audio in text order when synthesis finishes out of order", async () => {
+    const tts = createFakeTts();
+    const { pipeline, delivered } = createPipeline(tts);
+
+    pipeline.push("Primeira frase da resposta. Segunda frase da resposta. ");
+    const done = pipeline.finish();
+
+    tts.respond("Segunda frase da resposta.");
+    await settle();
+    expect(delivered).toEqual([]);
+
+    tts.respond("Primeira frase da resposta.");
+    await done;
+
+    expect(delivered.map(segment => segment.index)).toEqual([0, 1]);
+    expect(delivered.map(segment => decodeAudio(segment.audio))).toEqual([
+      "Primeira frase da resposta.",
+      "Segunda frase da resposta."
+    ]);
+  });
+
+  it("limits concurrent synthesis and synthesizes each segment once", async () => {
+    const tts = createFakeTts();
+    const { pipeline, delivered } = createPipeline(tts, { maxConcurrency: 2 });
+    const sentences = ["Frase número um.", "Frase número dois.", "Frase número três.", "Frase número quatro."];
+
+    pipeline.push(sentences.map(sentence => `${sentence} `).join(""));
+    const done = pipeline.finish();
+    expect(tts.requests.map(request => request.text)).toEqual(sentences.slice(0, 2));
+
+    for (const sentence of sentences) {
+      tts.respond(sentence);
+      await settle();
+    }
+    const metrics = await done;
+
+    expect(tts.maxActive()).toBe(2);
+    expect(tts.requests.map(request => request.text)).toEqual(sentences);
+    expect(delivered.map(segment => segment.text)).toEqual(sentences);
+    expect(metrics.segmentCount).toBe(4);
+    expect(metrics.synthesisMs).toHaveLength(4);
+  });
+
+  it("skips a segment whose synthesis fails and keeps the following ones", async () => {
+    const tts = createFakeTts();
+    const onError = vi.fn();
+    const { pipeline, delivered } = createPipeline(tts, { onError });
+
+    pipeline.push("Esta frase vai falhar. Esta frase vai tocar. ");
+    const done = pipeline.finish();
+    tts.fail("Esta frase vai falhar.");
+    tts.respond("Esta frase vai tocar.");
+    const metrics = await done;
+
+    expect(delivered.map(segment => segment.text)).toEqual(["Esta frase vai tocar."]);
+    expect(delivered[0].index).toBe(1);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), "Esta frase vai falhar.");
+    expect(metrics.failedSegments).toBe(1);
+  });
+
+  it("synthesizes the prepared text and delivers the original one", async () => {
+    const tts = createFakeTts();
+    const { pipeline, delivered } = createPipeline(tts, {
+      prepareText: text => text.replace("R$ 10", "dez reais").replace(/\*+/g, "")
+    });
+
+    pipeline.push("O frete custa R$ 10. **** ");
+    const done = pipeline.finish();
+    tts.respond("O frete custa dez reais.");
+    const metrics = await done;
+
+    // O trecho só com marcação fica vazio e não chega à síntese
+    expect(tts.requests.map(request => request.text)).toEqual(["O frete custa dez reais."]);
+    expect(delivered.map(segment => segment.text)).toEqual(["O frete custa R$ 10."]);
+    expect(decodeAudio(delivered[0].audio)).toBe("O frete custa dez reais.");
+    expect(metrics.segmentCount).toBe(1);
+  });
+
+  it("waits for each segment to play before delivering the next", async () => {
+    const tts = createFakeTts();
+    let finishPlayback: () => void = () => {};
+    const played: string[] = [];
+    const { pipeline } = createPipeline(tts, {
+      onSegment: segment => new Promise<void>(resolve => {
+        played.push(segment.text);
+        finishPlayback = resolve;
+      })
+    });
+
+    pipeline.push("Primeiro trecho falado. Segundo trecho falado. ");
+    const done = pipeline.finish();
+    tts.respond("Primeiro trecho falado.");
+    tts.respond("Segundo trecho falado.");
+    await settle();
+    expect(played).toEqual(["Primeiro trecho falado."]);
+    expect(pipeline.isIdle()).toBe(false);
+
+    finishPlayback();
+    await settle();
+    expect(played).toEqual(["Primeiro trecho falado.", "Segundo trecho falado."]);
+
+    finishPlayback();
+    await done;
+    expect(pipeline.isIdle()).toBe(true);
+  });
+
+  it("cancels pending synthesis on abort and delivers nothing else", async () => {
+    const tts = createFakeTts();
+    const { pipeline, delivered } = createPipeline(tts, { maxConcurrency: 1 });
+
+    pipeline.push("Trecho que será cortado. Trecho que nunca sai. ");
+    const done = pipeline.finish();
+    pipeline.abort();
+    await done;
+    await settle();
+
+    expect(tts.requests).toHaveLength(1);
+    expect(tts.requests[0].signal.aborted).toBe(true);
+    expect(pipeline.isAborted()).toBe(true);
+    expect(delivered).toEqual([]);
+
+    // Texto que chega depois da interrupção é ignorado
+    pipeline.push("Mais texto depois da interrupção. ");
+    expect(tts.requests).toHaveLength(1);
+  });
+
+  it("measures the time to the first audio from startedAt", async () => {
+    const tts = createFakeTts();
+    let clock = 1000;
+    const onFirstAudio = vi.fn();
+    const { pipeline } = createPipeline(tts, { now: () => clock, startedAt: 500, onFirstAudio });
+
+    clock = 1200;
+    pipeline.push("Resposta curta de teste. ");
+    const done = pipeline.finish();
+    clock = 1700;
+    tts.respond("Resposta curta de teste.");
+    const metrics = await done;
+
+    expect(metrics).toMatchObject({
+      startedAt: 500,
+      firstTextAt: 1200,
+      firstSegmentAt: 1200,
+      firstAudioAt: 1700,
+      timeToFirstAudioMs: 1200,
+      synthesisMs: [500]
+    });
+    expect(onFirstAudio).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,303 @@
+
+export interface SpeechSegmenterConfig {
+  minLength: number; // Trechos menores são juntados ao seguinte ("Sim." sozinho não vale uma requisição)
+  clauseLength: number; // A partir desse tamanho, sem fim de frase, corta em vírgula, ponto e vírgula ou dois-pontos
+  maxLength: number; // Tamanho máximo de um trecho; sem pontuação, corta no último espaço
+}
+
+export const DEFAULT_SEGMENTER_CONFIG: SpeechSegmenterConfig = {
+  minLength: 12,
+  clauseLength: 80,
+  maxLength: 200
+};
+
+// Fim de frase só conta com espaço depois, para não cortar "3.5" nem uma frase que ainda está chegando
+const SENTENCE_BOUNDARY = /[.!?…]+["'”’)\]]*\s+|\n+/g;
+const CLAUSE_BOUNDARY = /[,;:–—]\s+/g;
+
+/**
+ * Divide o texto que chega em streaming em trechos falados: frases inteiras, orações quando a frase
+ * fica longa demais, ou um corte por tamanho máximo quando não há pontuação.
+ */
+export class SpeechSegmenter {
+  private config: SpeechSegmenterConfig;
+  private buffer: string = "";
+
+  constructor(config?: Partial<SpeechSegmenterConfig>) {
+    this.config = { ...DEFAULT_SEGMENTER_CONFIG, ...config };
+  }
+
+  // Acrescenta texto e devolve os trechos que ficaram completos
+  push(text: string): string[] {
+    this.buffer += text;
+
+    const segments: string[] = [];
+    let cut = this.nextCut();
+    while (cut > 0) {
+      const segment = this.buffer.slice(0, cut).trim();
+      this.buffer = this.buffer.slice(cut);
+      if (segment) {
+        segments.push(segment);
+      }
+      cut = this.nextCut();
+    }
+
+    return segments;
+  }
+
+  // Devolve o que sobrou no fim da resposta, mesmo sem pontuação
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = "";
+    return rest ? [rest] : [];
+  }
+
+  private nextCut(): number {
+    const { minLength, clauseLength, maxLength } = this.config;
+    const text = this.buffer;
+    const isLongEnough = (end: number) => text.slice(0, end).trim().length >= minLength;
+
+    for (const match of text.matchAll(SENTENCE_BOUNDARY)) {
+      const end = match.index! + match[0].length;
+      if (isLongEnough(end)) return end;
+    }
+
+    if (text.length >= clauseLength) {
+      let lastClause = -1;
+      for (const match of text.matchAll(CLAUSE_BOUNDARY)) {
+        const end = match.index! + match[0].length;
+        if (end > maxLength) break;
+        if (isLongEnough(end)) lastClause = end;
+      }
+      if (lastClause !== -1) return lastClause;
+    }
+
+    if (text.length >= maxLength) {
+      const lastSpace = text.lastIndexOf(" ", maxLength);
+      return lastSpace >= minLength ? lastSpace + 1 : maxLength;
+    }
+
+    return -1;
+  }
+}
+
+export type SynthesizeSpeech = (text: string, signal: AbortSignal) => Promise<ArrayBuffer>;
+
+export interface SpeechSegment {
+  index: number;
+  text: string;
+  audio: ArrayBuffer;
+}
+
+export interface SpeechPipelineMetrics {
+  startedAt: number;
+  firstTextAt: number | null; // Primeiro texto recebido do modelo
+  firstSegmentAt: number | null; // Primeiro trecho enviado para a síntese
+  firstAudioAt: number | null; // Primeiro áudio entregue para reprodução
+  timeToFirstAudioMs: number | null;
+  segmentCount: number;
+  failedSegments: number;
+  synthesisMs: number[]; // Duração da síntese de cada trecho, na ordem em que terminaram
+}
+
+export interface SpeechPipelineOptions {
+  synthesize: SynthesizeSpeech;
+  // Texto que vai para a síntese (ex.: normalizado); o trecho entregue mantém o texto original.
+  // Um trecho que fica vazio aqui é pulado sem chamar a síntese.
+  prepareText?: (text: string) => string;
+  // Recebe os áudios estritamente na ordem do texto; a entrega seguinte espera a promessa terminar
+  onSegment: (segment: SpeechSegment) => void | Promise<void>;
+  maxConcurrency?: number; // Sínteses simultâneas
+  segmenter?: Partial<SpeechSegmenterConfig>;
+  startedAt?: number; // Início da medição do tempo até o primeiro áudio (ex.: fim da fala do usuário)
+  now?: () => number;
+  onFirstAudio?: (metrics: SpeechPipelineMetrics) => void;
+  onError?: (error: Error, text: string) => void;
+}
+
+export const DEFAULT_TTS_CONCURRENCY = 2;
+
+/**
+ * Transforma a resposta em streaming em áudio: segmenta o texto, sintetiza os próximos trechos em
+ * paralelo (com limite de concorrência) e entrega os áudios na ordem original, sem duplicar trechos.
+ * Um trecho cuja síntese falha é pulado, sem travar os seguintes.
+ */
+export class SpeechPipeline {
+  private options: SpeechPipelineOptions;
+  private segmenter: SpeechSegmenter;
+  private controller = new AbortController();
+  private now: () => number;
+  private maxConcurrency: number;
+
+  private waiting: { index: number; text: string; speechText: string }[] = [];
+  private ready = new Map<number, { text: string; audio: ArrayBuffer } | null>();
+  private inFlight: number = 0;
+  private nextIndex: number = 0;
+  private nextToDeliver: number = 0;
+  private delivering: boolean = false;
+  private finished: boolean = false;
+  private aborted: boolean = false;
+
+  private metrics: SpeechPipelineMetrics;
+  private resolveDone: ((metrics: SpeechPipelineMetrics) => void) | null = null;
+  private done: Promise<SpeechPipelineMetrics>;
+
+  constructor(options: SpeechPipelineOptions) {
+    this.options = options;
+    this.segmenter = new SpeechSegmenter(options.segmenter);
+    this.now = options.now || (() => Date.now());
+    this.maxConcurrency = Math.max(1, options.maxConcurrency || DEFAULT_TTS_CONCURRENCY);
+
+    this.metrics = {
+      startedAt: options.startedAt ?? this.now(),
+      firstTextAt: null,
+      firstSegmentAt: null,
+      firstAudioAt: null,
+      timeToFirstAudioMs: null,
+      segmentCount: 0,
+      failedSegments: 0,
+      synthesisMs: []
+    };
+    this.done = new Promise(resolve => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  // Recebe mais texto da resposta
+  push(text: string) {
+    if (this.aborted || this.finished || !text) return;
+
+    if (this.metrics.firstTextAt === null) {
+      this.metrics.firstTextAt = this.now();
+    }
+
+    this.segmenter.push(text).forEach(segment => this.enqueue(segment));
+  }
+
+  /**
+   * Marca o fim da resposta. Resolve depois que todos os áudios foram entregues (ou na interrupção),
+   * com as métricas da resposta.
+   */
+  finish(): Promise<SpeechPipelineMetrics> {
+    if (!this.aborted && !this.finished) {
+      this.segmenter.flush().forEach(segment => this.enqueue(segment));
+      this.finished = true;
+      this.checkDone();
+    }
+    return this.done;
+  }
+
+  // Cancela as sínteses em andamento e descarta o que ainda não foi entregue
+  abort() {
+    if (this.aborted) return;
+
+    this.aborted = true;
+    this.controller.abort();
+    this.waiting = [];
+    this.ready.clear();
+    this.resolve();
+  }
+
+  isAborted(): boolean {
+    return this.aborted;
+  }
+
+  // Nada sendo sintetizado nem esperando para ser entregue
+  isIdle(): boolean {
+    return this.inFlight === 0 &&
+      this.waiting.length === 0 &&
+      this.nextToDeliver === this.nextIndex &&
+      !this.delivering;
+  }
+
+  getMetrics(): SpeechPipelineMetrics {
+    return { ...this.metrics, synthesisMs: [...this.metrics.synthesisMs] };
+  }
+
+  private enqueue(text: string) {
+    const speechText = this.options.prepareText ? this.options.prepareText(text) : text;
+    if (!speechText.trim()) return;
+
+    if (this.metrics.firstSegmentAt === null) {
+      this.metrics.firstSegmentAt = this.now();
+    }
+
+    this.metrics.segmentCount++;
+    this.waiting.push({ index: this.nextIndex++, text, speechText });
+    this.pump();
+  }
+
+  private pump() {
+    while (!this.aborted && this.inFlight < this.maxConcurrency && this.waiting.length > 0) {
+      this.synthesize(this.waiting.shift()!);
+    }
+  }
+
+  private async synthesize(segment: { index: number; text: string; speechText: string }) {
+    this.inFlight++;
+    const startedAt = this.now();
+
+    try {
+      const audio = await this.options.synthesize(segment.speechText, this.controller.signal);
+      if (this.aborted) return;
+
+      this.metrics.synthesisMs.push(this.now() - startedAt);
+      this.ready.set(segment.index, { text: segment.text, audio });
+    } catch (error) {
+      if (this.aborted) return;
+
+      this.metrics.failedSegments++;
+      this.ready.set(segment.index, null);
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)), segment.text);
+    } finally {
+      this.inFlight--;
+    }
+
+    this.pump();
+    this.deliver();
+  }
+
+  private async deliver() {
+    if (this.delivering) return;
+    this.delivering = true;
+
+    try {
+      while (!this.aborted && this.ready.has(this.nextToDeliver)) {
+        const index = this.nextToDeliver;
+        const result = this.ready.get(index);
+        this.ready.delete(index);
+        this.nextToDeliver++;
+
+        if (!result) continue;
+
+        if (this.metrics.firstAudioAt === null) {
+          this.metrics.firstAudioAt = this.now();
+          this.metrics.timeToFirstAudioMs = this.metrics.firstAudioAt - this.metrics.startedAt;
+          this.options.onFirstAudio?.(this.getMetrics());
+        }
+
+        try {
+          await this.options.onSegment({ index, text: result.text, audio: result.audio });
+        } catch (error) {
+          this.options.onError?.(error instanceof Error ? error : new Error(String(error)), result.text);
+        }
+      }
+    } finally {
+      this.delivering = false;
+    }
+
+    this.checkDone();
+  }
+
+  private checkDone() {
+    if (this.finished && this.isIdle()) {
+      this.resolve();
+    }
+  }
+
+  private resolve() {
+    const resolve = this.resolveDone;
+    this.resolveDone = null;
+    resolve?.(this.getMetrics());
+  }
+}
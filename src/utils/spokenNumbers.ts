@@ -0,0 +1,317 @@
+
+// Idiomas em que números, valores e datas são escritos por extenso antes da síntese de voz
+export type SpokenLanguage = "pt" | "en" | "es";
+
+export type CurrencyCode = "BRL" | "USD" | "EUR";
+
+interface CurrencyNames {
+  singular: string;
+  plural: string;
+  centSingular: string;
+  centPlural: string;
+}
+
+interface SpokenLanguageData {
+  numberToWords: (n: number) => string;
+  // Forma usada antes de um substantivo ("un euro" em espanhol)
+  beforeNoun: (words: string) => string;
+  formatDate: (day: number, month: number, year: number) => string;
+  monthFirst: (locale: string) => boolean; // Datas no formato mês/dia/ano
+  thousandsSeparator: string;
+  decimalSeparator: string;
+  decimalWord: string;
+  percentWord: string;
+  centsJoin: string; // Liga reais e centavos: "dez reais e cinquenta centavos"
+  millionsOf: string; // "um milhão de reais"
+  dotWord: string;
+  atWord: string;
+  currencies: Record<CurrencyCode, CurrencyNames>;
+}
+
+// Acima disso o número é lido dígito a dígito
+const MAX_SPOKEN_NUMBER = 999999999999;
+
+const PT_UNITS = [
+  "zero", "um", "dois", "três", "quatro", "cinco", "seis", "sete", "oito", "nove", "dez",
+  "onze", "doze", "treze", "quatorze", "quinze", "dezesseis", "dezessete", "dezoito", "dezenove"
+];
+const PT_TENS = ["", "", "vinte", "trinta", "quarenta", "cinquenta", "sessenta", "setenta", "oitenta", "noventa"];
+const PT_HUNDREDS = [
+  "", "cento", "duzentos", "trezentos", "quatrocentos", "quinhentos", "seiscentos", "setecentos", "oitocentos", "novecentos"
+];
+const PT_MONTHS = [
+  "janeiro", "fevereiro", "março", "abril", "maio", "junho",
+  "julho", "agosto", "setembro", "outubro", "novembro", "dezembro"
+];
+const PT_SCALES: [number, string, string][] = [
+  [1e9, "bilhão", "bilhões"],
+  [1e6, "milhão", "milhões"],
+  [1e3, "mil", "mil"]
+];
+
+const ptBelowThousand = (n: number): string => {
+  if (n === 100) return "cem";
+
+  const parts: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds) parts.push(PT_HUNDREDS[hundreds]);
+  if (rest) {
+    parts.push(rest < 20
+      ? PT_UNITS[rest]
+      : [PT_TENS[Math.floor(rest / 10)], rest % 10 ? PT_UNITS[rest % 10] : ""].filter(Boolean).join(" e "));
+  }
+  return parts.join(" e ");
+};
+
+const ptNumber = (n: number): string => {
+  if (n === 0) return PT_UNITS[0];
+
+  const groups: string[] = [];
+  let rest = n;
+  for (const [value, singular, plural] of PT_SCALES) {
+    const count = Math.floor(rest / value);
+    if (count) {
+      groups.push(value === 1e3 && count === 1 ? "mil" : `${ptBelowThousand(count)} ${count === 1 ? singular : plural}`);
+      rest %= value;
+    }
+  }
+  if (rest) groups.push(ptBelowThousand(rest));
+
+  // "e" antes do último grupo quando ele é menor que cem ou uma centena redonda: "mil e cem", "dois mil e vinte"
+  if (groups.length > 1 && rest && (rest < 100 || rest % 100 === 0)) {
+    const last = groups.pop();
+    return `${groups.join(" ")} e ${last}`;
+  }
+  return groups.join(" ");
+};
+
+const EN_UNITS = [
+  "zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine", "ten",
+  "eleven", "twelve", "thirteen", "fourteen", "fifteen", "sixteen", "seventeen", "eighteen", "nineteen"
+];
+const EN_TENS = ["", "", "twenty", "thirty", "forty", "fifty", "sixty", "seventy", "eighty", "ninety"];
+const EN_MONTHS = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December"
+];
+const EN_SCALES: [number, string][] = [[1e9, "billion"], [1e6, "million"], [1e3, "thousand"]];
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: "first", two: "second", three: "third", five: "fifth", eight: "eighth", nine: "ninth", twelve: "twelfth"
+};
+
+const enBelowThousand = (n: number): string => {
+  const parts: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds) parts.push(`${EN_UNITS[hundreds]} hundred`);
+  if (rest) {
+    parts.push(rest < 20
+      ? EN_UNITS[rest]
+      : EN_TENS[Math.floor(rest / 10)] + (rest % 10 ? `-${EN_UNITS[rest % 10]}` : ""));
+  }
+  return parts.join(" ");
+};
+
+const enNumber = (n: number): string => {
+  if (n === 0) return EN_UNITS[0];
+
+  const groups: string[] = [];
+  let rest = n;
+  for (const [value, name] of EN_SCALES) {
+    const count = Math.floor(rest / value);
+    if (count) {
+      groups.push(`${enBelowThousand(count)} ${name}`);
+      rest %= value;
+    }
+  }
+  if (rest) groups.push(enBelowThousand(rest));
+  return groups.join(" ");
+};
+
+// "twenty-one" -> "twenty-first"
+const enOrdinal = (words: string): string => {
+  const match = words.match(/^(.*?)([a-z]+)$/);
+  if (!match) return words;
+
+  const [, prefix, last] = match;
+  if (EN_IRREGULAR_ORDINALS[last]) return prefix + EN_IRREGULAR_ORDINALS[last];
+  if (last.endsWith("y")) return `${prefix}${last.slice(0, -1)}ieth`;
+  return `${prefix}${last}th`;
+};
+
+// Anos são lidos em pares: 1999 "nineteen ninety-nine", 2026 "twenty twenty-six", 2005 "two thousand five"
+const enYear = (year: number): string => {
+  if (year < 1100 || year >= 10000 || year % 1000 < 10) return enNumber(year);
+
+  const century = Math.floor(year / 100);
+  const rest = year % 100;
+  if (rest === 0) return `${enNumber(century)} hundred`;
+  return `${enNumber(century)} ${rest < 10 ? `oh ${EN_UNITS[rest]}` : enNumber(rest)}`;
+};
+
+const ES_UNITS = [
+  "cero", "uno", "dos", "tres", "cuatro", "cinco", "seis", "siete", "ocho", "nueve", "diez",
+  "once", "doce", "trece", "catorce", "quince", "dieciséis", "diecisiete", "dieciocho", "diecinueve",
+  "veinte", "veintiuno", "veintidós", "veintitrés", "veinticuatro", "veinticinco", "veintiséis",
+  "veintisiete", "veintiocho", "veintinueve"
+];
+const ES_TENS = ["", "", "", "treinta", "cuarenta", "cincuenta", "sesenta", "setenta", "ochenta", "noventa"];
+const ES_HUNDREDS = [
+  "", "ciento", "doscientos", "trescientos", "cuatrocientos", "quinientos", "seiscientos", "setecientos", "ochocientos", "novecientos"
+];
+const ES_MONTHS = [
+  "enero", "febrero", "marzo", "abril", "mayo", "junio",
+  "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre"
+];
+
+// "uno" vira "un" antes de substantivos e de "mil"/"millones": "veintiún euros", "un millón"
+const esApocope = (words: string): string => words.replace(/veintiuno$/, "veintiún").replace(/uno$/, "un");
+
+const esBelowThousand = (n: number): string => {
+  if (n === 100) return "cien";
+
+  const parts: string[] = [];
+  const hundreds = Math.floor(n / 100);
+  const rest = n % 100;
+  if (hundreds) parts.push(ES_HUNDREDS[hundreds]);
+  if (rest) {
+    parts.push(rest < 30
+      ? ES_UNITS[rest]
+      : ES_TENS[Math.floor(rest / 10)] + (rest % 10 ? ` y ${ES_UNITS[rest % 10]}` : ""));
+  }
+  return parts.join(" ");
+};
+
+// Em espanhol, mil milhões ainda são "millones": 1.500.000.000 é "mil quinientos millones"
+const esNumber = (n: number): string => {
+  if (n === 0) return ES_UNITS[0];
+
+  const groups: string[] = [];
+  const millions = Math.floor(n / 1e6);
+  const thousands = Math.floor((n % 1e6) / 1e3);
+  const rest = n % 1e3;
+
+  if (millions) {
+    groups.push(millions === 1 ? "un millón" : `${esApocope(esNumber(millions))} millones`);
+  }
+  if (thousands) {
+    groups.push(thousands === 1 ? "mil" : `${esApocope(esBelowThousand(thousands))} mil`);
+  }
+  if (rest) groups.push(esBelowThousand(rest));
+  return groups.join(" ");
+};
+
+const SPOKEN_LANGUAGES: Record<SpokenLanguage, SpokenLanguageData> = {
+  pt: {
+    numberToWords: ptNumber,
+    beforeNoun: (words) => words,
+    formatDate: (day, month, year) =>
+      `${day === 1 ? "primeiro" : ptNumber(day)} de ${PT_MONTHS[month - 1]} de ${ptNumber(year)}`,
+    monthFirst: () => false,
+    thousandsSeparator: ".",
+    decimalSeparator: ",",
+    decimalWord: "vírgula",
+    percentWord: "por cento",
+    centsJoin: "e",
+    millionsOf: "de",
+    dotWord: "ponto",
+    atWord: "arroba",
+    currencies: {
+      BRL: { singular: "real", plural: "reais", centSingular: "centavo", centPlural: "centavos" },
+      USD: { singular: "dólar", plural: "dólares", centSingular: "centavo", centPlural: "centavos" },
+      EUR: { singular: "euro", plural: "euros", centSingular: "cêntimo", centPlural: "cêntimos" }
+    }
+  },
+  en: {
+    numberToWords: enNumber,
+    beforeNoun: (words) => words,
+    formatDate: (day, month, year) => `${EN_MONTHS[month - 1]} ${enOrdinal(enNumber(day))}, ${enYear(year)}`,
+    monthFirst: (locale) => !/^en-(GB|IE|AU|NZ|IN|ZA)$/i.test(locale),
+    thousandsSeparator: ",",
+    decimalSeparator: ".",
+    decimalWord: "point",
+    percentWord: "percent",
+    centsJoin: "and",
+    millionsOf: "",
+    dotWord: "dot",
+    atWord: "at",
+    currencies: {
+      BRL: { singular: "real", plural: "reais", centSingular: "centavo", centPlural: "centavos" },
+      USD: { singular: "dollar", plural: "dollars", centSingular: "cent", centPlural: "cents" },
+      EUR: { singular: "euro", plural: "euros", centSingular: "cent", centPlural: "cents" }
+    }
+  },
+  es: {
+    numberToWords: esNumber,
+    beforeNoun: esApocope,
+    formatDate: (day, month, year) => `${esNumber(day)} de ${ES_MONTHS[month - 1]} de ${esNumber(year)}`,
+    monthFirst: () => false,
+    thousandsSeparator: ".",
+    decimalSeparator: ",",
+    decimalWord: "coma",
+    percentWord: "por ciento",
+    centsJoin: "con",
+    millionsOf: "de",
+    dotWord: "punto",
+    atWord: "arroba",
+    currencies: {
+      BRL: { singular: "real", plural: "reales", centSingular: "centavo", centPlural: "centavos" },
+      USD: { singular: "dólar", plural: "dólares", centSingular: "centavo", centPlural: "centavos" },
+      EUR: { singular: "euro", plural: "euros", centSingular: "céntimo", centPlural: "céntimos" }
+    }
+  }
+};
+
+export const getSpokenLanguage = (language: SpokenLanguage): SpokenLanguageData => SPOKEN_LANGUAGES[language];
+
+export const isSpokenLanguage = (language?: string): language is SpokenLanguage =>
+  !!language && language in SPOKEN_LANGUAGES;
+
+// Lê cada dígito separadamente: "0800" -> "zero oito zero zero"
+export const digitsToWords = (digits: string, language: SpokenLanguage): string => {
+  const { numberToWords } = SPOKEN_LANGUAGES[language];
+  return digits.split("").filter(char => /\d/.test(char)).map(char => numberToWords(Number(char))).join(" ");
+};
+
+export const numberToWords = (n: number, language: SpokenLanguage): string => {
+  if (!Number.isInteger(n) || n < 0 || n > MAX_SPOKEN_NUMBER) {
+    return digitsToWords(String(n), language);
+  }
+  return SPOKEN_LANGUAGES[language].numberToWords(n);
+};
+
+// Parte decimal: "5" -> "cinco", "05" e "125" -> dígito a dígito
+export const decimalToWords = (integer: number, fraction: string, language: SpokenLanguage): string => {
+  const { decimalWord } = SPOKEN_LANGUAGES[language];
+  const fractionWords = fraction.length <= 2 && !fraction.startsWith("0")
+    ? numberToWords(Number(fraction), language)
+    : digitsToWords(fraction, language);
+  return `${numberToWords(integer, language)} ${decimalWord} ${fractionWords}`;
+};
+
+export const currencyToWords = (
+  integer: number,
+  cents: number,
+  currency: CurrencyCode,
+  language: SpokenLanguage
+): string => {
+  const data = SPOKEN_LANGUAGES[language];
+  const names = data.currencies[currency];
+  const parts: string[] = [];
+
+  if (integer > 0 || cents === 0) {
+    const words = data.beforeNoun(numberToWords(integer, language));
+    const of = data.millionsOf && integer >= 1e6 && integer % 1e6 === 0 ? ` ${data.millionsOf}` : "";
+    parts.push(`${words}${of} ${integer === 1 ? names.singular : names.plural}`);
+  }
+  if (cents > 0) {
+    const words = data.beforeNoun(numberToWords(cents, language));
+    parts.push(`${words} ${cents === 1 ? names.centSingular : names.centPlural}`);
+  }
+
+  return parts.join(` ${data.centsJoin} `);
+};
+
+export const dateToWords = (day: number, month: number, year: number, language: SpokenLanguage): string =>
+  SPOKEN_LANGUAGES[language].formatDate(day, month, year);
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { analyzePcm, DEFAULT_VAD_CONFIG, pcm16ToFloat32, VadFrameResult } from "./vad";
+import { concat, FIXTURE_SAMPLE_RATE, mix, tone, voicedSpeech, whiteNoise } from "@/test/fixtures/pcm";
+
+const FRAME_MS = DEFAULT_VAD_CONFIG.frameDurationMs;
+const CALIBRATION_MS = 300;
+
+// Ruído de fundo baixo (cerca de -55 dB), como o de um ambiente silencioso
+const background = (durationMs: number, seed: number, sampleRate = FIXTURE_SAMPLE_RATE) =>
+  whiteNoise(durationMs, 0.003, sampleRate, seed);
+
+const analyze = (pcm: Int16Array, calibrationMs = CALIBRATION_MS, sampleRate = FIXTURE_SAMPLE_RATE) =>
+  analyzePcm(pcm16ToFloat32(pcm), { sampleRate }, calibrationMs);
+
+// Trechos contínuos de fala, em milissegundos a partir do início da gravação
+const speechSegments = (frames: VadFrameResult[]) => {
+  const segments: { startMs: number; endMs: number }[] = [];
+  frames.forEach((frame, index) => {
+    const last = segments[segments.length - 1];
+    if (!frame.isSpeech) return;
+    if (last && last.endMs === index * FRAME_MS) {
+      last.endMs += FRAME_MS;
+    } else {
+      segments.push({ startMs: index * FRAME_MS, endMs: (index + 1) * FRAME_MS });
+    }
+  });
+  return segments;
+};
+
+describe("pcm16ToFloat32", () => {
+  it("scales 16-bit samples to the -1..1 range", () => {
+    const samples = pcm16ToFloat32(Int16Array.from([0, 16384, -16384, 32767, -32768]));
+
+    expect(samples).toBeInstanceOf(Float32Array);
+    expect(Array.from(samples)).toEqual([0, 0.5, -0.5, 32767 / 32768, -1]);
+  });
+
+  it("keeps the length of the recording", () => {
+    expect(pcm16ToFloat32(new Int16Array(0)).length).toBe(0);
+    expect(pcm16ToFloat32(background(100, 1)).length).toBe(1600);
+  });
+});
+
+describe("analyzePcm", () => {
+  it("returns one result per complete frame", () => {
+    // 1010 ms: os 10 ms finais não completam um quadro de 20 ms
+    expect(analyze(background(1010, 1), 0)).toHaveLength(50);
+  });
+
+  it("marks the calibration frames and learns the noise floor from them", () => {
+    const noisy = (durationMs: number, seed: number) => whiteNoise(durationMs, 0.03, FIXTURE_SAMPLE_RATE, seed);
+    const frames = analyze(concat(noisy(1000, 5), mix(voicedSpeech(600, 0.3), noisy(600, 6))), 500);
+
+    // O quadro que completa os 500 ms já sai da calibração
+    expect(frames.slice(0, 24).every(frame => frame.calibrating && frame.probability === 0)).toBe(true);
+    expect(frames[24].calibrating).toBe(false);
+    expect(frames[24].noiseFloorDb).toBeGreaterThan(-37);
+    expect(frames[24].noiseFloorDb).toBeLessThan(-34);
+
+    expect(speechSegments(frames)).toEqual([{ startMs: 1040, endMs: 1600 }]);
+  });
+
+  it("does not detect speech in background noise", () => {
+    const frames = analyze(background(1000, 1));
+    expect(frames.some(frame => frame.isSpeech)).toBe(false);
+  });
+
+  it("detects speech after minSpeechDurationMs and holds it for hangoverMs", () => {
+    const frames = analyze(concat(background(500, 1), mix(voicedSpeech(800, 0.3), background(800, 2)), background(800, 3)));
+    const [segment, ...others] = speechSegments(frames);
+
+    expect(others).toEqual([]);
+    // A fala começa em 500 ms e termina em 1300 ms
+    expect(segment.startMs).toBe(500 + DEFAULT_VAD_CONFIG.minSpeechDurationMs - FRAME_MS);
+    expect(segment.endMs).toBeGreaterThanOrEqual(1300 + DEFAULT_VAD_CONFIG.hangoverMs - FRAME_MS);
+    expect(segment.endMs).toBeLessThanOrEqual(1300 + DEFAULT_VAD_CONFIG.hangoverMs + FRAME_MS);
+
+    const speechFrames = frames.slice(30, 60);
+    expect(speechFrames.every(frame => frame.probability >= DEFAULT_VAD_CONFIG.speechThreshold)).toBe(true);
+    expect(speechFrames.every(frame => frame.zeroCrossingRate > DEFAULT_VAD_CONFIG.minSpeechZcr && frame.zeroCrossingRate < DEFAULT_VAD_CONFIG.maxSpeechZcr)).toBe(true);
+  });
+
+  it("bridges pauses shorter than the hangover and ends the turn on longer ones", () => {
+    const frames = analyze(concat(
+      background(500, 1),
+      voicedSpeech(400, 0.3),
+      background(150, 2),
+      voicedSpeech(400, 0.3),
+      background(500, 3),
+      voicedSpeech(300, 0.3),
+      background(500, 4)
+    ));
+
+    const segments = speechSegments(frames);
+    expect(segments).toHaveLength(2);
+    expect(segments[0].startMs).toBeLessThan(600);
+    expect(segments[0].endMs).toBeGreaterThan(1450);
+    expect(segments[1].startMs).toBeGreaterThan(1950);
+  });
+
+  it("rejects mains hum and broadband noise even when loud", () => {
+    const hum = analyze(tone(1000, 50, 0.5), 0);
+    expect(hum.some(frame => frame.isSpeech)).toBe(false);
+    expect(hum.every(frame => frame.zeroCrossingRate < DEFAULT_VAD_CONFIG.minSpeechZcr)).toBe(true);
+
+    const noise = analyze(whiteNoise(1000, 0.5), 0);
+    expect(noise.some(frame => frame.isSpeech)).toBe(false);
+    expect(noise[10].zeroCrossingRate).toBeGreaterThan(DEFAULT_VAD_CONFIG.maxSpeechZcr);
+  });
+
+  it("uses the real sample rate for frame size and zero crossings", () => {
+    const sampleRate = 48000;
+    const frames = analyze(
+      concat(background(500, 1, sampleRate), voicedSpeech(600, 0.3, sampleRate), background(600, 2, sampleRate)),
+      CALIBRATION_MS,
+      sampleRate
+    );
+
+    expect(frames).toHaveLength(85);
+    const [segment] = speechSegments(frames);
+    expect(segment.startMs).toBe(500 + DEFAULT_VAD_CONFIG.minSpeechDurationMs - FRAME_MS);
+    expect(frames[40].zeroCrossingRate).toBeLessThan(DEFAULT_VAD_CONFIG.maxSpeechZcr);
+  });
+});
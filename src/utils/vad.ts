@@ -0,0 +1,273 @@
+
+export interface VadConfig {
+  sampleRate: number;
+  frameDurationMs: number; // Duração de cada quadro de análise
+  speechThreshold: number; // Probabilidade (0-1) a partir da qual o quadro conta como fala
+  snrThresholdDb: number; // Relação sinal/ruído com probabilidade 0,5
+  snrSlopeDb: number; // Quanto menor, mais abrupta a transição entre ruído e fala
+  minSpeechZcr: number; // Cruzamentos por zero por segundo; abaixo disso é zumbido (rede elétrica, ventilador)
+  maxSpeechZcr: number; // Acima disso o quadro parece ruído de banda larga, não voz
+  minSpeechDurationMs: number; // Fala contínua necessária para entrar no estado de fala
+  hangoverMs: number; // Tempo que o estado de fala se mantém depois que a probabilidade cai
+  noiseFallTimeMs: number; // Constante de tempo para o piso de ruído baixar
+  noiseRiseTimeMs: number; // Constante de tempo para o piso de ruído subir fora da fala
+  noiseRiseDuringSpeechMs: number; // Subida durante a fala, para acompanhar um ruído que aumentou de vez
+  initialNoiseFloorDb: number;
+  minNoiseFloorDb: number;
+}
+
+export interface VadFrameResult {
+  probability: number;
+  isSpeech: boolean;
+  energyDb: number;
+  zeroCrossingRate: number; // Cruzamentos por zero por segundo
+  noiseFloorDb: number;
+  calibrating: boolean;
+}
+
+export const DEFAULT_VAD_CONFIG: Omit<VadConfig, "sampleRate"> = {
+  frameDurationMs: 20,
+  speechThreshold: 0.5,
+  snrThresholdDb: 9,
+  snrSlopeDb: 2.5,
+  minSpeechZcr: 150,
+  maxSpeechZcr: 4500,
+  minSpeechDurationMs: 60,
+  hangoverMs: 250,
+  noiseFallTimeMs: 100,
+  noiseRiseTimeMs: 2000,
+  noiseRiseDuringSpeechMs: 15000,
+  initialNoiseFloorDb: -60,
+  minNoiseFloorDb: -90
+};
+
+// Na calibração o usuário pode começar a falar antes do fim; um percentil baixo ignora esses quadros
+const CALIBRATION_PERCENTILE = 0.25;
+const SILENT_ENERGY_DB = -100;
+
+export const frameEnergyDb = (frame: Float32Array): number => {
+  if (frame.length === 0) return SILENT_ENERGY_DB;
+
+  let sumSquares = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sumSquares += frame[i] * frame[i];
+  }
+
+  const rms = Math.sqrt(sumSquares / frame.length);
+  return Math.max(SILENT_ENERGY_DB, 20 * Math.log10(rms + 1e-10));
+};
+
+// Cruzamentos por zero por segundo, calculados a partir da taxa de amostragem real
+export const zeroCrossingRate = (frame: Float32Array, sampleRate: number): number => {
+  if (frame.length < 2) return 0;
+
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) {
+      crossings++;
+    }
+  }
+
+  return crossings * sampleRate / (frame.length - 1);
+};
+
+// Fator de suavização equivalente a uma constante de tempo, independente do tamanho do quadro
+const smoothingFactor = (frameMs: number, timeConstantMs: number) => 1 - Math.exp(-frameMs / timeConstantMs);
+
+/**
+ * Detector de atividade de voz: recebe quadros PCM (Float32, -1 a 1) e devolve a probabilidade de fala.
+ * Combina a energia do quadro em relação a um piso de ruído adaptativo com a taxa de cruzamentos por zero,
+ * e mantém o estado de fala por um tempo (hangover) para não cortar pausas curtas entre palavras.
+ * Não depende da Web Audio API, então pode ser exercitado com gravações PCM fora do navegador.
+ */
+export class VoiceActivityDetector {
+  private config: VadConfig;
+  private noiseFloorDb: number;
+  private inSpeech: boolean = false;
+  private speechRunMs: number = 0;
+  private hangoverRemainingMs: number = 0;
+  private calibrationRemainingMs: number = 0;
+  private calibrationEnergies: number[] = [];
+
+  constructor(config: Partial<VadConfig> & { sampleRate: number }) {
+    this.config = { ...DEFAULT_VAD_CONFIG, ...config };
+    this.noiseFloorDb = this.config.initialNoiseFloorDb;
+  }
+
+  get sampleRate(): number {
+    return this.config.sampleRate;
+  }
+
+  // Quantidade de amostras de um quadro na taxa de amostragem configurada
+  get frameSize(): number {
+    return Math.round(this.config.sampleRate * this.config.frameDurationMs / 1000);
+  }
+
+  /**
+   * Trata os próximos `durationMs` de áudio como ruído de fundo para estimar o piso de ruído.
+   * Deve ser chamada no início da chamada, antes de o usuário falar.
+   */
+  startCalibration(durationMs: number) {
+    this.calibrationRemainingMs = durationMs;
+    this.calibrationEnergies = [];
+    this.inSpeech = false;
+    this.speechRunMs = 0;
+    this.hangoverRemainingMs = 0;
+  }
+
+  isCalibrating(): boolean {
+    return this.calibrationRemainingMs > 0;
+  }
+
+  getNoiseFloorDb(): number {
+    return this.noiseFloorDb;
+  }
+
+  // Volta ao estado sem fala, mantendo o piso de ruído já aprendido
+  resetState() {
+    this.inSpeech = false;
+    this.speechRunMs = 0;
+    this.hangoverRemainingMs = 0;
+  }
+
+  reset() {
+    this.resetState();
+    this.noiseFloorDb = this.config.initialNoiseFloorDb;
+    this.calibrationRemainingMs = 0;
+    this.calibrationEnergies = [];
+  }
+
+  processFrame(frame: Float32Array): VadFrameResult {
+    const { sampleRate } = this.config;
+    const frameMs = frame.length * 1000 / sampleRate;
+    const energyDb = frameEnergyDb(frame);
+    const zcr = zeroCrossingRate(frame, sampleRate);
+
+    if (this.calibrationRemainingMs > 0) {
+      this.calibrate(energyDb, frameMs);
+      return {
+        probability: 0,
+        isSpeech: false,
+        energyDb,
+        zeroCrossingRate: zcr,
+        noiseFloorDb: this.noiseFloorDb,
+        calibrating: this.calibrationRemainingMs > 0
+      };
+    }
+
+    const probability = this.speechProbability(energyDb, zcr);
+    this.updateSpeechState(probability, frameMs);
+    this.updateNoiseFloor(energyDb, frameMs);
+
+    return {
+      probability,
+      isSpeech: this.inSpeech,
+      energyDb,
+      zeroCrossingRate: zcr,
+      noiseFloorDb: this.noiseFloorDb,
+      calibrating: false
+    };
+  }
+
+  private calibrate(energyDb: number, frameMs: number) {
+    this.calibrationEnergies.push(energyDb);
+    this.calibrationRemainingMs -= frameMs;
+
+    if (this.calibrationRemainingMs <= 0) {
+      const sorted = [...this.calibrationEnergies].sort((a, b) => a - b);
+      const index = Math.floor((sorted.length - 1) * CALIBRATION_PERCENTILE);
+      this.noiseFloorDb = Math.max(this.config.minNoiseFloorDb, sorted[index]);
+      this.calibrationRemainingMs = 0;
+      this.calibrationEnergies = [];
+    }
+  }
+
+  private speechProbability(energyDb: number, zcr: number): number {
+    const { snrThresholdDb, snrSlopeDb, minSpeechZcr, maxSpeechZcr } = this.config;
+
+    const snr = energyDb - this.noiseFloorDb;
+    const energyScore = 1 / (1 + Math.exp(-(snr - snrThresholdDb) / snrSlopeDb));
+
+    // Fora da faixa típica da voz a probabilidade cai, mas fricativas ("s", "f") ainda passam com energia alta
+    let zcrScore = 1;
+    if (zcr > maxSpeechZcr) {
+      zcrScore = Math.pow(maxSpeechZcr / zcr, 2);
+    } else if (zcr < minSpeechZcr) {
+      zcrScore = Math.pow(zcr / minSpeechZcr, 2);
+    }
+
+    return energyScore * zcrScore;
+  }
+
+  private updateSpeechState(probability: number, frameMs: number) {
+    const { speechThreshold, minSpeechDurationMs, hangoverMs } = this.config;
+
+    if (probability >= speechThreshold) {
+      this.speechRunMs += frameMs;
+      if (this.speechRunMs >= minSpeechDurationMs) {
+        this.inSpeech = true;
+      }
+      if (this.inSpeech) {
+        this.hangoverRemainingMs = hangoverMs;
+      }
+      return;
+    }
+
+    this.speechRunMs = 0;
+    if (this.inSpeech) {
+      this.hangoverRemainingMs -= frameMs;
+      if (this.hangoverRemainingMs <= 0) {
+        this.inSpeech = false;
+        this.hangoverRemainingMs = 0;
+      }
+    }
+  }
+
+  private updateNoiseFloor(energyDb: number, frameMs: number) {
+    const { noiseFallTimeMs, noiseRiseTimeMs, noiseRiseDuringSpeechMs, minNoiseFloorDb } = this.config;
+
+    let timeConstantMs: number;
+    if (energyDb < this.noiseFloorDb) {
+      timeConstantMs = noiseFallTimeMs;
+    } else if (this.inSpeech || this.speechRunMs > 0) {
+      timeConstantMs = noiseRiseDuringSpeechMs;
+    } else {
+      timeConstantMs = noiseRiseTimeMs;
+    }
+
+    const alpha = smoothingFactor(frameMs, timeConstantMs);
+    this.noiseFloorDb = Math.max(minNoiseFloorDb, this.noiseFloorDb + (energyDb - this.noiseFloorDb) * alpha);
+  }
+}
+
+// Converte PCM de 16 bits (como o de um arquivo WAV) para Float32 entre -1 e 1
+export const pcm16ToFloat32 = (pcm: Int16Array): Float32Array => {
+  const samples = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) {
+    samples[i] = pcm[i] / 32768;
+  }
+  return samples;
+};
+
+/**
+ * Analisa uma gravação PCM inteira, quadro a quadro, como o detector faria ao vivo.
+ * Útil para avaliar o detector com gravações de referência fora do navegador.
+ */
+export const analyzePcm = (
+  samples: Float32Array,
+  config: Partial<VadConfig> & { sampleRate: number },
+  calibrationMs: number = 0
+): VadFrameResult[] => {
+  const vad = new VoiceActivityDetector(config);
+  if (calibrationMs > 0) {
+    vad.startCalibration(calibrationMs);
+  }
+
+  const frameSize = vad.frameSize;
+  const results: VadFrameResult[] = [];
+  for (let start = 0; start + frameSize <= samples.length; start += frameSize) {
+    results.push(vad.processFrame(samples.subarray(start, start + frameSize)));
+  }
+
+  return results;
+};